@@ -7,13 +7,23 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import EmployeeDashboard from "@/pages/employee-dashboard";
 import HostDashboard from "@/pages/host-dashboard";
+import HostSettings from "@/pages/host-settings";
+import HostPayroll from "@/pages/host-payroll";
+import HostAlerts from "@/pages/host-alerts";
+import AuthPage from "@/pages/auth-page";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
-      <Route path="/employee" component={EmployeeDashboard} />
-      <Route path="/host" component={HostDashboard} />
+      <Route path="/login" component={AuthPage} />
+      <ProtectedRoute path="/employee" component={EmployeeDashboard} roles={["employee"]} />
+      <ProtectedRoute path="/host" component={HostDashboard} roles={["host", "admin"]} />
+      <ProtectedRoute path="/host/payroll" component={HostPayroll} roles={["host", "admin"]} />
+      <ProtectedRoute path="/host/alerts" component={HostAlerts} roles={["host", "admin"]} />
+      <ProtectedRoute path="/host/settings" component={HostSettings} roles={["host", "admin"]} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -23,10 +33,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
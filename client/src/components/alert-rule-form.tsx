@@ -0,0 +1,220 @@
+import { useEffect, useId, useState } from "react";
+import {
+  Team,
+  AlertRuleSettings,
+  AlertRuleKindType,
+  AlertSeverityType,
+  BehaviorStatusType,
+  alertRuleSettingsSchema,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AlertRuleFormProps {
+  rule: AlertRuleSettings;
+  teams: Team[];
+  // Only admins may pick the whole organization
+  allowOrganization?: boolean;
+  saving?: boolean;
+  onSave: (rule: AlertRuleSettings) => void;
+  onCancel?: () => void;
+}
+
+const KIND_LABELS: Record<AlertRuleKindType, string> = {
+  status_duration: "In a status for too long",
+  status_share: "In a status for too much of a window",
+  heartbeat_lost: "Dashboard stopped sending heartbeats",
+};
+
+const STATUSES: BehaviorStatusType[] = ["idle", "sleeping", "moving", "inactive", "working"];
+const SEVERITIES: AlertSeverityType[] = ["info", "warning", "critical"];
+
+const FIELD_LABELS: Partial<Record<keyof AlertRuleSettings, string>> = {
+  name: "Name",
+  minutes: "Minutes",
+  percent: "Share",
+};
+
+/**
+ * Editor for one alert rule
+ */
+export default function AlertRuleForm({ rule, teams, allowOrganization = false, saving = false, onSave, onCancel }: AlertRuleFormProps) {
+  const [draft, setDraft] = useState(rule);
+  const [error, setError] = useState("");
+  const formId = useId();
+
+  // Start over when another rule is being edited
+  const savedRule = JSON.stringify(rule);
+  useEffect(() => {
+    setDraft(JSON.parse(savedRule));
+    setError("");
+  }, [savedRule]);
+
+  const update = <Key extends keyof AlertRuleSettings>(key: Key, value: AlertRuleSettings[Key]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    if (error) setError("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Drop the fields the kind of rule doesn't use
+    const parsed = alertRuleSettingsSchema.safeParse({
+      ...draft,
+      status: draft.kind === "heartbeat_lost" ? null : draft.status,
+      percent: draft.kind === "status_share" ? draft.percent : null,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const field = FIELD_LABELS[issue.path[0] as keyof AlertRuleSettings];
+      setError(field ? `${field}: ${issue.message}` : issue.message);
+      return;
+    }
+
+    onSave(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-name`} className="text-sm text-gray-600">Name</Label>
+          <Input
+            id={`${formId}-name`}
+            value={draft.name}
+            placeholder="e.g. Asleep at the desk"
+            onChange={e => update("name", e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm text-gray-600">Applies to</Label>
+          <Select
+            value={draft.teamId === null ? "organization" : String(draft.teamId)}
+            onValueChange={value => update("teamId", value === "organization" ? null : parseInt(value))}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Pick a team" />
+            </SelectTrigger>
+            <SelectContent>
+              {allowOrganization && <SelectItem value="organization">Everyone in the organization</SelectItem>}
+              {teams.map(team => (
+                <SelectItem key={team.id} value={String(team.id)}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm text-gray-600">Alert when an employee is</Label>
+          <Select
+            value={draft.kind}
+            onValueChange={value => update("kind", value as AlertRuleKindType)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KIND_LABELS) as AlertRuleKindType[]).map(kind => (
+                <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.kind !== "heartbeat_lost" && (
+          <div className="space-y-1">
+            <Label className="text-sm text-gray-600">Status</Label>
+            <Select
+              value={draft.status ?? ""}
+              onValueChange={value => update("status", value as BehaviorStatusType)}
+            >
+              <SelectTrigger className="capitalize">
+                <SelectValue placeholder="Pick a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUSES.map(status => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-minutes`} className="text-sm text-gray-600">
+            {draft.kind === "status_share" ? "Over the last" : "For more than"}
+          </Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id={`${formId}-minutes`}
+              type="number"
+              className="w-28"
+              value={Number.isNaN(draft.minutes) ? "" : draft.minutes}
+              onChange={e => update("minutes", e.target.valueAsNumber)}
+            />
+            <span className="text-sm text-gray-500">minutes</span>
+          </div>
+        </div>
+
+        {draft.kind === "status_share" && (
+          <div className="space-y-1">
+            <Label htmlFor={`${formId}-percent`} className="text-sm text-gray-600">More than</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id={`${formId}-percent`}
+                type="number"
+                className="w-28"
+                value={draft.percent === null || Number.isNaN(draft.percent) ? "" : draft.percent}
+                onChange={e => update("percent", e.target.valueAsNumber)}
+              />
+              <span className="text-sm text-gray-500">% of the time</span>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-sm text-gray-600">Severity</Label>
+          <Select
+            value={draft.severity}
+            onValueChange={value => update("severity", value as AlertSeverityType)}
+          >
+            <SelectTrigger className="w-40 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEVERITIES.map(severity => (
+                <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Switch
+            id={`${formId}-enabled`}
+            checked={draft.enabled}
+            onCheckedChange={checked => update("enabled", checked)}
+          />
+          <Label htmlFor={`${formId}-enabled`} className="text-sm text-gray-600">Enabled</Label>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex space-x-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save rule"}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
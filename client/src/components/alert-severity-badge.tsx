@@ -0,0 +1,17 @@
+import { AlertSeverityType } from "@shared/schema";
+
+const STYLES: Record<AlertSeverityType, string> = {
+  info: "bg-blue-100 text-blue-800",
+  warning: "bg-amber-100 text-amber-800",
+  critical: "bg-red-100 text-red-800",
+};
+
+/**
+ * Pill showing how urgent an alert or rule is
+ */
+export default function AlertSeverityBadge({ severity }: { severity: string }) {
+  const style = STYLES[severity as AlertSeverityType] ?? STYLES.warning;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${style}`}>{severity}</span>
+  );
+}
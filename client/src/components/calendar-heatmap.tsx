@@ -1,103 +1,33 @@
-import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { format, addDays, startOfWeek, subDays, isToday, isSameDay } from "date-fns";
-import { Employee, BehaviorLog } from "@shared/schema";
+import { format, addDays, startOfWeek, subDays, parseISO } from "date-fns";
+import { AbsenceReport, TimeAccountingReport } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime, dashboardTopic } from "@/lib/realtime";
 
-// Simulated day for demo purposes (1 day = 10 minutes)
-const SIMULATION_FACTOR = 10 * 60 * 1000; // 10 minutes in milliseconds
+type DayStatus = "active" | "medium" | "idle" | "absent" | "future";
 
-// Returns current date, but for demo purposes, 1 day represents 10 minutes
-const getSimulatedDate = (): Date => {
-  const now = new Date();
-  const realTimeElapsed = now.getTime() - new Date().setHours(0, 0, 0, 0);
-  const simulatedDays = Math.floor(realTimeElapsed / SIMULATION_FACTOR);
-  return addDays(new Date().setHours(0, 0, 0, 0), simulatedDays);
-};
-
-// Helper function to get day status based on behavior logs with enhanced accuracy
-const getDayStatus = (
-  logs: BehaviorLog[],
-  date: Date
-): "active" | "medium" | "idle" | "absent" | "future" => {
-  // For future dates
-  if (date > getSimulatedDate()) {
+// Level of a day from the tracked time of every employee in view
+const getDayStatus = (reports: TimeAccountingReport[], day: string, today: string): DayStatus => {
+  if (day > today) {
     return "future";
   }
 
-  // Filter logs for the specific date
-  const dayLogs = logs.filter(log => {
-    const logDate = new Date(log.timestamp);
-    return isSameDay(logDate, date);
+  let productiveSeconds = 0;
+  let trackedSeconds = 0;
+  reports.forEach(report => {
+    const totals = report.days.find(candidate => candidate.date === day);
+    if (!totals) return;
+    productiveSeconds += totals.totals.working + totals.totals.moving;
+    trackedSeconds += totals.trackedSeconds;
   });
 
-  if (dayLogs.length === 0) {
-    return "absent";
-  }
-
-  // Group logs by employee for more accurate time tracking
-  const employeeLogMap: Record<number, BehaviorLog[]> = {};
-  
-  // Organize logs by employee
-  dayLogs.forEach(log => {
-    if (!employeeLogMap[log.employeeId]) {
-      employeeLogMap[log.employeeId] = [];
-    }
-    employeeLogMap[log.employeeId].push(log);
-  });
+  if (trackedSeconds === 0) return "absent";
 
-  // Status durations in minutes
-  const durations = {
-    working: 0,
-    idle: 0,
-    sleeping: 0,
-    moving: 0,
-    inactive: 0,
-  };
-  
-  // For each employee, calculate time spent in each state
-  Object.values(employeeLogMap).forEach(empLogs => {
-    if (empLogs.length === 0) return;
-    
-    // Sort logs by timestamp (oldest first)
-    empLogs.sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    // Process each log
-    empLogs.forEach((log, index) => {
-      const currentTime = new Date(log.timestamp).getTime();
-      let duration = 0;
-      
-      if (index < empLogs.length - 1) {
-        // Calculate time until next log
-        const nextTime = new Date(empLogs[index + 1].timestamp).getTime();
-        duration = Math.min((nextTime - currentTime) / (1000 * 60), 30); // Cap at 30 minutes
-      } else {
-        // Add fixed time for last log (15 minutes)
-        duration = 15;
-      }
-      
-      // Add duration to the appropriate status
-      if (log.status in durations) {
-        durations[log.status as keyof typeof durations] += duration;
-      }
-    });
-  });
-  
-  // Calculate total tracked time
-  const totalDuration = Object.values(durations).reduce((sum, val) => sum + val, 0);
-  
-  if (totalDuration === 0) return "absent";
-  
-  // Calculate percentages based on time spent in each state
-  const workingPercent = ((durations.working + durations.moving) / totalDuration) * 100;
-  const idlePercent = ((durations.idle + durations.sleeping) / totalDuration) * 100;
-  
-  // More accurate status determination with higher thresholds
+  const workingPercent = (productiveSeconds / trackedSeconds) * 100;
   if (workingPercent >= 65) {
     return "active";
   } else if (workingPercent >= 35) {
@@ -108,63 +38,68 @@ const getDayStatus = (
 };
 
 interface CalendarHeatmapProps {
-  employees: Employee[];
+  // Selected team on the host dashboard; null shows every visible team
+  teamId: number | null;
 }
 
-export default function CalendarHeatmap({ employees }: CalendarHeatmapProps) {
-  const [simulatedDate, setSimulatedDate] = useState<Date>(getSimulatedDate());
-  const [selectedEmployee, setSelectedEmployee] = useState<number | null>(null);
+export default function CalendarHeatmap({ teamId }: CalendarHeatmapProps) {
+  const { user } = useAuth();
+  const live = useRealtime(user ? [dashboardTopic(user.organizationId, teamId)] : []);
+  const teamParam = teamId === null ? "" : `&teamId=${teamId}`;
+
+  // Today in the organization's time zone, as the server's clock has it
+  const { data: todayReport } = useQuery<AbsenceReport>({
+    queryKey: [`/api/absences${teamId === null ? "" : `?teamId=${teamId}`}`],
+    refetchInterval: live ? false : 60000,
+  });
+  const today = todayReport?.today ?? format(new Date(), "yyyy-MM-dd");
 
-  // Refresh the calendar every minute to simulate time progression
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setSimulatedDate(getSimulatedDate());
-    }, 60000); // Update every minute
+  // Four weeks ending with the current one
+  const startDate = startOfWeek(subDays(parseISO(today), 21));
+  const firstDay = format(startDate, "yyyy-MM-dd");
 
-    return () => clearInterval(timer);
-  }, []);
+  const { data: reportsById = {} } = useQuery<Record<number, TimeAccountingReport>>({
+    // A day early, since the organization's midnight can come before the browser's
+    queryKey: [`/api/time-accounting?from=${encodeURIComponent(subDays(startDate, 1).toISOString())}${teamParam}`],
+    refetchInterval: live ? false : 60000, // Refresh every minute while updates can't be pushed
+  });
+  const reports = Object.values(reportsById);
 
-  // Get behavior logs for the selected employee or all employees
-  const { data: behaviorLogsResponse = {} } = useQuery<Record<number, BehaviorLog>>({
-    queryKey: ["/api/behavior-logs"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+  const { data: absenceReport } = useQuery<AbsenceReport>({
+    queryKey: [`/api/absences?from=${firstDay}&to=${today}${teamParam}`],
+    refetchInterval: live ? false : 60000,
   });
-  
-  // Convert record to array for processing
-  const behaviorLogs = Object.values(behaviorLogsResponse);
 
   // Generate calendar data (4 weeks)
   const generateCalendarData = () => {
-    const today = simulatedDate;
-    const startDate = startOfWeek(subDays(today, 21));
-    
     const weeks = [];
     let currentWeek = [];
-    
+
     for (let i = 0; i < 28; i++) {
-      const date = addDays(startDate, i);
-      
+      const day = format(addDays(startDate, i), "yyyy-MM-dd");
+
       currentWeek.push({
-        date,
-        status: getDayStatus(behaviorLogs as BehaviorLog[], date),
-        isToday: isSameDay(date, today),
+        date: parseISO(day),
+        status: getDayStatus(reports, day, today),
+        absentCount: absenceReport?.absences.filter(absence => absence.date === day).length ?? 0,
+        isToday: day === today,
       });
-      
+
       if (currentWeek.length === 7) {
         weeks.push([...currentWeek]);
         currentWeek = [];
       }
     }
-    
+
     return weeks;
   };
 
   const calendar = generateCalendarData();
-  
+
   const handleInfoClick = () => {
     toast({
       title: "Calendar Heatmap Info",
-      description: "Green: Active day, Yellow: Medium effort, Red: Idle/Sleeping day. For demo purposes, 1 day = 10 minutes.",
+      description: "Green: Active day, Yellow: Medium effort, Red: Idle/Sleeping day, Gray: nobody tracked. Days with employees absent from their schedule show how many.",
       variant: "default",
     });
   };
@@ -186,10 +121,10 @@ export default function CalendarHeatmap({ employees }: CalendarHeatmapProps) {
           </div>
         </div>
         <div className="text-sm text-gray-500 flex items-center">
-          Current simulated date: {format(simulatedDate, "MMMM d, yyyy")}
-          <span className="ml-2 text-xs text-blue-500">
-            (1 day = 10 mins for demo)
-          </span>
+          Today: {format(parseISO(today), "MMMM d, yyyy")}
+          {todayReport && (
+            <span className="ml-2 text-xs text-gray-400">({todayReport.timeZone})</span>
+          )}
         </div>
       </CardHeader>
       
@@ -247,7 +182,10 @@ export default function CalendarHeatmap({ employees }: CalendarHeatmapProps) {
                           <div className="text-xs text-red-600">Idle</div>
                         )}
                         {day.status === "absent" && (
-                          <div className="text-xs text-gray-600">Absent</div>
+                          <div className="text-xs text-gray-600">No activity</div>
+                        )}
+                        {day.absentCount > 0 && (
+                          <div className="text-xs text-red-700">{day.absentCount} absent</div>
                         )}
                       </div>
                     </div>
@@ -273,7 +211,7 @@ export default function CalendarHeatmap({ employees }: CalendarHeatmapProps) {
           </div>
           <div className="flex items-center">
             <div className="w-3 h-3 bg-gray-100 border border-gray-200 rounded-sm mr-1"></div>
-            <span className="text-xs text-gray-600">Absent</span>
+            <span className="text-xs text-gray-600">No activity</span>
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { StatusDispute } from "@shared/schema";
+import { apiRequest, queriesFor } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import DisputeStatusBadge from "@/components/dispute-status-badge";
+import { Image } from "lucide-react";
+
+interface DisputeReviewPanelProps {
+  employeeId: number;
+  enabled: boolean;
+  // Shows the disputed range in the screenshot timeline
+  onShowScreenshots: (dispute: StatusDispute) => void;
+}
+
+/**
+ * An employee's status disputes, with approve and reject actions for the
+ * pending ones. Approving makes the claimed status count in time accounting.
+ */
+export default function DisputeReviewPanel({ employeeId, enabled, onShowScreenshots }: DisputeReviewPanelProps) {
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const disputesKey = `/api/status-disputes/${employeeId}`;
+
+  const { data: disputes = [] } = useQuery<StatusDispute[]>({
+    queryKey: [disputesKey],
+    enabled,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: number; decision: "approved" | "rejected" }) =>
+      apiRequest("POST", `/api/status-disputes/${id}/review`, { decision, note: notes[id] || undefined }),
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: [disputesKey] });
+      queryClient.invalidateQueries(queriesFor(`/api/time-accounting/${employeeId}`));
+      toast({
+        title: decision === "approved" ? "Dispute approved" : "Dispute rejected",
+        description: decision === "approved"
+          ? "The claimed status now counts in time accounting. The original log is kept."
+          : "The recorded status stands.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error reviewing status dispute:", error);
+      toast({
+        title: "Review failed",
+        description: error.message.includes("locked pay period")
+          ? "The disputed time is in a locked pay period. Unlock the period to approve it."
+          : error.message.startsWith("409")
+            ? "Someone else already reviewed this dispute."
+            : "The dispute could not be reviewed.",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: [disputesKey] });
+    },
+  });
+
+  if (disputes.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No disputes from this employee</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {disputes.map(dispute => (
+        <li key={dispute.id} className="bg-white p-3 rounded-lg shadow-sm">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-medium text-gray-800">
+                {format(new Date(dispute.startsAt), "MMM d, h:mm a")} – {format(new Date(dispute.endsAt), "h:mm a")}
+              </p>
+              <p className="text-xs text-gray-500">Claims to have been {dispute.claimedStatus}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button size="sm" variant="ghost" className="h-7 px-2" title="Show screenshots from this range" onClick={() => onShowScreenshots(dispute)}>
+                <Image className="h-4 w-4" />
+              </Button>
+              <DisputeStatusBadge status={dispute.status} />
+            </div>
+          </div>
+          <p className="text-sm text-gray-700 mt-2">{dispute.reason}</p>
+
+          {dispute.status === "pending" ? (
+            <div className="flex items-center space-x-2 mt-3">
+              <Input
+                className="h-8 text-sm"
+                placeholder="Note for the employee (optional)"
+                value={notes[dispute.id] ?? ""}
+                onChange={e => setNotes(current => ({ ...current, [dispute.id]: e.target.value }))}
+              />
+              <Button
+                size="sm"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: dispute.id, decision: "approved" })}
+              >
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ id: dispute.id, decision: "rejected" })}
+              >
+                Reject
+              </Button>
+            </div>
+          ) : (
+            dispute.reviewNote && <p className="text-xs text-gray-500 mt-2">Note: {dispute.reviewNote}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
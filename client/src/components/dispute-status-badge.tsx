@@ -0,0 +1,17 @@
+import { DisputeStatusType } from "@shared/schema";
+
+const STYLES: Record<DisputeStatusType, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+/**
+ * Pill showing where a status dispute stands
+ */
+export default function DisputeStatusBadge({ status }: { status: string }) {
+  const style = STYLES[status as DisputeStatusType] ?? STYLES.pending;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${style}`}>{status}</span>
+  );
+}
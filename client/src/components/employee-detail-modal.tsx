@@ -1,12 +1,20 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Employee, BehaviorLog, Screenshot, WorkSubmission } from "@shared/schema";
+import { Employee, BehaviorLog, WorkSubmissionInfo, TimeAccountingReport, StatusDispute } from "@shared/schema";
 import { Dialog } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { X, Download, Eye, Lock, Info, Maximize, Film, ChevronLeft, ChevronRight } from "lucide-react";
+import { X, Download, Eye, Lock, Info, Film, Radio, Flag } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend } from "recharts";
 import { toast } from "@/hooks/use-toast";
+import { useRealtime } from "@/lib/realtime";
+import RecordingsPanel from "@/components/recordings-panel";
+import LiveViewPanel from "@/components/live-view-panel";
+import ScreenshotTimeline from "@/components/screenshot-timeline";
+import StatusChangeList from "@/components/status-change-list";
+import DisputeReviewPanel from "@/components/dispute-review-panel";
+import PayRatePanel from "@/components/pay-rate-panel";
+import WorkSchedulePanel from "@/components/work-schedule-panel";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -39,6 +47,10 @@ export default function EmployeeDetailModal({
   onClose,
 }: EmployeeDetailModalProps) {
   const [currentScreenshotIndex, setCurrentScreenshotIndex] = useState(0);
+  // Disputed range being checked against the screenshots
+  const [screenshotFocus, setScreenshotFocus] = useState<{ from: Date; to: Date } | null>(null);
+  
+  const live = useRealtime(isOpen && employeeId ? [`employee:${employeeId}`] : []);
   
   // Fetch employee details
   const { data: employee } = useQuery<Employee>({
@@ -50,48 +62,36 @@ export default function EmployeeDetailModal({
   const { data: behaviorLogs = [] } = useQuery<BehaviorLog[]>({
     queryKey: [`/api/behavior-logs/${employeeId}`],
     enabled: isOpen && !!employeeId,
-    refetchInterval: 5000, // Refresh every 5 seconds when modal is open
+    refetchInterval: live ? false : 5000, // Refresh every 5 seconds while updates can't be pushed
   });
   
-  // Fetch screenshots
-  const { data: screenshots = [] } = useQuery<Screenshot[]>({
-    queryKey: [`/api/screenshots/${employeeId}`],
+  // Fetch today's status durations computed on the server; without a start
+  // the server counts from midnight in the organization's time zone
+  const { data: timeReport } = useQuery<TimeAccountingReport>({
+    queryKey: [`/api/time-accounting/${employeeId}`],
     enabled: isOpen && !!employeeId,
-    refetchInterval: 10000, // Refresh every 10 seconds
+    refetchInterval: live ? false : 5000,
   });
   
   // Fetch work submissions
-  const { data: workSubmissions = [] } = useQuery<WorkSubmission[]>({
+  const { data: workSubmissions = [] } = useQuery<WorkSubmissionInfo[]>({
     queryKey: [`/api/work-submissions/${employeeId}`],
     enabled: isOpen && !!employeeId,
   });
   
-  // Reset current screenshot index when modal opens or screenshots update
-  useEffect(() => {
-    if (isOpen && screenshots.length > 0) {
-      setCurrentScreenshotIndex(0);
-    }
-  }, [isOpen, screenshots]);
-  
   // Calculate behavior times
   const calculateBehaviorTimes = () => {
     const times = {
-      working: 0,
-      idle: 0,
-      sleeping: 0,
-      moving: 0,
+      working: timeReport?.totals.working ?? 0,
+      idle: timeReport?.totals.idle ?? 0,
+      sleeping: timeReport?.totals.sleeping ?? 0,
+      moving: timeReport?.totals.moving ?? 0,
     };
     
-    behaviorLogs.forEach(log => {
-      if (log.status in times) {
-        times[log.status as keyof typeof times] += 1;
-      }
-    });
-    
-    // Convert to hours and minutes (each log is 5 seconds)
+    // Convert seconds to hours and minutes
     const result = {} as Record<string, string>;
-    Object.entries(times).forEach(([status, count]) => {
-      const minutes = Math.round((count * 5) / 60);
+    Object.entries(times).forEach(([status, seconds]) => {
+      const minutes = Math.round(seconds / 60);
       const hours = Math.floor(minutes / 60);
       const mins = minutes % 60;
       result[status] = `${hours}h ${mins}m`;
@@ -100,38 +100,18 @@ export default function EmployeeDetailModal({
     return result;
   };
   
-  // Calculate salary based on working time
-  const calculateSalary = () => {
-    const hourlyRate = 25.0; // Hourly rate in dollars
-    const workingLogs = behaviorLogs.filter(log => log.status === "working").length;
-    const workingHours = (workingLogs * 5) / 3600; // Convert 5-second intervals to hours
-    const salary = hourlyRate * workingHours;
-    
-    return {
-      hourlyRate,
-      workingHours: workingHours.toFixed(2),
-      total: salary.toFixed(2),
-    };
-  };
-  
   // Prepare chart data
   const prepareChartData = () => {
-    const statusCounts = {
-      working: 0,
-      idle: 0,
-      sleeping: 0,
-      moving: 0,
+    const statusMinutes = {
+      working: Math.round((timeReport?.totals.working ?? 0) / 60),
+      idle: Math.round((timeReport?.totals.idle ?? 0) / 60),
+      sleeping: Math.round((timeReport?.totals.sleeping ?? 0) / 60),
+      moving: Math.round((timeReport?.totals.moving ?? 0) / 60),
     };
     
-    behaviorLogs.forEach(log => {
-      if (log.status in statusCounts) {
-        statusCounts[log.status as keyof typeof statusCounts] += 1;
-      }
-    });
-    
-    return Object.entries(statusCounts).map(([status, count]) => ({
+    return Object.entries(statusMinutes).map(([status, minutes]) => ({
       name: status.charAt(0).toUpperCase() + status.slice(1),
-      value: count,
+      value: minutes,
       color: STATUS_COLORS[status as keyof typeof STATUS_COLORS],
     }));
   };
@@ -154,58 +134,12 @@ export default function EmployeeDetailModal({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
   
-  // Handle screenshot navigation
-  const navigateScreenshot = (index: number) => {
-    setCurrentScreenshotIndex(index);
-  };
-  
-  // Fullscreen screenshot viewing
-  const [showFullscreenScreenshot, setShowFullscreenScreenshot] = useState(false);
-  
-  // Handle downloading screenshot
-  const handleDownloadScreenshot = (screenshot: Screenshot) => {
-    if (!screenshot || !screenshot.imageData) {
-      toast({
-        title: "Download Error",
-        description: "Screenshot data is not available for download.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    try {
-      // Create a data URL for the image
-      const dataUrl = `data:image/jpeg;base64,${screenshot.imageData}`;
-      
-      // Create download link
-      const link = document.createElement('a');
-      link.href = dataUrl;
-      link.download = `screenshot-${new Date(screenshot.timestamp).toISOString().replace(/[:.]/g, '-')}.jpg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      toast({
-        title: "Download Started",
-        description: "Downloading screenshot",
-        variant: "default",
-      });
-    } catch (error) {
-      console.error("Download error:", error);
-      toast({
-        title: "Download Error",
-        description: "There was a problem downloading the screenshot.",
-        variant: "destructive",
-      });
-    }
-  };
-
   // View work submission
-  const [viewingSubmission, setViewingSubmission] = useState<WorkSubmission | null>(null);
+  const [viewingSubmission, setViewingSubmission] = useState<WorkSubmissionInfo | null>(null);
   const [showWorkViewDialog, setShowWorkViewDialog] = useState(false);
 
-  const handleViewSubmission = (submission: WorkSubmission) => {
-    if (!submission || !submission.fileData) {
+  const handleViewSubmission = (submission: WorkSubmissionInfo) => {
+    if (!submission) {
       toast({
         title: "Download Error",
         description: "File data is not available for download.",
@@ -216,13 +150,9 @@ export default function EmployeeDetailModal({
     
     // Create a download link
     try {
-      // Create a data URL for the file
-      const mimeType = getMimeType(submission.fileName);
-      const dataUrl = `data:${mimeType};base64,${submission.fileData}`;
-      
       // Create download link
       const link = document.createElement('a');
-      link.href = dataUrl;
+      link.href = submission.fileUrl;
       link.download = submission.fileName;
       document.body.appendChild(link);
       link.click();
@@ -243,30 +173,7 @@ export default function EmployeeDetailModal({
     }
   };
   
-  // Helper to determine MIME type from filename
-  const getMimeType = (fileName: string): string => {
-    const extension = fileName.split('.').pop()?.toLowerCase() || '';
-    
-    const mimeTypes: Record<string, string> = {
-      'pdf': 'application/pdf',
-      'doc': 'application/msword',
-      'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'xls': 'application/vnd.ms-excel',
-      'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'ppt': 'application/vnd.ms-powerpoint',
-      'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'txt': 'text/plain',
-    };
-    
-    return mimeTypes[extension] || 'application/octet-stream';
-  };
-  
   const behaviorTimes = calculateBehaviorTimes();
-  const salary = calculateSalary();
   const chartData = prepareChartData();
 
   if (!employee) {
@@ -349,26 +256,16 @@ export default function EmployeeDetailModal({
                 </div>
               </div>
               
-              {/* Salary Calculation */}
+              {/* Pay */}
               <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                <h3 className="text-lg font-semibold text-gray-800 mb-4">Salary Calculation</h3>
-                
-                <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Hourly Rate</span>
-                    <span className="font-medium text-gray-800">${salary.hourlyRate.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Working Hours</span>
-                    <span className="font-medium text-gray-800">{salary.workingHours}</span>
-                  </div>
-                  <div className="border-t border-gray-200 pt-2 mt-2">
-                    <div className="flex justify-between">
-                      <span className="font-semibold text-gray-700">Total Today</span>
-                      <span className="font-bold text-gray-800">${salary.total}</span>
-                    </div>
-                  </div>
-                </div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Pay</h3>
+                <PayRatePanel employeeId={employeeId} enabled={isOpen && !!employeeId} />
+              </div>
+              
+              {/* Schedule */}
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Schedule</h3>
+                <WorkSchedulePanel employeeId={employeeId} enabled={isOpen && !!employeeId} />
               </div>
               
               {/* Attendance Log */}
@@ -393,6 +290,10 @@ export default function EmployeeDetailModal({
                       <span className="text-gray-600">Status Changes</span>
                       <span className="font-medium text-gray-800">{behaviorLogs.length}</span>
                     </div>
+                    <div className="pt-2">
+                      <h4 className="text-sm font-medium text-gray-700 mb-1">Recent changes</h4>
+                      <StatusChangeList logs={behaviorLogs} />
+                    </div>
                   </div>
                 ) : (
                   <div className="text-center py-4 text-gray-500">
@@ -406,81 +307,44 @@ export default function EmployeeDetailModal({
             <div>
               {/* Screen Captures */}
               <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="text-lg font-semibold text-gray-800">Screen Captures</h3>
-                  <div className="text-sm text-gray-500">Updates every 10 seconds</div>
+                <ScreenshotTimeline
+                  employeeId={employeeId}
+                  enabled={isOpen && !!employeeId}
+                  focus={screenshotFocus}
+                  onClearFocus={() => setScreenshotFocus(null)}
+                />
+              </div>
+              
+              {/* Status Disputes */}
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="flex items-center mb-4">
+                  <Flag className="h-5 w-5 mr-2 text-gray-500" />
+                  <h3 className="text-lg font-semibold text-gray-800">Status Disputes</h3>
                 </div>
-                
-                {screenshots.length > 0 ? (
-                  <>
-                    <div className="relative rounded-lg overflow-hidden bg-gray-200 h-[300px]">
-                      <img 
-                        src={`data:image/jpeg;base64,${screenshots[currentScreenshotIndex].imageData}`} 
-                        alt="Screen capture" 
-                        className="w-full h-full object-contain"
-                      />
-                      <div className="absolute bottom-0 left-0 right-0 bg-gray-800 bg-opacity-75 text-white px-4 py-2 text-sm">
-                        <div className="flex justify-between">
-                          <span>
-                            Captured at {format(new Date(screenshots[currentScreenshotIndex].timestamp), "h:mm a")}
-                          </span>
-                          <span>
-                            {Math.round((Date.now() - new Date(screenshots[currentScreenshotIndex].timestamp).getTime()) / 1000)} seconds ago
-                          </span>
-                        </div>
-                      </div>
-                      <div className="absolute top-2 right-2 flex space-x-2">
-                        <Button 
-                          size="sm" 
-                          variant="secondary" 
-                          className="bg-white bg-opacity-75 hover:bg-opacity-100"
-                          onClick={() => setShowFullscreenScreenshot(true)}
-                        >
-                          <Maximize className="h-4 w-4 mr-1" />
-                          <span className="text-xs">Fullscreen</span>
-                        </Button>
-                        <Button 
-                          size="sm" 
-                          variant="secondary" 
-                          className="bg-white bg-opacity-75 hover:bg-opacity-100"
-                          onClick={() => handleDownloadScreenshot(screenshots[currentScreenshotIndex])}
-                        >
-                          <Download className="h-4 w-4 mr-1" />
-                          <span className="text-xs">Download</span>
-                        </Button>
-                      </div>
-                    </div>
-                    
-                    <div className="mt-4 flex space-x-2">
-                      {screenshots.slice(0, 5).map((screenshot, index) => (
-                        <div 
-                          key={screenshot.id}
-                          className={`w-1/5 h-16 bg-gray-200 rounded cursor-pointer overflow-hidden ${
-                            index === currentScreenshotIndex ? 'ring-2 ring-blue-500' : ''
-                          }`}
-                          onClick={() => navigateScreenshot(index)}
-                        >
-                          <img 
-                            src={`data:image/jpeg;base64,${screenshot.imageData}`} 
-                            alt={`Screen thumbnail ${index + 1}`}
-                            className="w-full h-full object-cover"
-                          />
-                        </div>
-                      ))}
-                    </div>
-                  </>
-                ) : (
-                  <div className="text-center py-8 text-gray-500">
-                    <div className="w-full h-[300px] bg-gray-200 rounded-lg flex items-center justify-center">
-                      <div>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto text-gray-400 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                        </svg>
-                        <p>No screen captures available</p>
-                      </div>
-                    </div>
-                  </div>
-                )}
+                <DisputeReviewPanel
+                  employeeId={employeeId}
+                  enabled={isOpen && !!employeeId}
+                  onShowScreenshots={(dispute: StatusDispute) =>
+                    setScreenshotFocus({ from: new Date(dispute.startsAt), to: new Date(dispute.endsAt) })}
+                />
+              </div>
+              
+              {/* Live View */}
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="flex items-center mb-4">
+                  <Radio className="h-5 w-5 mr-2 text-gray-500" />
+                  <h3 className="text-lg font-semibold text-gray-800">Live View</h3>
+                </div>
+                <LiveViewPanel employeeId={employeeId} enabled={isOpen && !!employeeId} />
+              </div>
+              
+              {/* Screen Recordings */}
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="flex items-center mb-4">
+                  <Film className="h-5 w-5 mr-2 text-gray-500" />
+                  <h3 className="text-lg font-semibold text-gray-800">Screen Recordings</h3>
+                </div>
+                <RecordingsPanel employeeId={employeeId} enabled={isOpen && !!employeeId} />
               </div>
               
               {/* Work Submissions */}
@@ -547,10 +411,11 @@ export default function EmployeeDetailModal({
           <div className="my-4 border rounded-lg overflow-hidden">
             {viewingSubmission && (
               <div className="max-h-[500px] overflow-auto bg-gray-50 p-4">
-                {/* Show content based on file type - for demo just showing the base64 as text */}
-                <pre className="text-xs whitespace-pre-wrap overflow-x-auto">
-                  {viewingSubmission.fileData.substring(0, 200)}...
-                </pre>
+                {viewingSubmission.mimeType.startsWith("image/") ? (
+                  <img src={viewingSubmission.fileUrl} alt={viewingSubmission.fileName} className="max-w-full mx-auto" />
+                ) : (
+                  <p className="text-sm text-gray-500">No preview available for this file type.</p>
+                )}
               </div>
             )}
           </div>
@@ -560,69 +425,6 @@ export default function EmployeeDetailModal({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-      
-      {/* Fullscreen Screenshot Viewer */}
-      <AlertDialog open={showFullscreenScreenshot} onOpenChange={setShowFullscreenScreenshot}>
-        <AlertDialogContent className="max-w-7xl w-[95vw] h-[90vh] p-1">
-          <div className="relative h-full">
-            <div className="absolute top-2 right-2 flex space-x-2 z-10">
-              <Button 
-                size="sm" 
-                variant="secondary" 
-                className="bg-white bg-opacity-75 hover:bg-opacity-100"
-                onClick={() => handleDownloadScreenshot(screenshots[currentScreenshotIndex])}
-              >
-                <Download className="h-4 w-4 mr-1" />
-                <span className="text-xs">Download</span>
-              </Button>
-              <Button 
-                size="sm" 
-                variant="secondary" 
-                className="bg-white bg-opacity-75 hover:bg-opacity-100"
-                onClick={() => setShowFullscreenScreenshot(false)}
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-            
-            <div className="bg-black h-full flex items-center justify-center">
-              {screenshots.length > 0 && (
-                <img 
-                  src={`data:image/jpeg;base64,${screenshots[currentScreenshotIndex].imageData}`} 
-                  alt="Screen capture fullscreen"
-                  className="max-h-full max-w-full object-contain" 
-                />
-              )}
-            </div>
-            
-            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-full">
-              <div className="flex items-center space-x-1">
-                <Button 
-                  size="sm"
-                  variant="ghost"
-                  className="text-white hover:bg-white hover:bg-opacity-10"
-                  disabled={currentScreenshotIndex === screenshots.length - 1}
-                  onClick={() => navigateScreenshot(currentScreenshotIndex + 1)}
-                >
-                  <ChevronLeft className="h-5 w-5" />
-                </Button>
-                <span>
-                  {currentScreenshotIndex + 1} / {screenshots.length}
-                </span>
-                <Button 
-                  size="sm"
-                  variant="ghost"
-                  className="text-white hover:bg-white hover:bg-opacity-10"
-                  disabled={currentScreenshotIndex === 0}
-                  onClick={() => navigateScreenshot(currentScreenshotIndex - 1)}
-                >
-                  <ChevronRight className="h-5 w-5" />
-                </Button>
-              </div>
-            </div>
-          </div>
-        </AlertDialogContent>
-      </AlertDialog>
     </Dialog>
   );
 }
@@ -4,13 +4,18 @@ import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { BehaviorStatusType } from "@shared/schema";
-import { initializeWebcam, stopWebcam, captureWebcamFrame, analyzeBehavior } from "@/lib/webcam";
+import { initializeWebcam, stopWebcam, captureWebcamFrame, analyzeBehavior, BehaviorDetection } from "@/lib/webcam";
+import { flushBehaviorSamples } from "@/lib/behavior-samples";
 import { captureScreenshot, uploadScreenshot } from "@/lib/screenshot";
+import { startWorkSession, endWorkSession, endWorkSessionOnUnload } from "@/lib/work-session";
+import { sendHeartbeat, HEARTBEAT_INTERVAL_MS } from "@/lib/presence";
+import { fetchMonitoringPolicy, nextScreenshotDelay, screenshotOptionsOf } from "@/lib/monitoring-policy";
 import { AlertCircle } from "lucide-react";
 
 interface EmployeeMonitorProps {
   employeeId: number;
-  onBehaviorChange: (status: BehaviorStatusType) => void;
+  // The detection is missing for changes not made by the classifiers, e.g. stopping
+  onBehaviorChange: (status: BehaviorStatusType, detection?: BehaviorDetection) => void;
   onProjectStart: () => void;
   onProjectStop: () => void;
 }
@@ -29,7 +34,8 @@ export default function EmployeeMonitor({
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const behaviorIntervalRef = useRef<number | null>(null);
-  const screenshotIntervalRef = useRef<number | null>(null);
+  const screenshotTimerRef = useRef<number | null>(null);
+  const workSessionIdRef = useRef<number | null>(null);
 
   // Mutations for uploading screenshots
   const screenshotMutation = useMutation({
@@ -46,10 +52,11 @@ export default function EmployeeMonitor({
         window.clearInterval(behaviorIntervalRef.current);
         behaviorIntervalRef.current = null;
       }
+      flushBehaviorSamples();
       
-      if (screenshotIntervalRef.current) {
-        window.clearInterval(screenshotIntervalRef.current);
-        screenshotIntervalRef.current = null;
+      if (screenshotTimerRef.current) {
+        window.clearTimeout(screenshotTimerRef.current);
+        screenshotTimerRef.current = null;
       }
       
       if (streamRef.current) {
@@ -61,10 +68,20 @@ export default function EmployeeMonitor({
       onBehaviorChange("inactive");
       setProjectActive(false);
       onProjectStop();
+      
+      if (workSessionIdRef.current) {
+        const sessionId = workSessionIdRef.current;
+        workSessionIdRef.current = null;
+        endWorkSession(sessionId, "manual_stop").catch(error => {
+          console.error("Error ending work session:", error);
+        });
+      }
     } else {
       // Start the project
       try {
         if (videoRef.current) {
+          // Sampling rates and screenshot settings come from the team's policy
+          const policy = await fetchMonitoringPolicy(employeeId);
           streamRef.current = await initializeWebcam(videoRef.current);
           
           // Start behavior analysis interval
@@ -74,11 +91,12 @@ export default function EmployeeMonitor({
                 const imageData = captureWebcamFrame(videoRef.current);
                 
                 // Send frame for behavior analysis
-                const status = await analyzeBehavior(imageData, employeeId);
+                const detection = await analyzeBehavior(imageData, employeeId);
+                const { status } = detection;
                 
                 if (status !== currentStatus) {
                   setCurrentStatus(status);
-                  onBehaviorChange(status);
+                  onBehaviorChange(status, detection);
                   
                   // Show warning for idle or sleeping
                   if (status === "idle" || status === "sleeping") {
@@ -95,17 +113,36 @@ export default function EmployeeMonitor({
             } catch (error) {
               console.error("Error during behavior analysis:", error);
             }
-          }, 5000); // Check behavior every 5 seconds
+          }, policy.behaviorIntervalSeconds * 1000);
           
-          // Start screenshot capture interval
-          screenshotIntervalRef.current = window.setInterval(async () => {
-            try {
-              const screenshotData = await captureScreenshot();
-              screenshotMutation.mutate(screenshotData);
-            } catch (error) {
-              console.error("Error during screenshot capture:", error);
-            }
-          }, 10000); // Capture screenshot every 10 seconds
+          // Schedule screenshots one at a time, at fixed or random delays
+          const scheduleScreenshot = () => {
+            const delay = nextScreenshotDelay(policy);
+            if (delay === null) return;
+            
+            const timer = window.setTimeout(async () => {
+              try {
+                const screenshotData = await captureScreenshot(screenshotOptionsOf(policy));
+                screenshotMutation.mutate(screenshotData);
+              } catch (error) {
+                console.error("Error during screenshot capture:", error);
+              }
+              // Unless the project was stopped (or restarted) meanwhile
+              if (screenshotTimerRef.current === timer) {
+                scheduleScreenshot();
+              }
+            }, delay);
+            screenshotTimerRef.current = timer;
+          };
+          scheduleScreenshot();
+          
+          // Open the session before the first status log, so the log falls inside it
+          try {
+            const session = await startWorkSession(employeeId);
+            workSessionIdRef.current = session.id;
+          } catch (error) {
+            console.error("Error starting work session:", error);
+          }
           
           setCurrentStatus("working"); // Initial status
           onBehaviorChange("working");
@@ -118,15 +155,56 @@ export default function EmployeeMonitor({
     }
   };
   
+  // Close the open work session if the tab is closed or reloaded mid-session
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (workSessionIdRef.current) {
+        endWorkSessionOnUnload(workSessionIdRef.current);
+        workSessionIdRef.current = null;
+      }
+    };
+    
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+  
+  // Heartbeats tell the server this tab is still open; it marks the employee
+  // inactive when they stop. The ref lets the interval report the latest status.
+  const currentStatusRef = useRef(currentStatus);
+  currentStatusRef.current = currentStatus;
+  
+  useEffect(() => {
+    if (!employeeId) return;
+    
+    const beat = () => {
+      sendHeartbeat(employeeId, currentStatusRef.current).catch(error => {
+        console.warn("Heartbeat failed", error);
+      });
+    };
+    
+    beat();
+    const timer = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [employeeId]);
+  
   // Clean up on unmount
   useEffect(() => {
     return () => {
+      // Leaving the dashboard (e.g. logging out) stops monitoring like the Stop button does
+      if (workSessionIdRef.current) {
+        endWorkSession(workSessionIdRef.current, "manual_stop").catch(error => {
+          console.error("Error ending work session:", error);
+        });
+        workSessionIdRef.current = null;
+      }
+      
       if (behaviorIntervalRef.current) {
         window.clearInterval(behaviorIntervalRef.current);
       }
+      flushBehaviorSamples();
       
-      if (screenshotIntervalRef.current) {
-        window.clearInterval(screenshotIntervalRef.current);
+      if (screenshotTimerRef.current) {
+        window.clearTimeout(screenshotTimerRef.current);
       }
       
       if (streamRef.current) {
@@ -135,39 +213,6 @@ export default function EmployeeMonitor({
     };
   }, []);
   
-  // --- RANDOM SCREENSHOT CAPTURE ---
-  useEffect(() => {
-    if (!employeeId) return;
-    let cancelled = false;
-
-    function getRandomInterval() {
-      // Random interval between 2 and 5 minutes
-      return 120000 + Math.random() * 180000;
-    }
-
-    async function takeAndUploadScreenshot() {
-      if (cancelled) return;
-      try {
-        const imageData = await captureScreenshot();
-        await uploadScreenshot(imageData, employeeId);
-      } catch (err) {
-        console.warn("Screenshot capture/upload failed", err);
-      }
-      if (!cancelled) {
-        setTimeout(takeAndUploadScreenshot, getRandomInterval());
-      }
-    }
-
-    // Start the first screenshot after a random interval
-    const initialTimeout = setTimeout(takeAndUploadScreenshot, getRandomInterval());
-
-    return () => {
-      cancelled = true;
-      clearTimeout(initialTimeout);
-    };
-  }, [employeeId]);
-  // --- END RANDOM SCREENSHOT CAPTURE ---
-  
   // Get status color class
   const getStatusColorClass = (status: BehaviorStatusType): string => {
     switch (status) {
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { BehaviorLog, BehaviorStatusType } from "@shared/schema";
+import { BehaviorStatusType, TimeAccountingReport } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useRealtime } from "@/lib/realtime";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 
 interface BehaviorTime {
@@ -39,33 +40,23 @@ export default function EmployeeStats({ employeeId }: EmployeeStatsProps) {
   
   const [chartData, setChartData] = useState<ChartData[]>([]);
   
-  // Fetch behavior logs
-  const { data: behaviorLogs = [] } = useQuery<BehaviorLog[]>({
-    queryKey: [`/api/behavior-logs/${employeeId}`],
-    refetchInterval: 5000, // Poll every 5 seconds
+  const live = useRealtime([`employee:${employeeId}`]);
+  
+  // Fetch today's status durations computed on the server; without a start
+  // the server counts from midnight in the organization's time zone
+  const { data: report } = useQuery<TimeAccountingReport>({
+    queryKey: [`/api/time-accounting/${employeeId}`],
+    refetchInterval: live ? false : 5000, // Poll every 5 seconds while updates can't be pushed
   });
   
-  // Update behavior times based on logs
+  // Update behavior times based on the accounted durations
   useEffect(() => {
-    if (!behaviorLogs.length) return;
-    
-    // Group logs by status and count them
-    const statusCounts: Record<BehaviorStatusType, number> = {
-      working: 0,
-      idle: 0,
-      sleeping: 0,
-      moving: 0,
-      inactive: 0
-    };
-    
-    behaviorLogs.forEach(log => {
-      statusCounts[log.status as BehaviorStatusType] += 1;
-    });
+    if (!report) return;
     
-    // Convert counts to minutes (assuming each log represents a 5-second interval)
+    // Convert seconds to whole minutes
     const newBehaviorTimes: Record<BehaviorStatusType, number> = {} as Record<BehaviorStatusType, number>;
-    Object.entries(statusCounts).forEach(([status, count]) => {
-      newBehaviorTimes[status as BehaviorStatusType] = Math.round((count * 5) / 60);
+    Object.entries(report.totals).forEach(([status, seconds]) => {
+      newBehaviorTimes[status as BehaviorStatusType] = Math.round(seconds / 60);
     });
     
     setBehaviorTimes(newBehaviorTimes);
@@ -83,7 +74,7 @@ export default function EmployeeStats({ employeeId }: EmployeeStatsProps) {
     });
     
     setChartData(newChartData);
-  }, [behaviorLogs]);
+  }, [report]);
 
   // Format status name for display
   const formatStatusName = (status: BehaviorStatusType): string => {
@@ -1,11 +1,24 @@
 import { Menu } from "lucide-react";
+import { Team } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import NotificationBell from "@/components/notification-bell";
 
 interface HostHeaderProps {
   onLogout: () => void;
+  title?: string;
+  teams?: Team[];
+  selectedTeamId?: number | null;
+  onTeamChange?: (teamId: number | null) => void;
 }
 
-export default function HostHeader({ onLogout }: HostHeaderProps) {
+export default function HostHeader({ onLogout, title = "Host Dashboard", teams = [], selectedTeamId = null, onTeamChange }: HostHeaderProps) {
   return (
     <header className="bg-white shadow z-10">
       <div className="flex justify-between items-center px-6 py-4">
@@ -13,9 +26,28 @@ export default function HostHeader({ onLogout }: HostHeaderProps) {
           <button className="lg:hidden mr-4 text-gray-600">
             <Menu className="h-6 w-6" />
           </button>
-          <h1 className="text-2xl font-bold text-gray-800">Host Dashboard</h1>
+          <h1 className="text-2xl font-bold text-gray-800">{title}</h1>
         </div>
-        <div>
+        <div className="flex items-center space-x-3">
+          {onTeamChange && (
+            <Select
+              value={selectedTeamId === null ? "all" : String(selectedTeamId)}
+              onValueChange={value => onTeamChange(value === "all" ? null : parseInt(value))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All teams" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All teams</SelectItem>
+                {teams.map(team => (
+                  <SelectItem key={team.id} value={String(team.id)}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <NotificationBell />
           <Button
             onClick={onLogout}
             variant="outline"
@@ -1,12 +1,17 @@
+import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import {
   LayoutDashboard,
   Users,
   BarChart3,
+  Bell,
+  Wallet,
   Settings
 } from "lucide-react";
 
 export default function HostSidebar() {
+  const [location] = useLocation();
+
   return (
     <div className="hidden lg:block w-64 bg-gray-800 text-white flex-shrink-0">
       <div className="p-6">
@@ -15,10 +20,12 @@ export default function HostSidebar() {
       </div>
       
       <nav className="mt-6">
-        <SidebarItem href="#" icon={<LayoutDashboard className="w-5 h-5 mr-3" />} text="Dashboard" active />
+        <SidebarItem href="/host" icon={<LayoutDashboard className="w-5 h-5 mr-3" />} text="Dashboard" active={location === "/host"} />
         <SidebarItem href="#" icon={<Users className="w-5 h-5 mr-3" />} text="Employees" />
         <SidebarItem href="#" icon={<BarChart3 className="w-5 h-5 mr-3" />} text="Reports" />
-        <SidebarItem href="#" icon={<Settings className="w-5 h-5 mr-3" />} text="Settings" />
+        <SidebarItem href="/host/alerts" icon={<Bell className="w-5 h-5 mr-3" />} text="Alerts" active={location === "/host/alerts"} />
+        <SidebarItem href="/host/payroll" icon={<Wallet className="w-5 h-5 mr-3" />} text="Payroll" active={location === "/host/payroll"} />
+        <SidebarItem href="/host/settings" icon={<Settings className="w-5 h-5 mr-3" />} text="Settings" active={location === "/host/settings"} />
       </nav>
     </div>
   );
@@ -32,16 +39,25 @@ interface SidebarItemProps {
 }
 
 function SidebarItem({ href, icon, text, active = false }: SidebarItemProps) {
+  const className = cn(
+    "flex items-center px-6 py-3",
+    active ? "bg-gray-700 text-white" : "text-gray-300 hover:bg-gray-700 hover:text-white"
+  );
+
+  // Placeholder entries without a page yet
+  if (href === "#") {
+    return (
+      <a href={href} className={className}>
+        {icon}
+        <span>{text}</span>
+      </a>
+    );
+  }
+
   return (
-    <a 
-      href={href}
-      className={cn(
-        "flex items-center px-6 py-3",
-        active ? "bg-gray-700 text-white" : "text-gray-300 hover:bg-gray-700 hover:text-white"
-      )}
-    >
+    <Link href={href} className={className}>
       {icon}
       <span>{text}</span>
-    </a>
+    </Link>
   );
 }
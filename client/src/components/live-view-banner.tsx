@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { serveLiveViews, LiveViewService, LiveViewer } from "@/lib/live-view";
+import { useRealtime } from "@/lib/realtime";
+
+interface LiveViewBannerProps {
+  employeeId: number;
+}
+
+/**
+ * Answers live view requests from hosts and shows a banner with an end
+ * button for as long as anyone is watching
+ */
+export default function LiveViewBanner({ employeeId }: LiveViewBannerProps) {
+  const [viewers, setViewers] = useState<LiveViewer[]>([]);
+  const serviceRef = useRef<LiveViewService | null>(null);
+
+  // Requests arrive over the real-time socket, which stays open while a topic is followed
+  useRealtime([`employee:${employeeId}`]);
+
+  useEffect(() => {
+    const service = serveLiveViews(setViewers);
+    serviceRef.current = service;
+    return () => {
+      serviceRef.current = null;
+      service.close();
+    };
+  }, [employeeId]);
+
+  if (viewers.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 space-y-2">
+      {viewers.map(viewer => (
+        <div
+          key={viewer.sessionId}
+          className="bg-white border border-red-200 shadow-lg rounded-lg px-4 py-3 flex items-center space-x-4"
+        >
+          <span className="inline-block w-3 h-3 rounded-full bg-red-500 animate-pulse"></span>
+          <span className="text-sm text-gray-800">
+            {viewer.viewer} is watching your {viewer.source === "screen" ? "screen" : "webcam"} live
+          </span>
+          <Button size="sm" variant="destructive" onClick={() => serviceRef.current?.end(viewer.sessionId)}>
+            End
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from "react";
+import { LiveViewSourceType } from "@shared/realtime";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { watchLive, LiveViewEndReason, LiveViewHandle } from "@/lib/live-view";
+import { useRealtime } from "@/lib/realtime";
+import { Radio } from "lucide-react";
+
+interface LiveViewPanelProps {
+  employeeId: number;
+  enabled: boolean;
+}
+
+const END_MESSAGES: Record<LiveViewEndReason, string> = {
+  ended: "The employee ended the live view.",
+  unavailable: "The employee isn't sharing that stream right now. Their dashboard must be open with monitoring running.",
+  disconnected: "The connection to the employee was lost.",
+  forbidden: "You are not allowed to watch this employee.",
+  failed: "The live connection could not be established.",
+};
+
+/**
+ * Lets a host watch an employee's screen or webcam live, on demand
+ */
+export default function LiveViewPanel({ employeeId, enabled }: LiveViewPanelProps) {
+  const [source, setSource] = useState<LiveViewSourceType>("screen");
+  const [status, setStatus] = useState<"idle" | "connecting" | "live">("idle");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const handleRef = useRef<LiveViewHandle | null>(null);
+  const { toast } = useToast();
+  // Signaling needs the real-time socket
+  const connected = useRealtime(enabled ? [`employee:${employeeId}`] : []);
+
+  const stop = () => {
+    handleRef.current?.stop();
+    handleRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setStatus("idle");
+  };
+
+  // Stop watching when the modal closes or switches employee
+  useEffect(() => {
+    if (!enabled) return;
+    return stop;
+  }, [enabled, employeeId]);
+
+  const start = () => {
+    setStatus("connecting");
+    handleRef.current = watchLive(
+      employeeId,
+      source,
+      (stream) => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+        setStatus("live");
+      },
+      (reason) => {
+        handleRef.current = null;
+        if (videoRef.current) videoRef.current.srcObject = null;
+        setStatus("idle");
+        toast({
+          title: "Live view ended",
+          description: END_MESSAGES[reason],
+          variant: reason === "ended" ? "default" : "destructive",
+        });
+      },
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-4">
+        <Select
+          value={source}
+          onValueChange={(value) => setSource(value as LiveViewSourceType)}
+          disabled={status !== "idle"}
+        >
+          <SelectTrigger className="w-[140px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="screen">Screen</SelectItem>
+            <SelectItem value="webcam">Webcam</SelectItem>
+          </SelectContent>
+        </Select>
+        {status === "idle" ? (
+          <Button size="sm" disabled={!connected} onClick={start}>
+            <Radio className="h-4 w-4 mr-1" />
+            Watch live
+          </Button>
+        ) : (
+          <Button size="sm" variant="destructive" onClick={stop}>
+            Stop watching
+          </Button>
+        )}
+      </div>
+
+      <div className={`relative rounded-lg overflow-hidden bg-black h-[300px] ${status === "idle" ? "hidden" : ""}`}>
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+        {status === "connecting" && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-300">
+            Connecting to the employee...
+          </div>
+        )}
+        {status === "live" && (
+          <span className="absolute top-2 left-2 bg-red-600 text-white text-xs font-medium px-2 py-0.5 rounded">
+            LIVE
+          </span>
+        )}
+      </div>
+
+      {status === "idle" && (
+        <p className="text-sm text-gray-500">
+          {connected
+            ? "The employee is shown a banner while you watch and can end the view at any time."
+            : "Live view is unavailable while the real-time connection is down."}
+        </p>
+      )}
+    </div>
+  );
+}
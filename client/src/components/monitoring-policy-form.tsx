@@ -0,0 +1,158 @@
+import { useEffect, useId, useState } from "react";
+import { MonitoringPolicySettings, ScreenshotModeType, monitoringPolicySettingsSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface MonitoringPolicyFormProps {
+  policy: MonitoringPolicySettings;
+  disabled?: boolean;
+  saving?: boolean;
+  onSave: (policy: MonitoringPolicySettings) => void;
+}
+
+type NumberField = {
+  [Key in keyof MonitoringPolicySettings]: MonitoringPolicySettings[Key] extends number ? Key : never
+}[keyof MonitoringPolicySettings];
+
+const FIELD_LABELS: Record<keyof MonitoringPolicySettings, string> = {
+  behaviorIntervalSeconds: "Behavior sampling interval",
+  screenshotMode: "Screenshots",
+  screenshotMinIntervalSeconds: "Shortest screenshot interval",
+  screenshotMaxIntervalSeconds: "Longest screenshot interval",
+  screenshotQuality: "JPEG quality",
+  screenshotMaxWidth: "Maximum width",
+  screenshotMaxHeight: "Maximum height",
+  screenshotBlur: "Blur",
+};
+
+/**
+ * Editor for the capture settings of one monitoring policy
+ */
+export default function MonitoringPolicyForm({ policy, disabled = false, saving = false, onSave }: MonitoringPolicyFormProps) {
+  const [draft, setDraft] = useState(policy);
+  const [error, setError] = useState("");
+  const formId = useId();
+
+  // Start over when the saved policy changes
+  const savedPolicy = JSON.stringify(policy);
+  useEffect(() => {
+    setDraft(JSON.parse(savedPolicy));
+    setError("");
+  }, [savedPolicy]);
+
+  const update = <Key extends keyof MonitoringPolicySettings>(key: Key, value: MonitoringPolicySettings[Key]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    if (error) setError("");
+  };
+
+  const numberField = (key: NumberField, className = "w-28") => (
+    <Input
+      id={`${formId}-${key}`}
+      type="number"
+      aria-label={FIELD_LABELS[key]}
+      className={className}
+      value={Number.isNaN(draft[key]) ? "" : draft[key]}
+      disabled={disabled}
+      onChange={e => update(key, e.target.valueAsNumber)}
+    />
+  );
+
+  const numberInput = (key: NumberField, unit: string, label = FIELD_LABELS[key]) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${formId}-${key}`} className="text-sm text-gray-600">{label}</Label>
+      <div className="flex items-center space-x-2">
+        {numberField(key)}
+        <span className="text-sm text-gray-500">{unit}</span>
+      </div>
+    </div>
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A fixed interval only uses the shortest one
+    const parsed = monitoringPolicySettingsSchema.safeParse(draft.screenshotMode === "fixed"
+      ? { ...draft, screenshotMaxIntervalSeconds: Math.max(draft.screenshotMaxIntervalSeconds, draft.screenshotMinIntervalSeconds) }
+      : draft);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const field = FIELD_LABELS[issue.path[0] as keyof MonitoringPolicySettings];
+      setError(field ? `${field}: ${issue.message}` : issue.message);
+      return;
+    }
+
+    onSave(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        {numberInput("behaviorIntervalSeconds", "seconds")}
+
+        <div className="space-y-1">
+          <Label className="text-sm text-gray-600">{FIELD_LABELS.screenshotMode}</Label>
+          <Select
+            value={draft.screenshotMode}
+            disabled={disabled}
+            onValueChange={value => update("screenshotMode", value as ScreenshotModeType)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="random">At random intervals</SelectItem>
+              <SelectItem value="fixed">At a fixed interval</SelectItem>
+              <SelectItem value="off">Off</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.screenshotMode === "fixed" &&
+          numberInput("screenshotMinIntervalSeconds", "seconds", "Screenshot interval")}
+        {draft.screenshotMode === "random" && (
+          <>
+            {numberInput("screenshotMinIntervalSeconds", "seconds")}
+            {numberInput("screenshotMaxIntervalSeconds", "seconds")}
+          </>
+        )}
+
+        {draft.screenshotMode !== "off" && (
+          <>
+            {numberInput("screenshotQuality", "%")}
+            <div className="space-y-1">
+              <Label htmlFor={`${formId}-screenshotMaxWidth`} className="text-sm text-gray-600">Maximum resolution</Label>
+              <div className="flex items-center space-x-2">
+                {numberField("screenshotMaxWidth", "w-24")}
+                <span className="text-sm text-gray-500">x</span>
+                {numberField("screenshotMaxHeight", "w-24")}
+                <span className="text-sm text-gray-500">px</span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Switch
+                id={`${formId}-screenshotBlur`}
+                checked={draft.screenshotBlur}
+                disabled={disabled}
+                onCheckedChange={checked => update("screenshotBlur", checked)}
+              />
+              <Label htmlFor={`${formId}-screenshotBlur`} className="text-sm text-gray-600">
+                Blur screenshots so on-screen text can't be read
+              </Label>
+            </div>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!disabled && (
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save policy"}
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { NotificationInbox } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import AlertSeverityBadge from "@/components/alert-severity-badge";
+
+const NOTIFICATIONS_KEY = "/api/notifications";
+
+/**
+ * The host's in-app notifications, behind a bell with the unread count
+ */
+export default function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data: inbox } = useQuery<NotificationInbox>({
+    queryKey: [NOTIFICATIONS_KEY],
+    refetchInterval: 30000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: (id: number | "all") =>
+      apiRequest("POST", id === "all" ? `${NOTIFICATIONS_KEY}/read-all` : `${NOTIFICATIONS_KEY}/${id}/read`),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_KEY] });
+    },
+    onError: (error) => {
+      console.error("Error marking notifications read:", error);
+    },
+  });
+
+  const unreadCount = inbox?.unreadCount ?? 0;
+  const items = inbox?.items ?? [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-9 w-9 p-0" aria-label={`Notifications, ${unreadCount} unread`}>
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex justify-between items-center px-4 py-3 border-b">
+          <h3 className="font-semibold text-gray-800">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => readMutation.mutate("all")}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No notifications yet</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {items.map(notification => (
+              <li
+                key={notification.id}
+                className={`px-4 py-3 ${notification.readAt ? "" : "bg-blue-50 cursor-pointer"}`}
+                onClick={() => !notification.readAt && readMutation.mutate(notification.id)}
+              >
+                <div className="flex items-center space-x-2">
+                  <AlertSeverityBadge severity={notification.severity} />
+                  <span className="text-sm font-medium text-gray-800 truncate">{notification.title}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{notification.body}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useId, useState } from "react";
+import {
+  NotificationChannelType,
+  NotificationPreferencesInput,
+  NotificationTypeType,
+  DEFAULT_NOTIFICATION_CHANNELS,
+  notificationPreferencesSchema,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface NotificationPreferencesFormProps {
+  preferences: NotificationPreferencesInput;
+  // Shown once saved, for checking webhook signatures
+  webhookSecret: string | null;
+  saving?: boolean;
+  onSave: (preferences: NotificationPreferencesInput) => void;
+  onTest: (channel: NotificationChannelType) => void;
+  onRotateSecret: () => void;
+}
+
+const TYPE_LABELS: Record<NotificationTypeType, string> = {
+  status_duration: "In a status for too long",
+  status_share: "In a status for too much of a window",
+  heartbeat_lost: "Dashboard stopped sending heartbeats",
+  absence: "Absent on a scheduled work day",
+};
+
+const CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  in_app: "In app",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+const FIELD_LABELS: Partial<Record<keyof NotificationPreferencesInput, string>> = {
+  email: "Email",
+  webhookUrl: "Webhook URL",
+  quietHoursStart: "Quiet hours",
+  quietHoursEnd: "Quiet hours",
+  timeZone: "Time zone",
+};
+
+/**
+ * Editor for where a host's notifications go and when they stay quiet
+ */
+export default function NotificationPreferencesForm({
+  preferences,
+  webhookSecret,
+  saving = false,
+  onSave,
+  onTest,
+  onRotateSecret,
+}: NotificationPreferencesFormProps) {
+  const [draft, setDraft] = useState(preferences);
+  const [error, setError] = useState("");
+  const formId = useId();
+
+  // Start over when the saved preferences change
+  const savedPreferences = JSON.stringify(preferences);
+  useEffect(() => {
+    setDraft(JSON.parse(savedPreferences));
+    setError("");
+  }, [savedPreferences]);
+
+  const update = <Key extends keyof NotificationPreferencesInput>(key: Key, value: NotificationPreferencesInput[Key]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    if (error) setError("");
+  };
+
+  const channelsOf = (type: NotificationTypeType) => draft.channels[type] ?? DEFAULT_NOTIFICATION_CHANNELS;
+
+  const toggleChannel = (type: NotificationTypeType, channel: NotificationChannelType, checked: boolean) => {
+    const current = channelsOf(type).filter(candidate => candidate !== channel);
+    update("channels", { ...draft.channels, [type]: checked ? [...current, channel] : current });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = notificationPreferencesSchema.safeParse({
+      ...draft,
+      email: draft.email?.trim() || null,
+      webhookUrl: draft.webhookUrl?.trim() || null,
+      quietHoursStart: draft.quietHoursStart || null,
+      quietHoursEnd: draft.quietHoursEnd || null,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const field = FIELD_LABELS[issue.path[0] as keyof NotificationPreferencesInput];
+      setError(field ? `${field}: ${issue.message}` : issue.message);
+      return;
+    }
+
+    onSave(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-email`} className="text-sm text-gray-600">Email</Label>
+          <div className="flex space-x-2">
+            <Input
+              id={`${formId}-email`}
+              type="email"
+              value={draft.email ?? ""}
+              placeholder="you@example.com"
+              onChange={e => update("email", e.target.value)}
+            />
+            <Button type="button" size="sm" variant="outline" disabled={!preferences.email} onClick={() => onTest("email")}>
+              Test
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-webhookUrl`} className="text-sm text-gray-600">Webhook URL</Label>
+          <div className="flex space-x-2">
+            <Input
+              id={`${formId}-webhookUrl`}
+              type="url"
+              value={draft.webhookUrl ?? ""}
+              placeholder="https://example.com/hooks/alerts"
+              onChange={e => update("webhookUrl", e.target.value)}
+            />
+            <Button type="button" size="sm" variant="outline" disabled={!preferences.webhookUrl} onClick={() => onTest("webhook")}>
+              Test
+            </Button>
+          </div>
+          {webhookSecret && (
+            <p className="text-xs text-gray-500">
+              Signing secret <code className="bg-gray-100 px-1 rounded">{webhookSecret}</code>{" "}
+              <button type="button" className="underline" onClick={onRotateSecret}>Rotate</button>
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-quietHoursStart`} className="text-sm text-gray-600">Quiet hours</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id={`${formId}-quietHoursStart`}
+              type="time"
+              className="w-32"
+              value={draft.quietHoursStart ?? ""}
+              onChange={e => update("quietHoursStart", e.target.value || null)}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="time"
+              aria-label="End of quiet hours"
+              className="w-32"
+              value={draft.quietHoursEnd ?? ""}
+              onChange={e => update("quietHoursEnd", e.target.value || null)}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Only in-app and critical notifications arrive during quiet hours.</p>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-timeZone`} className="text-sm text-gray-600">Time zone</Label>
+          <div className="flex space-x-2">
+            <Input
+              id={`${formId}-timeZone`}
+              value={draft.timeZone}
+              onChange={e => update("timeZone", e.target.value)}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => update("timeZone", Intl.DateTimeFormat().resolvedOptions().timeZone)}
+            >
+              Use mine
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="font-medium py-2">Notification</th>
+            {(Object.keys(CHANNEL_LABELS) as NotificationChannelType[]).map(channel => (
+              <th key={channel} className="font-medium py-2 text-center w-24">{CHANNEL_LABELS[channel]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {(Object.keys(TYPE_LABELS) as NotificationTypeType[]).map(type => (
+            <tr key={type}>
+              <td className="py-2 text-gray-800">{TYPE_LABELS[type]}</td>
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannelType[]).map(channel => (
+                <td key={channel} className="py-2 text-center">
+                  <Checkbox
+                    aria-label={`${TYPE_LABELS[type]} by ${CHANNEL_LABELS[channel]}`}
+                    checked={channelsOf(type).includes(channel)}
+                    onCheckedChange={checked => toggleChannel(type, channel, checked === true)}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex space-x-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save preferences"}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => onTest("in_app")}>
+          Send test notification
+        </Button>
+      </div>
+    </form>
+  );
+}
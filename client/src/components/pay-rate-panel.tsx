@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PayRate, PayPeriodSummary, PayTypeType, createPayRateSchema } from "@shared/schema";
+import { apiRequest, queriesFor } from "@/lib/queryClient";
+import { formatMoney, formatPayHours, payslipUrl } from "@/lib/payroll";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { FileText } from "lucide-react";
+
+interface PayRatePanelProps {
+  employeeId: number;
+  enabled: boolean;
+}
+
+function describeRate(rate: PayRate, currency: string): string {
+  return rate.payType === "salaried"
+    ? `${formatMoney(rate.amountCents, currency)} per year`
+    : `${formatMoney(rate.amountCents, currency)} per hour, ${rate.overtimeMultiplier}x after ${rate.overtimeThresholdHours}h a week`;
+}
+
+/**
+ * An employee's earnings in the current pay period, their rate history and
+ * a form for the next rate
+ */
+export default function PayRatePanel({ employeeId, enabled }: PayRatePanelProps) {
+  const [payType, setPayType] = useState<PayTypeType>("hourly");
+  const [amount, setAmount] = useState("");
+  const [overtimeThresholdHours, setOvertimeThresholdHours] = useState("40");
+  const [overtimeMultiplier, setOvertimeMultiplier] = useState("1.5");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [error, setError] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const ratesKey = `/api/payroll/rates/${employeeId}`;
+  const summaryKey = `/api/payroll/periods/summary?employeeId=${employeeId}`;
+
+  const { data: rates = [] } = useQuery<PayRate[]>({
+    queryKey: [ratesKey],
+    enabled,
+  });
+
+  const { data: summary } = useQuery<PayPeriodSummary>({
+    queryKey: [summaryKey],
+    enabled,
+  });
+
+  const currency = summary?.currency ?? "USD";
+  const line = summary?.lines[0];
+
+  const rateMutation = useMutation({
+    mutationFn: (data: unknown) => apiRequest("POST", "/api/payroll/rates", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ratesKey] });
+      queryClient.invalidateQueries(queriesFor("/api/payroll/periods/summary"));
+      setAmount("");
+      toast({
+        title: "Pay rate saved",
+        description: "Open pay periods are recalculated with it; locked ones keep what was paid.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving pay rate:", error);
+      toast({
+        title: "Save failed",
+        description: "The pay rate could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = createPayRateSchema.safeParse({
+      employeeId,
+      payType,
+      amountCents: Math.round(parseFloat(amount) * 100),
+      overtimeThresholdHours: parseFloat(overtimeThresholdHours),
+      overtimeMultiplier: parseFloat(overtimeMultiplier),
+      effectiveFrom,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      setError(issue.path[0] === "amountCents" ? "Enter the amount to pay" : issue.message);
+      return;
+    }
+
+    setError("");
+    rateMutation.mutate(parsed.data);
+  };
+
+  const history = [...rates].reverse();
+
+  return (
+    <div className="space-y-4">
+      {summary && line && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            Pay period {format(new Date(summary.startsAt), "MMM d")} – {format(new Date(new Date(summary.endsAt).getTime() - 1), "MMM d, yyyy")}
+          </p>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Working Hours</span>
+            <span className="font-medium text-gray-800">{formatPayHours(line.regularSeconds + line.overtimeSeconds)}</span>
+          </div>
+          {line.overtimeSeconds > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Overtime Hours</span>
+              <span className="font-medium text-gray-800">{formatPayHours(line.overtimeSeconds)}</span>
+            </div>
+          )}
+          <div className="border-t border-gray-200 pt-2 mt-2">
+            <div className="flex justify-between">
+              <span className="font-semibold text-gray-700">Gross This Period</span>
+              <span className="font-bold text-gray-800">
+                {line.payType ? formatMoney(line.grossCents, currency) : "No pay rate"}
+              </span>
+            </div>
+          </div>
+          <Button size="sm" variant="outline" asChild>
+            <a href={payslipUrl(employeeId, summary.startsAt)} download>
+              <FileText className="h-4 w-4 mr-1" />
+              Payslip (PDF)
+            </a>
+          </Button>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <ul className="text-sm divide-y divide-gray-200">
+          {history.map(rate => (
+            <li key={rate.id} className="py-1.5 flex justify-between">
+              <span className="text-gray-700">{describeRate(rate, currency)}</span>
+              <span className="text-gray-500">from {format(new Date(rate.effectiveFrom), "MMM d, yyyy")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-200 pt-3">
+        <p className="text-sm font-medium text-gray-700">New rate</p>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={payType} onValueChange={value => setPayType(value as PayTypeType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hourly">Hourly</SelectItem>
+              <SelectItem value="salaried">Salaried</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            aria-label={payType === "hourly" ? "Amount per hour" : "Amount per year"}
+            placeholder={payType === "hourly" ? "Per hour" : "Per year"}
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+          />
+        </div>
+        {payType === "hourly" && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Overtime after (hours a week)</Label>
+              <Input type="number" min="0" value={overtimeThresholdHours} onChange={e => setOvertimeThresholdHours(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Overtime multiplier</Label>
+              <Input type="number" min="1" step="0.05" value={overtimeMultiplier} onChange={e => setOvertimeMultiplier(e.target.value)} />
+            </div>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Effective from</Label>
+          <Input type="date" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="submit" size="sm" disabled={rateMutation.isPending}>
+          {rateMutation.isPending ? "Saving..." : "Save rate"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useId, useState } from "react";
+import { PayFrequencyType, PayrollSettingsInput, payrollSettingsSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface PayrollSettingsFormProps {
+  settings: PayrollSettingsInput;
+  disabled?: boolean;
+  saving?: boolean;
+  onSave: (settings: PayrollSettingsInput) => void;
+}
+
+const FREQUENCY_LABELS: Record<PayFrequencyType, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  semimonthly: "Twice a month (1st and 16th)",
+  monthly: "Monthly",
+};
+
+/**
+ * Editor for how an organization's pay periods are laid out
+ */
+export default function PayrollSettingsForm({ settings, disabled = false, saving = false, onSave }: PayrollSettingsFormProps) {
+  const [draft, setDraft] = useState(settings);
+  const [error, setError] = useState("");
+  const formId = useId();
+
+  // Start over when the saved settings change
+  const savedSettings = JSON.stringify(settings);
+  useEffect(() => {
+    setDraft(JSON.parse(savedSettings));
+    setError("");
+  }, [savedSettings]);
+
+  const update = <Key extends keyof PayrollSettingsInput>(key: Key, value: PayrollSettingsInput[Key]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    if (error) setError("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = payrollSettingsSchema.safeParse({ ...draft, currency: draft.currency.toUpperCase() });
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    onSave(parsed.data);
+  };
+
+  const anchored = draft.frequency === "weekly" || draft.frequency === "biweekly";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+        <div className="space-y-1">
+          <Label className="text-sm text-gray-600">Pay periods</Label>
+          <Select
+            value={draft.frequency}
+            disabled={disabled}
+            onValueChange={value => update("frequency", value as PayFrequencyType)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FREQUENCY_LABELS) as PayFrequencyType[]).map(frequency => (
+                <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {anchored && (
+          <div className="space-y-1">
+            <Label htmlFor={`${formId}-anchorDate`} className="text-sm text-gray-600">A period starts on</Label>
+            <Input
+              id={`${formId}-anchorDate`}
+              type="date"
+              value={draft.anchorDate}
+              disabled={disabled}
+              onChange={e => update("anchorDate", e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-currency`} className="text-sm text-gray-600">Currency</Label>
+          <Input
+            id={`${formId}-currency`}
+            className="w-24 uppercase"
+            maxLength={3}
+            value={draft.currency}
+            disabled={disabled}
+            onChange={e => update("currency", e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!disabled && (
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save settings"}
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Recording } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { respondToRecording, startScreenRecording, ScreenRecordingHandle } from "@/lib/screen-recording";
+import { useRealtime } from "@/lib/realtime";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface RecordingConsentProps {
+  employeeId: number;
+}
+
+/**
+ * Asks the employee before any screen recording starts, and shows a banner
+ * with a stop button for as long as one is running
+ */
+export default function RecordingConsent({ employeeId }: RecordingConsentProps) {
+  const [active, setActive] = useState<Recording | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isResponding, setIsResponding] = useState(false);
+  const handleRef = useRef<ScreenRecordingHandle | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const pendingKey = `/api/recordings/${employeeId}?status=requested`;
+  const live = useRealtime([`employee:${employeeId}`]);
+
+  // Recording requests from the host are pushed, or polled while disconnected
+  const { data: pending = [] } = useQuery<Recording[]>({
+    queryKey: [pendingKey],
+    refetchInterval: live ? false : 10000,
+  });
+
+  const request = active ? undefined : pending[0];
+
+  // Count down while recording
+  useEffect(() => {
+    if (!active) return;
+
+    const endsAt = Date.now() + active.requestedDuration * 1000;
+    setSecondsLeft(active.requestedDuration);
+    const timer = setInterval(() => {
+      setSecondsLeft(Math.max(0, Math.round((endsAt - Date.now()) / 1000)));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [active]);
+
+  // Finish the upload if the dashboard is left mid-recording
+  useEffect(() => {
+    return () => {
+      handleRef.current?.stop();
+    };
+  }, []);
+
+  const answer = async (accepted: boolean) => {
+    if (!request) return;
+    setIsResponding(true);
+
+    try {
+      const recording = await respondToRecording(request.id, accepted);
+      queryClient.invalidateQueries({ queryKey: [pendingKey] });
+
+      if (accepted) {
+        const handle = await startScreenRecording(recording);
+        handleRef.current = handle;
+        setActive(recording);
+
+        handle.finished.then(() => {
+          handleRef.current = null;
+          setActive(null);
+          toast({
+            title: "Screen recording finished",
+            description: "The recording has been sent to your manager.",
+          });
+        });
+      }
+    } catch (error) {
+      console.error("Error answering recording request:", error);
+      toast({
+        title: "Screen recording failed",
+        description: "The recording could not be started.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+  return (
+    <>
+      <AlertDialog open={!!request}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Screen recording request</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your manager would like to record your screen for {request?.requestedDuration} seconds.
+              Recording only starts if you allow it, and you can stop it at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isResponding} onClick={() => answer(false)}>
+              Decline
+            </AlertDialogCancel>
+            <AlertDialogAction disabled={isResponding} onClick={() => answer(true)}>
+              Allow recording
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {active && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-white border border-red-200 shadow-lg rounded-lg px-4 py-3 flex items-center space-x-4">
+          <span className="inline-block w-3 h-3 rounded-full bg-red-500 animate-pulse"></span>
+          <span className="text-sm text-gray-800">
+            Your screen is being recorded ({formatCountdown(secondsLeft)} left)
+          </span>
+          <Button size="sm" variant="destructive" onClick={() => handleRef.current?.stop()}>
+            Stop
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
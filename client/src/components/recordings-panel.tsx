@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Recording, RecordingStatusType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { requestRecording, recordingStreamUrl } from "@/lib/screen-recording";
+import { useRealtime } from "@/lib/realtime";
+import { Play } from "lucide-react";
+
+interface RecordingsPanelProps {
+  employeeId: number;
+  enabled: boolean;
+}
+
+const DURATION_OPTIONS = [
+  { seconds: 30, label: "30 seconds" },
+  { seconds: 60, label: "1 minute" },
+  { seconds: 120, label: "2 minutes" },
+  { seconds: 300, label: "5 minutes" },
+];
+
+const STATUS_LABELS: Record<RecordingStatusType, { label: string; className: string }> = {
+  requested: { label: "Waiting for consent", className: "bg-amber-100 text-amber-700" },
+  declined: { label: "Declined", className: "bg-gray-100 text-gray-600" },
+  recording: { label: "Recording", className: "bg-red-100 text-red-700" },
+  completed: { label: "Completed", className: "bg-emerald-100 text-emerald-700" },
+};
+
+/**
+ * Lets a host request a screen recording from an employee and play back
+ * earlier ones
+ */
+export default function RecordingsPanel({ employeeId, enabled }: RecordingsPanelProps) {
+  const [duration, setDuration] = useState("60");
+  const [playingId, setPlayingId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const live = useRealtime(enabled ? [`employee:${employeeId}`] : []);
+
+  const { data: recordings = [] } = useQuery<Recording[]>({
+    queryKey: [`/api/recordings/${employeeId}`],
+    enabled,
+    refetchInterval: live ? false : 5000,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestRecording(employeeId, parseInt(duration)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/recordings/${employeeId}`] });
+      toast({
+        title: "Recording requested",
+        description: "The employee will be asked for consent before recording starts.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error requesting recording:", error);
+      toast({
+        title: "Request failed",
+        description: "There was a problem requesting the recording.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOpenRequest = recordings.some(r => r.status === "requested" || r.status === "recording");
+  const playing = recordings.find(r => r.id === playingId);
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-4">
+        <Select value={duration} onValueChange={setDuration}>
+          <SelectTrigger className="w-[140px] bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATION_OPTIONS.map(option => (
+              <SelectItem key={option.seconds} value={String(option.seconds)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => requestMutation.mutate()}
+          disabled={requestMutation.isPending || hasOpenRequest}
+        >
+          Request recording
+        </Button>
+      </div>
+
+      {playing && (
+        <div className="rounded-lg overflow-hidden bg-black mb-4">
+          <video
+            key={playing.id}
+            src={recordingStreamUrl(playing.id)}
+            controls
+            autoPlay
+            className="w-full max-h-[300px]"
+          />
+        </div>
+      )}
+
+      {recordings.length > 0 ? (
+        <div className="space-y-2">
+          {recordings.map(recording => {
+            const status = STATUS_LABELS[recording.status as RecordingStatusType] ?? STATUS_LABELS.requested;
+            const playable = recording.sizeBytes > 0;
+
+            return (
+              <div key={recording.id} className="bg-white p-3 rounded-lg shadow-sm flex justify-between items-center">
+                <div>
+                  <div className="text-sm font-medium text-gray-800">
+                    {format(new Date(recording.timestamp), "MMM d, h:mm a")}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {recording.duration ?? recording.requestedDuration}s
+                    <span className={`ml-2 px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-blue-500 text-sm hover:text-blue-700 flex items-center"
+                  disabled={!playable}
+                  onClick={() => setPlayingId(recording.id)}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Play
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-6 text-gray-500">
+          <p>No screen recordings yet</p>
+        </div>
+      )}
+    </div>
+  );
+}
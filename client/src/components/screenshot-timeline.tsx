@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { addDays, endOfDay, format, isToday, startOfDay } from "date-fns";
+import { ScreenshotInfo, ScreenshotPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useRealtime } from "@/lib/realtime";
+import { toast } from "@/hooks/use-toast";
+import { X, Download, Maximize, ChevronLeft, ChevronRight } from "lucide-react";
+import { AlertDialog, AlertDialogContent } from "@/components/ui/alert-dialog";
+
+interface ScreenshotTimelineProps {
+  employeeId: number;
+  enabled: boolean;
+  // Show only this range instead of a day, e.g. a disputed one
+  focus?: { from: Date; to: Date } | null;
+  onClearFocus?: () => void;
+}
+
+const PAGE_SIZE = 24;
+
+/**
+ * One day of an employee's screen captures as a scrollable strip of
+ * thumbnails, loaded a page at a time. Full-size images are only fetched
+ * in the fullscreen viewer.
+ */
+export default function ScreenshotTimeline({ employeeId, enabled, focus, onClearFocus }: ScreenshotTimelineProps) {
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [showFullscreen, setShowFullscreen] = useState(false);
+  const viewingToday = !focus && isToday(day);
+  const live = useRealtime(enabled ? [`employee:${employeeId}`] : []);
+
+  const from = focus ? focus.from : day;
+  const to = focus ? focus.to : endOfDay(day);
+  const dayUrl = `/api/screenshots/${employeeId}?limit=${PAGE_SIZE}` +
+    `&from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+
+  // Start from the newest capture of a newly focused range
+  useEffect(() => {
+    setSelectedId(null);
+  }, [dayUrl]);
+
+  const { data, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [dayUrl],
+    queryFn: async ({ pageParam }) => {
+      const url = pageParam ? `${dayUrl}&cursor=${encodeURIComponent(pageParam)}` : dayUrl;
+      const res = await apiRequest("GET", url);
+      return await res.json() as ScreenshotPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+    // Only today's timeline can still grow; new captures are pushed while connected
+    refetchInterval: viewingToday && !live ? 10000 : false,
+  });
+
+  const screenshots = data?.pages.flatMap(page => page.items) ?? [];
+  // Follow the newest capture until one is picked
+  const selectedIndex = Math.max(0, screenshots.findIndex(s => s.id === selectedId));
+  const selected: ScreenshotInfo | undefined = screenshots[selectedIndex];
+
+  const changeDay = (offset: number) => {
+    setDay(current => addDays(current, offset));
+    setSelectedId(null);
+  };
+
+  // Step through the loaded captures, pulling in the next page at the oldest one
+  const selectIndex = (index: number) => {
+    if (index < 0) return;
+    if (index >= screenshots.length) {
+      if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+      return;
+    }
+    setSelectedId(screenshots[index].id);
+  };
+
+  // Load older captures as the strip is scrolled to its end
+  const handleStripScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const strip = event.currentTarget;
+    if (hasNextPage && !isFetchingNextPage && strip.scrollLeft + strip.clientWidth >= strip.scrollWidth - 100) {
+      fetchNextPage();
+    }
+  };
+
+  const handleDownload = (screenshot: ScreenshotInfo) => {
+    try {
+      const link = document.createElement('a');
+      link.href = screenshot.imageUrl;
+      link.download = `screenshot-${new Date(screenshot.timestamp).toISOString().replace(/[:.]/g, '-')}.jpg`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast({
+        title: "Download Started",
+        description: "Downloading screenshot",
+        variant: "default",
+      });
+    } catch (error) {
+      console.error("Download error:", error);
+      toast({
+        title: "Download Error",
+        description: "There was a problem downloading the screenshot.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Screen Captures</h3>
+        {focus ? (
+          <div className="flex items-center space-x-1 text-sm text-gray-600">
+            <span>{format(focus.from, "MMM d, h:mm a")} – {format(focus.to, "h:mm a")}</span>
+            <Button size="sm" variant="ghost" className="h-7 px-2" title="Back to the whole day" onClick={onClearFocus}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-1 text-sm text-gray-600">
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => changeDay(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="min-w-[90px] text-center">{viewingToday ? "Today" : format(day, "EEE, MMM d")}</span>
+            <Button size="sm" variant="ghost" className="h-7 px-2" disabled={viewingToday} onClick={() => changeDay(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {selected ? (
+        <>
+          <div className="relative rounded-lg overflow-hidden bg-gray-200 h-[300px]">
+            <img
+              src={selected.thumbnailUrl}
+              alt="Screen capture"
+              className="w-full h-full object-contain"
+            />
+            <div className="absolute bottom-0 left-0 right-0 bg-gray-800 bg-opacity-75 text-white px-4 py-2 text-sm">
+              <div className="flex justify-between">
+                <span>
+                  Captured at {format(new Date(selected.timestamp), "h:mm a")}
+                </span>
+                <span>
+                  {selectedIndex + 1} of {screenshots.length}{hasNextPage ? "+" : ""}
+                </span>
+              </div>
+            </div>
+            <div className="absolute top-2 right-2 flex space-x-2">
+              <Button
+                size="sm"
+                variant="secondary"
+                className="bg-white bg-opacity-75 hover:bg-opacity-100"
+                onClick={() => setShowFullscreen(true)}
+              >
+                <Maximize className="h-4 w-4 mr-1" />
+                <span className="text-xs">Fullscreen</span>
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="bg-white bg-opacity-75 hover:bg-opacity-100"
+                onClick={() => handleDownload(selected)}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                <span className="text-xs">Download</span>
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-4 flex space-x-2 overflow-x-auto pb-2" onScroll={handleStripScroll}>
+            {screenshots.map((screenshot, index) => (
+              <div
+                key={screenshot.id}
+                className="flex-shrink-0 w-24 cursor-pointer"
+                onClick={() => setSelectedId(screenshot.id)}
+              >
+                <div className={`h-16 bg-gray-200 rounded overflow-hidden ${
+                  index === selectedIndex ? 'ring-2 ring-blue-500' : ''
+                }`}>
+                  <img
+                    src={screenshot.thumbnailUrl}
+                    alt={`Screen thumbnail ${index + 1}`}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+                <div className="text-xs text-gray-500 text-center mt-1">
+                  {format(new Date(screenshot.timestamp), "h:mm a")}
+                </div>
+              </div>
+            ))}
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-shrink-0 h-16 text-blue-500 hover:text-blue-700"
+                disabled={isFetchingNextPage}
+                onClick={() => fetchNextPage()}
+              >
+                {isFetchingNextPage ? "Loading..." : "Older"}
+              </Button>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <div className="w-full h-[300px] bg-gray-200 rounded-lg flex items-center justify-center">
+            <div>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto text-gray-400 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+              <p>
+                {focus
+                  ? "No screen captures in this range"
+                  : viewingToday ? "No screen captures available" : "No screen captures on this day"}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Fullscreen Screenshot Viewer */}
+      <AlertDialog open={showFullscreen} onOpenChange={setShowFullscreen}>
+        <AlertDialogContent className="max-w-7xl w-[95vw] h-[90vh] p-1">
+          <div className="relative h-full">
+            <div className="absolute top-2 right-2 flex space-x-2 z-10">
+              {selected && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="bg-white bg-opacity-75 hover:bg-opacity-100"
+                  onClick={() => handleDownload(selected)}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  <span className="text-xs">Download</span>
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="secondary"
+                className="bg-white bg-opacity-75 hover:bg-opacity-100"
+                onClick={() => setShowFullscreen(false)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="bg-black h-full flex items-center justify-center">
+              {showFullscreen && selected && (
+                <img
+                  src={selected.imageUrl}
+                  alt="Screen capture fullscreen"
+                  className="max-h-full max-w-full object-contain"
+                />
+              )}
+            </div>
+
+            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-full">
+              <div className="flex items-center space-x-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-white hover:bg-white hover:bg-opacity-10"
+                  disabled={selectedIndex === screenshots.length - 1 && !hasNextPage}
+                  onClick={() => selectIndex(selectedIndex + 1)}
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </Button>
+                <span>
+                  {selected ? format(new Date(selected.timestamp), "h:mm:ss a") : ""}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-white hover:bg-white hover:bg-opacity-10"
+                  disabled={selectedIndex === 0}
+                  onClick={() => selectIndex(selectedIndex - 1)}
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { format } from "date-fns";
+import { BehaviorLog, BehaviorSignals, DetectionSourceType } from "@shared/schema";
+
+interface StatusChangeListProps {
+  // Newest first, as the behavior-logs endpoint returns them
+  logs: BehaviorLog[];
+  limit?: number;
+}
+
+const SOURCE_LABELS: Record<DetectionSourceType, string> = {
+  local: "On-device models",
+  server: "Server classifier",
+};
+
+// What each signal measures, by source; the units differ between classifiers
+const EYE_HINTS: Record<DetectionSourceType, string> = {
+  local: "Average gap between the eyelids; low values mean closed eyes",
+  server: "Contrast around the eyes; low values mean closed eyes or a lowered head",
+};
+const MOVEMENT_HINTS: Record<DetectionSourceType, string> = {
+  local: "Average travel of body landmarks over the last frames",
+  server: "Average change since the previous frame",
+};
+
+function formatSignal(value: number): string {
+  return value < 1 ? value.toFixed(3) : value.toFixed(1);
+}
+
+function SignalList({ signals, source }: { signals: BehaviorSignals; source: DetectionSourceType }) {
+  const parts: { label: string; hint?: string }[] = [];
+  if (signals.facePresent !== undefined) {
+    parts.push({ label: `Face: ${signals.facePresent ? "yes" : "no"}` });
+  }
+  if (signals.eyeOpenness !== undefined) {
+    parts.push({ label: `Eyes: ${formatSignal(signals.eyeOpenness)}`, hint: EYE_HINTS[source] });
+  }
+  if (signals.movement !== undefined) {
+    parts.push({ label: `Movement: ${formatSignal(signals.movement)}`, hint: MOVEMENT_HINTS[source] });
+  }
+  if (parts.length === 0) return null;
+
+  return (
+    <p className="text-xs text-gray-500 mt-0.5">
+      {parts.map((part, index) => (
+        <span key={part.label} title={part.hint}>
+          {index > 0 && " · "}
+          {part.label}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Recent status changes with the confidence, classifier and measurements
+ * behind each one, so hosts can see why a status was assigned
+ */
+export default function StatusChangeList({ logs, limit = 10 }: StatusChangeListProps) {
+  return (
+    <ul className="divide-y divide-gray-200">
+      {logs.slice(0, limit).map(log => {
+        const source = log.source as DetectionSourceType | null;
+        return (
+          <li key={log.id} className="py-2">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center">
+                <span className={`h-2.5 w-2.5 rounded-full mr-2 status-${log.status}`} />
+                <span className="text-sm font-medium text-gray-800 capitalize">{log.status}</span>
+                <span className="text-xs text-gray-500 ml-2">{format(new Date(log.timestamp), "h:mm:ss a")}</span>
+              </div>
+              <span className="text-xs text-gray-600">
+                {log.confidence !== null && source
+                  ? `${Math.round(log.confidence * 100)}% · ${SOURCE_LABELS[source]}`
+                  : "Set by the system"}
+              </span>
+            </div>
+            {log.signals && source && <SignalList signals={log.signals} source={source} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
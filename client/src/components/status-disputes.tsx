@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, subMinutes } from "date-fns";
+import { BehaviorStatus, BehaviorStatusType, StatusDispute, createStatusDisputeSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import DisputeStatusBadge from "@/components/dispute-status-badge";
+
+interface StatusDisputesProps {
+  employeeId: number;
+}
+
+// Form defaults to the last quarter of an hour, the usual case after a wrong warning
+function initialRange() {
+  const now = new Date();
+  return {
+    date: format(now, "yyyy-MM-dd"),
+    from: format(subMinutes(now, 15), "HH:mm"),
+    to: format(now, "HH:mm"),
+  };
+}
+
+/**
+ * Lets an employee dispute the status recorded for a time range and follow
+ * the host's decision
+ */
+export default function StatusDisputes({ employeeId }: StatusDisputesProps) {
+  const [range, setRange] = useState(initialRange);
+  const [claimedStatus, setClaimedStatus] = useState<BehaviorStatusType>("working");
+  const [reason, setReason] = useState("");
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const disputesKey = `/api/status-disputes/${employeeId}`;
+
+  const { data: disputes = [] } = useQuery<StatusDispute[]>({
+    queryKey: [disputesKey],
+  });
+
+  const disputeMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = await apiRequest("POST", "/api/status-disputes", data);
+      return await response.json() as StatusDispute;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [disputesKey] });
+      setReason("");
+      setRange(initialRange());
+      setOpen(false);
+      toast({
+        title: "Dispute sent",
+        description: "Your host will review it alongside the screenshots from that time.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error creating status dispute:", error);
+      toast({
+        title: "Dispute not sent",
+        description: error.message.startsWith("409")
+          ? "Part of this range is already disputed."
+          : "There was a problem sending your dispute. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Times are entered in the browser's time zone
+    const startsAt = new Date(`${range.date}T${range.from}`);
+    const endsAt = new Date(`${range.date}T${range.to}`);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      toast({
+        title: "Check the dispute",
+        description: "Pick a date and the times it covers.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parsed = createStatusDisputeSchema.safeParse({
+      employeeId,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      claimedStatus,
+      reason,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Check the dispute",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    disputeMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-gray-200 px-6 py-4 flex flex-row justify-between items-center space-y-0">
+        <CardTitle className="text-lg font-semibold text-gray-800">Status Disputes</CardTitle>
+        {!open && (
+          <Button size="sm" variant="outline" onClick={() => setOpen(true)}>
+            Dispute a status
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-4">
+        {open && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Marked as sleeping or idle when you weren't? Tell your host what you were doing.
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="date"
+                aria-label="Date"
+                value={range.date}
+                onChange={e => setRange(current => ({ ...current, date: e.target.value }))}
+              />
+              <Input
+                type="time"
+                aria-label="From"
+                value={range.from}
+                onChange={e => setRange(current => ({ ...current, from: e.target.value }))}
+              />
+              <Input
+                type="time"
+                aria-label="To"
+                value={range.to}
+                onChange={e => setRange(current => ({ ...current, to: e.target.value }))}
+              />
+            </div>
+            <Select value={claimedStatus} onValueChange={value => setClaimedStatus(value as BehaviorStatusType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BehaviorStatus.options.map(status => (
+                  <SelectItem key={status} value={status}>
+                    I was {status === "inactive" ? "away" : status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="What were you doing? E.g. reading printed specs, on a call with the camera off..."
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={3}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={disputeMutation.isPending}>
+                {disputeMutation.isPending ? "Sending..." : "Send dispute"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {disputes.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {disputes.map(dispute => (
+              <li key={dispute.id} className="py-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-800">
+                    {format(new Date(dispute.startsAt), "MMM d, h:mm a")} – {format(new Date(dispute.endsAt), "h:mm a")}
+                    <span className="text-gray-500"> as {dispute.claimedStatus}</span>
+                  </span>
+                  <DisputeStatusBadge status={dispute.status} />
+                </div>
+                {dispute.reviewNote && (
+                  <p className="text-xs text-gray-500 mt-1">Host: {dispute.reviewNote}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          !open && <p className="text-sm text-gray-500">You haven't disputed any statuses.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
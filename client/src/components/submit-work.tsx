@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
+import { IDEMPOTENCY_KEY_HEADER } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,8 +18,11 @@ export default function SubmitWork({ employeeId, onSubmit }: SubmitWorkProps) {
   const [fileData, setFileData] = useState<string | null>(null);
   const [fileName, setFileName] = useState("");
   const [fileSize, setFileSize] = useState(0);
+  const [mimeType, setMimeType] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  // Kept across retries of the same submission so the server stores it once
+  const attemptRef = useRef<{ idempotencyKey: string; capturedAt: string } | null>(null);
 
   // Mutation for submitting work
   const submitWorkMutation = useMutation({
@@ -28,15 +32,23 @@ export default function SubmitWork({ employeeId, onSubmit }: SubmitWorkProps) {
       fileData: string;
       fileName: string;
       fileSize: number;
+      mimeType?: string;
     }) => {
-      return apiRequest("POST", "/api/work-submissions", data);
+      attemptRef.current ??= { idempotencyKey: crypto.randomUUID(), capturedAt: new Date().toISOString() };
+      const { idempotencyKey, capturedAt } = attemptRef.current;
+      return apiRequest("POST", "/api/work-submissions", { ...data, capturedAt }, {
+        [IDEMPOTENCY_KEY_HEADER]: idempotencyKey,
+      });
     },
     onSuccess: () => {
+      attemptRef.current = null;
+
       // Reset form
       setDescription("");
       setFileData(null);
       setFileName("");
       setFileSize(0);
+      setMimeType("");
       
       // Show success message
       toast({
@@ -73,8 +85,11 @@ export default function SubmitWork({ employeeId, onSubmit }: SubmitWorkProps) {
       return;
     }
     
+    // A different file is a new submission
+    attemptRef.current = null;
     setFileName(file.name);
     setFileSize(file.size);
+    setMimeType(file.type);
     
     // Read file as data URL
     const reader = new FileReader();
@@ -118,7 +133,8 @@ export default function SubmitWork({ employeeId, onSubmit }: SubmitWorkProps) {
         description,
         fileData,
         fileName,
-        fileSize
+        fileSize,
+        mimeType: mimeType || undefined
       });
     } finally {
       setIsLoading(false);
@@ -0,0 +1,131 @@
+import { useEffect, useId, useState } from "react";
+import { WorkScheduleSettings, workScheduleSettingsSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { WEEKDAYS } from "@/lib/work-schedule";
+
+interface WorkScheduleFormProps {
+  schedule: WorkScheduleSettings;
+  disabled?: boolean;
+  saving?: boolean;
+  onSave: (schedule: WorkScheduleSettings) => void;
+}
+
+const FIELD_LABELS: Record<keyof WorkScheduleSettings, string> = {
+  workDays: "Work days",
+  startTime: "Hours",
+  endTime: "Hours",
+  graceMinutes: "Grace period",
+};
+
+/**
+ * Editor for the days and hours employees are expected at work
+ */
+export default function WorkScheduleForm({ schedule, disabled = false, saving = false, onSave }: WorkScheduleFormProps) {
+  const [draft, setDraft] = useState(schedule);
+  const [error, setError] = useState("");
+  const formId = useId();
+
+  // Start over when the saved schedule changes
+  const savedSchedule = JSON.stringify(schedule);
+  useEffect(() => {
+    setDraft(JSON.parse(savedSchedule));
+    setError("");
+  }, [savedSchedule]);
+
+  const update = <Key extends keyof WorkScheduleSettings>(key: Key, value: WorkScheduleSettings[Key]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    if (error) setError("");
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    const others = draft.workDays.filter(candidate => candidate !== day);
+    update("workDays", checked ? [...others, day].sort() : others);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = workScheduleSettingsSchema.safeParse(draft);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const field = FIELD_LABELS[issue.path[0] as keyof WorkScheduleSettings];
+      setError(field ? `${field}: ${issue.message}` : issue.message);
+      return;
+    }
+
+    onSave(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-1">
+        <Label className="text-sm text-gray-600">{FIELD_LABELS.workDays}</Label>
+        <div className="flex flex-wrap gap-4">
+          {WEEKDAYS.map(({ day, label }) => (
+            <div key={day} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${formId}-day-${day}`}
+                checked={draft.workDays.includes(day)}
+                disabled={disabled}
+                onCheckedChange={checked => toggleDay(day, checked === true)}
+              />
+              <Label htmlFor={`${formId}-day-${day}`} className="text-sm text-gray-700">{label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-startTime`} className="text-sm text-gray-600">{FIELD_LABELS.startTime}</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id={`${formId}-startTime`}
+              type="time"
+              className="w-32"
+              value={draft.startTime}
+              disabled={disabled}
+              onChange={e => update("startTime", e.target.value)}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="time"
+              aria-label="End of the work day"
+              className="w-32"
+              value={draft.endTime}
+              disabled={disabled}
+              onChange={e => update("endTime", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-graceMinutes`} className="text-sm text-gray-600">{FIELD_LABELS.graceMinutes}</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id={`${formId}-graceMinutes`}
+              type="number"
+              className="w-28"
+              value={Number.isNaN(draft.graceMinutes) ? "" : draft.graceMinutes}
+              disabled={disabled}
+              onChange={e => update("graceMinutes", e.target.valueAsNumber)}
+            />
+            <span className="text-sm text-gray-500">minutes</span>
+          </div>
+          <p className="text-xs text-gray-500">Employees without any activity this long after the start count as absent.</p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!disabled && (
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save schedule"}
+        </Button>
+      )}
+    </form>
+  );
+}
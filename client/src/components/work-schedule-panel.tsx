@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO, subDays } from "date-fns";
+import { AbsenceReport, EffectiveWorkSchedule, WorkScheduleSettings } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { describeWorkSchedule } from "@/lib/work-schedule";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import WorkScheduleForm from "@/components/work-schedule-form";
+
+interface WorkSchedulePanelProps {
+  employeeId: number;
+  enabled: boolean;
+}
+
+// How far back the panel lists absences
+const ABSENCE_HISTORY_DAYS = 30;
+
+const SOURCE_LABELS: Record<EffectiveWorkSchedule["source"], string> = {
+  employee: "Own schedule",
+  team: "Team schedule",
+  organization: "Organization schedule",
+  default: "Default schedule",
+};
+
+/**
+ * The schedule an employee is held to, with a way to give them their own,
+ * and the days they were recently absent
+ */
+export default function WorkSchedulePanel({ employeeId, enabled }: WorkSchedulePanelProps) {
+  const [editing, setEditing] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const scheduleKey = `/api/work-schedules/effective/${employeeId}`;
+  const from = format(subDays(new Date(), ABSENCE_HISTORY_DAYS), "yyyy-MM-dd");
+
+  const { data: schedule } = useQuery<EffectiveWorkSchedule>({
+    queryKey: [scheduleKey],
+    enabled,
+  });
+
+  const { data: absenceReport } = useQuery<AbsenceReport>({
+    queryKey: [`/api/absences?employeeId=${employeeId}&from=${from}`],
+    enabled,
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: [scheduleKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/work-schedules"] });
+    setEditing(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: WorkScheduleSettings) => apiRequest("PUT", `/api/work-schedules/employees/${employeeId}`, settings),
+    onSuccess: () => {
+      onSaved();
+      toast({
+        title: "Schedule saved",
+        description: "Absences are checked against it from the next check on.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving work schedule:", error);
+      toast({
+        title: "Save failed",
+        description: "The work schedule could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/work-schedules/employees/${employeeId}`),
+    onSuccess: onSaved,
+    onError: (error) => {
+      console.error("Error resetting work schedule:", error);
+      toast({
+        title: "Reset failed",
+        description: "The employee's schedule could not be removed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!schedule) return null;
+
+  const { source, ...settings } = schedule;
+  const absences = absenceReport?.absences ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-medium text-gray-800">{describeWorkSchedule(settings)}</p>
+          <p className="text-xs text-gray-500">
+            {SOURCE_LABELS[source]}
+            {absenceReport && `, ${absenceReport.timeZone}`}
+          </p>
+        </div>
+        {source === "employee" ? (
+          <Button size="sm" variant="outline" disabled={resetMutation.isPending} onClick={() => resetMutation.mutate()}>
+            Use team schedule
+          </Button>
+        ) : (
+          <Button size="sm" variant={editing ? "ghost" : "outline"} onClick={() => setEditing(!editing)}>
+            {editing ? "Cancel" : "Customize"}
+          </Button>
+        )}
+      </div>
+
+      {(editing || source === "employee") && (
+        <WorkScheduleForm
+          schedule={settings}
+          saving={saveMutation.isPending}
+          onSave={next => saveMutation.mutate(next)}
+        />
+      )}
+
+      <div className="border-t border-gray-200 pt-3">
+        <p className="text-sm font-medium text-gray-700 mb-2">Absences in the last {ABSENCE_HISTORY_DAYS} days</p>
+        {absences.length === 0 ? (
+          <p className="text-sm text-gray-500">None</p>
+        ) : (
+          <ul className="text-sm divide-y divide-gray-200">
+            {absences.map(absence => (
+              <li key={absence.id} className="py-1.5 flex justify-between">
+                <span className="text-gray-700">{format(parseISO(absence.date), "EEE, MMM d, yyyy")}</span>
+                <span className="text-gray-500">expected at {format(new Date(absence.expectedStart), "h:mm a")}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
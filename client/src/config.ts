@@ -21,5 +21,8 @@ export const WS_URL =
     ? `ws://${window.location.host}/api/ws`
     : window.location.origin.replace('http', 'ws') + '/api/ws';
 
-// Log the WebSocket URL for debugging
-console.log('WS_URL:', WS_URL);
\ No newline at end of file
+// WebRTC settings for live views. Peers on the same network connect directly;
+// set VITE_STUN_URL when employees are behind NAT
+export const RTC_CONFIGURATION: RTCConfiguration = {
+  iceServers: import.meta.env.VITE_STUN_URL ? [{ urls: import.meta.env.VITE_STUN_URL }] : [],
+};
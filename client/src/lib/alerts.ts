@@ -0,0 +1,22 @@
+import { AlertRule, AlertRuleSettings } from "@shared/schema";
+
+function minutes(count: number): string {
+  return count === 1 ? "1 minute" : `${count} minutes`;
+}
+
+/**
+ * A rule's condition in words, e.g. "Sleeping for over 3 minutes"
+ */
+export function describeAlertRule(rule: AlertRule | AlertRuleSettings): string {
+  const status = rule.status ? rule.status.charAt(0).toUpperCase() + rule.status.slice(1) : "";
+  switch (rule.kind) {
+    case "status_duration":
+      return `${status} for over ${minutes(rule.minutes)}`;
+    case "status_share":
+      return `${status} over ${rule.percent}% of the last ${minutes(rule.minutes)}`;
+    case "heartbeat_lost":
+      return `No heartbeat for ${minutes(rule.minutes)}`;
+    default:
+      return rule.kind;
+  }
+}
@@ -0,0 +1,53 @@
+import { BehaviorSampleInput, MAX_BEHAVIOR_SAMPLE_BATCH } from "@shared/schema";
+import { enqueueUpload } from "./outbox";
+
+// Raw detections are batched instead of sent one round trip per frame
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const FLUSH_SIZE = 100;
+
+const pending = new Map<number, BehaviorSampleInput[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Keep a raw detection for the next batch upload. These are what the
+ * temporal filter saw, stored so misclassifications can be audited later.
+ * @param employeeId - ID of the employee
+ * @param sample - The detection and when its frame was captured
+ */
+export function recordBehaviorSample(employeeId: number, sample: BehaviorSampleInput): void {
+  const samples = pending.get(employeeId) ?? [];
+  samples.push(sample);
+  pending.set(employeeId, samples);
+
+  if (samples.length >= FLUSH_SIZE) {
+    flushBehaviorSamples();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushBehaviorSamples, FLUSH_INTERVAL_MS);
+  }
+}
+
+/**
+ * Queue every buffered sample for upload through the outbox
+ */
+export async function flushBehaviorSamples(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  const batches = Array.from(pending.entries());
+  pending.clear();
+
+  for (const [employeeId, samples] of batches) {
+    for (let start = 0; start < samples.length; start += MAX_BEHAVIOR_SAMPLE_BATCH) {
+      try {
+        await enqueueUpload("behavior-samples", "/api/behavior-samples", {
+          employeeId,
+          samples: samples.slice(start, start + MAX_BEHAVIOR_SAMPLE_BATCH),
+        });
+      } catch (error) {
+        console.warn("Dropping behavior samples that could not be queued", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import {
+  REALTIME_PROTOCOL_VERSION,
+  type LiveSignalPayload,
+  type LiveStopReasonType,
+  type LiveViewSourceType,
+  type RealtimeServerMessage,
+} from "@shared/realtime";
+import { RTC_CONFIGURATION } from "../config";
+import { onRealtimeMessage, sendRealtimeMessage } from "./realtime";
+import { getActiveScreenStream } from "./screenshot";
+import { getActiveWebcamStream } from "./webcam";
+
+// Why a host's live view ended, as far as the host can tell
+export type LiveViewEndReason = LiveStopReasonType | "forbidden" | "failed";
+
+/**
+ * Handle to a live view being watched
+ */
+export interface LiveViewHandle {
+  stop: () => void;
+}
+
+/**
+ * A host currently watching this employee
+ */
+export interface LiveViewer {
+  sessionId: string;
+  source: LiveViewSourceType;
+  viewer: string;
+}
+
+/**
+ * Handle to the employee side of live views
+ */
+export interface LiveViewService {
+  // End one live view
+  end: (sessionId: string) => void;
+  // End every live view and stop answering new ones
+  close: () => void;
+}
+
+function sendSignal(sessionId: string, payload: LiveSignalPayload): void {
+  sendRealtimeMessage({ v: REALTIME_PROTOCOL_VERSION, type: "live-signal", sessionId, ...payload });
+}
+
+function sendStop(sessionId: string, reason: LiveStopReasonType): void {
+  sendRealtimeMessage({ v: REALTIME_PROTOCOL_VERSION, type: "live-stop", sessionId, reason });
+}
+
+// Forward local ICE candidates to the other peer
+function relayCandidates(peer: RTCPeerConnection, sessionId: string): void {
+  peer.onicecandidate = (event) => {
+    if (!event.candidate) return;
+    const { candidate, sdpMid, sdpMLineIndex, usernameFragment } = event.candidate;
+    sendSignal(sessionId, { candidate: { candidate, sdpMid, sdpMLineIndex, usernameFragment } });
+  };
+}
+
+/**
+ * Watch an employee's screen or webcam live. The employee's dashboard must be
+ * open and already sharing that stream; the employee sees a banner for as
+ * long as the view lasts and can end it.
+ * @param employeeId - ID of the employee to watch
+ * @param source - Which of the employee's streams to watch
+ * @param onStream - Called with the remote stream once media arrives
+ * @param onEnd - Called once when the view ends, unless stopped through the handle
+ * @returns Handle to stop watching
+ */
+export function watchLive(
+  employeeId: number,
+  source: LiveViewSourceType,
+  onStream: (stream: MediaStream) => void,
+  onEnd: (reason: LiveViewEndReason) => void,
+): LiveViewHandle {
+  const sessionId = crypto.randomUUID();
+  const peer = new RTCPeerConnection(RTC_CONFIGURATION);
+  // Signals are applied one at a time, so candidates never race the offer
+  let queue = Promise.resolve();
+  let ended = false;
+
+  const finish = (reason: LiveViewEndReason | null) => {
+    if (ended) return;
+    ended = true;
+    stopListening();
+    peer.close();
+    if (reason === null || reason === "failed") sendStop(sessionId, "ended");
+    if (reason !== null) onEnd(reason);
+  };
+
+  peer.ontrack = (event) => onStream(event.streams[0] ?? new MediaStream([event.track]));
+  peer.onconnectionstatechange = () => {
+    if (peer.connectionState === "failed") finish("failed");
+  };
+  relayCandidates(peer, sessionId);
+
+  const handleSignal = async ({ description, candidate }: LiveSignalPayload) => {
+    if (description?.type === "offer") {
+      await peer.setRemoteDescription(description);
+      const answer = await peer.createAnswer();
+      await peer.setLocalDescription(answer);
+      sendSignal(sessionId, { description: { type: "answer", sdp: answer.sdp ?? "" } });
+    }
+    if (candidate) {
+      await peer.addIceCandidate(candidate);
+    }
+  };
+
+  const stopListening = onRealtimeMessage((message: RealtimeServerMessage | null) => {
+    if (!message) return finish("disconnected");
+    if (message.type === "error" && message.id === sessionId) {
+      return finish(message.code === "forbidden" ? "forbidden" : "failed");
+    }
+    if (!("sessionId" in message) || message.sessionId !== sessionId) return;
+
+    if (message.type === "live-stop") {
+      finish(message.reason);
+    } else if (message.type === "live-signal") {
+      queue = queue.then(() => handleSignal(message)).catch(error => {
+        console.error("Error applying live view signal:", error);
+        finish("failed");
+      });
+    }
+  });
+
+  const started = sendRealtimeMessage({
+    v: REALTIME_PROTOCOL_VERSION,
+    type: "live-start",
+    id: sessionId,
+    sessionId,
+    employeeId,
+    source,
+  });
+  if (!started) {
+    // Report asynchronously, like every other outcome
+    setTimeout(() => finish("disconnected"), 0);
+  }
+
+  return { stop: () => finish(null) };
+}
+
+/**
+ * Answer hosts' live view requests from the employee's dashboard with the
+ * screen or webcam stream it is already sharing. Requests for a stream that
+ * isn't shared are declined; the employee is never prompted.
+ * @param onChange - Called with the current viewers whenever they change
+ * @returns Handle to end views and stop answering
+ */
+export function serveLiveViews(onChange: (viewers: LiveViewer[]) => void): LiveViewService {
+  const sessions = new Map<string, { viewer: LiveViewer; peer: RTCPeerConnection; queue: Promise<void> }>();
+
+  const notify = () => onChange(Array.from(sessions.values()).map(session => session.viewer));
+
+  const drop = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    session.peer.close();
+    notify();
+  };
+
+  const end = (sessionId: string) => {
+    if (!sessions.has(sessionId)) return;
+    sendStop(sessionId, "ended");
+    drop(sessionId);
+  };
+
+  const start = async (viewer: LiveViewer) => {
+    const stream = viewer.source === "screen" ? getActiveScreenStream() : getActiveWebcamStream();
+    if (!stream) {
+      sendStop(viewer.sessionId, "unavailable");
+      return;
+    }
+
+    const peer = new RTCPeerConnection(RTC_CONFIGURATION);
+    sessions.set(viewer.sessionId, { viewer, peer, queue: Promise.resolve() });
+    // The banner is up before any media is offered
+    notify();
+
+    relayCandidates(peer, viewer.sessionId);
+    peer.onconnectionstatechange = () => {
+      if (peer.connectionState === "failed") end(viewer.sessionId);
+    };
+    stream.getVideoTracks().forEach(track => {
+      peer.addTrack(track, stream);
+      // Sharing stopped, or monitoring ended
+      track.addEventListener("ended", () => end(viewer.sessionId));
+    });
+
+    const offer = await peer.createOffer();
+    await peer.setLocalDescription(offer);
+    sendSignal(viewer.sessionId, { description: { type: "offer", sdp: offer.sdp ?? "" } });
+  };
+
+  const handleSignal = async (peer: RTCPeerConnection, { description, candidate }: LiveSignalPayload) => {
+    if (description?.type === "answer") {
+      await peer.setRemoteDescription(description);
+    }
+    if (candidate) {
+      await peer.addIceCandidate(candidate);
+    }
+  };
+
+  const stopListening = onRealtimeMessage((message: RealtimeServerMessage | null) => {
+    if (!message) {
+      // The server ends every view when our socket drops
+      Array.from(sessions.keys()).forEach(drop);
+      return;
+    }
+
+    if (message.type === "live-start") {
+      const viewer = { sessionId: message.sessionId, source: message.source, viewer: message.viewer };
+      start(viewer).catch(error => {
+        console.error("Error starting live view:", error);
+        end(viewer.sessionId);
+      });
+    } else if (message.type === "live-signal") {
+      const session = sessions.get(message.sessionId);
+      if (!session) return;
+      session.queue = session.queue.then(() => handleSignal(session.peer, message)).catch(error => {
+        console.error("Error applying live view signal:", error);
+        end(message.sessionId);
+      });
+    } else if (message.type === "live-stop") {
+      drop(message.sessionId);
+    }
+  });
+
+  return {
+    end,
+    close: () => {
+      stopListening();
+      Array.from(sessions.keys()).forEach(end);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { EffectiveMonitoringPolicy, DEFAULT_MONITORING_POLICY } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+import type { ScreenshotOptions } from "./screenshot";
+
+/**
+ * Load the monitoring policy that applies to an employee, falling back to
+ * the built-in defaults if it can't be loaded
+ * @param employeeId - ID of the employee
+ * @returns Promise resolving to the effective policy
+ */
+export async function fetchMonitoringPolicy(employeeId: number): Promise<EffectiveMonitoringPolicy> {
+  try {
+    const response = await apiRequest("GET", `/api/monitoring-policies/effective/${employeeId}`);
+    return await response.json() as EffectiveMonitoringPolicy;
+  } catch (error) {
+    console.warn("Monitoring policy unavailable, using defaults", error);
+    return { ...DEFAULT_MONITORING_POLICY, source: "default" };
+  }
+}
+
+/**
+ * Delay until the next screenshot under a policy
+ * @param policy - The effective monitoring policy
+ * @returns Delay in milliseconds, or null when screenshots are off
+ */
+export function nextScreenshotDelay(policy: EffectiveMonitoringPolicy): number | null {
+  const { screenshotMode, screenshotMinIntervalSeconds, screenshotMaxIntervalSeconds } = policy;
+  switch (screenshotMode) {
+    case "off":
+      return null;
+    case "fixed":
+      return screenshotMinIntervalSeconds * 1000;
+    case "random":
+      return (screenshotMinIntervalSeconds + Math.random() * (screenshotMaxIntervalSeconds - screenshotMinIntervalSeconds)) * 1000;
+  }
+}
+
+/**
+ * Screenshot capture options of a policy
+ */
+export function screenshotOptionsOf(policy: EffectiveMonitoringPolicy): ScreenshotOptions {
+  return {
+    quality: policy.screenshotQuality / 100,
+    maxWidth: policy.screenshotMaxWidth,
+    maxHeight: policy.screenshotMaxHeight,
+    blur: policy.screenshotBlur,
+  };
+}
@@ -0,0 +1,208 @@
+import { IDEMPOTENCY_KEY_HEADER } from "@shared/schema";
+import { API_BASE_URL } from "../config";
+
+/**
+ * Persistent queue for telemetry uploads from the employee dashboard.
+ *
+ * Uploads are written to IndexedDB with their capture time and an
+ * idempotency key before anything is sent, then replayed in order. A failed
+ * send stops the queue and retries with backoff, and the browser coming back
+ * online retries at once, so nothing is lost while the network is down and
+ * the server never stores a retried upload twice.
+ */
+
+// Kinds of queued uploads
+export type OutboxKind = "behavior-log" | "behavior-samples" | "screenshot" | "heartbeat";
+
+interface OutboxEntry {
+  // Queue position, assigned by IndexedDB
+  seq?: number;
+  kind: OutboxKind;
+  url: string;
+  body: Record<string, unknown>;
+  idempotencyKey: string;
+}
+
+const DB_NAME = "employee-telemetry";
+const STORE_NAME = "outbox";
+
+// Oldest screenshots are dropped beyond this, so a long outage can't fill the disk
+const MAX_QUEUED_SCREENSHOTS = 50;
+
+const MIN_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60000;
+
+let database: Promise<IDBDatabase> | null = null;
+let draining: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = MIN_RETRY_DELAY;
+let listening = false;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "seq", autoIncrement: true });
+        store.createIndex("kind", "kind");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+// Add an entry, dropping whatever it supersedes in the same transaction
+async function addEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const store = transaction.objectStore(STORE_NAME);
+
+  const sameKind = await promisify(store.index("kind").getAllKeys(entry.kind));
+  if (entry.kind === "heartbeat") {
+    // Only the latest heartbeat says anything the server doesn't know yet
+    sameKind.forEach(seq => store.delete(seq));
+  } else if (entry.kind === "screenshot" && sameKind.length >= MAX_QUEUED_SCREENSHOTS) {
+    // Keys come back in queue order, oldest first
+    sameKind.slice(0, sameKind.length - MAX_QUEUED_SCREENSHOTS + 1).forEach(seq => store.delete(seq));
+  }
+  store.add(entry);
+
+  await completion(transaction);
+}
+
+async function readEntries(): Promise<OutboxEntry[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readonly");
+  return await promisify(transaction.objectStore(STORE_NAME).getAll()) as OutboxEntry[];
+}
+
+async function deleteEntry(seq: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  transaction.objectStore(STORE_NAME).delete(seq);
+  await completion(transaction);
+}
+
+// "sent" and "rejected" entries leave the queue; "retry" keeps it waiting
+async function send(entry: OutboxEntry): Promise<"sent" | "rejected" | "retry"> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${entry.url}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [IDEMPOTENCY_KEY_HEADER]: entry.idempotencyKey },
+      body: JSON.stringify(entry.body),
+      credentials: "include",
+    });
+  } catch {
+    return "retry";
+  }
+
+  if (response.ok) return "sent";
+  // Server trouble, throttling or an expired session can all pass
+  if (response.status >= 500 || response.status === 408 || response.status === 429 || response.status === 401) {
+    return "retry";
+  }
+
+  console.warn(`Dropping queued ${entry.kind} upload rejected with status ${response.status}`);
+  return "rejected";
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+}
+
+async function drain(): Promise<void> {
+  // Entries queued while draining are picked up by the next pass
+  for (let entries = await readEntries(); entries.length > 0; entries = await readEntries()) {
+    for (const entry of entries) {
+      if (await send(entry) === "retry") {
+        scheduleRetry();
+        return;
+      }
+      await deleteEntry(entry.seq!);
+    }
+  }
+  retryDelay = MIN_RETRY_DELAY;
+}
+
+/**
+ * Send everything queued, in order, stopping at the first upload that has to
+ * wait. Concurrent calls share one pass over the queue.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!draining) {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    draining = drain()
+      .catch(error => {
+        console.error("Error flushing upload outbox:", error);
+        scheduleRetry();
+      })
+      .finally(() => {
+        draining = null;
+      });
+  }
+  return draining;
+}
+
+/**
+ * Queue an upload, stamped with the current time as its capture time, and
+ * start sending. Resolves once the upload is stored, not once it is sent.
+ * @param kind - What is being uploaded
+ * @param url - API path to POST to
+ * @param body - JSON body, without capturedAt
+ */
+export async function enqueueUpload(kind: OutboxKind, url: string, body: Record<string, unknown>): Promise<void> {
+  if (!listening) {
+    listening = true;
+    window.addEventListener("online", () => flushOutbox());
+  }
+
+  const entry: OutboxEntry = {
+    kind,
+    url,
+    body: { ...body, capturedAt: new Date().toISOString() },
+    idempotencyKey: crypto.randomUUID(),
+  };
+
+  try {
+    await addEntry(entry);
+  } catch (error) {
+    // Without IndexedDB (e.g. some private windows) uploads get a single attempt
+    console.warn("Upload outbox unavailable, sending directly", error);
+    if (await send(entry) !== "sent") {
+      throw new Error(`Failed to upload ${kind}`);
+    }
+    return;
+  }
+
+  flushOutbox();
+}
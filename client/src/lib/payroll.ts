@@ -0,0 +1,36 @@
+/**
+ * Format an amount in cents, e.g. 123456 USD as "$1,234.56"
+ * @param cents - Amount in the currency's minor unit
+ * @param currency - ISO 4217 code
+ */
+export function formatMoney(cents: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+}
+
+/**
+ * Format a duration as hours with two decimals, the way payroll shows time
+ * @param seconds - Duration in seconds
+ */
+export function formatPayHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+/**
+ * Download URL of the payroll CSV of a pay period
+ * @param startsAt - Start of the period
+ * @param teamId - Only this team's employees, or everyone visible when null
+ */
+export function payrollCsvUrl(startsAt: string, teamId: number | null = null): string {
+  const params = new URLSearchParams({ startsAt });
+  if (teamId !== null) params.set("teamId", String(teamId));
+  return `/api/payroll/periods/csv?${params}`;
+}
+
+/**
+ * Download URL of an employee's payslip PDF for a pay period
+ * @param employeeId - ID of the employee
+ * @param startsAt - Start of the period
+ */
+export function payslipUrl(employeeId: number, startsAt: string): string {
+  return `/api/payroll/payslips/${employeeId}?${new URLSearchParams({ startsAt })}`;
+}
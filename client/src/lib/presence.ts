@@ -0,0 +1,16 @@
+import { BehaviorStatusType } from "@shared/schema";
+import { enqueueUpload } from "./outbox";
+
+// Must stay well under the server's timeout of three missed heartbeats
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Tell the server this employee's dashboard is still open
+ * @param employeeId - ID of the employee
+ * @param status - Status the dashboard is currently showing
+ * @returns Promise resolving once the heartbeat is queued; a newer heartbeat
+ * replaces one that hasn't been sent yet
+ */
+export async function sendHeartbeat(employeeId: number, status: BehaviorStatusType): Promise<void> {
+  await enqueueUpload("heartbeat", "/api/presence/heartbeat", { employeeId, status });
+}
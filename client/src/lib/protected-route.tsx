@@ -0,0 +1,44 @@
+import { Route, Redirect } from "wouter";
+import { UserRoleType } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element | null;
+  roles: UserRoleType[];
+}
+
+/**
+ * Route that only renders for logged-in users with one of the given roles.
+ * Anonymous users go to the login page, other roles to their own dashboard.
+ */
+export function ProtectedRoute({ path, component: Component, roles }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {() => {
+        if (isLoading) {
+          return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-100">
+              <div className="bg-white p-8 rounded-lg shadow-md">
+                <h2 className="text-2xl font-bold mb-4">Loading...</h2>
+                <p>Checking your session</p>
+              </div>
+            </div>
+          );
+        }
+
+        if (!user) {
+          return <Redirect to="/login" />;
+        }
+
+        if (!roles.includes(user.role as UserRoleType)) {
+          return <Redirect to={user.role === "employee" ? "/employee" : "/host"} />;
+        }
+
+        return <Component />;
+      }}
+    </Route>
+  );
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryClient, QueryFunction, type Query } from "@tanstack/react-query";
 import { API_BASE_URL } from "../config";
 
 async function throwIfResNotOk(res: Response) {
@@ -12,6 +12,7 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   // Make sure URL is properly prefixed with API_BASE_URL
   const apiUrl = url.startsWith('http') 
@@ -22,7 +23,7 @@ export async function apiRequest(
   
   const res = await fetch(apiUrl, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -71,3 +72,10 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Query filter for URL query keys with this path, whatever their query string
+export function queriesFor(path: string) {
+  return {
+    predicate: (query: Query) => typeof query.queryKey[0] === "string" && query.queryKey[0].split("?")[0] === path,
+  };
+}
@@ -0,0 +1,345 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { InfiniteData, QueryKey } from "@tanstack/react-query";
+import { BehaviorLog, BehaviorStatusType, DashboardSummary, EmployeePresence, Recording, ScreenshotInfo, ScreenshotPage, WorkSubmissionInfo } from "@shared/schema";
+import {
+  REALTIME_PROTOCOL_VERSION,
+  realtimeServerMessageSchema,
+  type RealtimeClientMessage,
+  type RealtimeEvent,
+  type RealtimeServerMessage,
+  type RealtimeTopic,
+} from "@shared/realtime";
+import { WS_URL } from "../config";
+import { queryClient, queriesFor } from "./queryClient";
+
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// How long the socket stays open after the last subscriber leaves, to ride out page changes
+const IDLE_CLOSE_DELAY = 5000;
+// Aggregates change with almost every event, so they are refetched at most this often
+const AGGREGATE_REFRESH_DELAY = 1000;
+
+function searchParamsOf(queryKey: QueryKey): URLSearchParams {
+  return new URLSearchParams(String(queryKey[0]).split("?")[1] ?? "");
+}
+
+const pendingRefreshes = new Set<string>();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Refetch server-computed views (totals, KPIs) that can't be patched locally
+function refreshSoon(...paths: string[]) {
+  paths.forEach(path => pendingRefreshes.add(path));
+  if (refreshTimer) return;
+
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    pendingRefreshes.forEach(path => queryClient.invalidateQueries(queriesFor(path)));
+    pendingRefreshes.clear();
+  }, AGGREGATE_REFRESH_DELAY);
+}
+
+function applyBehaviorLog(log: BehaviorLog) {
+  queryClient.setQueriesData<BehaviorLog[]>(queriesFor(`/api/behavior-logs/${log.employeeId}`), (logs) =>
+    logs && !logs.some(existing => existing.id === log.id) ? [log, ...logs] : logs);
+
+  // Latest log per employee; a team-filtered map only gains employees it already lists
+  for (const [queryKey, latest] of queryClient.getQueriesData<Record<number, BehaviorLog>>(queriesFor("/api/behavior-logs"))) {
+    if (!latest || (searchParamsOf(queryKey).has("teamId") && !(log.employeeId in latest))) continue;
+    queryClient.setQueryData(queryKey, { ...latest, [log.employeeId]: log });
+  }
+
+  queryClient.setQueriesData<DashboardSummary>(queriesFor("/api/dashboard/summary"), (summary) => {
+    const employee = summary?.employees[log.employeeId];
+    if (!summary || !employee) return summary;
+    return { ...summary, employees: { ...summary.employees, [log.employeeId]: { ...employee, status: log.status as BehaviorStatusType } } };
+  });
+
+  refreshSoon("/api/dashboard/summary", "/api/time-accounting", `/api/time-accounting/${log.employeeId}`);
+}
+
+function applyScreenshot(screenshot: ScreenshotInfo) {
+  queryClient.setQueryData([`/api/screenshots/${screenshot.employeeId}/latest`], screenshot);
+
+  // Add it to the top of every loaded timeline whose day it falls on
+  const capturedAt = new Date(screenshot.timestamp).getTime();
+  const timelines = queryClient.getQueriesData<InfiniteData<ScreenshotPage>>(queriesFor(`/api/screenshots/${screenshot.employeeId}`));
+  for (const [queryKey, timeline] of timelines) {
+    const params = searchParamsOf(queryKey);
+    const from = params.get("from");
+    const to = params.get("to");
+    if (!timeline?.pages.length) continue;
+    if ((from && capturedAt < new Date(from).getTime()) || (to && capturedAt > new Date(to).getTime())) continue;
+    if (timeline.pages.some(page => page.items.some(item => item.id === screenshot.id))) continue;
+
+    const [first, ...rest] = timeline.pages;
+    queryClient.setQueryData(queryKey, { ...timeline, pages: [{ ...first, items: [screenshot, ...first.items] }, ...rest] });
+  }
+}
+
+function applyWorkSubmission(submission: WorkSubmissionInfo) {
+  queryClient.setQueriesData<WorkSubmissionInfo[]>(queriesFor(`/api/work-submissions/${submission.employeeId}`), (submissions) =>
+    submissions && !submissions.some(existing => existing.id === submission.id) ? [submission, ...submissions] : submissions);
+  refreshSoon("/api/dashboard/summary");
+}
+
+function applyRecording(recording: Recording) {
+  for (const [queryKey, recordings] of queryClient.getQueriesData<Recording[]>(queriesFor(`/api/recordings/${recording.employeeId}`))) {
+    if (!recordings) continue;
+
+    // Lists filtered by ?status= drop recordings that moved on to another status
+    const status = searchParamsOf(queryKey).get("status");
+    const belongs = !status || status === recording.status;
+    const index = recordings.findIndex(existing => existing.id === recording.id);
+
+    let next: Recording[];
+    if (index === -1) {
+      next = belongs ? [recording, ...recordings] : recordings;
+    } else if (belongs) {
+      next = recordings.map(existing => existing.id === recording.id ? recording : existing);
+    } else {
+      next = recordings.filter(existing => existing.id !== recording.id);
+    }
+    queryClient.setQueryData(queryKey, next);
+  }
+}
+
+function applyPresence(presence: EmployeePresence) {
+  // Same rule as the latest-log maps: team-filtered maps only update employees they list
+  for (const [queryKey, presenceMap] of queryClient.getQueriesData<Record<number, EmployeePresence>>(queriesFor("/api/presence"))) {
+    if (!presenceMap || (searchParamsOf(queryKey).has("teamId") && !(presence.employeeId in presenceMap))) continue;
+    queryClient.setQueryData(queryKey, { ...presenceMap, [presence.employeeId]: presence });
+  }
+}
+
+/**
+ * Patch the React Query cache with a pushed event, so screens update without
+ * refetching
+ */
+function applyEvent(event: RealtimeEvent) {
+  switch (event.name) {
+    case "behavior-update":
+      applyBehaviorLog(event.data);
+      break;
+    case "work-session":
+      refreshSoon("/api/dashboard/summary", "/api/time-accounting", `/api/time-accounting/${event.data.employeeId}`,
+        `/api/work-sessions/${event.data.employeeId}`);
+      break;
+    case "screenshot-update":
+      applyScreenshot(event.data);
+      break;
+    case "work-submission":
+      applyWorkSubmission(event.data);
+      break;
+    case "recording":
+      applyRecording(event.data);
+      break;
+    case "presence":
+      applyPresence(event.data);
+      break;
+    case "status-dispute":
+      // Approved disputes change the corrected totals
+      refreshSoon("/api/status-disputes", `/api/status-disputes/${event.data.employeeId}`,
+        "/api/dashboard/summary", "/api/time-accounting", `/api/time-accounting/${event.data.employeeId}`);
+      break;
+    case "alert":
+      refreshSoon("/api/alerts", "/api/notifications");
+      break;
+    case "absence":
+      refreshSoon("/api/absences", "/api/notifications");
+      break;
+  }
+}
+
+/**
+ * The app's single connection to /api/ws. Components subscribe to topics
+ * through useRealtime; topics are reference-counted so the server is only
+ * told when the first subscriber arrives or the last one leaves.
+ */
+class RealtimeConnection {
+  connected = false;
+
+  private socket: WebSocket | null = null;
+  private topics = new Map<RealtimeTopic, number>();
+  private listeners = new Set<() => void>();
+  private messageListeners = new Set<(message: RealtimeServerMessage) => void>();
+  private retryDelay = MIN_RETRY_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasConnected = false;
+  private nextMessageId = 1;
+
+  subscribe(topics: RealtimeTopic[]): () => void {
+    const added = topics.filter(topic => {
+      const count = this.topics.get(topic) ?? 0;
+      this.topics.set(topic, count + 1);
+      return count === 0;
+    });
+    this.send("subscribe", added);
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.connect();
+
+    return () => {
+      const removed = topics.filter(topic => {
+        const count = (this.topics.get(topic) ?? 1) - 1;
+        if (count === 0) this.topics.delete(topic);
+        else this.topics.set(topic, count);
+        return count === 0;
+      });
+      this.send("unsubscribe", removed);
+
+      if (this.topics.size === 0 && !this.idleTimer) {
+        this.idleTimer = setTimeout(() => {
+          this.idleTimer = null;
+          if (this.topics.size === 0) this.socket?.close();
+        }, IDLE_CLOSE_DELAY);
+      }
+    };
+  }
+
+  onStatusChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onMessage(listener: (message: RealtimeServerMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  // Send a message other than a subscription change; false if the socket isn't open
+  sendMessage(message: RealtimeClientMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private send(type: "subscribe" | "unsubscribe", topics: RealtimeTopic[]) {
+    if (topics.length > 0 && this.socket?.readyState === WebSocket.OPEN) {
+      const id = String(this.nextMessageId++);
+      this.socket.send(JSON.stringify({ v: REALTIME_PROTOCOL_VERSION, type, id, topics }));
+    }
+  }
+
+  private handleMessage(data: string) {
+    const parsed = realtimeServerMessageSchema.safeParse(JSON.parse(data));
+    if (!parsed.success) {
+      console.error("Unexpected real-time message:", parsed.error);
+      return;
+    }
+
+    const message = parsed.data as RealtimeServerMessage;
+    if (message.type === "event") {
+      applyEvent(message);
+    } else if (message.type === "error") {
+      console.error(`Real-time request ${message.id ?? ""} failed (${message.code}): ${message.message}`);
+    }
+    this.messageListeners.forEach(listener => listener(message));
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private connect() {
+    if (this.socket || this.retryTimer || this.topics.size === 0) return;
+
+    const socket = new WebSocket(WS_URL);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = MIN_RETRY_DELAY;
+      // One topic per request, so a topic we lost access to can't block the others
+      this.topics.forEach((_, topic) => this.send("subscribe", [topic]));
+
+      // Events sent while we were away are lost, so catch up from the API
+      if (this.hasConnected) {
+        queryClient.invalidateQueries();
+      }
+      this.hasConnected = true;
+      this.setConnected(true);
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        this.handleMessage(message.data);
+      } catch (error) {
+        console.error("Error handling real-time event:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.setConnected(false);
+      if (this.topics.size === 0) return;
+
+      // Back off exponentially, with jitter so clients don't all return at once after a restart
+      const delay = this.retryDelay / 2 + Math.random() * this.retryDelay / 2;
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.connect();
+      }, delay);
+    };
+  }
+}
+
+const connection = new RealtimeConnection();
+
+/**
+ * Follow real-time events for some topics while the calling component is
+ * mounted. Returns whether events are being pushed; components keep polling
+ * only while this is false.
+ */
+export function useRealtime(topics: RealtimeTopic[]): boolean {
+  const topicList = topics.join(",");
+
+  useEffect(() => {
+    if (!topicList) return;
+    return connection.subscribe(topicList.split(",") as RealtimeTopic[]);
+  }, [topicList]);
+
+  const connected = useSyncExternalStore(
+    (listener) => connection.onStatusChange(listener),
+    () => connection.connected,
+  );
+  return connected && topics.length > 0;
+}
+
+/**
+ * Topic for the host dashboard's current view: one team, or the whole organization
+ */
+export function dashboardTopic(organizationId: number, teamId: number | null): RealtimeTopic {
+  return teamId === null ? `organization:${organizationId}` : `team:${teamId}`;
+}
+
+/**
+ * Send a message over the shared socket. Returns false when it isn't
+ * connected; the socket only stays open while some component follows a topic.
+ */
+export function sendRealtimeMessage(message: RealtimeClientMessage): boolean {
+  return connection.sendMessage(message);
+}
+
+/**
+ * Receive every message from the server, and a null when the socket drops
+ */
+export function onRealtimeMessage(listener: (message: RealtimeServerMessage | null) => void): () => void {
+  const stopMessages = connection.onMessage(listener);
+  const stopStatus = connection.onStatusChange(() => {
+    if (!connection.connected) listener(null);
+  });
+  return () => {
+    stopMessages();
+    stopStatus();
+  };
+}
@@ -0,0 +1,145 @@
+import { Recording } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+import { API_BASE_URL } from "../config";
+import { getScreenStream } from "./screenshot";
+
+// Length of each uploaded segment in milliseconds
+const SEGMENT_INTERVAL = 5000;
+
+// Upload attempts per segment before the recording is given up on
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+// Preferred container/codec combinations, best first
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+/**
+ * Handle to a screen recording in progress
+ */
+export interface ScreenRecordingHandle {
+  recordingId: number;
+  // Stop early; resolves once every segment is uploaded and the recording is closed
+  stop: () => Promise<void>;
+  // Resolves when the recording ends for any reason
+  finished: Promise<void>;
+}
+
+/**
+ * Ask an employee to record their screen
+ * @param employeeId - ID of the employee
+ * @param durationSeconds - Requested length of the recording
+ * @returns Promise resolving to the pending recording
+ */
+export async function requestRecording(employeeId: number, durationSeconds: number): Promise<Recording> {
+  const response = await apiRequest("POST", "/api/recordings", { employeeId, durationSeconds });
+  return await response.json() as Recording;
+}
+
+/**
+ * Accept or decline a recording request
+ * @param recordingId - ID of the pending recording
+ * @param accepted - Whether the employee consented
+ * @returns Promise resolving to the updated recording
+ */
+export async function respondToRecording(recordingId: number, accepted: boolean): Promise<Recording> {
+  const response = await apiRequest("POST", `/api/recordings/${recordingId}/consent`, { accepted });
+  return await response.json() as Recording;
+}
+
+/**
+ * URL the video element can stream a recording from
+ */
+export function recordingStreamUrl(recordingId: number): string {
+  return `${API_BASE_URL}/api/recordings/${recordingId}/stream`;
+}
+
+// Upload one segment as a raw body, retrying transient failures
+async function uploadSegment(recordingId: number, sequence: number, segment: Blob): Promise<void> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/recordings/${recordingId}/chunks/${sequence}`, {
+        method: "PUT",
+        headers: { "Content-Type": segment.type || "video/webm" },
+        body: segment,
+        credentials: "include",
+      });
+      // 4xx means the server won't take it (e.g. recording closed), so don't retry
+      if (response.ok || (response.status >= 400 && response.status < 500)) {
+        return;
+      }
+      lastError = new Error(`${response.status}: ${response.statusText}`);
+    } catch (error) {
+      lastError = error;
+    }
+    await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+  }
+
+  throw lastError;
+}
+
+/**
+ * Record the shared screen for an accepted recording request and upload it
+ * in segments while recording. Stops on its own after the requested
+ * duration, or when the employee stops sharing their screen.
+ * @param recording - The accepted recording
+ * @returns Promise resolving to a handle for stopping the recording early
+ */
+export async function startScreenRecording(recording: Recording): Promise<ScreenRecordingHandle> {
+  const screen = await getScreenStream();
+  // Record the video track only, so stopping the recorder leaves screen sharing running for screenshots
+  const stream = new MediaStream(screen.getVideoTracks());
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+  const startedAt = Date.now();
+  let sequence = 0;
+  // Segments must arrive in order, so uploads are chained
+  let uploads: Promise<void> = Promise.resolve();
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size === 0) return;
+    const current = sequence++;
+    uploads = uploads.then(() => uploadSegment(recording.id, current, event.data));
+  };
+
+  const finished = new Promise<void>((resolve) => {
+    recorder.onstop = async () => {
+      clearTimeout(autoStop);
+      screen.getVideoTracks()[0]?.removeEventListener("ended", stopRecorder);
+      try {
+        await uploads;
+      } catch (error) {
+        console.error("Error uploading screen recording:", error);
+      }
+
+      try {
+        await apiRequest("POST", `/api/recordings/${recording.id}/complete`, {
+          durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+      } catch (error) {
+        console.error("Error completing screen recording:", error);
+      }
+      resolve();
+    };
+  });
+
+  function stopRecorder() {
+    if (recorder.state !== "inactive") {
+      recorder.stop();
+    }
+  }
+
+  const autoStop = setTimeout(stopRecorder, recording.requestedDuration * 1000);
+  screen.getVideoTracks()[0]?.addEventListener("ended", stopRecorder);
+  recorder.start(SEGMENT_INTERVAL);
+
+  return {
+    recordingId: recording.id,
+    stop: async () => {
+      stopRecorder();
+      await finished;
+    },
+    finished,
+  };
+}
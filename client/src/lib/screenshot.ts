@@ -1,9 +1,51 @@
-import { apiRequest } from "./queryClient";
+import { enqueueUpload } from "./outbox";
 import { API_BASE_URL } from "../config";
 
-// Variables to store the screen sharing stream and recording
+// Screen sharing stream, shared by screenshots and screen recordings
 let displayStream: MediaStream | null = null;
-let isRecording = false;
+
+// How a screenshot is encoded, from the employee's monitoring policy
+export interface ScreenshotOptions {
+  // JPEG quality, 0-1
+  quality: number;
+  // Larger screens are scaled down to fit
+  maxWidth?: number;
+  maxHeight?: number;
+  // Blur the image so only the layout of the screen is recognizable
+  blur?: boolean;
+}
+
+const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = { quality: 0.7 };
+
+// Blur radius relative to the image width, so the result doesn't depend on the resolution
+const BLUR_RADIUS_RATIO = 1 / 150;
+
+// Encode a canvas as base64 JPEG, scaled down and blurred as the options ask
+function encodeCanvas(source: HTMLCanvasElement, options: ScreenshotOptions): string {
+  const scale = Math.min(
+    1,
+    (options.maxWidth ?? source.width) / source.width,
+    (options.maxHeight ?? source.height) / source.height,
+  );
+
+  let canvas = source;
+  if (scale < 1 || options.blur) {
+    canvas = document.createElement('canvas');
+    canvas.width = Math.round(source.width * scale);
+    canvas.height = Math.round(source.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    if (options.blur) {
+      ctx.filter = `blur(${Math.max(2, Math.round(canvas.width * BLUR_RADIUS_RATIO))}px)`;
+    }
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+
+  return canvas.toDataURL('image/jpeg', options.quality).split(',')[1];
+}
 
 /**
  * Request screen sharing permissions and start the stream
@@ -59,11 +101,34 @@ export function isScreenSharingActive(): boolean {
          displayStream.getVideoTracks().some(track => track.readyState === 'live');
 }
 
+/**
+ * The shared screen stream if the employee is sharing their screen, without
+ * asking for permission. Live views only use a stream that is already shared.
+ * @returns The active screen sharing MediaStream, or null
+ */
+export function getActiveScreenStream(): MediaStream | null {
+  return isScreenSharingActive() ? displayStream : null;
+}
+
+/**
+ * Get the shared screen stream, asking for permission if there is none yet.
+ * Screenshots and screen recordings use the same stream so the employee is
+ * only prompted once.
+ * @returns Promise resolving to an active screen sharing MediaStream
+ */
+export async function getScreenStream(): Promise<MediaStream> {
+  if (displayStream && isScreenSharingActive()) {
+    return displayStream;
+  }
+  return await requestScreenAccess();
+}
+
 /**
  * Capture a screenshot of the current screen
+ * @param options - Encoding options from the monitoring policy
  * @returns Promise resolving to base64 encoded screenshot data
  */
-export async function captureScreenshot(): Promise<string> {
+export async function captureScreenshot(options: ScreenshotOptions = DEFAULT_SCREENSHOT_OPTIONS): Promise<string> {
   try {
     // If no screen sharing permission has been granted, request it
     if (!displayStream) {
@@ -72,19 +137,19 @@ export async function captureScreenshot(): Promise<string> {
       } catch (error) {
         // If user denies permission, fall back to simulated screenshot
         console.warn('Screen access denied, using simulated screenshot');
-        return captureSimulatedScreenshot();
+        return captureSimulatedScreenshot(options);
       }
     }
     
     // Verify that we have an active stream
     if (!isScreenSharingActive()) {
-      return captureSimulatedScreenshot();
+      return captureSimulatedScreenshot(options);
     }
     
     // Get the video track from the stream
     // We've already checked that displayStream is active, but add an extra check for TypeScript
     if (!displayStream) {
-      return captureSimulatedScreenshot();
+      return captureSimulatedScreenshot(options);
     }
     const videoTrack = displayStream.getVideoTracks()[0];
     
@@ -114,7 +179,7 @@ export async function captureScreenshot(): Promise<string> {
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     
     // Convert to base64
-    const screenshotData = canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+    const screenshotData = encodeCanvas(canvas, options);
     
     // Clean up
     video.pause();
@@ -123,15 +188,16 @@ export async function captureScreenshot(): Promise<string> {
   } catch (error) {
     console.error('Error capturing screenshot:', error);
     // Fall back to simulated screenshot on error
-    return captureSimulatedScreenshot();
+    return captureSimulatedScreenshot(options);
   }
 }
 
 /**
  * Generate a simulated screenshot when real screen capture is not available
+ * @param options - Encoding options from the monitoring policy
  * @returns Base64 encoded image data
  */
-function captureSimulatedScreenshot(): string {
+function captureSimulatedScreenshot(options: ScreenshotOptions): string {
   try {
     // Create a canvas to draw a simulated screenshot
     const canvas = document.createElement('canvas');
@@ -169,7 +235,7 @@ function captureSimulatedScreenshot(): string {
     );
     
     // Convert to base64
-    const screenshotData = canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+    const screenshotData = encodeCanvas(canvas, options);
     return screenshotData;
   } catch (error) {
     console.error('Error creating simulated screenshot:', error);
@@ -235,29 +301,22 @@ function drawSimulatedWindow(
 }
 
 /**
- * Upload a screenshot to the server
+ * Queue a screenshot for upload to the server. It is sent as soon as the
+ * server is reachable, with the time it was taken.
  * @param imageData - Base64 encoded screenshot data
  * @param employeeId - ID of the employee
- * @returns Promise resolving to the created screenshot ID
  */
 export async function uploadScreenshot(
   imageData: string,
   employeeId: number
-): Promise<number> {
+): Promise<void> {
   try {
-    const response = await apiRequest('POST', '/api/screenshots', {
+    await enqueueUpload('screenshot', '/api/screenshots', {
       employeeId,
       imageData
     });
-    
-    const result = await response.json();
-    return result.id;
   } catch (error) {
     console.error('Error uploading screenshot:', error);
     throw new Error('Failed to upload screenshot');
   }
 }
-
-// --- REMOVED SCREEN RECORDING FUNCTIONALITY ---
-// All screen recording and uploadScreenRecording related code has been removed below.
-// --- END REMOVAL ---
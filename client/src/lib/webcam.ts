@@ -1,6 +1,7 @@
-import { BehaviorStatusType } from "@shared/schema";
+import { BehaviorStatusType, BehaviorAnalysisResult, BehaviorSignals, DetectionSourceType } from "@shared/schema";
 import { apiRequest } from "./queryClient";
 import { API_BASE_URL } from "../config";
+import { recordBehaviorSample } from "./behavior-samples";
 import * as tf from '@tensorflow/tfjs';
 import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
 import * as poseDetection from '@tensorflow-models/pose-detection';
@@ -9,6 +10,9 @@ import * as poseDetection from '@tensorflow-models/pose-detection';
 let faceModel: faceLandmarksDetection.FaceLandmarksDetector | null = null;
 let poseModel: poseDetection.PoseDetector | null = null;
 
+// Webcam stream while monitoring runs, for live views
+let webcamStream: MediaStream | null = null;
+
 // Interface for webcam initialization
 interface WebcamOptions {
   width?: number;
@@ -16,15 +20,11 @@ interface WebcamOptions {
   facingMode?: string;
 }
 
-// Interface for behavior analysis response
-interface BehaviorAnalysisResponse {
-  status: BehaviorStatusType;
-}
-
 // Interface for local behavior detection results
 interface LocalBehaviorResult {
   status: BehaviorStatusType;
   confidence: number;
+  signals: BehaviorSignals;
 }
 
 /**
@@ -90,6 +90,7 @@ export async function initializeWebcam(
   try {
     const stream = await navigator.mediaDevices.getUserMedia(constraints);
     videoElement.srcObject = stream;
+    webcamStream = stream;
     
     // Initialize AI models in the background
     initializeAIModels().catch(err => console.warn('AI initialization in background failed:', err));
@@ -107,6 +108,17 @@ export async function initializeWebcam(
  */
 export function stopWebcam(stream: MediaStream): void {
   stream.getTracks().forEach(track => track.stop());
+  if (webcamStream === stream) {
+    webcamStream = null;
+  }
+}
+
+/**
+ * Get the webcam stream opened by initializeWebcam, if it is still running
+ * @returns The active webcam MediaStream, or null
+ */
+export function getActiveWebcamStream(): MediaStream | null {
+  return webcamStream?.active ? webcamStream : null;
 }
 
 /**
@@ -151,11 +163,12 @@ export async function localBehaviorAnalysis(
     // Analyze face detection results
     if (faces.length === 0) {
       // No face detected - user might be away
-      return { status: 'inactive', confidence: 0.8 };
+      return { status: 'inactive', confidence: 0.8, signals: { facePresent: false } };
     }
     
     // Get the first face
     const face = faces[0];
+    const signals: BehaviorSignals = { facePresent: true };
     
     // Check for eye state to detect sleeping
     // MediaPipe provides detailed face landmarks including eyes
@@ -197,13 +210,14 @@ export async function localBehaviorAnalysis(
       const leftEyeOpenness = Math.abs(leftEyeUpperAvg.y - leftEyeLowerAvg.y);
       const rightEyeOpenness = Math.abs(rightEyeUpperAvg.y - rightEyeLowerAvg.y);
       const averageEyeOpenness = (leftEyeOpenness + rightEyeOpenness) / 2;
+      signals.eyeOpenness = averageEyeOpenness;
       
       // Threshold for closed eyes
       // This value needs to be adjusted based on testing
       const closedEyeThreshold = 0.02; // Relative to face size
       
       if (averageEyeOpenness < closedEyeThreshold) {
-        return { status: 'sleeping', confidence: 0.85 };
+        return { status: 'sleeping', confidence: 0.85, signals };
       }
     }
     
@@ -261,12 +275,13 @@ export async function localBehaviorAnalysis(
         // If we have valid points, check average movement
         if (pointCount > 0) {
           const averageMovement = totalMovement / pointCount;
+          signals.movement = averageMovement;
           
           // Threshold for significant movement
           const movementThreshold = 5.0; // Adjust based on testing
           
           if (averageMovement > movementThreshold) {
-            return { status: 'moving', confidence: 0.8 };
+            return { status: 'moving', confidence: 0.8, signals };
           }
         }
       }
@@ -301,16 +316,17 @@ export async function localBehaviorAnalysis(
       
       if (pointCount > 0) {
         const averageMovement = totalMovement / pointCount;
+        signals.movement = averageMovement;
         const idleThreshold = 2.0; // Very little movement
         
         if (averageMovement < idleThreshold) {
-          return { status: 'idle', confidence: 0.7 };
+          return { status: 'idle', confidence: 0.7, signals };
         }
       }
     }
     
     // Default to working if we detect a face but no other specific states
-    return { status: 'working', confidence: 0.6 };
+    return { status: 'working', confidence: 0.6, signals };
     
   } catch (error) {
     console.error("Error in local behavior analysis:", error);
@@ -319,10 +335,19 @@ export async function localBehaviorAnalysis(
 }
 
 // Store historical data to improve detection accuracy
-interface HistoricalBehavior {
+interface HistoricalBehavior extends BehaviorDetection {
   timestamp: number;
+}
+
+/**
+ * A behavior status with the detection that supports it, as stored on the
+ * behavior log. Evidence is null when no classifier produced a result.
+ */
+export interface BehaviorDetection {
   status: BehaviorStatusType;
-  confidence: number;
+  confidence: number | null;
+  source: DetectionSourceType | null;
+  signals: BehaviorSignals | null;
 }
 
 // Keep a history of recent behavior detections to improve accuracy
@@ -335,21 +360,23 @@ const HISTORY_LENGTH = 10; // Number of historical detections to keep
  * @param imageData - Base64 encoded image data
  * @param employeeId - ID of the employee
  * @param videoElement - Optional video element for local processing
- * @returns Promise resolving to the detected behavior
+ * @returns Promise resolving to the filtered behavior and the latest detection backing it
  */
 export async function analyzeBehavior(
   imageData: string,
   employeeId: number,
   videoElement?: HTMLVideoElement
-): Promise<BehaviorStatusType> {
+): Promise<BehaviorDetection> {
   try {
+    const capturedAt = new Date().toISOString();
+
     // Initialize history if needed
     if (!behaviorHistory[employeeId]) {
       behaviorHistory[employeeId] = [];
     }
     
     // Try local analysis first if video element is provided
-    let detectedStatus: BehaviorStatusType = "inactive";
+    let detection: BehaviorDetection = { status: "inactive", confidence: null, source: null, signals: null };
     let confidence = 0;
     
     if (videoElement) {
@@ -358,8 +385,9 @@ export async function analyzeBehavior(
       // If we got a local result, use it
       if (localResult) {
         console.log(`Local behavior analysis: ${localResult.status} (${localResult.confidence.toFixed(2)})`);
-        detectedStatus = localResult.status;
+        detection = { ...localResult, source: "local" };
         confidence = localResult.confidence;
+        recordBehaviorSample(employeeId, { ...localResult, capturedAt, source: "local" });
       }
     }
     
@@ -371,9 +399,14 @@ export async function analyzeBehavior(
           employeeId
         });
         
-        const result = await response.json() as BehaviorAnalysisResponse;
-        detectedStatus = result.status;
-        confidence = 0.8; // Assume server response has good confidence
+        const result = await response.json() as BehaviorAnalysisResult;
+        const { status, signals } = result;
+        recordBehaviorSample(employeeId, { status, confidence: result.confidence, signals, capturedAt, source: "server" });
+        // Only take the server's answer if it is more certain than ours
+        if (result.confidence >= confidence) {
+          detection = { status, confidence: result.confidence, source: "server", signals };
+          confidence = result.confidence;
+        }
       } catch (serverError) {
         console.warn("Server behavior analysis failed, using local result", serverError);
         // Keep using the local result if server fails
@@ -382,9 +415,8 @@ export async function analyzeBehavior(
     
     // Add detection to history
     behaviorHistory[employeeId].push({
-      timestamp: Date.now(),
-      status: detectedStatus,
-      confidence
+      ...detection,
+      timestamp: Date.now()
     });
     
     // Keep history at specified length
@@ -394,7 +426,14 @@ export async function analyzeBehavior(
     
     // Apply temporal filtering to reduce oscillations and improve consistency
     const finalStatus = applyTemporalFiltering(behaviorHistory[employeeId]);
-    return finalStatus;
+    
+    // Report the newest detection that agrees with the filtered status
+    const evidence = behaviorHistory[employeeId]
+      .filter(h => h.status === finalStatus && h.source !== null)
+      .pop();
+    return evidence
+      ? { status: finalStatus, confidence: evidence.confidence, source: evidence.source, signals: evidence.signals }
+      : { status: finalStatus, confidence: null, source: null, signals: null };
   } catch (error) {
     console.error("Error analyzing behavior:", error);
     throw new Error("Failed to analyze behavior");
@@ -428,7 +467,7 @@ function applyTemporalFiltering(history: HistoricalBehavior[]): BehaviorStatusTy
     // Recency weight: newer detections matter more
     const recencyWeight = (index + 1) / recentHistory.length;
     // Confidence weight: more confident detections matter more
-    const weight = detection.confidence * recencyWeight;
+    const weight = (detection.confidence ?? 0) * recencyWeight;
     
     statusCounts[detection.status] += weight;
   });
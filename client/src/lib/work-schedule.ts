@@ -0,0 +1,21 @@
+import { WorkScheduleSettings } from "@shared/schema";
+
+// Monday first, as work weeks are usually read; days are Date.getDay() numbers
+export const WEEKDAYS: { day: number; label: string }[] = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+/**
+ * A schedule in words, e.g. "Mon, Tue, Wed, Thu, Fri, 09:00-17:00"
+ */
+export function describeWorkSchedule(schedule: WorkScheduleSettings): string {
+  const days = WEEKDAYS.filter(({ day }) => schedule.workDays.includes(day)).map(({ label }) => label);
+  if (days.length === 0) return "No work days";
+  return `${days.join(", ")}, ${schedule.startTime}-${schedule.endTime}`;
+}
@@ -0,0 +1,37 @@
+import { WorkSession, WorkSessionEndReasonType } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+import { API_BASE_URL } from "../config";
+
+/**
+ * Open a work session on the server when monitoring starts
+ * @param employeeId - ID of the employee
+ * @returns Promise resolving to the created session
+ */
+export async function startWorkSession(employeeId: number): Promise<WorkSession> {
+  const response = await apiRequest("POST", "/api/work-sessions", { employeeId });
+  return await response.json() as WorkSession;
+}
+
+/**
+ * Close a work session on the server
+ * @param sessionId - ID of the open session
+ * @param reason - Why monitoring ended
+ * @returns Promise resolving to the closed session
+ */
+export async function endWorkSession(
+  sessionId: number,
+  reason: WorkSessionEndReasonType
+): Promise<WorkSession> {
+  const response = await apiRequest("POST", `/api/work-sessions/${sessionId}/end`, { reason });
+  return await response.json() as WorkSession;
+}
+
+/**
+ * Close a work session while the page is being unloaded.
+ * Regular fetches are cancelled on unload, sendBeacon is delivered anyway.
+ * @param sessionId - ID of the open session
+ */
+export function endWorkSessionOnUnload(sessionId: number): void {
+  const body = new Blob([JSON.stringify({ reason: "tab_closed" })], { type: "application/json" });
+  navigator.sendBeacon(`${API_BASE_URL}/api/work-sessions/${sessionId}/end`, body);
+}
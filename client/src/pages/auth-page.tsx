@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { motion, AnimatePresence } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { User, ArrowRight } from "lucide-react";
+import { loginSchema, registerEmployeeSchema } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [organizationCode, setOrganizationCode] = useState("");
+  const [error, setError] = useState("");
+
+  // Already signed in - send the user to the dashboard for their role
+  if (user) {
+    return <Redirect to={user.role === "employee" ? "/employee" : "/host"} />;
+  }
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = loginSchema.safeParse({ username, password });
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    loginMutation.mutate(parsed.data);
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = registerEmployeeSchema.safeParse({ name, username, password, organizationCode });
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    registerMutation.mutate(parsed.data);
+  };
+
+  const inputClassName = `w-full px-4 py-6 text-lg rounded-lg border-input bg-transparent ${
+    error ? 'border-destructive focus-visible:ring-destructive' : 'focus-visible:ring-primary/20'
+  }`;
+
+  const clearError = () => {
+    if (error) setError("");
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/90 via-primary to-secondary px-4">
+      <motion.div
+        className="glass bg-white max-w-md w-full p-8 rounded-xl shadow-soft"
+        initial={{ scale: 0.9, y: 20, opacity: 0 }}
+        animate={{ scale: 1, y: 0, opacity: 1 }}
+        transition={{ type: "spring", damping: 25, stiffness: 300 }}
+      >
+        <div className="flex items-center mb-6">
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center mr-3">
+            <User className="h-5 w-5 text-primary" />
+          </div>
+          <h2 className="text-2xl font-bold">Sign In</h2>
+        </div>
+
+        <Tabs defaultValue="login" onValueChange={() => setError("")}>
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="login">Login</TabsTrigger>
+            <TabsTrigger value="register">New Employee</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login">
+            <form onSubmit={handleLogin} className="space-y-4">
+              <Input
+                type="text"
+                placeholder="Work email or username"
+                value={username}
+                onChange={e => {
+                  setUsername(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+                autoFocus
+              />
+              <Input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={e => {
+                  setPassword(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+              />
+              <Button
+                type="submit"
+                disabled={loginMutation.isPending}
+                className="w-full h-11 px-5 bg-primary hover:bg-primary/90 text-white rounded-lg flex items-center justify-center"
+              >
+                {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="register">
+            <form onSubmit={handleRegister} className="space-y-4">
+              <Input
+                type="text"
+                placeholder="Organization code"
+                value={organizationCode}
+                onChange={e => {
+                  setOrganizationCode(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+              />
+              <Input
+                type="text"
+                placeholder="Your full name"
+                value={name}
+                onChange={e => {
+                  setName(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+              />
+              <Input
+                type="text"
+                placeholder="Work email or employee code"
+                value={username}
+                onChange={e => {
+                  setUsername(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+              />
+              <Input
+                type="password"
+                placeholder="Password (min. 8 characters)"
+                value={password}
+                onChange={e => {
+                  setPassword(e.target.value);
+                  clearError();
+                }}
+                className={inputClassName}
+                required
+              />
+              <Button
+                type="submit"
+                disabled={registerMutation.isPending}
+                className="w-full h-11 px-5 bg-primary hover:bg-primary/90 text-white rounded-lg flex items-center justify-center"
+              >
+                {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                Host accounts are created by an administrator.
+              </p>
+            </form>
+          </TabsContent>
+        </Tabs>
+
+        <AnimatePresence>
+          {error && (
+            <motion.p
+              className="mt-4 text-sm text-destructive"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              {error}
+            </motion.p>
+          )}
+        </AnimatePresence>
+      </motion.div>
+    </div>
+  );
+}
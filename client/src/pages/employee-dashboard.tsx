@@ -2,7 +2,9 @@ import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { format } from "date-fns";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { enqueueUpload } from "@/lib/outbox";
+import type { BehaviorDetection } from "@/lib/webcam";
+import { useAuth } from "@/hooks/use-auth";
 import { BehaviorStatusType } from "@shared/schema";
 import { Employee } from "@shared/schema";
 
@@ -10,6 +12,9 @@ import EmployeeMonitor from "@/components/employee-monitor";
 import EmployeeStats from "@/components/employee-stats";
 import ActivityLog from "@/components/activity-log";
 import SubmitWork from "@/components/submit-work";
+import StatusDisputes from "@/components/status-disputes";
+import RecordingConsent from "@/components/recording-consent";
+import LiveViewBanner from "@/components/live-view-banner";
 
 export interface Activity {
   id: number;
@@ -22,8 +27,8 @@ export interface Activity {
 
 export default function EmployeeDashboard() {
   const [location, setLocation] = useLocation();
-  const [employeeName, setEmployeeName] = useState<string>("");
-  const [employeeId, setEmployeeId] = useState<number | null>(null);
+  const { user, logoutMutation } = useAuth();
+  const employeeId = user?.employeeId ?? null;
   const [activities, setActivities] = useState<Activity[]>([]);
   const [currentTime, setCurrentTime] = useState<string>(getCurrentTimeString());
   const queryClient = useQueryClient();
@@ -33,39 +38,15 @@ export default function EmployeeDashboard() {
     return format(new Date(), "h:mm a");
   }
 
-  // Fetch or create employee
+  // Add the initial activity and keep the header clock ticking
   useEffect(() => {
-    const storedName = sessionStorage.getItem("employeeName");
-    
-    if (!storedName) {
-      setLocation("/");
-      return;
-    }
-    
-    setEmployeeName(storedName);
-    
-    const createEmployee = async () => {
-      try {
-        const response = await apiRequest("POST", "/api/employees", { name: storedName });
-        const employee = await response.json() as Employee;
-        setEmployeeId(employee.id);
-        
-        // Add initial activity
-        const initialActivity: Activity = {
-          id: 0,
-          type: "project_start",
-          message: "Session Started",
-          details: "Monitoring ready to be activated",
-          timestamp: new Date()
-        };
-        
-        setActivities([initialActivity]);
-      } catch (error) {
-        console.error("Error creating employee:", error);
-      }
-    };
-    
-    createEmployee();
+    setActivities([{
+      id: 0,
+      type: "project_start",
+      message: "Session Started",
+      details: "Monitoring ready to be activated",
+      timestamp: new Date()
+    }]);
     
     // Update time every minute
     const timer = setInterval(() => {
@@ -73,7 +54,7 @@ export default function EmployeeDashboard() {
     }, 60000);
     
     return () => clearInterval(timer);
-  }, [setLocation]);
+  }, []);
 
   // Add new activity
   const addActivity = (newActivity: Omit<Activity, "id" | "timestamp">) => {
@@ -87,16 +68,29 @@ export default function EmployeeDashboard() {
     ]);
   };
 
+  // Fetch the employee record linked to the logged-in account
+  const { data: employee } = useQuery<Employee>({
+    queryKey: [`/api/employees/${employeeId}`],
+    enabled: !!employeeId,
+  });
+
   // Handle employee logout
   const handleLogout = () => {
-    sessionStorage.removeItem("employeeName");
-    setLocation("/");
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/"),
+    });
   };
 
-  // Behavior log mutation
+  // Behavior log mutation; logs are queued so they survive going offline
   const behaviorMutation = useMutation({
-    mutationFn: async (data: { employeeId: number, status: BehaviorStatusType }) => {
-      return apiRequest("POST", "/api/behavior-logs", data);
+    mutationFn: async ({ employeeId, status, detection }: { employeeId: number, status: BehaviorStatusType, detection?: BehaviorDetection }) => {
+      return enqueueUpload("behavior-log", "/api/behavior-logs", {
+        employeeId,
+        status,
+        confidence: detection?.confidence,
+        source: detection?.source,
+        signals: detection?.signals,
+      });
     },
     onSuccess: (_, variables) => {
       addActivity({
@@ -121,7 +115,7 @@ export default function EmployeeDashboard() {
     }
   };
 
-  if (!employeeId) {
+  if (!employeeId || !employee) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100">
         <div className="bg-white p-8 rounded-lg shadow-md">
@@ -139,7 +133,7 @@ export default function EmployeeDashboard() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <div className="flex items-center">
             <h1 className="text-2xl font-bold text-gray-800">Employee Dashboard</h1>
-            <span className="ml-4 text-gray-600">Welcome, {employeeName}</span>
+            <span className="ml-4 text-gray-600">Welcome, {employee.name}</span>
           </div>
           <div className="flex items-center space-x-2">
             <span className="px-3 py-1 bg-gray-100 rounded-full text-gray-700 text-sm">
@@ -160,11 +154,12 @@ export default function EmployeeDashboard() {
           <div className="lg:col-span-2 space-y-6">
             <EmployeeMonitor 
               employeeId={employeeId} 
-              onBehaviorChange={(status) => {
+              onBehaviorChange={(status, detection) => {
                 if (employeeId) {
                   behaviorMutation.mutate({ 
                     employeeId, 
-                    status 
+                    status,
+                    detection
                   });
                 }
               }}
@@ -198,12 +193,16 @@ export default function EmployeeDashboard() {
             />
           </div>
           
-          {/* Right Column - Activity Log */}
-          <div>
+          {/* Right Column - Activity Log and Disputes */}
+          <div className="space-y-6">
             <ActivityLog activities={activities} />
+            <StatusDisputes employeeId={employeeId} />
           </div>
         </div>
       </main>
+      
+      <RecordingConsent employeeId={employeeId} />
+      <LiveViewBanner employeeId={employeeId} />
     </div>
   );
 }
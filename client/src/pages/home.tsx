@@ -1,29 +1,20 @@
-import { useState } from "react";
 import { useLocation } from "wouter";
 import { motion } from "framer-motion";
-import EmployeeNameModal from "@/components/employee-name-modal";
 import { FaUserTie, FaChartLine, FaCamera, FaLaptopCode, FaBrain, FaRegClock, FaUsers } from "react-icons/fa";
 
 export default function Home() {
   const [location, setLocation] = useLocation();
-  const [isModalOpen, setIsModalOpen] = useState(false);
   
-  // Handle employee join button click
+  // Handle employee join button click - the protected route sends
+  // anonymous users to the login page first
   const handleEmployeeJoin = () => {
-    setIsModalOpen(true);
+    setLocation("/employee");
   };
   
   // Handle host join button click
   const handleHostJoin = () => {
     setLocation("/host");
   };
-  
-  // Handle name submission from modal
-  const handleNameSubmit = (name: string) => {
-    // Store employee name in sessionStorage for persistence
-    sessionStorage.setItem("employeeName", name);
-    setLocation("/employee");
-  };
 
   // Animation variants for staggered animations
   const containerVariants = {
@@ -230,12 +221,6 @@ export default function Home() {
           <p>© 2025 Employee Monitoring System. All rights reserved.</p>
         </div>
       </footer>
-      
-      <EmployeeNameModal 
-        isOpen={isModalOpen} 
-        onClose={() => setIsModalOpen(false)}
-        onSubmit={handleNameSubmit}
-      />
     </div>
   );
 }
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Check, CheckCheck, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Team,
+  AlertRule,
+  AlertRuleSettings,
+  AlertSummary,
+  AlertStatusType,
+  AlertRuleKindType,
+  AlertSeverityType,
+  BehaviorStatusType,
+} from "@shared/schema";
+import { apiRequest, queriesFor } from "@/lib/queryClient";
+import { useRealtime, dashboardTopic } from "@/lib/realtime";
+import { describeAlertRule } from "@/lib/alerts";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import HostSidebar from "@/components/host-sidebar";
+import HostHeader from "@/components/host-header";
+import AlertRuleForm from "@/components/alert-rule-form";
+import AlertSeverityBadge from "@/components/alert-severity-badge";
+
+const ALERTS_KEY = "/api/alerts";
+const RULES_KEY = "/api/alert-rules";
+
+const STATUS_FILTERS: Record<AlertStatusType, string> = {
+  open: "Open",
+  acknowledged: "Acknowledged",
+  resolved: "Resolved",
+};
+
+// The editable part of a stored rule
+function settingsOf(rule: AlertRule): AlertRuleSettings {
+  return {
+    name: rule.name,
+    teamId: rule.teamId,
+    kind: rule.kind as AlertRuleKindType,
+    status: rule.status as BehaviorStatusType | null,
+    minutes: rule.minutes,
+    percent: rule.percent,
+    severity: rule.severity as AlertSeverityType,
+    enabled: rule.enabled,
+  };
+}
+
+export default function HostAlerts() {
+  const [, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<AlertStatusType>("open");
+  // The rule in the editor: an existing one, a new one, or none
+  const [editing, setEditing] = useState<AlertRule | "new" | null>(null);
+  const isAdmin = user?.role === "admin";
+
+  const live = useRealtime(user ? [dashboardTopic(user.organizationId, selectedTeamId)] : []);
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const params = new URLSearchParams({ status: statusFilter });
+  if (selectedTeamId !== null) params.set("teamId", String(selectedTeamId));
+
+  const { data: alerts = [], isLoading: alertsLoading } = useQuery<AlertSummary[]>({
+    queryKey: [`${ALERTS_KEY}?${params}`],
+    refetchInterval: live ? false : 15000,
+  });
+
+  const { data: rules = [] } = useQuery<AlertRule[]>({
+    queryKey: [RULES_KEY],
+  });
+
+  const newRule: AlertRuleSettings = {
+    name: "",
+    teamId: isAdmin ? null : teams[0]?.id ?? null,
+    kind: "status_duration",
+    status: "sleeping",
+    minutes: 3,
+    percent: null,
+    severity: "warning",
+    enabled: true,
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: "acknowledge" | "resolve" }) =>
+      apiRequest("POST", `${ALERTS_KEY}/${id}/${action}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queriesFor(ALERTS_KEY));
+    },
+    onError: (error) => {
+      console.error("Error updating alert:", error);
+      queryClient.invalidateQueries(queriesFor(ALERTS_KEY));
+      toast({
+        title: "Update failed",
+        description: error.message.startsWith("409")
+          ? "Someone else already handled this alert, or its condition cleared."
+          : "The alert could not be updated.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: ({ id, settings }: { id: number | null; settings: AlertRuleSettings }) =>
+      id === null ? apiRequest("POST", RULES_KEY, settings) : apiRequest("PUT", `${RULES_KEY}/${id}`, settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RULES_KEY] });
+      queryClient.invalidateQueries(queriesFor(ALERTS_KEY));
+      setEditing(null);
+    },
+    onError: (error) => {
+      console.error("Error saving alert rule:", error);
+      toast({
+        title: "Save failed",
+        description: error.message.startsWith("403")
+          ? "Only administrators can manage rules for the whole organization."
+          : "The alert rule could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${RULES_KEY}/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RULES_KEY] });
+      queryClient.invalidateQueries(queriesFor(ALERTS_KEY));
+    },
+    onError: (error) => {
+      console.error("Error deleting alert rule:", error);
+      toast({
+        title: "Delete failed",
+        description: "The alert rule could not be deleted.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (rule: AlertRule) => {
+    if (window.confirm(`Delete "${rule.name}" and all of its alerts? Disable the rule instead to keep them.`)) {
+      deleteRuleMutation.mutate(rule.id);
+    }
+  };
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/"),
+    });
+  };
+
+  const teamName = (teamId: number | null) =>
+    teamId === null ? "Whole organization" : teams.find(team => team.id === teamId)?.name ?? "Team";
+  // Organization-wide rules are read-only for hosts
+  const canEdit = (rule: AlertRule) => isAdmin || rule.teamId !== null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <HostSidebar />
+
+      <div className="flex-1 flex flex-col">
+        <HostHeader
+          title="Alerts"
+          onLogout={handleLogout}
+          teams={teams}
+          selectedTeamId={selectedTeamId}
+          onTeamChange={setSelectedTeamId}
+        />
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-5xl mx-auto space-y-6">
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-800">Inbox</h2>
+                  <p className="text-sm text-gray-500">
+                    Alerts resolve by themselves once the condition clears; acknowledge them to show they're being looked at.
+                  </p>
+                </div>
+                <Select value={statusFilter} onValueChange={value => setStatusFilter(value as AlertStatusType)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STATUS_FILTERS) as AlertStatusType[]).map(status => (
+                      <SelectItem key={status} value={status}>{STATUS_FILTERS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {alertsLoading ? (
+                <p className="text-sm text-gray-500 text-center py-4">Loading alerts...</p>
+              ) : alerts.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">No {STATUS_FILTERS[statusFilter].toLowerCase()} alerts</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {alerts.map(alert => (
+                    <li key={alert.id} className="py-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <AlertSeverityBadge severity={alert.severity} />
+                          <span className="font-medium text-gray-800">{alert.employeeName}</span>
+                          <span className="text-sm text-gray-600">{alert.message}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {alert.ruleName} · {formatDistanceToNow(new Date(alert.triggeredAt), { addSuffix: true })}
+                          {alert.status === "resolved" && alert.resolvedAt && (
+                            alert.resolvedBy === null
+                              ? ` · cleared ${formatDistanceToNow(new Date(alert.resolvedAt), { addSuffix: true })}`
+                              : ` · resolved ${formatDistanceToNow(new Date(alert.resolvedAt), { addSuffix: true })}`
+                          )}
+                        </p>
+                      </div>
+                      {alert.status !== "resolved" && (
+                        <div className="flex space-x-2 flex-shrink-0">
+                          {alert.status === "open" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ id: alert.id, action: "acknowledge" })}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Acknowledge
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            disabled={reviewMutation.isPending}
+                            onClick={() => reviewMutation.mutate({ id: alert.id, action: "resolve" })}
+                          >
+                            <CheckCheck className="h-4 w-4 mr-1" />
+                            Resolve
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">Rules</h3>
+                  <p className="text-sm text-gray-500">
+                    Checked on every status change and every 30 seconds.
+                    {!isAdmin && " Only administrators can change rules for the whole organization."}
+                  </p>
+                </div>
+                {editing === null && (
+                  <Button size="sm" onClick={() => setEditing("new")}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New rule
+                  </Button>
+                )}
+              </div>
+
+              {editing !== null && (
+                <div className="border rounded-lg p-4 mb-4">
+                  <AlertRuleForm
+                    rule={editing === "new" ? newRule : settingsOf(editing)}
+                    teams={teams}
+                    allowOrganization={isAdmin}
+                    saving={saveRuleMutation.isPending}
+                    onSave={settings => saveRuleMutation.mutate({ id: editing === "new" ? null : editing.id, settings })}
+                    onCancel={() => setEditing(null)}
+                  />
+                </div>
+              )}
+
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">No alert rules yet</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {rules.map(rule => (
+                    <li key={rule.id} className="py-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-800">{rule.name}</span>
+                          <AlertSeverityBadge severity={rule.severity} />
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {describeAlertRule(rule)} · {teamName(rule.teamId)}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <Switch
+                          checked={rule.enabled}
+                          disabled={!canEdit(rule) || saveRuleMutation.isPending}
+                          aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                          onCheckedChange={enabled => saveRuleMutation.mutate({ id: rule.id, settings: { ...settingsOf(rule), enabled } })}
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2"
+                          title="Edit rule"
+                          disabled={!canEdit(rule)}
+                          onClick={() => setEditing(rule)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2"
+                          title="Delete rule"
+                          disabled={!canEdit(rule) || deleteRuleMutation.isPending}
+                          onClick={() => handleDelete(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,16 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Employee, BehaviorLog, BehaviorStatusType } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime, dashboardTopic } from "@/lib/realtime";
+import { formatDistanceToNow } from "date-fns";
+import { Employee, BehaviorStatusType, Team, DashboardSummary, EmployeePresence } from "@shared/schema";
 import HostSidebar from "@/components/host-sidebar";
 import HostHeader from "@/components/host-header";
 import EmployeeDetailModal from "@/components/employee-detail-modal";
 import CalendarHeatmap from "@/components/calendar-heatmap";
 import AbsentEmployeeNotifications from "@/components/absent-employee-notifications";
 
-// Calculate working time percentage
-const calculateProductivePercentage = (logs: BehaviorLog[]): number => {
-  if (logs.length === 0) return 0;
-  
-  const workingLogs = logs.filter(log => log.status === "working");
-  return Math.round((workingLogs.length / logs.length) * 100);
-};
-
 // Format time display
 const formatTime = (minutes: number): string => {
   const hours = Math.floor(minutes / 60);
@@ -23,29 +18,64 @@ const formatTime = (minutes: number): string => {
   return `${hours}h ${mins}m`;
 };
 
+// Green up arrow for increases, red down arrow for decreases
+function DeltaIndicator({ value, display, label }: { value: number; display: string; label: string }) {
+  const isDown = value < 0;
+  
+  return (
+    <div className="mt-4 text-sm text-gray-500">
+      <span className={isDown ? "text-red-500" : "text-green-500"}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline mr-1" viewBox="0 0 20 20" fill="currentColor">
+          {isDown ? (
+            <path fillRule="evenodd" d="M12 13a1 1 0 100 2h5a1 1 0 001-1V9a1 1 0 10-2 0v2.586l-4.293-4.293a1 1 0 00-1.414 0L8 9.586 3.707 5.293a1 1 0 00-1.414 1.414l5 5a1 1 0 001.414 0L11 9.414 14.586 13H12z" clipRule="evenodd" />
+          ) : (
+            <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
+          )}
+        </svg>
+        {display}
+      </span> {label}
+    </div>
+  );
+}
+
 export default function HostDashboard() {
   const [location, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<number | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  
+  // Teams this host can see (all teams for admins)
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+  
+  // Query string narrowing every list below to the selected team
+  const teamQuery = selectedTeamId === null ? "" : `?teamId=${selectedTeamId}`;
+  
+  // Push updates for the employees in view
+  const live = useRealtime(user ? [dashboardTopic(user.organizationId, selectedTeamId)] : []);
   
   // Fetch all employees
   const { data: employees = [] } = useQuery<Employee[]>({
-    queryKey: ["/api/employees"],
+    queryKey: [`/api/employees${teamQuery}`],
   });
   
-  // Fetch latest behavior logs for all employees
-  const { data: latestLogs = {} } = useQuery<Record<number, BehaviorLog>>({
-    queryKey: ["/api/behavior-logs"],
-    refetchInterval: 5000, // Poll every 5 seconds
+  // Fetch KPIs and per-employee time for today, computed on the server
+  const { data: summary } = useQuery<DashboardSummary>({
+    queryKey: [`/api/dashboard/summary${teamQuery}`],
+    refetchInterval: live ? false : 5000, // Poll every 5 seconds while updates can't be pushed
   });
   
-  // Track active employees count
-  const activeEmployees = Object.values(latestLogs).filter(
-    log => log.status !== "inactive"
-  ).length;
+  // Whose dashboard is open right now, from the server's heartbeat registry
+  const { data: presence = {} } = useQuery<Record<number, EmployeePresence>>({
+    queryKey: [`/api/presence${teamQuery}`],
+    refetchInterval: live ? false : 15000,
+  });
   
-  // Calculate average working time in hours
-  const avgWorkingTime = employees.length > 0 ? 4.2 : 0; // Mock value, would be calculated from real data
+  // Average working time in hours, rounded to one decimal
+  const avgWorkingTime = Math.round((summary?.avgWorkingSecondsToday ?? 0) / 360) / 10;
+  const avgWorkingDelta = Math.round((summary?.avgWorkingDeltaSinceYesterday ?? 0) / 360) / 10;
   
   // Handle employee detail view
   const handleViewEmployeeDetails = (id: number) => {
@@ -55,7 +85,9 @@ export default function HostDashboard() {
   
   // Handle logout
   const handleLogout = () => {
-    setLocation("/");
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/"),
+    });
   };
   
   // Get status class name for styling
@@ -74,7 +106,12 @@ export default function HostDashboard() {
       <HostSidebar />
       
       <div className="flex-1 flex flex-col">
-        <HostHeader onLogout={handleLogout} />
+        <HostHeader
+          onLogout={handleLogout}
+          teams={teams}
+          selectedTeamId={selectedTeamId}
+          onTeamChange={setSelectedTeamId}
+        />
         
         <main className="flex-1 overflow-auto p-6">
           <div className="max-w-7xl mx-auto">
@@ -92,21 +129,18 @@ export default function HostDashboard() {
                     </svg>
                   </div>
                 </div>
-                <div className="mt-4 text-sm text-gray-500">
-                  <span className="text-green-500">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline mr-1" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
-                    </svg>
-                    {employees.length > 0 ? 1 : 0}
-                  </span> since yesterday
-                </div>
+                <DeltaIndicator
+                  value={summary?.newEmployeesToday ?? 0}
+                  display={String(summary?.newEmployeesToday ?? 0)}
+                  label="since yesterday"
+                />
               </div>
               
               <div className="bg-white rounded-xl shadow p-6">
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-gray-500 text-sm">Active Now</p>
-                    <p className="text-3xl font-bold text-gray-800">{activeEmployees}</p>
+                    <p className="text-3xl font-bold text-gray-800">{summary?.activeEmployees ?? 0}</p>
                   </div>
                   <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -114,14 +148,11 @@ export default function HostDashboard() {
                     </svg>
                   </div>
                 </div>
-                <div className="mt-4 text-sm text-gray-500">
-                  <span className="text-red-500">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline mr-1" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M12 13a1 1 0 100 2h5a1 1 0 001-1V9a1 1 0 10-2 0v2.586l-4.293-4.293a1 1 0 00-1.414 0L8 9.586 3.707 5.293a1 1 0 00-1.414 1.414l5 5a1 1 0 001.414 0L11 9.414 14.586 13H12z" clipRule="evenodd" />
-                    </svg>
-                    0
-                  </span> since an hour ago
-                </div>
+                <DeltaIndicator
+                  value={summary?.activeDeltaSinceHourAgo ?? 0}
+                  display={String(Math.abs(summary?.activeDeltaSinceHourAgo ?? 0))}
+                  label="since an hour ago"
+                />
               </div>
               
               <div className="bg-white rounded-xl shadow p-6">
@@ -136,21 +167,18 @@ export default function HostDashboard() {
                     </svg>
                   </div>
                 </div>
-                <div className="mt-4 text-sm text-gray-500">
-                  <span className="text-green-500">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline mr-1" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
-                    </svg>
-                    0.3h
-                  </span> since yesterday
-                </div>
+                <DeltaIndicator
+                  value={avgWorkingDelta}
+                  display={`${Math.abs(avgWorkingDelta)}h`}
+                  label="since yesterday"
+                />
               </div>
               
               <div className="bg-white rounded-xl shadow p-6">
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-gray-500 text-sm">Work Submissions</p>
-                    <p className="text-3xl font-bold text-gray-800">0</p>
+                    <p className="text-3xl font-bold text-gray-800">{summary?.workSubmissionsToday ?? 0}</p>
                   </div>
                   <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -158,14 +186,11 @@ export default function HostDashboard() {
                     </svg>
                   </div>
                 </div>
-                <div className="mt-4 text-sm text-gray-500">
-                  <span className="text-green-500">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 inline mr-1" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
-                    </svg>
-                    0
-                  </span> since yesterday
-                </div>
+                <DeltaIndicator
+                  value={summary?.workSubmissionsDeltaSinceYesterday ?? 0}
+                  display={String(Math.abs(summary?.workSubmissionsDeltaSinceYesterday ?? 0))}
+                  label="since yesterday"
+                />
               </div>
             </div>
             
@@ -211,24 +236,34 @@ export default function HostDashboard() {
                       </thead>
                       <tbody className="divide-y divide-gray-200">
                         {employees.map(employee => {
-                          // Get latest status for this employee
-                          const latestLog = latestLogs[employee.id];
-                          const status = latestLog?.status || "inactive";
-                          
-                          // Mock time calculation - would be from actual logs in production
-                          const timeToday = Math.floor(Math.random() * 5) + 1; // 1-5 hours
-                          const productivePercentage = Math.floor(Math.random() * 100);
+                          // Today's status and time for this employee
+                          const daySummary = summary?.employees[employee.id];
+                          const status: BehaviorStatusType = daySummary?.status ?? "inactive";
+                          const minutesToday = Math.floor((daySummary?.trackedSecondsToday ?? 0) / 60);
+                          const productivePercentage = daySummary?.productivePercentage ?? 0;
+                          const employeePresence = presence[employee.id];
+                          const online = employeePresence?.online ?? false;
                           
                           return (
                             <tr key={employee.id}>
                               <td className="px-4 py-4 whitespace-nowrap">
                                 <div className="flex items-center">
-                                  <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-600 mr-3">
+                                  <div className="relative h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-600 mr-3">
                                     {employee.name.split(' ').map(n => n[0]).join('')}
+                                    <span
+                                      className={`absolute bottom-0 right-0 h-3 w-3 rounded-full ring-2 ring-white ${online ? "bg-green-500" : "bg-gray-300"}`}
+                                      title={online ? "Online" : "Offline"}
+                                    />
                                   </div>
                                   <div>
                                     <div className="font-medium text-gray-800">{employee.name}</div>
-                                    <div className="text-gray-500 text-sm">Employee</div>
+                                    <div className="text-gray-500 text-sm">
+                                      {online
+                                        ? "Online"
+                                        : employeePresence?.lastSeenAt
+                                          ? `Last seen ${formatDistanceToNow(new Date(employeePresence.lastSeenAt), { addSuffix: true })}`
+                                          : "Offline"}
+                                    </div>
                                   </div>
                                 </div>
                               </td>
@@ -238,7 +273,7 @@ export default function HostDashboard() {
                                 </span>
                               </td>
                               <td className="px-4 py-4 whitespace-nowrap text-gray-700">
-                                {timeToday}h {Math.floor(Math.random() * 60)}m
+                                {formatTime(minutesToday)}
                               </td>
                               <td className="px-4 py-4 whitespace-nowrap">
                                 <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -265,12 +300,12 @@ export default function HostDashboard() {
             
             {/* Notifications for Absent Employees */}
             <div className="mb-8">
-              <AbsentEmployeeNotifications employees={employees} />
+              <AbsentEmployeeNotifications teamId={selectedTeamId} />
             </div>
             
             {/* Calendar Heatmap */}
             <div className="mb-8">
-              <CalendarHeatmap employees={employees} />
+              <CalendarHeatmap teamId={selectedTeamId} />
             </div>
             
             {/* Employee Detail Modal */}
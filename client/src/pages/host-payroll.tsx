@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileText, Lock, Unlock } from "lucide-react";
+import {
+  Team,
+  PayPeriodInfo,
+  PayPeriodSummary,
+  PayrollSettingsInput,
+  DEFAULT_PAYROLL_SETTINGS,
+} from "@shared/schema";
+import { apiRequest, queriesFor } from "@/lib/queryClient";
+import { formatMoney, formatPayHours, payrollCsvUrl, payslipUrl } from "@/lib/payroll";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import HostSidebar from "@/components/host-sidebar";
+import HostHeader from "@/components/host-header";
+import PayrollSettingsForm from "@/components/payroll-settings-form";
+
+const PERIODS_KEY = "/api/payroll/periods";
+const SETTINGS_KEY = "/api/payroll/settings";
+
+// Periods end at midnight, so the last day shown is the one before
+function formatPeriod(period: PayPeriodInfo): string {
+  const lastDay = new Date(new Date(period.endsAt).getTime() - 1);
+  return `${format(new Date(period.startsAt), "MMM d")} – ${format(lastDay, "MMM d, yyyy")}`;
+}
+
+export default function HostPayroll() {
+  const [, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  // Start of the period being shown; the newest one until the host picks another
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+  const isAdmin = user?.role === "admin";
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const { data: periods = [] } = useQuery<PayPeriodInfo[]>({
+    queryKey: [PERIODS_KEY],
+  });
+
+  const { data: settings = DEFAULT_PAYROLL_SETTINGS, isLoading: settingsLoading } = useQuery<PayrollSettingsInput>({
+    queryKey: [SETTINGS_KEY],
+  });
+
+  const period = periods.find(candidate => candidate.startsAt === selectedStart) ?? periods[0];
+  const params = new URLSearchParams();
+  if (period) params.set("startsAt", period.startsAt);
+  if (selectedTeamId !== null) params.set("teamId", String(selectedTeamId));
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<PayPeriodSummary>({
+    queryKey: [`${PERIODS_KEY}/summary?${params}`],
+    enabled: !!period,
+  });
+
+  const refreshPayroll = () => {
+    queryClient.invalidateQueries({ queryKey: [PERIODS_KEY] });
+    queryClient.invalidateQueries(queriesFor(`${PERIODS_KEY}/summary`));
+  };
+
+  const lockMutation = useMutation({
+    mutationFn: (startsAt: string) => apiRequest("POST", `${PERIODS_KEY}/lock`, { startsAt }),
+    onSuccess: () => {
+      refreshPayroll();
+      toast({
+        title: "Pay period locked",
+        description: "These earnings no longer change when logs or disputes do.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error locking pay period:", error);
+      toast({
+        title: "Lock failed",
+        description: error.message.startsWith("409")
+          ? "The period is already locked or hasn't ended yet."
+          : "The pay period could not be locked.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${PERIODS_KEY}/${id}/lock`),
+    onSuccess: refreshPayroll,
+    onError: (error) => {
+      console.error("Error unlocking pay period:", error);
+      toast({
+        title: "Unlock failed",
+        description: "The pay period could not be unlocked.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (settings: PayrollSettingsInput) => apiRequest("PUT", SETTINGS_KEY, settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SETTINGS_KEY] });
+      refreshPayroll();
+      setSelectedStart(null);
+      toast({
+        title: "Payroll settings saved",
+        description: "Locked periods keep their dates; the others follow the new settings.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving payroll settings:", error);
+      toast({
+        title: "Save failed",
+        description: "The payroll settings could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/"),
+    });
+  };
+
+  const ended = period ? new Date(period.endsAt) <= new Date() : false;
+  const currency = summary?.currency ?? settings.currency;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <HostSidebar />
+
+      <div className="flex-1 flex flex-col">
+        <HostHeader
+          title="Payroll"
+          onLogout={handleLogout}
+          teams={teams}
+          selectedTeamId={selectedTeamId}
+          onTeamChange={setSelectedTeamId}
+        />
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-5xl mx-auto space-y-6">
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-800">Pay period</h2>
+                  <p className="text-sm text-gray-500">
+                    {summary?.lockedAt
+                      ? `Locked ${format(new Date(summary.lockedAt), "MMM d, yyyy 'at' h:mm a")}; these amounts no longer change.`
+                      : "Calculated from working time, including approved disputes, until the period is locked."}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Select
+                    value={period?.startsAt ?? ""}
+                    onValueChange={setSelectedStart}
+                  >
+                    <SelectTrigger className="w-60">
+                      <SelectValue placeholder="No pay periods" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {periods.map(candidate => (
+                        <SelectItem key={candidate.startsAt} value={candidate.startsAt}>
+                          {formatPeriod(candidate)}{candidate.id !== null ? " (locked)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {period && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={payrollCsvUrl(period.startsAt, selectedTeamId)} download>
+                        <Download className="h-4 w-4 mr-1" />
+                        CSV
+                      </a>
+                    </Button>
+                  )}
+                  {period && period.id === null && isAdmin && (
+                    <Button
+                      size="sm"
+                      disabled={!ended || lockMutation.isPending}
+                      title={ended ? "Freeze these earnings" : "Periods can be locked once they have ended"}
+                      onClick={() => lockMutation.mutate(period.startsAt)}
+                    >
+                      <Lock className="h-4 w-4 mr-1" />
+                      Lock
+                    </Button>
+                  )}
+                  {period && period.id !== null && isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={unlockMutation.isPending}
+                      onClick={() => unlockMutation.mutate(period.id!)}
+                    >
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Unlock
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {summaryLoading ? (
+                <p className="text-sm text-gray-500 text-center py-4">Calculating earnings...</p>
+              ) : summary && summary.lines.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Pay type</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                      <TableHead className="text-right">Overtime</TableHead>
+                      <TableHead className="text-right">Gross</TableHead>
+                      <TableHead className="w-12"><span className="sr-only">Payslip</span></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.lines.map(line => (
+                      <TableRow key={line.employeeId}>
+                        <TableCell className="font-medium">{line.employeeName}</TableCell>
+                        <TableCell className="capitalize">{line.payType ?? <span className="text-gray-400">No rate</span>}</TableCell>
+                        <TableCell className="text-right">{formatPayHours(line.regularSeconds)}</TableCell>
+                        <TableCell className="text-right">{formatPayHours(line.overtimeSeconds)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(line.grossCents, currency)}</TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="ghost" className="h-7 px-2" title="Download payslip (PDF)" asChild>
+                            <a href={payslipUrl(line.employeeId, summary.startsAt)} download>
+                              <FileText className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={4}>Total</TableCell>
+                      <TableCell className="text-right">{formatMoney(summary.totalCents, currency)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-4">No employees to pay in this period</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">Payroll settings</h3>
+                <p className="text-sm text-gray-500">
+                  How pay periods are laid out for the whole organization. Set pay rates from an employee's details.
+                  {!isAdmin && " Only administrators can change these settings."}
+                </p>
+              </div>
+              {!settingsLoading && (
+                <PayrollSettingsForm
+                  settings={settings}
+                  disabled={!isAdmin}
+                  saving={settingsMutation.isPending}
+                  onSave={changes => settingsMutation.mutate(changes)}
+                />
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
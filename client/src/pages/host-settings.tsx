@@ -0,0 +1,485 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Team,
+  MonitoringPolicy,
+  MonitoringPolicySettings,
+  ScreenshotModeType,
+  DEFAULT_MONITORING_POLICY,
+  NotificationChannelType,
+  NotificationPreferencesInput,
+  NotificationSettings,
+  Organization,
+  WorkSchedule,
+  WorkScheduleSettings,
+  DEFAULT_WORK_SCHEDULE,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import HostSidebar from "@/components/host-sidebar";
+import HostHeader from "@/components/host-header";
+import MonitoringPolicyForm from "@/components/monitoring-policy-form";
+import NotificationPreferencesForm from "@/components/notification-preferences-form";
+import WorkScheduleForm from "@/components/work-schedule-form";
+
+const POLICIES_KEY = "/api/monitoring-policies";
+const NOTIFICATION_PREFERENCES_KEY = "/api/notification-preferences";
+const SCHEDULES_KEY = "/api/work-schedules";
+const ORGANIZATION_KEY = "/api/organizations/current";
+
+// The editable part of a stored policy
+function settingsOf({ id, organizationId, teamId, updatedAt, ...settings }: MonitoringPolicy): MonitoringPolicySettings {
+  return { ...settings, screenshotMode: settings.screenshotMode as ScreenshotModeType };
+}
+
+function scheduleSettingsOf({ workDays, startTime, endTime, graceMinutes }: WorkSchedule): WorkScheduleSettings {
+  return { workDays, startTime, endTime, graceMinutes };
+}
+
+export default function HostSettings() {
+  const [, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Teams using the organization default that are being given their own policy
+  const [customizing, setCustomizing] = useState<Set<number>>(new Set());
+  const [customizingSchedules, setCustomizingSchedules] = useState<Set<number>>(new Set());
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const isAdmin = user?.role === "admin";
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const { data: policies = [], isLoading } = useQuery<MonitoringPolicy[]>({
+    queryKey: [POLICIES_KEY],
+  });
+
+  const organizationPolicy = policies.find(policy => policy.teamId === null);
+  const organizationSettings = organizationPolicy ? settingsOf(organizationPolicy) : DEFAULT_MONITORING_POLICY;
+
+  const saveMutation = useMutation({
+    mutationFn: ({ teamId, settings }: { teamId: number | null; settings: MonitoringPolicySettings }) =>
+      apiRequest("PUT", teamId === null ? `${POLICIES_KEY}/organization` : `${POLICIES_KEY}/teams/${teamId}`, settings),
+    onSuccess: (_, { teamId }) => {
+      queryClient.invalidateQueries({ queryKey: [POLICIES_KEY] });
+      if (teamId !== null) stopCustomizing(teamId);
+      toast({
+        title: "Policy saved",
+        description: "Employees get the new settings the next time they start a project.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving monitoring policy:", error);
+      toast({
+        title: "Save failed",
+        description: "The monitoring policy could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (teamId: number) => apiRequest("DELETE", `${POLICIES_KEY}/teams/${teamId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [POLICIES_KEY] });
+    },
+    onError: (error) => {
+      console.error("Error resetting monitoring policy:", error);
+      toast({
+        title: "Reset failed",
+        description: "The team's policy could not be removed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: organization } = useQuery<Organization>({
+    queryKey: [ORGANIZATION_KEY],
+  });
+
+  const timeZoneMutation = useMutation({
+    mutationFn: (timeZone: string) => apiRequest("PUT", ORGANIZATION_KEY, { timeZone }),
+    onSuccess: async (response) => {
+      queryClient.setQueryData([ORGANIZATION_KEY], await response.json());
+      queryClient.invalidateQueries({ queryKey: ["/api/absences"] });
+      setTimeZone(null);
+      toast({
+        title: "Time zone saved",
+        description: "Absences are counted by calendar days in the new time zone from the next check on.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving time zone:", error);
+      toast({
+        title: "Save failed",
+        description: error.message.startsWith("400") ? "That isn't a known time zone." : "The time zone could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: schedules = [], isLoading: schedulesLoading } = useQuery<WorkSchedule[]>({
+    queryKey: [SCHEDULES_KEY],
+  });
+
+  const organizationSchedule = schedules.find(schedule => schedule.teamId === null && schedule.employeeId === null);
+  const organizationScheduleSettings = organizationSchedule ? scheduleSettingsOf(organizationSchedule) : DEFAULT_WORK_SCHEDULE;
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: ({ teamId, schedule }: { teamId: number | null; schedule: WorkScheduleSettings }) =>
+      apiRequest("PUT", teamId === null ? `${SCHEDULES_KEY}/organization` : `${SCHEDULES_KEY}/teams/${teamId}`, schedule),
+    onSuccess: (_, { teamId }) => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+      if (teamId !== null) stopCustomizingSchedule(teamId);
+      toast({
+        title: "Schedule saved",
+        description: "Absences are checked against it from the next check on.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving work schedule:", error);
+      toast({
+        title: "Save failed",
+        description: "The work schedule could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetScheduleMutation = useMutation({
+    mutationFn: (teamId: number) => apiRequest("DELETE", `${SCHEDULES_KEY}/teams/${teamId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+    },
+    onError: (error) => {
+      console.error("Error resetting work schedule:", error);
+      toast({
+        title: "Reset failed",
+        description: "The team's schedule could not be removed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: notificationSettings } = useQuery<NotificationSettings>({
+    queryKey: [NOTIFICATION_PREFERENCES_KEY],
+  });
+
+  const saveNotificationsMutation = useMutation({
+    mutationFn: (preferences: NotificationPreferencesInput) => apiRequest("PUT", NOTIFICATION_PREFERENCES_KEY, preferences),
+    onSuccess: async (response) => {
+      queryClient.setQueryData([NOTIFICATION_PREFERENCES_KEY], await response.json());
+      toast({
+        title: "Notification preferences saved",
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving notification preferences:", error);
+      toast({
+        title: "Save failed",
+        description: error.message.startsWith("400")
+          ? "Check the webhook URL: it must point at a public address."
+          : "Your notification preferences could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${NOTIFICATION_PREFERENCES_KEY}/webhook-secret`),
+    onSuccess: async (response) => {
+      queryClient.setQueryData([NOTIFICATION_PREFERENCES_KEY], await response.json());
+      toast({
+        title: "Webhook secret rotated",
+        description: "Update the secret wherever your webhook checks signatures.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error rotating webhook secret:", error);
+      toast({
+        title: "Rotation failed",
+        description: "The webhook secret could not be changed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testNotificationMutation = useMutation({
+    mutationFn: (channel: NotificationChannelType) =>
+      apiRequest("POST", `${NOTIFICATION_PREFERENCES_KEY}/test`, { channel }),
+    onSuccess: (_, channel) => {
+      if (channel === "in_app") queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      toast({
+        title: "Test notification sent",
+      });
+    },
+    onError: (error) => {
+      console.error("Error sending test notification:", error);
+      toast({
+        title: "Test failed",
+        description: error.message.startsWith("409")
+          ? "Save an address for this channel first, or ask an admin to set it up on the server."
+          : "The test notification could not be delivered.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopCustomizing = (teamId: number) => {
+    setCustomizing(current => {
+      const next = new Set(current);
+      next.delete(teamId);
+      return next;
+    });
+  };
+
+  const stopCustomizingSchedule = (teamId: number) => {
+    setCustomizingSchedules(current => {
+      const next = new Set(current);
+      next.delete(teamId);
+      return next;
+    });
+  };
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/"),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <HostSidebar />
+
+      <div className="flex-1 flex flex-col">
+        <HostHeader title="Settings" onLogout={handleLogout} />
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800">Monitoring policies</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                How often employee dashboards sample behavior and take screenshots. Each team can have its own
+                policy; employees pick up changes when they next start a project.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">Organization default</h3>
+                <p className="text-sm text-gray-500">
+                  Applies to teams without their own policy and to employees without a team.
+                  {!isAdmin && " Only administrators can change it."}
+                </p>
+              </div>
+              {!isLoading && (
+                <MonitoringPolicyForm
+                  policy={organizationSettings}
+                  disabled={!isAdmin}
+                  saving={saveMutation.isPending}
+                  onSave={settings => saveMutation.mutate({ teamId: null, settings })}
+                />
+              )}
+            </div>
+
+            {teams.map(team => {
+              const policy = policies.find(candidate => candidate.teamId === team.id);
+              const editing = !!policy || customizing.has(team.id);
+
+              return (
+                <div key={team.id} className="bg-white rounded-xl shadow p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-800">{team.name}</h3>
+                      <p className="text-sm text-gray-500">
+                        {policy
+                          ? `Own policy, last changed ${format(new Date(policy.updatedAt), "MMM d, yyyy")}`
+                          : "Uses the organization default"}
+                      </p>
+                    </div>
+                    {policy ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resetMutation.isPending}
+                        onClick={() => resetMutation.mutate(team.id)}
+                      >
+                        Use organization default
+                      </Button>
+                    ) : editing ? (
+                      <Button size="sm" variant="ghost" onClick={() => stopCustomizing(team.id)}>
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCustomizing(current => new Set(current).add(team.id))}
+                      >
+                        Customize
+                      </Button>
+                    )}
+                  </div>
+                  {editing && (
+                    <MonitoringPolicyForm
+                      policy={policy ? settingsOf(policy) : organizationSettings}
+                      saving={saveMutation.isPending}
+                      onSave={settings => saveMutation.mutate({ teamId: team.id, settings })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {teams.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No teams to configure</p>
+            )}
+
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800">Work schedules</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                When employees are expected at work. An employee without any activity on a scheduled day once the
+                grace period has passed is recorded as absent. Individual employees can get their own schedule from
+                their detail view.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">Time zone</h3>
+                <p className="text-sm text-gray-500">
+                  Schedules and calendar days are read in this time zone.
+                  {!isAdmin && " Only administrators can change it."}
+                </p>
+              </div>
+              {organization && (
+                <form
+                  className="flex space-x-2"
+                  onSubmit={e => {
+                    e.preventDefault();
+                    if (timeZone !== null) timeZoneMutation.mutate(timeZone.trim());
+                  }}
+                >
+                  <Input
+                    aria-label="Organization time zone"
+                    className="w-64"
+                    value={timeZone ?? organization.timeZone}
+                    disabled={!isAdmin}
+                    onChange={e => setTimeZone(e.target.value)}
+                  />
+                  {isAdmin && (
+                    <>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)}
+                      >
+                        Use mine
+                      </Button>
+                      <Button type="submit" size="sm" disabled={timeZone === null || timeZoneMutation.isPending}>
+                        {timeZoneMutation.isPending ? "Saving..." : "Save time zone"}
+                      </Button>
+                    </>
+                  )}
+                </form>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">Organization schedule</h3>
+                <p className="text-sm text-gray-500">
+                  Applies to teams without their own schedule and to employees without a team.
+                  {!isAdmin && " Only administrators can change it."}
+                </p>
+              </div>
+              {!schedulesLoading && (
+                <WorkScheduleForm
+                  schedule={organizationScheduleSettings}
+                  disabled={!isAdmin}
+                  saving={saveScheduleMutation.isPending}
+                  onSave={schedule => saveScheduleMutation.mutate({ teamId: null, schedule })}
+                />
+              )}
+            </div>
+
+            {teams.map(team => {
+              const schedule = schedules.find(candidate => candidate.teamId === team.id);
+              const editing = !!schedule || customizingSchedules.has(team.id);
+
+              return (
+                <div key={team.id} className="bg-white rounded-xl shadow p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-800">{team.name}</h3>
+                      <p className="text-sm text-gray-500">
+                        {schedule
+                          ? `Own schedule, last changed ${format(new Date(schedule.updatedAt), "MMM d, yyyy")}`
+                          : "Uses the organization schedule"}
+                      </p>
+                    </div>
+                    {schedule ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resetScheduleMutation.isPending}
+                        onClick={() => resetScheduleMutation.mutate(team.id)}
+                      >
+                        Use organization schedule
+                      </Button>
+                    ) : editing ? (
+                      <Button size="sm" variant="ghost" onClick={() => stopCustomizingSchedule(team.id)}>
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCustomizingSchedules(current => new Set(current).add(team.id))}
+                      >
+                        Customize
+                      </Button>
+                    )}
+                  </div>
+                  {editing && (
+                    <WorkScheduleForm
+                      schedule={schedule ? scheduleSettingsOf(schedule) : organizationScheduleSettings}
+                      saving={saveScheduleMutation.isPending}
+                      onSave={settings => saveScheduleMutation.mutate({ teamId: team.id, schedule: settings })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="bg-white rounded-xl shadow p-6">
+              <div className="mb-4">
+                <h3 className="text-lg font-semibold text-gray-800">Your notifications</h3>
+                <p className="text-sm text-gray-500">
+                  Where alerts about your employees reach you. These settings are yours alone.
+                </p>
+              </div>
+              {notificationSettings && (
+                <NotificationPreferencesForm
+                  preferences={notificationSettings}
+                  webhookSecret={notificationSettings.webhookSecret}
+                  saving={saveNotificationsMutation.isPending}
+                  onSave={preferences => saveNotificationsMutation.mutate(preferences)}
+                  onTest={channel => testNotificationMutation.mutate(channel)}
+                  onRotateSecret={() => rotateSecretMutation.mutate()}
+                />
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
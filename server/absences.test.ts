@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Employee, WorkSchedule } from "@shared/schema";
+
+// Storage wants a connection string when it's imported; nothing here queries it
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { effectiveWorkSchedule } = await import("./absences");
+
+const employee = { id: 7, organizationId: 1, teamId: 3, name: "Jane Doe", employeeKey: "jane", createdAt: new Date() } as Employee;
+
+function schedule(id: number, teamId: number | null, employeeId: number | null, startTime: string): WorkSchedule {
+  return {
+    id,
+    organizationId: 1,
+    teamId,
+    employeeId,
+    workDays: [1, 2, 3, 4, 5],
+    startTime,
+    endTime: "17:00",
+    graceMinutes: 60,
+    updatedAt: new Date(),
+  };
+}
+
+const organizationSchedule = schedule(1, null, null, "08:00");
+const teamSchedule = schedule(2, 3, null, "09:00");
+const otherTeamSchedule = schedule(3, 4, null, "10:00");
+const ownSchedule = schedule(4, null, 7, "11:00");
+
+describe("effectiveWorkSchedule", () => {
+  it("prefers the employee's own schedule", () => {
+    const effective = effectiveWorkSchedule(employee, [organizationSchedule, teamSchedule, ownSchedule]);
+
+    assert.equal(effective.startTime, "11:00");
+    assert.equal(effective.source, "employee");
+  });
+
+  it("falls back to the employee's team schedule", () => {
+    const effective = effectiveWorkSchedule(employee, [organizationSchedule, otherTeamSchedule, teamSchedule]);
+
+    assert.equal(effective.startTime, "09:00");
+    assert.equal(effective.source, "team");
+  });
+
+  it("falls back to the organization's schedule", () => {
+    const effective = effectiveWorkSchedule(employee, [otherTeamSchedule, organizationSchedule]);
+
+    assert.equal(effective.startTime, "08:00");
+    assert.equal(effective.source, "organization");
+  });
+
+  it("doesn't give unassigned employees a team's schedule", () => {
+    const effective = effectiveWorkSchedule({ ...employee, teamId: null }, [teamSchedule, organizationSchedule]);
+
+    assert.equal(effective.source, "organization");
+  });
+
+  it("uses the built-in schedule when none is set", () => {
+    assert.equal(effectiveWorkSchedule(employee, []).source, "default");
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  DEFAULT_WORK_SCHEDULE,
+  type Employee,
+  type EffectiveWorkSchedule,
+  type Organization,
+  type WorkSchedule,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { publish } from "./realtime";
+import { notifyHosts } from "./notifications";
+import { now } from "./clock";
+import { addCalendarDays, dateInTimeZone, weekdayOf, zonedTime } from "./time-zone";
+
+// Absence shows up within minutes of the grace period running out
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Days checked besides today, so activity uploaded late still withdraws an
+// absence and a server that was down catches up
+const LOOKBACK_DAYS = 7;
+
+/**
+ * The schedule an employee is held to: their own, else their team's, else
+ * the organization default, else the built-in one
+ * @param schedules - The organization's schedules
+ */
+export function effectiveWorkSchedule(employee: Employee, schedules: WorkSchedule[]): EffectiveWorkSchedule {
+  const own = schedules.find(schedule => schedule.employeeId === employee.id);
+  const team = employee.teamId === null
+    ? undefined
+    : schedules.find(schedule => schedule.employeeId === null && schedule.teamId === employee.teamId);
+  const organization = schedules.find(schedule => schedule.employeeId === null && schedule.teamId === null);
+
+  const schedule = own ?? team ?? organization;
+  if (!schedule) {
+    return { ...DEFAULT_WORK_SCHEDULE, source: "default" };
+  }
+
+  const { workDays, startTime, endTime, graceMinutes } = schedule;
+  return {
+    workDays,
+    startTime,
+    endTime,
+    graceMinutes,
+    source: schedule === own ? "employee" : schedule === team ? "team" : "organization",
+  };
+}
+
+/**
+ * Record the scheduled days in the lookback window the employee missed, and
+ * withdraw recorded absences that no longer hold: activity turned up or the
+ * schedule changed
+ */
+async function evaluateEmployee(
+  employee: Employee,
+  organization: Organization,
+  schedules: WorkSchedule[],
+  at: Date,
+): Promise<void> {
+  const { timeZone } = organization;
+  const schedule = effectiveWorkSchedule(employee, schedules);
+  const today = dateInTimeZone(at, timeZone);
+  const createdAt = new Date(employee.createdAt);
+  const windowStart = addCalendarDays(today, -LOOKBACK_DAYS);
+  const created = dateInTimeZone(createdAt, timeZone);
+  const first = created > windowStart ? created : windowStart;
+  if (first > today) return;
+
+  const window = { from: zonedTime(first, timeZone), to: zonedTime(addCalendarDays(today, 1), timeZone) };
+  const [activeDates, recorded] = await Promise.all([
+    storage.getActiveDates(employee.id, window, timeZone),
+    storage.getAbsencesOfEmployee(employee.id, first, today),
+  ]);
+
+  for (let day = first; day <= today; day = addCalendarDays(day, 1)) {
+    const expectedStart = zonedTime(day, timeZone, schedule.startTime);
+    // Nobody is expected at work before their employee record existed
+    const missed = schedule.workDays.includes(weekdayOf(day))
+      && expectedStart >= createdAt
+      && at.getTime() >= expectedStart.getTime() + schedule.graceMinutes * 60 * 1000
+      && !activeDates.includes(day);
+    const existing = recorded.find(absence => absence.date === day);
+
+    if (missed && !existing) {
+      const absence = await storage.createAbsence({ employeeId: employee.id, date: day, expectedStart });
+      if (!absence) continue;
+
+      publish({ name: "absence", data: absence });
+      // Days caught up on later are recorded quietly; only today's absence is news
+      if (day === today) {
+        notifyHosts({
+          type: "absence",
+          severity: "warning",
+          title: `${employee.name}: absent today`,
+          body: `${employee.name} was expected at ${schedule.startTime} (${timeZone}) and hasn't been active since the day began.`,
+          employeeId: employee.id,
+        }).catch(error => console.error("Error sending absence notifications:", error));
+      }
+    } else if (!missed && existing) {
+      const withdrawn = await storage.deleteAbsence(employee.id, day);
+      if (withdrawn) publish({ name: "absence", data: withdrawn });
+    }
+  }
+}
+
+/**
+ * Withdraw the absence recorded for the day of new activity, e.g. a behavior
+ * log uploaded late by an offline dashboard, without waiting for the next sweep
+ */
+export async function withdrawAbsence(employeeId: number, at: Date): Promise<void> {
+  const employee = await storage.getEmployee(employeeId);
+  const organization = employee && await storage.getOrganization(employee.organizationId);
+  if (!organization) return;
+
+  const withdrawn = await storage.deleteAbsence(employeeId, dateInTimeZone(at, organization.timeZone));
+  if (withdrawn) publish({ name: "absence", data: withdrawn });
+}
+
+async function sweep(): Promise<void> {
+  const at = now();
+
+  for (const organization of await storage.getOrganizations()) {
+    const scope = { organizationId: organization.id, teamIds: null };
+    const [employees, schedules] = await Promise.all([
+      storage.getAllEmployees(scope),
+      storage.getWorkSchedules(scope),
+    ]);
+
+    for (const employee of employees) {
+      await evaluateEmployee(employee, organization, schedules, at);
+    }
+  }
+}
+
+/**
+ * Start the periodic absence check. The first sweep runs right away so days
+ * missed while the server was down are caught up.
+ */
+export function startAbsenceMonitor(): void {
+  let running = false;
+  const tick = () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+    sweep()
+      .catch(error => console.error("Error sweeping absences:", error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
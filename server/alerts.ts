@@ -0,0 +1,160 @@
+import type { AlertRule, AlertSeverityType, BehaviorStatusType, Employee, NotificationTypeType } from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+import { publish } from "./realtime";
+import { getPresence } from "./presence";
+import { notifyHosts } from "./notifications";
+import { buildStatusIntervals, clipIntervals, sumIntervals } from "./time-accounting";
+
+// Duration rules only fire once time has passed, so they are also checked on a timer
+const SWEEP_INTERVAL_MS = 30 * 1000;
+// Conditions that began longer ago than this don't raise new alerts, so a new
+// rule doesn't fill the inbox with employees who went home days ago
+const MAX_CONDITION_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Whether an employee meets a rule right now, and since when
+interface RuleCheck {
+  met: boolean;
+  since: Date;
+  message: string;
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+function statusLabel(status: string | null): string {
+  return status ? status.charAt(0).toUpperCase() + status.slice(1) : "";
+}
+
+async function checkRule(rule: AlertRule, employeeId: number, scope: TenantScope, now: Date): Promise<RuleCheck> {
+  const thresholdMs = rule.minutes * 60 * 1000;
+
+  switch (rule.kind) {
+    case "status_duration": {
+      const latest = await storage.getLatestBehaviorLog(employeeId);
+      const since = latest ? new Date(latest.timestamp) : now;
+      return {
+        met: latest?.status === rule.status && now.getTime() - since.getTime() >= thresholdMs,
+        since,
+        message: `${statusLabel(rule.status)} for over ${formatMinutes(rule.minutes)}`,
+      };
+    }
+
+    case "status_share": {
+      const from = new Date(now.getTime() - thresholdMs);
+      const [logs, sessions] = await Promise.all([
+        storage.getBehaviorLogsInRange(employeeId, scope, { from, to: now }),
+        storage.getWorkSessionsByEmployeeId(employeeId, scope, { from, to: now }),
+      ]);
+      const totals = sumIntervals(clipIntervals(buildStatusIntervals(logs, sessions, now), from, now));
+      const share = (totals[rule.status as BehaviorStatusType] / (rule.minutes * 60)) * 100;
+      return {
+        met: share > (rule.percent ?? 100),
+        since: now,
+        message: `${statusLabel(rule.status)} for ${Math.round(share)}% of the last ${formatMinutes(rule.minutes)}`,
+      };
+    }
+
+    case "heartbeat_lost": {
+      // Only sessions the presence monitor cut off count; a stopped session or closed tab was intended
+      const session = await storage.getLatestWorkSession(employeeId);
+      const endedAt = session?.endedAt ? new Date(session.endedAt) : null;
+      const online = getPresence([employeeId])[employeeId].online;
+      return {
+        met: !online && session?.endReason === "heartbeat_lost" && !!endedAt
+          && now.getTime() - endedAt.getTime() >= thresholdMs,
+        since: endedAt ?? now,
+        message: `No heartbeat for over ${formatMinutes(rule.minutes)}`,
+      };
+    }
+
+    default:
+      return { met: false, since: now, message: "" };
+  }
+}
+
+/**
+ * Check the rules covering one employee: raise an alert for each rule newly
+ * met, and resolve the unresolved alerts whose condition cleared
+ * @param rules - Enabled rules; those of other organizations and teams are skipped
+ */
+async function evaluateEmployee(employee: Employee, rules: AlertRule[], now: Date): Promise<void> {
+  const applicable = rules.filter(rule =>
+    rule.organizationId === employee.organizationId && (rule.teamId === null || rule.teamId === employee.teamId)
+  );
+  if (applicable.length === 0) return;
+
+  const scope: TenantScope = { organizationId: employee.organizationId, teamIds: null };
+  const unresolved = await storage.getUnresolvedAlerts(employee.id);
+
+  for (const rule of applicable) {
+    const check = await checkRule(rule, employee.id, scope, now);
+    const existing = unresolved.find(alert => alert.ruleId === rule.id);
+
+    if (check.met && !existing && now.getTime() - check.since.getTime() <= MAX_CONDITION_AGE_MS) {
+      const alert = await storage.createAlert({
+        ruleId: rule.id,
+        employeeId: employee.id,
+        severity: rule.severity,
+        message: check.message,
+      });
+      if (alert) {
+        publish({ name: "alert", data: alert });
+        notifyHosts({
+          type: rule.kind as NotificationTypeType,
+          severity: rule.severity as AlertSeverityType,
+          title: `${employee.name}: ${check.message}`,
+          body: `${employee.name} met the alert rule "${rule.name}": ${check.message.toLowerCase()}.`,
+          employeeId: employee.id,
+          alertId: alert.id,
+        }).catch(error => console.error("Error sending alert notifications:", error));
+      }
+    } else if (!check.met && existing) {
+      const resolved = await storage.resolveAlert(existing.id, null);
+      if (resolved) publish({ name: "alert", data: resolved });
+    }
+  }
+}
+
+/**
+ * Check the alert rules covering an employee, e.g. after a new behavior log
+ */
+export async function evaluateAlertsFor(employeeId: number): Promise<void> {
+  const employee = await storage.getEmployee(employeeId);
+  if (!employee) return;
+
+  const rules = await storage.getEnabledAlertRules(employee.organizationId);
+  await evaluateEmployee(employee, rules, new Date());
+}
+
+async function sweep(): Promise<void> {
+  const rules = await storage.getEnabledAlertRules();
+  const organizationIds = Array.from(new Set(rules.map(rule => rule.organizationId)));
+  const now = new Date();
+
+  for (const organizationId of organizationIds) {
+    const employees = await storage.getAllEmployees({ organizationId, teamIds: null });
+    for (const employee of employees) {
+      await evaluateEmployee(employee, rules, now);
+    }
+  }
+}
+
+/**
+ * Start the periodic check of alert rules whose conditions depend on time
+ * passing rather than on a new log
+ */
+export function startAlertMonitor(): void {
+  let running = false;
+  const timer = setInterval(() => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+    sweep()
+      .catch(error => console.error("Error sweeping alert rules:", error))
+      .finally(() => {
+        running = false;
+      });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
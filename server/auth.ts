@@ -0,0 +1,398 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage, type TenantScope } from "./storage";
+import { pool } from "./db";
+import {
+  loginSchema,
+  registerEmployeeSchema,
+  registerOrganizationSchema,
+  UserRole,
+  type User as SelectUser,
+  type PublicUser,
+  type UserRoleType,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      // Resolved by the access middleware for the logged-in user
+      tenantScope?: TenantScope;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Kept so WebSocket upgrades, which bypass Express, can read the same sessions
+let sessionParser: RequestHandler | null = null;
+
+/**
+ * Hash a password with a random salt
+ * @returns "<hash>.<salt>" hex string
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before sending a user to the client
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Work out which tenant data a user may see.
+ * Admins see their whole organization, hosts the teams they manage and
+ * employees only their own employee row.
+ */
+export async function getTenantScope(user: Express.User): Promise<TenantScope> {
+  if (user.role === "admin") {
+    return { organizationId: user.organizationId, teamIds: null };
+  }
+
+  if (user.role === "host") {
+    return {
+      organizationId: user.organizationId,
+      teamIds: await storage.getManagedTeamIds(user.id),
+    };
+  }
+
+  // Serial IDs start at 1, so an account without an employee row matches nothing
+  return { organizationId: user.organizationId, teamIds: null, employeeId: user.employeeId ?? 0 };
+}
+
+/**
+ * Tenant scope resolved by one of the access middlewares below
+ */
+export function scopeOf(req: Request): TenantScope {
+  if (!req.tenantScope) {
+    throw new Error("Tenant scope requested on a route without access middleware");
+  }
+  return req.tenantScope;
+}
+
+// Reject requests without a logged-in session
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  try {
+    req.tenantScope = await getTenantScope(req.user);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Reject requests from users whose role is not in the allowed list
+export function requireRole(...roles: UserRoleType[]): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as UserRoleType)) {
+      return res.status(403).json({ message: "You do not have access to this resource" });
+    }
+
+    try {
+      req.tenantScope = await getTenantScope(req.user);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Reject requests for an employee outside the user's tenant scope.
+ * The employee ID is read from the route param or the JSON body.
+ */
+export function requireEmployeeAccess(source: "params" | "body", field = "employeeId"): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    const employeeId = parseInt(String(req[source]?.[field]));
+    if (isNaN(employeeId)) {
+      return res.status(400).json({ message: "Invalid employee ID" });
+    }
+
+    try {
+      const scope = await getTenantScope(req.user);
+      if (!(await storage.getEmployeeInScope(employeeId, scope))) {
+        // Same answer whether the employee is missing or belongs to another tenant
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      req.tenantScope = scope;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Resolve the logged-in user of a raw HTTP request, such as a WebSocket
+ * upgrade, from its session cookie
+ * @returns The user, or null without a valid session
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<Express.User | null> {
+  if (!sessionParser) {
+    throw new Error("setupAuth must run before upgrades are authenticated");
+  }
+
+  const request = req as Request;
+  await new Promise<void>((resolve, reject) => {
+    sessionParser!(request, {} as Response, (error?: unknown) => error ? reject(error) : resolve());
+  });
+
+  // passport.session() would do the same lookup, but needs a full Express request
+  const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+  if (!userId) return null;
+  return (await storage.getUser(userId)) ?? null;
+}
+
+// Create the initial organization and admin account from the environment on first start
+async function seedAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  if (await storage.hasUserWithRole("admin")) return;
+
+  const slug = (process.env.ADMIN_ORGANIZATION_CODE || "default").toLowerCase();
+  const organization = await storage.getOrganizationBySlug(slug)
+    ?? await storage.createOrganization({
+      name: process.env.ADMIN_ORGANIZATION_NAME || "Default Organization",
+      slug,
+    });
+
+  await storage.createUser({
+    username: username.trim().toLowerCase(),
+    passwordHash: await hashPassword(password),
+    role: "admin",
+    organizationId: organization.id,
+    employeeId: null,
+  });
+  console.log(`Seeded admin account "${username}" for organization "${slug}"`);
+}
+
+export function setupAuth(app: Express) {
+  const PostgresSessionStore = connectPg(session);
+
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: new PostgresSessionStore({ pool, createTableIfMissing: true }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim().toLowerCase());
+        if (!user || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  seedAdmin().catch(error => console.error("Error seeding admin account:", error));
+
+  // Employees register themselves; the username doubles as their employee key
+  app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = registerEmployeeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid registration data", error: parsed.error });
+    }
+
+    try {
+      const organization = await storage.getOrganizationBySlug(parsed.data.organizationCode);
+      if (!organization) {
+        return res.status(400).json({ message: "Unknown organization code" });
+      }
+
+      const username = parsed.data.username.toLowerCase();
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      // Only new employee rows; an existing one may belong to someone else
+      const { employee, created } = await storage.findOrCreateEmployee(organization.id, {
+        name: parsed.data.name,
+        employeeKey: username,
+      });
+      if (!created) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: "employee",
+        organizationId: organization.id,
+        employeeId: employee.id,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // New tenants sign up with their first admin, when the deployment allows it
+  app.post("/api/organizations", async (req: Request, res: Response, next: NextFunction) => {
+    if (process.env.ALLOW_ORGANIZATION_SIGNUP !== "true") {
+      return res.status(403).json({ message: "Organization sign-up is disabled" });
+    }
+
+    const parsed = registerOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid organization data", error: parsed.error });
+    }
+
+    try {
+      const username = parsed.data.adminUsername.toLowerCase();
+      if (await storage.getOrganizationBySlug(parsed.data.slug)) {
+        return res.status(409).json({ message: "Organization code already in use" });
+      }
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const organization = await storage.createOrganization({
+        name: parsed.data.name,
+        slug: parsed.data.slug,
+      });
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(parsed.data.adminPassword),
+        role: "admin",
+        organizationId: organization.id,
+        employeeId: null,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json({ organization, user: toPublicUser(user) });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Admins create host (and other admin) accounts in their own organization
+  app.post("/api/users", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
+    const parsed = loginSchema.extend({ role: UserRole }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid user data", error: parsed.error });
+    }
+
+    try {
+      const username = parsed.data.username.toLowerCase();
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: parsed.data.role,
+        organizationId: req.user!.organizationId,
+        employeeId: null,
+      });
+
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    if (!loginSchema.safeParse(req.body).success) {
+      return res.status(400).json({ message: "Invalid login data" });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jpeg from "jpeg-js";
+import type { BehaviorStatusType } from "@shared/schema";
+import { decodeFrame, HeuristicBehaviorClassifier } from "./behavior-classifier";
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+type Color = [number, number, number];
+
+const GRAY: Color = [120, 130, 140];
+const LIGHT: Color = [225, 230, 235];
+const NIGHT: Color = [8, 8, 10];
+const SKIN: Color = [224, 172, 140];
+const EYE: Color = [30, 25, 25];
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  color: Color;
+}
+
+// A face-sized patch of skin with two dark eyes in its upper half
+function face(left: number, top: number, eyes = true): Rect[] {
+  const shapes: Rect[] = [{ left, top, width: 50, height: 60, color: SKIN }];
+  if (eyes) {
+    shapes.push({ left: left + 10, top: top + 18, width: 10, height: 6, color: EYE });
+    shapes.push({ left: left + 30, top: top + 18, width: 10, height: 6, color: EYE });
+  }
+  return shapes;
+}
+
+// Draw a webcam frame and hand it to the classifier the way the API does
+function frameOf(background: Color, shapes: Rect[] = []) {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const shape = [...shapes].reverse().find(rect =>
+        x >= rect.left && x < rect.left + rect.width && y >= rect.top && y < rect.top + rect.height
+      );
+      const [r, g, b] = shape?.color ?? background;
+      data.set([r, g, b, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  const image = jpeg.encode({ width: WIDTH, height: HEIGHT, data }, 90).data;
+  return decodeFrame(image.toString("base64"));
+}
+
+interface Fixture {
+  name: string;
+  // Frames sent five seconds apart; the last one's classification is checked
+  frames: ReturnType<typeof frameOf>[];
+  status: BehaviorStatusType;
+}
+
+const atDesk = frameOf(GRAY, face(55, 20));
+
+const fixtures: Fixture[] = [
+  { name: "a covered camera", frames: [frameOf(NIGHT)], status: "inactive" },
+  { name: "an empty chair", frames: [frameOf(GRAY)], status: "inactive" },
+  { name: "someone at the desk", frames: [atDesk], status: "working" },
+  { name: "a lowered head with closed eyes", frames: [frameOf(GRAY, face(55, 58, false))], status: "sleeping" },
+  { name: "someone sitting still", frames: [atDesk, atDesk, atDesk, atDesk], status: "idle" },
+  { name: "the lights changing as someone walks past", frames: [atDesk, frameOf(LIGHT, face(55, 20))], status: "moving" },
+];
+
+describe("HeuristicBehaviorClassifier", () => {
+  fixtures.forEach(fixture => {
+    it(`classifies ${fixture.name} as ${fixture.status}`, async () => {
+      const classifier = new HeuristicBehaviorClassifier();
+      const start = Date.UTC(2026, 9, 18, 9);
+
+      let classification;
+      for (const [index, frame] of fixture.frames.entries()) {
+        classification = await classifier.classify(frame, { employeeId: 1, capturedAt: new Date(start + index * 5000) });
+      }
+
+      assert.equal(classification!.status, fixture.status, classification!.reasons.join("; "));
+    });
+  });
+
+  it("gives the same answer for the same frames", async () => {
+    const classify = async () => {
+      const classifier = new HeuristicBehaviorClassifier();
+      return await classifier.classify(atDesk, { employeeId: 1, capturedAt: new Date(0) });
+    };
+
+    assert.deepEqual(await classify(), await classify());
+  });
+
+  it("keeps frame history per employee", async () => {
+    const classifier = new HeuristicBehaviorClassifier();
+    for (let index = 0; index < 4; index++) {
+      await classifier.classify(atDesk, { employeeId: 1, capturedAt: new Date(index * 5000) });
+    }
+
+    const other = await classifier.classify(atDesk, { employeeId: 2, capturedAt: new Date(20000) });
+    assert.equal(other.status, "working");
+    assert.equal(other.signals.movement, undefined);
+  });
+
+  it("starts over after a reset", async () => {
+    const classifier = new HeuristicBehaviorClassifier();
+    for (let index = 0; index < 4; index++) {
+      await classifier.classify(atDesk, { employeeId: 1, capturedAt: new Date(index * 5000) });
+    }
+
+    classifier.reset(1);
+    const next = await classifier.classify(atDesk, { employeeId: 1, capturedAt: new Date(20000) });
+    assert.equal(next.status, "working");
+    assert.equal(next.signals.movement, undefined);
+  });
+
+  it("doesn't compare against frames older than the history TTL", async () => {
+    const classifier = new HeuristicBehaviorClassifier();
+    await classifier.classify(atDesk, { employeeId: 1, capturedAt: new Date(0) });
+
+    const later = await classifier.classify(frameOf(LIGHT, face(55, 20)), {
+      employeeId: 1,
+      capturedAt: new Date(HeuristicBehaviorClassifier.HISTORY_TTL_MS + 1),
+    });
+    assert.equal(later.status, "working");
+  });
+});
@@ -0,0 +1,342 @@
+import jpeg from "jpeg-js";
+import type { BehaviorStatusType, BehaviorSignals } from "@shared/schema";
+
+// Frames are averaged down to this grid before any analysis, which keeps the
+// heuristics cheap and makes them insensitive to webcam resolution and noise
+const GRID_WIDTH = 32;
+const GRID_HEIGHT = 24;
+
+// Webcam frames are 640x480 by default; refuse anything absurdly large
+const MAX_FRAME_MEGAPIXELS = 4;
+
+/**
+ * A webcam frame reduced to a coarse grid of cells
+ */
+export interface Frame {
+  width: number;
+  height: number;
+  // Mean luma per cell, 0-255, row-major
+  luma: Float32Array;
+  // Share of skin-toned pixels per cell, 0-1, row-major
+  skin: Float32Array;
+}
+
+/**
+ * What a classifier knows about the frame besides its pixels
+ */
+export interface ClassificationContext {
+  employeeId: number;
+  capturedAt: Date;
+}
+
+export interface BehaviorClassification {
+  status: BehaviorStatusType;
+  confidence: number;
+  // Measurements the decision was based on, stored with the behavior log
+  signals: BehaviorSignals;
+  // Human-readable explanation of the decision, for logs and debugging
+  reasons: string[];
+}
+
+/**
+ * Turns webcam frames into a behavior status. Implementations may keep
+ * per-employee state between frames (e.g. for motion detection).
+ */
+export interface BehaviorClassifier {
+  readonly name: string;
+  classify(frame: Frame, context: ClassificationContext): Promise<BehaviorClassification>;
+  // Drop whatever is kept about an employee between frames
+  reset?(employeeId: number): void;
+}
+
+/**
+ * Decode a base64 JPEG (without the data URL prefix) into a frame grid
+ * @throws Error if the data is not a decodable JPEG
+ */
+export function decodeFrame(imageData: string): Frame {
+  const image = jpeg.decode(Buffer.from(imageData, "base64"), {
+    useTArray: true,
+    formatAsRGBA: true,
+    maxResolutionInMP: MAX_FRAME_MEGAPIXELS,
+  });
+
+  const luma = new Float32Array(GRID_WIDTH * GRID_HEIGHT);
+  const skin = new Float32Array(GRID_WIDTH * GRID_HEIGHT);
+  const counts = new Uint32Array(GRID_WIDTH * GRID_HEIGHT);
+
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.min(GRID_HEIGHT - 1, Math.floor((y * GRID_HEIGHT) / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const column = Math.min(GRID_WIDTH - 1, Math.floor((x * GRID_WIDTH) / image.width));
+      const cell = row * GRID_WIDTH + column;
+      const offset = (y * image.width + x) * 4;
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+
+      const yLuma = 0.299 * r + 0.587 * g + 0.114 * b;
+      const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+      luma[cell] += yLuma;
+      // Classic YCbCr skin range; works across skin tones under normal lighting
+      if (cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173) skin[cell] += 1;
+      counts[cell]++;
+    }
+  }
+
+  for (let cell = 0; cell < counts.length; cell++) {
+    if (counts[cell] > 0) {
+      luma[cell] /= counts[cell];
+      skin[cell] /= counts[cell];
+    }
+  }
+
+  return { width: GRID_WIDTH, height: GRID_HEIGHT, luma, skin };
+}
+
+function mean(values: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clampConfidence(value: number): number {
+  return Math.round(Math.min(0.95, Math.max(0.3, value)) * 100) / 100;
+}
+
+interface FaceRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  // Share of grid cells inside the region that are mostly skin
+  coverage: number;
+}
+
+// Bounding box of the skin-toned cells, or null if there are too few of them
+function findFace(frame: Frame): FaceRegion | null {
+  let left = frame.width, top = frame.height, right = -1, bottom = -1, cells = 0;
+
+  for (let row = 0; row < frame.height; row++) {
+    for (let column = 0; column < frame.width; column++) {
+      if (frame.skin[row * frame.width + column] < 0.5) continue;
+      cells++;
+      left = Math.min(left, column);
+      right = Math.max(right, column);
+      top = Math.min(top, row);
+      bottom = Math.max(bottom, row);
+    }
+  }
+
+  // A face at a normal distance covers at least ~2% of the frame
+  if (cells < frame.width * frame.height * 0.02) return null;
+
+  const area = (right - left + 1) * (bottom - top + 1);
+  return { left, top, right, bottom, coverage: cells / area };
+}
+
+// Luma spread across the upper part of the face. Open eyes and eyebrows
+// are dark against the surrounding skin; closed eyes or a face turned
+// down towards the desk flatten this band out
+function eyeBandContrast(frame: Frame, face: FaceRegion): number {
+  const faceHeight = face.bottom - face.top + 1;
+  const bandTop = face.top + Math.floor(faceHeight * 0.2);
+  const bandBottom = face.top + Math.max(1, Math.ceil(faceHeight * 0.5));
+  const values: number[] = [];
+
+  for (let row = bandTop; row < bandBottom; row++) {
+    for (let column = face.left; column <= face.right; column++) {
+      values.push(frame.luma[row * frame.width + column]);
+    }
+  }
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+// Mean absolute luma change per cell between two frames
+function frameDifference(a: Frame, b: Frame): number {
+  let sum = 0;
+  for (let cell = 0; cell < a.luma.length; cell++) {
+    sum += Math.abs(a.luma[cell] - b.luma[cell]);
+  }
+  return sum / a.luma.length;
+}
+
+interface EmployeeFrameHistory {
+  frame: Frame;
+  capturedAt: Date;
+  // Consecutive frames with almost no change
+  stillFrames: number;
+}
+
+/**
+ * Deterministic default classifier built from simple image statistics:
+ * brightness, skin-toned regions, eye-band contrast and frame-to-frame
+ * change. It needs no model files or GPU and gives the same answer for the
+ * same sequence of frames, so it can be exercised with fixture images.
+ */
+export class HeuristicBehaviorClassifier implements BehaviorClassifier {
+  readonly name = "heuristic";
+
+  // Below this mean luma the camera is covered or the room is dark
+  static readonly DARK_THRESHOLD = 25;
+  // Mean per-cell luma change that counts as moving around
+  static readonly MOTION_THRESHOLD = 18;
+  // Mean per-cell luma change that counts as sitting perfectly still
+  static readonly STILL_THRESHOLD = 1.5;
+  // Still frames in a row before someone is considered idle
+  static readonly IDLE_AFTER_STILL_FRAMES = 3;
+  // Eye-band contrast below this suggests closed eyes
+  static readonly EYES_CLOSED_CONTRAST = 8;
+  // Previous frames older than this are not compared against
+  static readonly HISTORY_TTL_MS = 60 * 1000;
+
+  private history = new Map<number, EmployeeFrameHistory>();
+
+  async classify(frame: Frame, context: ClassificationContext): Promise<BehaviorClassification> {
+    const previous = this.history.get(context.employeeId);
+    const comparable = previous &&
+      context.capturedAt.getTime() - previous.capturedAt.getTime() <= HeuristicBehaviorClassifier.HISTORY_TTL_MS;
+    const motion = comparable ? frameDifference(frame, previous.frame) : null;
+    const stillFrames = motion !== null && motion < HeuristicBehaviorClassifier.STILL_THRESHOLD
+      ? (previous?.stillFrames ?? 0) + 1
+      : 0;
+
+    this.history.set(context.employeeId, { frame, capturedAt: context.capturedAt, stillFrames });
+    return this.decide(frame, motion, stillFrames);
+  }
+
+  /**
+   * Forget the stored frame for an employee, e.g. when their session ends
+   */
+  reset(employeeId: number): void {
+    this.history.delete(employeeId);
+  }
+
+  private decide(frame: Frame, motion: number | null, stillFrames: number): BehaviorClassification {
+    const signals: BehaviorSignals = motion === null ? {} : { movement: round(motion) };
+
+    const brightness = mean(frame.luma);
+    if (brightness < HeuristicBehaviorClassifier.DARK_THRESHOLD) {
+      return {
+        status: "inactive",
+        confidence: clampConfidence(0.95 - brightness / 100),
+        signals: { ...signals, facePresent: false },
+        reasons: [`frame is too dark to see anyone (mean brightness ${brightness.toFixed(0)})`],
+      };
+    }
+
+    const face = findFace(frame);
+    signals.facePresent = face !== null;
+
+    if (motion !== null && motion >= HeuristicBehaviorClassifier.MOTION_THRESHOLD) {
+      return {
+        status: "moving",
+        confidence: clampConfidence(0.5 + motion / 100),
+        signals,
+        reasons: [`large change since the previous frame (${motion.toFixed(1)})`],
+      };
+    }
+
+    if (!face) {
+      return {
+        status: "inactive",
+        confidence: 0.7,
+        signals,
+        reasons: ["no face-like region in the frame"],
+      };
+    }
+
+    const reasons = [`face found covering ${Math.round(face.coverage * 100)}% of its bounding box`];
+    const contrast = eyeBandContrast(frame, face);
+    signals.eyeOpenness = round(contrast);
+    const faceCenterRow = (face.top + face.bottom) / 2;
+    const headLowered = faceCenterRow > frame.height * 0.66;
+
+    if (contrast < HeuristicBehaviorClassifier.EYES_CLOSED_CONTRAST && (headLowered || stillFrames > 0)) {
+      reasons.push(`little contrast around the eyes (${contrast.toFixed(1)})`);
+      if (headLowered) reasons.push("head is low in the frame");
+      return {
+        status: "sleeping",
+        confidence: clampConfidence(0.5 + (headLowered ? 0.15 : 0) + Math.min(stillFrames, 3) * 0.05),
+        signals,
+        reasons,
+      };
+    }
+
+    if (stillFrames >= HeuristicBehaviorClassifier.IDLE_AFTER_STILL_FRAMES) {
+      reasons.push(`no movement for ${stillFrames} frames in a row`);
+      return {
+        status: "idle",
+        confidence: clampConfidence(0.5 + stillFrames * 0.05),
+        signals,
+        reasons,
+      };
+    }
+
+    if (motion === null) {
+      reasons.push("no previous frame to compare against");
+    } else {
+      reasons.push(`only small changes since the previous frame (${motion.toFixed(1)})`);
+    }
+    return {
+      status: "working",
+      confidence: clampConfidence(motion === null ? 0.6 : 0.8),
+      signals,
+      reasons,
+    };
+  }
+}
+
+const classifierFactories: Record<string, () => BehaviorClassifier> = {
+  heuristic: () => new HeuristicBehaviorClassifier(),
+};
+
+let activeClassifier: BehaviorClassifier | null = null;
+
+/**
+ * Make another classifier implementation selectable through the
+ * BEHAVIOR_CLASSIFIER environment variable
+ */
+export function registerBehaviorClassifier(name: string, factory: () => BehaviorClassifier): void {
+  classifierFactories[name] = factory;
+}
+
+/**
+ * The classifier used by /api/analyze-behavior, chosen by BEHAVIOR_CLASSIFIER
+ * (defaults to "heuristic"). Created once and shared, since classifiers keep
+ * per-employee frame history.
+ */
+export function getBehaviorClassifier(): BehaviorClassifier {
+  if (!activeClassifier) {
+    const name = process.env.BEHAVIOR_CLASSIFIER || "heuristic";
+    const factory = classifierFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown behavior classifier "${name}"`);
+    }
+    activeClassifier = factory();
+  }
+  return activeClassifier;
+}
+
+/**
+ * Forget an employee's frames once their work session ends, so history
+ * doesn't pile up and the next session starts without a stale comparison
+ */
+export function resetBehaviorClassifier(employeeId: number): void {
+  activeClassifier?.reset?.(employeeId);
+}
+
+/**
+ * Replace the shared classifier, e.g. with a stub in tests
+ */
+export function setBehaviorClassifier(classifier: BehaviorClassifier): void {
+  activeClassifier = classifier;
+}
@@ -0,0 +1,291 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Request, Response } from "express";
+
+// Content-addressed keys: two levels of fan-out directories, then the SHA-256
+const BLOB_KEY_PATTERN = /^[0-9a-f]{2}\/[0-9a-f]{2}\/[0-9a-f]{64}$/;
+
+/**
+ * Where a blob ended up, as recorded on the row that owns it
+ */
+export interface StoredBlob {
+  blobKey: string;
+  mimeType: string;
+  sizeBytes: number;
+  sha256: string;
+}
+
+/**
+ * Byte storage for screenshots, submitted files and recording segments.
+ * Keys are derived from the content, so writing the same bytes twice is a
+ * no-op and blobs never change once written.
+ */
+export interface BlobStore {
+  readonly driver: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function assertBlobKey(key: string): void {
+  if (!BLOB_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid blob key "${key}"`);
+  }
+}
+
+/**
+ * Blob key for some content
+ */
+export function blobKeyFor(sha256: string): string {
+  return `${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}`;
+}
+
+/**
+ * Stores blobs as files under a root directory (BLOB_STORAGE_DIR)
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly driver = "local";
+
+  constructor(private root: string) {}
+
+  private pathFor(key: string): string {
+    assertBlobKey(key);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.pathFor(key);
+    if (await this.has(key)) return;
+
+    await mkdir(path.dirname(target), { recursive: true });
+    // Write then rename, so readers never see a half-written file
+    const temporary = `${target}.${randomBytes(6).toString("hex")}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, target);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await stat(this.pathFor(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  // Prepended to every key, e.g. "employee-intelligence/"
+  prefix?: string;
+}
+
+/**
+ * Stores blobs in an S3-compatible bucket, using path-style requests
+ * signed with AWS Signature Version 4
+ */
+export class S3BlobStore implements BlobStore {
+  readonly driver = "s3";
+  private endpoint: string;
+
+  constructor(private options: S3BlobStoreOptions) {
+    this.endpoint = (options.endpoint || `https://s3.${options.region}.amazonaws.com`).replace(/\/+$/, "");
+  }
+
+  private async request(method: string, key: string, body?: Buffer, mimeType?: string): Promise<globalThis.Response> {
+    assertBlobKey(key);
+    const url = new URL(`${this.endpoint}/${this.options.bucket}/${this.options.prefix ?? ""}${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (mimeType) headers["content-type"] = mimeType;
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaderNames.map(name => `${name}:${headers[name]}\n`).join(""),
+      signedHeaderNames.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, dateStamp);
+    const signingKey = hmac(hmac(hmac(dateKey, this.options.region), "s3"), "aws4_request");
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    const { host: _host, ...sentHeaders } = headers;
+    return await fetch(url, {
+      method,
+      headers: {
+        ...sentHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaderNames.join(";")}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    if (await this.has(key)) return;
+
+    const response = await this.request("PUT", key, data, mimeType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async has(key: string): Promise<boolean> {
+    const response = await this.request("HEAD", key);
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`S3 HEAD ${key} failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+let blobStore: BlobStore | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when BLOB_STORE=s3`);
+  }
+  return value;
+}
+
+/**
+ * The blob store chosen by BLOB_STORE ("local", the default, or "s3")
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    const driver = process.env.BLOB_STORE || "local";
+
+    if (driver === "local") {
+      blobStore = new LocalBlobStore(path.resolve(process.env.BLOB_STORAGE_DIR || "data/blobs"));
+    } else if (driver === "s3") {
+      blobStore = new S3BlobStore({
+        bucket: requireEnv("S3_BUCKET"),
+        region: process.env.S3_REGION || "us-east-1",
+        accessKeyId: requireEnv("S3_ACCESS_KEY_ID"),
+        secretAccessKey: requireEnv("S3_SECRET_ACCESS_KEY"),
+        endpoint: process.env.S3_ENDPOINT,
+        prefix: process.env.S3_PREFIX,
+      });
+    } else {
+      throw new Error(`Unknown blob store driver "${driver}"`);
+    }
+  }
+  return blobStore;
+}
+
+/**
+ * Hash some content and write it to the blob store
+ * @returns The metadata to keep on the owning row
+ */
+export async function putBlob(data: Buffer, mimeType: string): Promise<StoredBlob> {
+  const sha256 = sha256Hex(data);
+  const blobKey = blobKeyFor(sha256);
+  await getBlobStore().put(blobKey, data, mimeType);
+  return { blobKey, mimeType, sizeBytes: data.length, sha256 };
+}
+
+// Images and videos browsers display without running anything. SVG is an
+// image that can carry script, so it doesn't count.
+function isInlineMedia(mimeType: string): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  return (type.startsWith("image/") || type.startsWith("video/")) && type !== "image/svg+xml";
+}
+
+/**
+ * Send a blob as the response body. Blobs are immutable, so the content hash
+ * in the key doubles as a strong ETag and browsers may cache them indefinitely.
+ * @param downloadName - Sent as an attachment under this name if given.
+ * Blobs that aren't images or videos are always sent as attachments, so an
+ * uploaded HTML page can't run in the app's origin.
+ */
+export async function sendBlob(
+  req: Request,
+  res: Response,
+  blob: Pick<StoredBlob, "blobKey" | "mimeType">,
+  downloadName?: string,
+): Promise<void> {
+  const etag = `"${blob.blobKey.split("/").pop()}"`;
+  res.setHeader("ETag", etag);
+  res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+
+  if (req.headers["if-none-match"] === etag) {
+    res.status(304).end();
+    return;
+  }
+
+  const data = await getBlobStore().get(blob.blobKey);
+  if (!data) {
+    res.status(404).json({ message: "File content not found" });
+    return;
+  }
+
+  if (downloadName) {
+    res.attachment(downloadName);
+  } else if (!isInlineMedia(blob.mimeType)) {
+    res.attachment();
+  }
+  res.setHeader("Content-Type", blob.mimeType);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Content-Length", data.length);
+  res.end(data);
+}
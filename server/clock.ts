@@ -0,0 +1,33 @@
+// The time calendar-day features like absence detection run on. In
+// development DEV_CLOCK_OFFSET moves it, e.g. "+1d" to see today's activity
+// as yesterday's and everyone absent today, or "-2h" to go back before the
+// grace period ran out. Activity keeps its real timestamps.
+const OFFSET_PATTERN = /^([+-]?\d+)([dhm])$/;
+const UNIT_MS = { d: 24 * 60 * 60 * 1000, h: 60 * 60 * 1000, m: 60 * 1000 } as const;
+
+function parseOffset(value: string | undefined): number {
+  if (!value) return 0;
+
+  if (process.env.NODE_ENV === "production") {
+    console.warn("DEV_CLOCK_OFFSET is ignored in production");
+    return 0;
+  }
+
+  const match = OFFSET_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`DEV_CLOCK_OFFSET must look like +1d, -3h or 90m, got "${value}"`);
+  }
+  return parseInt(match[1]) * UNIT_MS[match[2] as keyof typeof UNIT_MS];
+}
+
+const offsetMs = parseOffset(process.env.DEV_CLOCK_OFFSET);
+if (offsetMs !== 0) {
+  console.log(`Clock shifted by ${process.env.DEV_CLOCK_OFFSET} for development`);
+}
+
+/**
+ * The current moment, shifted by DEV_CLOCK_OFFSET outside production
+ */
+export function now(): Date {
+  return new Date(Date.now() + offsetMs);
+}
@@ -0,0 +1,109 @@
+import { subDays, subHours } from "date-fns";
+import type { DashboardSummary, EmployeeDaySummary } from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+import { now } from "./clock";
+import { addCalendarDays, dateInTimeZone, zonedTime } from "./time-zone";
+import {
+  applyCorrections,
+  buildStatusIntervals,
+  clipIntervals,
+  correctionsFrom,
+  sumIntervals,
+  trackedSeconds,
+  type StatusInterval,
+} from "./time-accounting";
+
+// Whether an employee was in a non-inactive status at a given instant
+function isActiveAt(intervals: StatusInterval[], at: Date): boolean {
+  return intervals.some(interval =>
+    interval.status !== "inactive" && interval.start <= at && interval.end >= at
+  );
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Compute the host dashboard KPIs for the employees visible in a scope.
+ * Everything is derived from behavior logs, work sessions and submissions,
+ * so repeated polls return the same numbers until the data changes.
+ */
+export async function buildDashboardSummary(
+  scope: TenantScope,
+  teamId?: number,
+  at: Date = now(),
+): Promise<DashboardSummary> {
+  // Days start at midnight in the organization's time zone
+  const organization = await storage.getOrganization(scope.organizationId);
+  const timeZone = organization?.timeZone ?? "UTC";
+  const currentDay = dateInTimeZone(at, timeZone);
+  const todayStart = zonedTime(currentDay, timeZone);
+  const yesterdayStart = zonedTime(addCalendarDays(currentDay, -1), timeZone);
+  const hourAgo = subHours(at, 1);
+  // Same time of day yesterday, so the averages compare like with like
+  const yesterdaySoFar = subDays(at, 1);
+
+  const employees = await storage.getAllEmployees(scope, teamId);
+  const window = { from: yesterdayStart, to: at };
+
+  const perEmployee = await Promise.all(employees.map(async employee => {
+    const [logs, sessions, disputes] = await Promise.all([
+      storage.getBehaviorLogsInRange(employee.id, scope, window),
+      storage.getWorkSessionsByEmployeeId(employee.id, scope, window),
+      storage.getApprovedStatusDisputes(employee.id, scope, window),
+    ]);
+    const intervals = applyCorrections(buildStatusIntervals(logs, sessions, at), correctionsFrom(disputes));
+    return { employee, intervals };
+  }));
+
+  const summaries: Record<number, EmployeeDaySummary> = {};
+  const workingToday: number[] = [];
+  const workingYesterday: number[] = [];
+  let activeNow = 0;
+  let activeHourAgo = 0;
+
+  perEmployee.forEach(({ employee, intervals }) => {
+    const today = sumIntervals(clipIntervals(intervals, todayStart, at));
+    const yesterday = sumIntervals(clipIntervals(intervals, yesterdayStart, yesterdaySoFar));
+    const tracked = trackedSeconds(today);
+    const active = isActiveAt(intervals, at);
+
+    if (active) activeNow++;
+    if (isActiveAt(intervals, hourAgo)) activeHourAgo++;
+
+    // Averages only count people who actually worked that day
+    if (tracked > 0) workingToday.push(today.working);
+    if (trackedSeconds(yesterday) > 0) workingYesterday.push(yesterday.working);
+
+    const current = intervals[intervals.length - 1];
+    summaries[employee.id] = {
+      status: active && current ? current.status : "inactive",
+      trackedSecondsToday: tracked,
+      workingSecondsToday: today.working,
+      productivePercentage: tracked > 0
+        ? Math.round(((today.working + today.moving) / tracked) * 100)
+        : 0,
+    };
+  });
+
+  const [submissionsToday, submissionsYesterday] = await Promise.all([
+    storage.countWorkSubmissions(scope, { from: todayStart, to: at }, teamId),
+    storage.countWorkSubmissions(scope, { from: yesterdayStart, to: yesterdaySoFar }, teamId),
+  ]);
+
+  const avgToday = average(workingToday);
+
+  return {
+    generatedAt: at.toISOString(),
+    totalEmployees: employees.length,
+    newEmployeesToday: employees.filter(employee => new Date(employee.createdAt) >= todayStart).length,
+    activeEmployees: activeNow,
+    activeDeltaSinceHourAgo: activeNow - activeHourAgo,
+    avgWorkingSecondsToday: Math.round(avgToday),
+    avgWorkingDeltaSinceYesterday: Math.round(avgToday - average(workingYesterday)),
+    workSubmissionsToday: submissionsToday,
+    workSubmissionsDeltaSinceYesterday: submissionsToday - submissionsYesterday,
+    employees: summaries,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * One-off migration for databases created before the blob store existed:
+ * moves the base64 payloads of screenshots, work submissions and recording
+ * chunks out of their text columns into the blob store, then drops those
+ * columns. Run it once, before `npm run db:push`:
+ *
+ *   npm run blobs:migrate
+ *
+ * It is safe to re-run; rows that already have a blob key are skipped.
+ */
+import { pool } from "./db";
+import { putBlob } from "./blob-store";
+
+const BATCH_SIZE = 50;
+
+interface LegacyTable {
+  table: string;
+  // Text column holding the base64 payload
+  legacyColumn: string;
+  // Other columns made obsolete by the blob metadata
+  obsoleteColumns: string[];
+  // Column receiving the decoded size, or null if the table already tracks it
+  sizeColumn: string | null;
+  mimeType: (row: Record<string, any>) => string;
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  txt: "text/plain",
+};
+
+const LEGACY_TABLES: LegacyTable[] = [
+  {
+    table: "screenshots",
+    legacyColumn: "image_data",
+    obsoleteColumns: [],
+    sizeColumn: "size_bytes",
+    mimeType: () => "image/jpeg",
+  },
+  {
+    table: "work_submissions",
+    legacyColumn: "file_data",
+    obsoleteColumns: [],
+    sizeColumn: null,
+    mimeType: (row) => {
+      const extension = String(row.file_name ?? "").split(".").pop()?.toLowerCase() ?? "";
+      return EXTENSION_MIME_TYPES[extension] ?? "application/octet-stream";
+    },
+  },
+  {
+    table: "recording_chunks",
+    legacyColumn: "data",
+    obsoleteColumns: ["size"],
+    sizeColumn: "size_bytes",
+    mimeType: () => "video/webm",
+  },
+];
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const { rows } = await pool.query(
+    "select 1 from information_schema.columns where table_name = $1 and column_name = $2",
+    [table, column],
+  );
+  return rows.length > 0;
+}
+
+async function migrateTable({ table, legacyColumn, obsoleteColumns, sizeColumn, mimeType }: LegacyTable): Promise<void> {
+  if (!(await columnExists(table, legacyColumn))) {
+    console.log(`${table}: nothing to migrate`);
+    return;
+  }
+
+  const newColumns = ["blob_key", "mime_type", "sha256", ...(sizeColumn ? [sizeColumn] : [])];
+  await pool.query(
+    `alter table ${table} ${newColumns.map(column => `add column if not exists ${column} ${column === sizeColumn ? "integer" : "text"}`).join(", ")}`,
+  );
+
+  let migrated = 0;
+  while (true) {
+    // ctid identifies rows without knowing each table's primary key
+    const { rows } = await pool.query(
+      `select ctid, * from ${table} where blob_key is null limit ${BATCH_SIZE}`,
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const blob = await putBlob(Buffer.from(row[legacyColumn], "base64"), row.mime_type ?? mimeType(row));
+      const assignments = ["blob_key = $2", "mime_type = $3", "sha256 = $4"];
+      const values: unknown[] = [row.ctid, blob.blobKey, blob.mimeType, blob.sha256];
+      if (sizeColumn) {
+        assignments.push(`${sizeColumn} = $5`);
+        values.push(blob.sizeBytes);
+      }
+      await pool.query(`update ${table} set ${assignments.join(", ")} where ctid = $1`, values);
+    }
+
+    migrated += rows.length;
+    console.log(`${table}: ${migrated} rows moved to the blob store`);
+  }
+
+  await pool.query(
+    `alter table ${table} ${newColumns.map(column => `alter column ${column} set not null`).join(", ")}`,
+  );
+  await pool.query(
+    `alter table ${table} ${[legacyColumn, ...obsoleteColumns].map(column => `drop column if exists ${column}`).join(", ")}`,
+  );
+  console.log(`${table}: done`);
+}
+
+async function main() {
+  try {
+    for (const table of LEGACY_TABLES) {
+      await migrateTable(table);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error("Blob migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,209 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer as createHttpServer, type IncomingHttpHeaders } from "http";
+import net, { type AddressInfo } from "net";
+import type { NotificationPreferences, User } from "@shared/schema";
+
+// Storage wants a connection string when it's imported; nothing here queries it
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { EmailChannel, WebhookChannel, WebhookTargetError, assertWebhookTarget, signWebhook } = await import("./notifications");
+
+const recipient = {
+  user: { id: 1, username: "host" } as User,
+  preferences: {
+    userId: 1,
+    email: "host@example.com",
+    webhookUrl: null,
+    webhookSecret: "whsec_test",
+    channels: {},
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: "UTC",
+    updatedAt: new Date(),
+  } as NotificationPreferences,
+};
+
+const notification = {
+  type: "status_duration" as const,
+  severity: "warning" as const,
+  title: "Jane Doe: Sleeping for over 3 minutes",
+  body: "Jane Doe met the alert rule \"Asleep\".",
+  employeeId: 12,
+  alertId: 345,
+};
+
+interface SmtpTranscript {
+  commands: string[];
+  message: string;
+}
+
+// Mail server stand-in that accepts everything and remembers what it was told
+function startSmtpServer(): Promise<{ port: number; transcripts: SmtpTranscript[]; close: () => Promise<void> }> {
+  const transcripts: SmtpTranscript[] = [];
+  const server = net.createServer(socket => {
+    const transcript: SmtpTranscript = { commands: [], message: "" };
+    transcripts.push(transcript);
+    let buffer = "";
+    let inData = false;
+
+    socket.setEncoding("utf8");
+    socket.write("220 localhost ESMTP test\r\n");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        transcript.message = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 Queued\r\n");
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        transcript.commands.push(line);
+
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "AUTH") socket.write("235 Authenticated\r\n");
+        else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 Go ahead\r\n");
+        } else if (verb === "QUIT") socket.end("221 Bye\r\n");
+        else socket.write("250 OK\r\n");
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => resolve({
+      port: (server.address() as AddressInfo).port,
+      transcripts,
+      close: () => new Promise(done => server.close(() => done())),
+    }));
+  });
+}
+
+describe("EmailChannel", () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  before(async () => {
+    smtp = await startSmtpServer();
+  });
+
+  after(async () => {
+    await smtp.close();
+  });
+
+  it("sends the notification to the host's address", async () => {
+    const channel = new EmailChannel({
+      host: "127.0.0.1",
+      port: smtp.port,
+      secure: false,
+      startTls: false,
+      username: "alerts",
+      password: "secret",
+      from: "alerts@example.com",
+    });
+
+    await channel.deliver(recipient, notification);
+
+    const transcript = smtp.transcripts.at(-1)!;
+    assert.deepEqual(transcript.commands.slice(1), [
+      `AUTH PLAIN ${Buffer.from("\0alerts\0secret").toString("base64")}`,
+      "MAIL FROM:<alerts@example.com>",
+      "RCPT TO:<host@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    assert.match(transcript.commands[0], /^EHLO /);
+
+    const [headers, body] = transcript.message.split("\r\n\r\n");
+    assert.match(headers, /^From: alerts@example\.com$/m);
+    assert.match(headers, /^To: host@example\.com$/m);
+    assert.match(headers, /^Subject: \[warning\] Jane Doe: Sleeping for over 3 minutes$/m);
+    assert.match(Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8"), /^Jane Doe met the alert rule "Asleep"\./);
+  });
+
+  it("skips hosts without an email address", async () => {
+    const channel = new EmailChannel({ host: "127.0.0.1", port: smtp.port, secure: false, startTls: false, from: "alerts@example.com" });
+    const connections = smtp.transcripts.length;
+
+    await channel.deliver({ ...recipient, preferences: { ...recipient.preferences, email: null } }, notification);
+
+    assert.equal(smtp.transcripts.length, connections);
+  });
+});
+
+describe("signWebhook", () => {
+  it("is the hex HMAC-SHA256 of the timestamp and body", () => {
+    // printf '%s' '1760000000.{"hello":"world"}' | openssl dgst -sha256 -hmac whsec_test
+    assert.equal(
+      signWebhook("whsec_test", "1760000000", '{"hello":"world"}'),
+      "15added55a191d180e64c68e4c9d01aebd4b29c4acad11a2d2eadd1ec7a6e8ae",
+    );
+  });
+});
+
+describe("WebhookChannel", () => {
+  it("signs the body it sends with the timestamp it sends", async () => {
+    const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+    const server = createHttpServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => body += chunk);
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+
+    // The receiver runs on loopback, which webhooks may only reach when allowed
+    process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = "true";
+    try {
+      await new WebhookChannel().deliver({ ...recipient, preferences: { ...recipient.preferences, webhookUrl: url } }, notification);
+    } finally {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    const timestamp = headers["x-timestamp"] as string;
+    assert.match(timestamp, /^\d+$/);
+    assert.equal(headers["x-signature"], `sha256=${signWebhook("whsec_test", timestamp, body)}`);
+    assert.equal(headers["content-type"], "application/json");
+    assert.deepEqual({ ...JSON.parse(body), sentAt: undefined }, { ...notification, sentAt: undefined });
+  });
+
+  it("refuses to deliver to private addresses", async () => {
+    const preferences = { ...recipient.preferences, webhookUrl: "http://127.0.0.1:9/hooks" };
+    await assert.rejects(new WebhookChannel().deliver({ ...recipient, preferences }, notification), WebhookTargetError);
+  });
+});
+
+describe("assertWebhookTarget", () => {
+  for (const url of [
+    "http://localhost/hooks",
+    "http://10.0.0.8/hooks",
+    "http://172.20.1.1/hooks",
+    "http://192.168.1.10/hooks",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/hooks",
+    "http://[fd00::1]/hooks",
+    "http://[fe80::1]/hooks",
+    "http://[::ffff:127.0.0.1]/hooks",
+  ]) {
+    it(`refuses ${url}`, async () => {
+      await assert.rejects(assertWebhookTarget(url), WebhookTargetError);
+    });
+  }
+
+  it("accepts public addresses", async () => {
+    await assertWebhookTarget("https://93.184.215.14/hooks");
+    await assertWebhookTarget("https://[2606:4700::1111]/hooks");
+  });
+});
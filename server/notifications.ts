@@ -0,0 +1,343 @@
+import { createHmac, randomBytes } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type AlertSeverityType,
+  type NotificationChannelType,
+  type NotificationPreferences,
+  type NotificationSettings,
+  type NotificationTypeType,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { sendMail, smtpConfigFromEnv, type SmtpConfig } from "./smtp";
+import { minutesInTimeZone } from "./time-zone";
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_SIGNATURE_HEADER = "X-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Timestamp";
+
+// Addresses a webhook may not point at, so hosts can't reach the server's own
+// network through it: loopback, private, link-local, carrier-grade NAT and
+// unique-local ranges. IPv4-mapped IPv6 addresses are matched as IPv4.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_ADDRESSES.addAddress("::", "ipv6");
+PRIVATE_ADDRESSES.addAddress("::1", "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+/**
+ * Something hosts should hear about, before it's addressed to anyone
+ */
+export interface OutgoingNotification {
+  type: NotificationTypeType;
+  severity: AlertSeverityType;
+  title: string;
+  body: string;
+  employeeId: number | null;
+  alertId?: number | null;
+}
+
+export interface NotificationRecipient {
+  user: User;
+  // Undefined for hosts who never saved their preferences
+  preferences?: NotificationPreferences;
+}
+
+/**
+ * A way of getting a notification to a host. Channels skip recipients who
+ * haven't set them up, e.g. email without an address.
+ */
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannelType;
+  deliver(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void>;
+}
+
+/**
+ * Stores the notification for the bell in the host header
+ */
+export class InAppChannel implements NotificationChannelAdapter {
+  readonly channel = "in_app";
+
+  async deliver({ user }: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    await storage.createNotification({
+      userId: user.id,
+      type: notification.type,
+      severity: notification.severity,
+      title: notification.title,
+      body: notification.body,
+      employeeId: notification.employeeId,
+      alertId: notification.alertId ?? null,
+    });
+  }
+}
+
+/**
+ * Sends a plain-text email through the SMTP server configured in the environment
+ */
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = "email";
+
+  constructor(private config: SmtpConfig) {}
+
+  async deliver({ preferences }: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    if (!preferences?.email) return;
+
+    await sendMail(this.config, {
+      to: preferences.email,
+      subject: `[${notification.severity}] ${notification.title}`,
+      text: `${notification.body}\n\nYou get this email because of your notification settings.`,
+    });
+  }
+}
+
+/**
+ * Signature of a webhook request: hex HMAC-SHA256 of "<timestamp>.<body>"
+ * keyed with the host's webhook secret
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+/**
+ * Check that a webhook URL resolves to public addresses only. Private
+ * targets are allowed when WEBHOOK_ALLOW_PRIVATE_TARGETS=true, e.g. for a
+ * receiver on the same network.
+ * @returns The addresses that were checked, undefined when private targets
+ * are allowed and nothing was
+ * @throws WebhookTargetError if the host doesn't resolve or is private
+ */
+export async function assertWebhookTarget(url: string): Promise<LookupAddress[] | undefined> {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true") return undefined;
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+  } catch {
+    throw new WebhookTargetError(`Webhook host ${host} could not be resolved`);
+  }
+
+  const blocked = addresses.find(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"));
+  if (blocked) {
+    throw new WebhookTargetError(`Webhook host ${host} resolves to the private address ${blocked.address}`);
+  }
+  return addresses;
+}
+
+// Answers the connection's DNS lookup with addresses resolved earlier, so a
+// host can't pass the check with one answer and be reached at another
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    const candidates = options.family === 4 || options.family === 6
+      ? addresses.filter(({ family }) => family === options.family)
+      : addresses;
+    if (candidates.length === 0) {
+      callback(Object.assign(new Error("No checked address of the requested family"), { code: "ENOTFOUND" }), "");
+    } else if (options.all) {
+      callback(null, candidates);
+    } else {
+      callback(null, candidates[0].address, candidates[0].family);
+    }
+  };
+}
+
+// POST without following redirects, connecting only to the given addresses
+// when there are any. fetch can't be pinned: it resolves the host itself.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  addresses: LookupAddress[] | undefined,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: addresses && pinnedLookup(addresses),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, response => {
+      // Only the status matters; drain the body so the socket is released
+      response.resume();
+      response.on("end", () => resolve(response.statusCode ?? 0));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POSTs the notification as JSON to the host's webhook URL, signed so the
+ * receiver can tell it came from this server
+ */
+export class WebhookChannel implements NotificationChannelAdapter {
+  readonly channel = "webhook";
+
+  async deliver({ preferences }: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    if (!preferences?.webhookUrl) return;
+    // Checked again on every delivery since DNS answers can change after
+    // saving, and the request goes to the addresses that were checked
+    const addresses = await assertWebhookTarget(preferences.webhookUrl);
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({ ...notification, sentAt: new Date().toISOString() });
+    const status = await postWebhook(preferences.webhookUrl, {
+      "Content-Type": "application/json",
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhook(preferences.webhookSecret, timestamp, body)}`,
+    }, body, addresses);
+
+    // Redirects count as failures too, since they aren't followed
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook ${preferences.webhookUrl} answered ${status}`);
+    }
+  }
+}
+
+let channels: Map<NotificationChannelType, NotificationChannelAdapter> | null = null;
+
+function getChannels(): Map<NotificationChannelType, NotificationChannelAdapter> {
+  if (!channels) {
+    channels = new Map();
+    registerNotificationChannel(new InAppChannel());
+    registerNotificationChannel(new WebhookChannel());
+
+    const smtp = smtpConfigFromEnv();
+    if (smtp) {
+      registerNotificationChannel(new EmailChannel(smtp));
+    } else {
+      console.warn("SMTP_HOST is not set; email notifications are disabled");
+    }
+  }
+  return channels;
+}
+
+/**
+ * Make a channel available, replacing the built-in one of the same name,
+ * e.g. with a stub in tests
+ */
+export function registerNotificationChannel(adapter: NotificationChannelAdapter): void {
+  getChannels().set(adapter.channel, adapter);
+}
+
+/**
+ * Whether notifications can be sent on a channel, e.g. email needs SMTP settings
+ */
+export function isNotificationChannelAvailable(channel: NotificationChannelType): boolean {
+  return getChannels().has(channel);
+}
+
+/**
+ * New secret for signing a host's webhook requests
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * A host's preferences as returned by the API, with defaults filled in
+ */
+export function notificationSettingsOf(preferences: NotificationPreferences | undefined): NotificationSettings {
+  if (!preferences) {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, webhookSecret: null };
+  }
+  const { userId, updatedAt, ...settings } = preferences;
+  return settings;
+}
+
+function clockMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a moment falls in a host's quiet hours. Quiet hours may run past
+ * midnight, e.g. 22:00 to 07:00.
+ */
+export function isQuietTime(preferences: NotificationPreferences | undefined, now: Date = new Date()): boolean {
+  if (!preferences?.quietHoursStart || !preferences.quietHoursEnd) return false;
+
+  const current = minutesInTimeZone(now, preferences.timeZone);
+  const start = clockMinutes(preferences.quietHoursStart);
+  const end = clockMinutes(preferences.quietHoursEnd);
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Channels a recipient gets a notification on. Quiet hours mute
+ * everything but in-app notifications, unless the notification is critical.
+ */
+export function channelsFor(
+  recipient: NotificationRecipient,
+  notification: OutgoingNotification,
+  now: Date = new Date(),
+): NotificationChannelType[] {
+  const routed = recipient.preferences?.channels[notification.type] ?? DEFAULT_NOTIFICATION_CHANNELS;
+  if (notification.severity === "critical" || !isQuietTime(recipient.preferences, now)) {
+    return routed;
+  }
+  return routed.filter(channel => channel === "in_app");
+}
+
+/**
+ * Deliver a notification to one recipient on the given channels. A failing
+ * channel doesn't stop the others.
+ * @returns The channels that failed
+ */
+export async function deliverNotification(
+  recipient: NotificationRecipient,
+  notification: OutgoingNotification,
+  channelNames: NotificationChannelType[],
+): Promise<NotificationChannelType[]> {
+  const failed: NotificationChannelType[] = [];
+  for (const name of channelNames) {
+    const adapter = getChannels().get(name);
+    if (!adapter) continue;
+
+    try {
+      await adapter.deliver(recipient, notification);
+    } catch (error) {
+      console.error(`Error delivering ${name} notification to user ${recipient.user.id}:`, error);
+      failed.push(name);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Notify the hosts and admins who can see an employee, each on the channels
+ * their preferences pick for the notification's type
+ */
+export async function notifyHosts(notification: OutgoingNotification & { employeeId: number }): Promise<void> {
+  const employee = await storage.getEmployee(notification.employeeId);
+  if (!employee) return;
+
+  const now = new Date();
+  const users = await storage.getNotificationRecipients(employee.organizationId, employee.teamId);
+  for (const user of users) {
+    const recipient = { user, preferences: await storage.getNotificationPreferences(user.id) };
+    await deliverNotification(recipient, notification, channelsFor(recipient, notification, now));
+  }
+}
@@ -0,0 +1,159 @@
+import { format } from "date-fns";
+import type { Employee, Organization, PayPeriodInfo, PayPeriodSummary, PayrollLineSummary } from "@shared/schema";
+import { PdfDocument } from "./pdf";
+
+/**
+ * Columns of the payroll CSV, in order. Documented in the readme; add new
+ * columns at the end so existing accounting imports keep working.
+ */
+export const PAYROLL_CSV_COLUMNS = [
+  "period_start",
+  "period_end",
+  "employee_id",
+  "employee_key",
+  "employee_name",
+  "pay_type",
+  "regular_hours",
+  "overtime_hours",
+  "regular_pay",
+  "overtime_pay",
+  "salary_pay",
+  "gross_pay",
+  "currency",
+  "locked",
+] as const;
+
+// Periods end at midnight, so their last day is the one before
+function lastDayOf(period: PayPeriodInfo): Date {
+  return new Date(new Date(period.endsAt).getTime() - 1);
+}
+
+function hours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+// Major currency units with a dot and no grouping, e.g. 1234.56
+function amount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Quote a CSV field when it needs it (RFC 4180). Text that a spreadsheet
+ * would run as a formula gets a leading apostrophe.
+ */
+function csvField(value: string, text = false): string {
+  const safe = text && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * The payroll of a period as CSV, one row per employee, with CRLF line
+ * endings and a header row
+ * @param employees - The employees of the lines, for their keys
+ */
+export function payrollCsv(summary: PayPeriodSummary, employees: Map<number, Employee>): string {
+  const periodStart = format(new Date(summary.startsAt), "yyyy-MM-dd");
+  const periodEnd = format(lastDayOf(summary), "yyyy-MM-dd");
+
+  const rows = summary.lines.map(line => [
+    periodStart,
+    periodEnd,
+    String(line.employeeId),
+    csvField(employees.get(line.employeeId)?.employeeKey ?? "", true),
+    csvField(line.employeeName, true),
+    line.payType ?? "",
+    hours(line.regularSeconds),
+    hours(line.overtimeSeconds),
+    amount(line.regularCents),
+    amount(line.overtimeCents),
+    amount(line.salaryCents),
+    amount(line.grossCents),
+    summary.currency,
+    summary.id !== null ? "true" : "false",
+  ].join(","));
+
+  return [PAYROLL_CSV_COLUMNS.join(","), ...rows].map(row => `${row}\r\n`).join("");
+}
+
+function money(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: "code" }).format(cents / 100);
+}
+
+export interface PayslipData {
+  organization: Organization;
+  employee: Employee;
+  period: PayPeriodSummary;
+  line: PayrollLineSummary;
+  generatedAt: Date;
+}
+
+/**
+ * One employee's payslip for a pay period as a single-page PDF
+ */
+export function renderPayslip({ organization, employee, period, line, generatedAt }: PayslipData): Buffer {
+  const doc = new PdfDocument();
+  const left = 56;
+  const right = doc.width - 56;
+  let y = 72;
+
+  doc.text(left, y, "Payslip", { size: 22, bold: true });
+  doc.text(right, y, organization.name, { size: 12, bold: true, align: "right" });
+  y += 36;
+
+  const details: [string, string][] = [
+    ["Employee", employee.name],
+    ["Employee ID", employee.employeeKey ?? String(employee.id)],
+    ["Pay period", `${format(new Date(period.startsAt), "MMM d, yyyy")} - ${format(lastDayOf(period), "MMM d, yyyy")}`],
+    ["Status", period.lockedAt
+      ? `Final, locked ${format(new Date(period.lockedAt), "MMM d, yyyy")}`
+      : "Provisional, the period is not locked yet"],
+  ];
+  details.forEach(([label, value]) => {
+    doc.text(left, y, label, { size: 10, bold: true });
+    doc.text(left + 110, y, value, { size: 10 });
+    y += 16;
+  });
+  y += 20;
+
+  // Earnings table
+  const hoursColumn = right - 130;
+  doc.text(left, y, "Earnings", { bold: true });
+  doc.text(hoursColumn, y, "Hours", { bold: true, align: "right" });
+  doc.text(right, y, "Amount", { bold: true, align: "right" });
+  y += 6;
+  doc.line(left, y, right, y);
+  y += 16;
+
+  const rows: [string, string, number][] = [];
+  if (line.regularCents > 0 || line.payType === "hourly") {
+    rows.push(["Regular time", hours(line.regularSeconds), line.regularCents]);
+  }
+  if (line.overtimeSeconds > 0 || line.overtimeCents > 0) {
+    rows.push(["Overtime", hours(line.overtimeSeconds), line.overtimeCents]);
+  }
+  if (line.salaryCents > 0 || line.payType === "salaried") {
+    rows.push(["Salary", "", line.salaryCents]);
+  }
+  if (rows.length === 0) {
+    rows.push(["No pay rate set for this period", hours(line.regularSeconds), 0]);
+  }
+
+  rows.forEach(([label, rowHours, cents]) => {
+    doc.text(left, y, label);
+    if (rowHours) doc.text(hoursColumn, y, rowHours, { align: "right" });
+    doc.text(right, y, money(cents, period.currency), { align: "right" });
+    y += 18;
+  });
+
+  doc.line(left, y - 6, right, y - 6);
+  y += 10;
+  doc.text(left, y, "Gross pay", { size: 12, bold: true });
+  doc.text(right, y, money(line.grossCents, period.currency), { size: 12, bold: true, align: "right" });
+  y += 40;
+
+  doc.text(left, y, "Hours are working time recorded by employee monitoring, including approved status disputes.", { size: 8 });
+  doc.text(left, y + 12, "Gross pay before taxes and deductions.", { size: 8 });
+  doc.text(left, doc.height - 40, `Generated ${format(generatedAt, "MMM d, yyyy HH:mm")}`, { size: 8 });
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PayFrequencyType, PayRate } from "@shared/schema";
+import type { StatusInterval } from "./time-accounting";
+import { zonedTime } from "./time-zone";
+
+// Storage wants a connection string when it's imported; nothing here queries it
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { calculateEarnings, payPeriodContaining } = await import("./payroll");
+
+const TIME_ZONE = "America/New_York";
+const HOUR = 60 * 60 * 1000;
+
+function rate(id: number, payType: "hourly" | "salaried", amountCents: number, effectiveFrom: Date): PayRate {
+  return {
+    id,
+    employeeId: 1,
+    payType,
+    amountCents,
+    overtimeThresholdHours: 40,
+    overtimeMultiplier: 1.5,
+    effectiveFrom,
+    createdBy: null,
+    createdAt: effectiveFrom,
+  };
+}
+
+function working(start: Date, hours: number): StatusInterval {
+  return { employeeId: 1, status: "working", start, end: new Date(start.getTime() + hours * HOUR) };
+}
+
+describe("payPeriodContaining", () => {
+  // Sunday 1 March 2026 at 03:00 UTC is still Saturday 28 February in New York
+  const at = new Date("2026-03-01T03:00:00Z");
+  const expected: Record<PayFrequencyType, [string, string]> = {
+    weekly: ["2026-02-23T05:00:00.000Z", "2026-03-02T05:00:00.000Z"],
+    biweekly: ["2026-02-16T05:00:00.000Z", "2026-03-02T05:00:00.000Z"],
+    semimonthly: ["2026-02-16T05:00:00.000Z", "2026-03-01T05:00:00.000Z"],
+    monthly: ["2026-02-01T05:00:00.000Z", "2026-03-01T05:00:00.000Z"],
+  };
+
+  for (const [frequency, [start, end]] of Object.entries(expected)) {
+    it(`lays out ${frequency} periods from midnight in the organization's time zone`, () => {
+      const period = payPeriodContaining(
+        { frequency: frequency as PayFrequencyType, anchorDate: "2026-01-05", currency: "USD" },
+        at,
+        TIME_ZONE,
+      );
+
+      assert.deepEqual([period.start.toISOString(), period.end.toISOString()], [start, end]);
+    });
+  }
+
+  it("ends a period at midnight after a DST change", () => {
+    const period = payPeriodContaining({ frequency: "monthly", anchorDate: "2026-01-05", currency: "USD" }, new Date("2026-03-15T12:00:00Z"), TIME_ZONE);
+
+    assert.equal(period.start.toISOString(), "2026-03-01T05:00:00.000Z");
+    assert.equal(period.end.toISOString(), "2026-04-01T04:00:00.000Z");
+  });
+});
+
+describe("calculateEarnings", () => {
+  // October 2026 in New York: 31 days, all on EDT
+  const period = { start: zonedTime("2026-10-01", TIME_ZONE), end: zonedTime("2026-11-01", TIME_ZONE) };
+  const midMonth = zonedTime("2026-10-16", TIME_ZONE);
+
+  it("pays hourly time at the rate in force when it was worked", () => {
+    const rates = [rate(1, "hourly", 2000, zonedTime("2026-01-01", TIME_ZONE)), rate(2, "hourly", 3000, midMonth)];
+    // 23:00 on the 15th to 01:00 on the 16th, local time
+    const line = calculateEarnings(1, rates, [working(new Date(midMonth.getTime() - HOUR), 2)], period, "monthly", TIME_ZONE);
+
+    assert.equal(line.regularSeconds, 2 * 60 * 60);
+    assert.equal(line.regularCents, 2000 + 3000);
+    assert.equal(line.grossCents, 5000);
+    assert.equal(line.payType, "hourly");
+  });
+
+  it("prorates salaries by how much of the period each rate was in force", () => {
+    const rates = [rate(1, "salaried", 120_000_00, zonedTime("2026-01-01", TIME_ZONE)), rate(2, "salaried", 240_000_00, midMonth)];
+
+    const line = calculateEarnings(1, rates, [], period, "monthly", TIME_ZONE);
+
+    // 15 days at 10,000.00 a month and 16 at 20,000.00
+    assert.equal(line.salaryCents, Math.round((10_000_00 * 15 + 20_000_00 * 16) / 31));
+    assert.equal(line.grossCents, line.salaryCents);
+    assert.equal(line.payType, "salaried");
+  });
+
+  it("pays a salary that starts mid-period only from then on", () => {
+    const rates = [rate(1, "salaried", 120_000_00, midMonth)];
+
+    const line = calculateEarnings(1, rates, [working(period.start, 8)], period, "monthly", TIME_ZONE);
+
+    assert.equal(line.salaryCents, Math.round(10_000_00 * 16 / 31));
+    assert.equal(line.regularSeconds, 8 * 60 * 60);
+    assert.equal(line.regularCents, 0);
+  });
+
+  it("pays hours past the weekly threshold as overtime", () => {
+    const rates = [rate(1, "hourly", 2000, zonedTime("2026-01-01", TIME_ZONE))];
+    // Monday 5 October to Friday, nine hours a day
+    const intervals = [5, 6, 7, 8, 9].map(day => working(zonedTime(`2026-10-0${day}`, TIME_ZONE, "08:00"), 9));
+
+    const line = calculateEarnings(1, rates, intervals, period, "monthly", TIME_ZONE);
+
+    assert.equal(line.regularSeconds, 40 * 60 * 60);
+    assert.equal(line.overtimeSeconds, 5 * 60 * 60);
+    assert.equal(line.regularCents, 40 * 2000);
+    assert.equal(line.overtimeCents, 5 * 3000);
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  DEFAULT_PAYROLL_SETTINGS,
+  type InsertPayrollLine,
+  type PayFrequencyType,
+  type PayPeriod,
+  type PayPeriodInfo,
+  type PayPeriodSummary,
+  type PayRate,
+  type PayrollSettingsInput,
+  type PayTypeType,
+} from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+import { correctedIntervals, type StatusInterval } from "./time-accounting";
+import { now } from "./clock";
+import { addCalendarDays, calendarDaysBetween, dateInTimeZone, weekdayOf, zonedTime } from "./time-zone";
+
+// Whole periods per year, for turning an annual salary into period pay
+const PERIODS_PER_YEAR: Record<PayFrequencyType, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+};
+
+/**
+ * A pay period as a half-open range [start, end), from midnight to midnight
+ * in the organization's time zone
+ */
+export interface PayPeriodRange {
+  start: Date;
+  end: Date;
+}
+
+export async function payrollSettingsFor(organizationId: number): Promise<PayrollSettingsInput> {
+  const settings = await storage.getPayrollSettings(organizationId);
+  if (!settings) return DEFAULT_PAYROLL_SETTINGS;
+
+  const { frequency, anchorDate, currency } = settings;
+  return { frequency: frequency as PayFrequencyType, anchorDate, currency };
+}
+
+// The organization's time zone, which pay periods and overtime weeks follow
+async function timeZoneOf(organizationId: number): Promise<string> {
+  const organization = await storage.getOrganization(organizationId);
+  return organization?.timeZone ?? "UTC";
+}
+
+function firstOfNextMonth(day: string): string {
+  const [year, month] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+}
+
+// Overtime is counted per week, Monday to Sunday
+function weekStart(at: Date, timeZone: string): string {
+  const day = dateInTimeZone(at, timeZone);
+  return addCalendarDays(day, -((weekdayOf(day) + 6) % 7));
+}
+
+/**
+ * The pay period under the given settings that contains a moment
+ */
+export function payPeriodContaining(settings: PayrollSettingsInput, at: Date, timeZone: string): PayPeriodRange {
+  const day = dateInTimeZone(at, timeZone);
+  const range = (start: string, end: string) => ({ start: zonedTime(start, timeZone), end: zonedTime(end, timeZone) });
+
+  switch (settings.frequency) {
+    case "weekly":
+    case "biweekly": {
+      const length = settings.frequency === "weekly" ? 7 : 14;
+      const offset = Math.floor(calendarDaysBetween(settings.anchorDate, day) / length) * length;
+      const start = addCalendarDays(settings.anchorDate, offset);
+      return range(start, addCalendarDays(start, length));
+    }
+    case "semimonthly": {
+      const month = `${day.slice(0, 7)}-01`;
+      const middle = `${day.slice(0, 7)}-16`;
+      return day < middle ? range(month, middle) : range(middle, firstOfNextMonth(month));
+    }
+    case "monthly": {
+      const month = `${day.slice(0, 7)}-01`;
+      return range(month, firstOfNextMonth(month));
+    }
+  }
+}
+
+function toInfo(period: PayPeriod): PayPeriodInfo {
+  return {
+    startsAt: period.startsAt.toISOString(),
+    endsAt: period.endsAt.toISOString(),
+    id: period.id,
+    lockedAt: period.lockedAt.toISOString(),
+  };
+}
+
+/**
+ * A computed period as it stands next to the locked ones. Locked periods keep
+ * the layout they had even if the settings changed since: a computed period
+ * running past the end of the last locked one starts where it ended, and
+ * one that overlaps a locked period otherwise is covered by it.
+ */
+function resolvePeriod(range: PayPeriodRange, locked: PayPeriod[]): PayPeriodInfo | null {
+  const same = locked.find(period => period.startsAt.getTime() === range.start.getTime());
+  if (same) return toInfo(same);
+
+  const overlapping = locked.filter(period => period.startsAt < range.end && period.endsAt > range.start);
+  if (overlapping.length === 0) {
+    return { startsAt: range.start.toISOString(), endsAt: range.end.toISOString(), id: null, lockedAt: null };
+  }
+
+  const lockedUntil = Math.max(...overlapping.map(period => period.endsAt.getTime()));
+  if (lockedUntil >= range.end.getTime()) return null;
+  return { startsAt: new Date(lockedUntil).toISOString(), endsAt: range.end.toISOString(), id: null, lockedAt: null };
+}
+
+/**
+ * The current period and the ones before it, newest first, locked or not
+ */
+export async function listPayPeriods(organizationId: number, count = 12, at: Date = now()): Promise<PayPeriodInfo[]> {
+  const [settings, locked, timeZone] = await Promise.all([
+    payrollSettingsFor(organizationId),
+    storage.getPayPeriods(organizationId),
+    timeZoneOf(organizationId),
+  ]);
+
+  const periods = new Map<string, PayPeriodInfo>();
+  let range = payPeriodContaining(settings, at, timeZone);
+  for (let index = 0; index < count; index++) {
+    const info = resolvePeriod(range, locked);
+    if (info) periods.set(info.startsAt, info);
+    range = payPeriodContaining(settings, new Date(range.start.getTime() - 1), timeZone);
+  }
+  // Older locked periods stay reachable
+  locked.forEach(period => {
+    if (period.startsAt <= at) periods.set(period.startsAt.toISOString(), toInfo(period));
+  });
+
+  return Array.from(periods.values())
+    .sort((a, b) => b.startsAt.localeCompare(a.startsAt))
+    .slice(0, count);
+}
+
+/**
+ * The period starting at a moment, or the current one without a start
+ */
+export async function findPayPeriod(organizationId: number, startsAt?: Date, at: Date = now()): Promise<PayPeriodInfo | undefined> {
+  const [settings, locked, timeZone] = await Promise.all([
+    payrollSettingsFor(organizationId),
+    storage.getPayPeriods(organizationId),
+    timeZoneOf(organizationId),
+  ]);
+
+  if (!startsAt) {
+    return resolvePeriod(payPeriodContaining(settings, at, timeZone), locked)
+      ?? locked.filter(period => period.startsAt <= at && period.endsAt > at).map(toInfo)[0];
+  }
+
+  const lockedPeriod = locked.find(period => period.startsAt.getTime() === startsAt.getTime());
+  if (lockedPeriod) return toInfo(lockedPeriod);
+
+  const info = resolvePeriod(payPeriodContaining(settings, startsAt, timeZone), locked);
+  return info && new Date(info.startsAt).getTime() === startsAt.getTime() ? info : undefined;
+}
+
+// The latest rate in force at a moment
+function rateAt(rates: PayRate[], at: Date): PayRate | undefined {
+  let current: PayRate | undefined;
+  for (const rate of rates) {
+    if (rate.effectiveFrom <= at) current = rate;
+  }
+  return current;
+}
+
+// Cut intervals at the given moments so each piece has a single rate and week
+function splitAt(intervals: StatusInterval[], boundaries: Date[]): StatusInterval[] {
+  return intervals.flatMap(interval => {
+    const pieces: StatusInterval[] = [];
+    let start = interval.start;
+    boundaries
+      .filter(boundary => boundary > interval.start && boundary < interval.end)
+      .forEach(boundary => {
+        pieces.push({ ...interval, start, end: boundary });
+        start = boundary;
+      });
+    pieces.push({ ...interval, start });
+    return pieces;
+  });
+}
+
+/**
+ * One employee's earnings in a pay period.
+ * Hourly rates pay for working time after approved disputes. Time past a
+ * rate's weekly threshold is overtime; a week that started in the previous
+ * period counts that period's hours towards the threshold, so `intervals`
+ * should reach back to the start of the period's first week.
+ * Salaried rates pay their annual amount divided by the periods in a year,
+ * prorated by how much of the period the rate was in force.
+ * @param rates - The employee's rate history, oldest first
+ * @param intervals - Status intervals with corrections applied, sorted
+ */
+export function calculateEarnings(
+  employeeId: number,
+  rates: PayRate[],
+  intervals: StatusInterval[],
+  period: PayPeriodRange,
+  frequency: PayFrequencyType,
+  timeZone: string,
+): InsertPayrollLine {
+  const weekStarts: Date[] = [];
+  for (let week = weekStart(period.start, timeZone); zonedTime(week, timeZone) < period.end; week = addCalendarDays(week, 7)) {
+    weekStarts.push(zonedTime(week, timeZone));
+  }
+  const boundaries = [period.start, ...weekStarts, ...rates.map(rate => rate.effectiveFrom)]
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  let regularSeconds = 0;
+  let overtimeSeconds = 0;
+  let regularCents = 0;
+  let overtimeCents = 0;
+  const weekSeconds = new Map<string, number>();
+
+  splitAt(intervals.filter(interval => interval.status === "working"), boundaries)
+    .filter(piece => piece.end <= period.end)
+    .forEach(piece => {
+      const rate = rateAt(rates, piece.start);
+      const seconds = (piece.end.getTime() - piece.start.getTime()) / 1000;
+      const week = weekStart(piece.start, timeZone);
+      const workedBefore = weekSeconds.get(week) ?? 0;
+      weekSeconds.set(week, workedBefore + seconds);
+
+      const inPeriod = piece.start >= period.start;
+      if (!rate || rate.payType !== "hourly") {
+        // Salaried and unpaid time is shown as regular hours without pay
+        if (inPeriod) regularSeconds += seconds;
+        return;
+      }
+
+      const threshold = rate.overtimeThresholdHours * 3600;
+      const regular = Math.min(seconds, Math.max(0, threshold - workedBefore));
+      const overtime = seconds - regular;
+      if (!inPeriod) return;
+
+      regularSeconds += regular;
+      overtimeSeconds += overtime;
+      regularCents += regular / 3600 * rate.amountCents;
+      overtimeCents += overtime / 3600 * rate.amountCents * rate.overtimeMultiplier;
+    });
+
+  // Salary accrues per rate segment, whether or not anyone worked
+  let salaryCents = 0;
+  const periodMs = period.end.getTime() - period.start.getTime();
+  const segmentStarts = [period.start, ...rates.map(rate => rate.effectiveFrom)]
+    .filter(start => start >= period.start && start < period.end)
+    .sort((a, b) => a.getTime() - b.getTime());
+  segmentStarts.forEach((start, index) => {
+    const rate = rateAt(rates, start);
+    if (rate?.payType !== "salaried") return;
+    const end = segmentStarts[index + 1] ?? period.end;
+    salaryCents += rate.amountCents / PERIODS_PER_YEAR[frequency] * (end.getTime() - start.getTime()) / periodMs;
+  });
+
+  const lastRate = rateAt(rates, new Date(period.end.getTime() - 1));
+  const cents = {
+    regularCents: Math.round(regularCents),
+    overtimeCents: Math.round(overtimeCents),
+    salaryCents: Math.round(salaryCents),
+  };
+
+  return {
+    employeeId,
+    payType: (lastRate?.payType as PayTypeType | undefined) ?? null,
+    regularSeconds: Math.round(regularSeconds),
+    overtimeSeconds: Math.round(overtimeSeconds),
+    ...cents,
+    grossCents: cents.regularCents + cents.overtimeCents + cents.salaryCents,
+  };
+}
+
+/**
+ * Earnings of every employee visible in a scope, recalculated from the logs
+ */
+export async function calculatePayroll(
+  scope: TenantScope,
+  period: PayPeriodRange,
+  frequency: PayFrequencyType,
+  filter: { teamId?: number; employeeId?: number } = {},
+  at: Date = now(),
+): Promise<InsertPayrollLine[]> {
+  const employees = (await storage.getAllEmployees(scope, filter.teamId))
+    .filter(employee => filter.employeeId === undefined || employee.id === filter.employeeId);
+  const [rates, timeZone] = await Promise.all([
+    storage.getPayRates(scope, filter.employeeId),
+    timeZoneOf(scope.organizationId),
+  ]);
+
+  // Overtime needs the whole first week, including days before the period
+  const window = {
+    from: zonedTime(weekStart(period.start, timeZone), timeZone),
+    to: period.end < at ? period.end : at,
+  };
+
+  return await Promise.all(employees.map(async employee => {
+    const [logs, sessions, disputes] = await Promise.all([
+      storage.getBehaviorLogsInRange(employee.id, scope, window),
+      storage.getWorkSessionsByEmployeeId(employee.id, scope, window),
+      storage.getApprovedStatusDisputes(employee.id, scope, window),
+    ]);
+    const intervals = correctedIntervals(logs, sessions, disputes, window.from, window.to, at);
+    const employeeRates = rates.filter(rate => rate.employeeId === employee.id);
+    return calculateEarnings(employee.id, employeeRates, intervals, period, frequency, timeZone);
+  }));
+}
+
+/**
+ * The payroll of one period: frozen lines if it is locked, live ones otherwise
+ * @param startsAt - Start of the period; omitted for the current period
+ */
+export async function buildPayPeriodSummary(
+  scope: TenantScope,
+  startsAt: Date | undefined,
+  filter: { teamId?: number; employeeId?: number } = {},
+  at: Date = now(),
+): Promise<PayPeriodSummary | undefined> {
+  const [settings, info] = await Promise.all([
+    payrollSettingsFor(scope.organizationId),
+    findPayPeriod(scope.organizationId, startsAt, at),
+  ]);
+  if (!info) return undefined;
+
+  if (info.id !== null) {
+    const [locked, lines] = await Promise.all([
+      storage.getPayPeriodByStart(scope.organizationId, new Date(info.startsAt)),
+      storage.getPayrollLines(info.id, scope, filter.teamId),
+    ]);
+    return summarize(
+      info,
+      locked?.currency ?? settings.currency,
+      lines.filter(line => filter.employeeId === undefined || line.employeeId === filter.employeeId),
+    );
+  }
+
+  const period = { start: new Date(info.startsAt), end: new Date(info.endsAt) };
+  const [lines, employees] = await Promise.all([
+    calculatePayroll(scope, period, settings.frequency, filter, at),
+    storage.getAllEmployees(scope, filter.teamId),
+  ]);
+  const names = new Map(employees.map(employee => [employee.id, employee.name]));
+  return summarize(
+    info,
+    settings.currency,
+    lines
+      .map(line => ({ ...line, payType: line.payType ?? null, employeeName: names.get(line.employeeId) ?? "" }))
+      .sort((a, b) => a.employeeName.localeCompare(b.employeeName)),
+  );
+}
+
+function summarize(info: PayPeriodInfo, currency: string, lines: PayPeriodSummary["lines"]): PayPeriodSummary {
+  return {
+    ...info,
+    currency,
+    lines,
+    totalCents: lines.reduce((sum, line) => sum + line.grossCents, 0),
+  };
+}
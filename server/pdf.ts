@@ -0,0 +1,139 @@
+// Just enough PDF to lay out text documents like payslips: A4 pages with
+// text in the standard Helvetica fonts and straight lines. The standard fonts
+// need no embedding, so documents are generated without any dependencies.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+// Helvetica advance widths in 1/1000 em for the characters that appear in
+// amounts and currency codes; everything else is measured as an
+// average-width character
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278, "\u00a0": 278, ",": 278, ".": 278, ":": 278, "-": 333, "(": 333, ")": 333,
+  "0": 556, "1": 556, "2": 556, "3": 556, "4": 556, "5": 556, "6": 556, "7": 556, "8": 556, "9": 556,
+  "$": 556, "€": 556, "£": 556,
+  A: 667, B: 667, C: 722, D: 722, E: 667, F: 611, G: 778, H: 722, I: 278, J: 500, K: 667, L: 556, M: 833,
+  N: 722, O: 778, P: 667, Q: 778, R: 722, S: 667, T: 611, U: 722, V: 667, W: 944, X: 667, Y: 667, Z: 611,
+};
+const DEFAULT_WIDTH = 556;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  // Right-aligned text ends at x
+  align?: "left" | "right";
+}
+
+/**
+ * Escape text for a PDF string literal. The standard fonts use WinAnsi
+ * encoding, so characters outside Latin-1 (other than the euro sign) are
+ * replaced with "?".
+ */
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    if (char === "€") {
+      encoded += "\\200";
+    } else if (char === "(" || char === ")" || char === "\\") {
+      encoded += `\\${char}`;
+    } else {
+      const code = char.codePointAt(0)!;
+      if (code >= 32 && code < 127) {
+        encoded += char;
+      } else if (code >= 160 && code <= 255) {
+        encoded += `\\${code.toString(8).padStart(3, "0")}`;
+      } else {
+        encoded += "?";
+      }
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Approximate width of text in Helvetica, in points
+ */
+export function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += HELVETICA_WIDTHS[char] ?? DEFAULT_WIDTH;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * A document built page by page. Coordinates are in points from the top-left
+ * corner of the page.
+ */
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, { size = 10, bold = false, align = "left" }: TextOptions = {}): void {
+    const left = align === "right" ? x - textWidth(text, size) : x;
+    const font = bold ? "F2" : "F1";
+    this.current().push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current().push(
+      `${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document, with the cross-reference table PDF readers use
+   * to find each object
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    // Object numbers start at 1, so the new length is the new object's number
+    const add = (body: string) => objects.push(body);
+
+    const catalog = add("");
+    const pageTree = add("");
+    const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageIds = this.pages.map(commands => {
+      const content = commands.join("\n");
+      const stream = add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${stream} 0 R >>`
+      );
+    });
+
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+    objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((body, index) => {
+      const offset = Buffer.byteLength(output, "latin1");
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xref = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
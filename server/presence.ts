@@ -0,0 +1,124 @@
+import type { BehaviorStatusType, EmployeePresence } from "@shared/schema";
+import { storage } from "./storage";
+import { publish } from "./realtime";
+import { resetBehaviorClassifier } from "./behavior-classifier";
+
+// Dashboards send a heartbeat every 15 seconds; three missed ones mean the tab is gone
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+const SWEEP_INTERVAL_MS = 10 * 1000;
+
+// Last heartbeat of every employee heard from since startup
+const lastSeen = new Map<number, Date>();
+// Employees whose heartbeats haven't timed out
+const online = new Set<number>();
+const startedAt = Date.now();
+let recoveredAfterStart = false;
+
+function presenceOf(employeeId: number): EmployeePresence {
+  const seen = lastSeen.get(employeeId);
+  return { employeeId, online: online.has(employeeId), lastSeenAt: seen?.toISOString() ?? null };
+}
+
+/**
+ * Record a heartbeat from an employee's dashboard. An employee coming back
+ * online gets the status their dashboard reports written back, in case a
+ * timeout had marked them inactive in the meantime. Heartbeats replayed from
+ * the dashboard's offline outbox only move the last-seen time forward.
+ */
+export async function recordHeartbeat(
+  employeeId: number,
+  status: BehaviorStatusType,
+  capturedAt: Date,
+): Promise<EmployeePresence> {
+  // A client clock running ahead must not keep the employee online
+  const seenAt = new Date(Math.min(capturedAt.getTime(), Date.now()));
+  const previous = lastSeen.get(employeeId);
+  if (!previous || seenAt > previous) {
+    lastSeen.set(employeeId, seenAt);
+  }
+  if (Date.now() - seenAt.getTime() > HEARTBEAT_TIMEOUT_MS) {
+    return presenceOf(employeeId);
+  }
+
+  const wasOnline = online.has(employeeId);
+  online.add(employeeId);
+  if (wasOnline) return presenceOf(employeeId);
+
+  const latest = await storage.getLatestBehaviorLog(employeeId);
+  if (latest?.status !== status) {
+    const log = await storage.createBehaviorLog({ employeeId, status });
+    publish({ name: "behavior-update", data: log });
+  }
+
+  const presence = presenceOf(employeeId);
+  publish({ name: "presence", data: presence });
+  return presence;
+}
+
+/**
+ * Presence of some employees; employees never seen since startup are offline
+ */
+export function getPresence(employeeIds: number[]): Record<number, EmployeePresence> {
+  return Object.fromEntries(employeeIds.map(id => [id, presenceOf(id)]));
+}
+
+// Mark an employee whose heartbeats stopped inactive as of their last one, and end their work session
+async function markOffline(employeeId: number, seenAt: Date | undefined): Promise<void> {
+  const latest = await storage.getLatestBehaviorLog(employeeId);
+  if (latest && latest.status !== "inactive") {
+    const timestamp = seenAt && seenAt > latest.timestamp ? seenAt : latest.timestamp;
+    const log = await storage.createBehaviorLog({ employeeId, status: "inactive" }, timestamp);
+    publish({ name: "behavior-update", data: log });
+  }
+
+  const session = await storage.getOpenWorkSession(employeeId);
+  if (session) {
+    const closed = await storage.closeWorkSession(session.id, "heartbeat_lost", seenAt ?? latest?.timestamp);
+    if (closed) publish({ name: "work-session", data: closed });
+  }
+  resetBehaviorClassifier(employeeId);
+
+  publish({ name: "presence", data: presenceOf(employeeId) });
+}
+
+async function sweep(): Promise<void> {
+  const now = Date.now();
+
+  for (const employeeId of Array.from(online)) {
+    const seenAt = lastSeen.get(employeeId)!;
+    if (now - seenAt.getTime() > HEARTBEAT_TIMEOUT_MS) {
+      online.delete(employeeId);
+      await markOffline(employeeId, seenAt);
+    }
+  }
+
+  // After a restart nobody is in the registry, so employees left active by
+  // dashboards that never reconnected are only found through their logs
+  if (!recoveredAfterStart && now - startedAt > HEARTBEAT_TIMEOUT_MS) {
+    recoveredAfterStart = true;
+    for (const employeeId of await storage.getEmployeeIdsWithActiveStatus()) {
+      if (!online.has(employeeId)) {
+        await markOffline(employeeId, undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Start the periodic check that times out employees whose heartbeats stopped
+ */
+export function startPresenceMonitor(): void {
+  let running = false;
+  const timer = setInterval(() => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+    sweep()
+      .catch(error => console.error("Error sweeping employee presence:", error))
+      .finally(() => {
+        running = false;
+      });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
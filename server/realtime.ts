@@ -0,0 +1,302 @@
+import type { Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Employee } from "@shared/schema";
+import {
+  REALTIME_PROTOCOL_VERSION,
+  realtimeClientMessageSchema,
+  parseRealtimeTopic,
+  type LiveSignalMessage,
+  type LiveStopReasonType,
+  type LiveViewSourceType,
+  type RealtimeClientMessage,
+  type RealtimeErrorCodeType,
+  type RealtimeEvent,
+  type RealtimeServerMessage,
+  type RealtimeTopic,
+} from "@shared/realtime";
+import { storage, type TenantScope } from "./storage";
+import { authenticateUpgrade, getTenantScope } from "./auth";
+
+const WS_PATH = "/api/ws";
+
+interface Connection {
+  user: Express.User;
+  // Refreshed on every subscribe, so team changes apply without reconnecting
+  scope: TenantScope;
+  topics: Set<RealtimeTopic>;
+}
+
+// A host watching an employee's screen or webcam over WebRTC
+interface LiveSession {
+  viewer: WebSocket;
+  // Dashboards of the employee that were asked and haven't declined yet
+  pending: Set<WebSocket>;
+  // The dashboard that answered; signals are only relayed to it
+  peer: WebSocket | null;
+}
+
+// Events about an employee that their own dashboards don't receive
+const HOST_ONLY_EVENTS = new Set<RealtimeEvent["name"]>(["alert", "absence"]);
+
+let wss: WebSocketServer | null = null;
+const connections = new Map<WebSocket, Connection>();
+const liveSessions = new Map<string, LiveSession>();
+
+function send(ws: WebSocket, message: RealtimeServerMessage): void {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: WebSocket, code: RealtimeErrorCodeType, message: string, id?: string): void {
+  send(ws, { v: REALTIME_PROTOCOL_VERSION, type: "error", id, code, message });
+}
+
+// Same rule as the storage layer's scope filter, for an employee already loaded
+function isEmployeeInScope(employee: Employee, scope: TenantScope): boolean {
+  if (employee.organizationId !== scope.organizationId) return false;
+  if (scope.employeeId !== undefined) return employee.id === scope.employeeId;
+  return scope.teamIds === null || (employee.teamId !== null && scope.teamIds.includes(employee.teamId));
+}
+
+// Employees may only follow themselves; hosts and admins whatever their scope covers
+async function canSubscribe(topic: RealtimeTopic, scope: TenantScope): Promise<boolean> {
+  const { kind, id } = parseRealtimeTopic(topic);
+  if (kind === "employee") {
+    return (await storage.getEmployeeInScope(id, scope)) !== undefined;
+  }
+  if (scope.employeeId !== undefined) return false;
+  if (kind === "team") {
+    return (await storage.getTeam(id, scope)) !== undefined;
+  }
+  return id === scope.organizationId;
+}
+
+async function handleSubscription(
+  ws: WebSocket,
+  connection: Connection,
+  { type, id, topics }: Extract<RealtimeClientMessage, { type: "subscribe" | "unsubscribe" }>,
+): Promise<void> {
+  if (type === "subscribe") {
+    connection.scope = await getTenantScope(connection.user);
+
+    const forbidden: RealtimeTopic[] = [];
+    for (const topic of topics) {
+      if (!(await canSubscribe(topic, connection.scope))) forbidden.push(topic);
+    }
+    if (forbidden.length > 0) {
+      return sendError(ws, "forbidden", `Not allowed to subscribe to ${forbidden.join(", ")}`, id);
+    }
+
+    topics.forEach(topic => connection.topics.add(topic));
+  } else {
+    topics.forEach(topic => connection.topics.delete(topic));
+  }
+
+  send(ws, { v: REALTIME_PROTOCOL_VERSION, type: "ack", id, topics: Array.from(connection.topics) });
+}
+
+function sendLiveStop(ws: WebSocket, sessionId: string, reason: LiveStopReasonType): void {
+  send(ws, { v: REALTIME_PROTOCOL_VERSION, type: "live-stop", sessionId, reason });
+}
+
+// Drop a live session, telling everyone still involved except `from`
+function endLiveSession(sessionId: string, reason: LiveStopReasonType, from: WebSocket): void {
+  const session = liveSessions.get(sessionId);
+  if (!session) return;
+  liveSessions.delete(sessionId);
+
+  const others = new Set([session.viewer, ...Array.from(session.pending)]);
+  if (session.peer) others.add(session.peer);
+  others.delete(from);
+  others.forEach(ws => sendLiveStop(ws, sessionId, reason));
+}
+
+// Hosts and admins may watch employees in their scope, if one of the employee's dashboards is connected
+async function startLiveSession(
+  ws: WebSocket,
+  connection: Connection,
+  id: string,
+  sessionId: string,
+  employeeId: number,
+  source: LiveViewSourceType,
+): Promise<void> {
+  connection.scope = await getTenantScope(connection.user);
+  if (connection.scope.employeeId !== undefined || !(await storage.getEmployeeInScope(employeeId, connection.scope))) {
+    return sendError(ws, "forbidden", "Not allowed to watch this employee", id);
+  }
+  if (liveSessions.has(sessionId)) {
+    return sendError(ws, "invalid_message", "Live session already exists", id);
+  }
+
+  const dashboards = Array.from(connections)
+    .filter(([, candidate]) => candidate.user.employeeId === employeeId)
+    .map(([candidateWs]) => candidateWs);
+
+  send(ws, { v: REALTIME_PROTOCOL_VERSION, type: "ack", id, topics: Array.from(connection.topics) });
+  if (dashboards.length === 0) {
+    return sendLiveStop(ws, sessionId, "unavailable");
+  }
+
+  liveSessions.set(sessionId, { viewer: ws, pending: new Set(dashboards), peer: null });
+  dashboards.forEach(dashboard => send(dashboard, {
+    v: REALTIME_PROTOCOL_VERSION,
+    type: "live-start",
+    sessionId,
+    source,
+    viewer: connection.user.username,
+  }));
+}
+
+function relayLiveSignal(ws: WebSocket, message: LiveSignalMessage): void {
+  // Signals can cross a live-stop in flight, so unknown sessions are ignored
+  const session = liveSessions.get(message.sessionId);
+  if (!session) return;
+
+  if (ws === session.viewer) {
+    if (session.peer) send(session.peer, message);
+    return;
+  }
+
+  // The first of the employee's dashboards to signal takes the session; the others stand down
+  if (!session.peer && session.pending.has(ws)) {
+    session.peer = ws;
+    session.pending.delete(ws);
+    session.pending.forEach(other => sendLiveStop(other, message.sessionId, "ended"));
+    session.pending.clear();
+  }
+  if (ws === session.peer) {
+    send(session.viewer, message);
+  }
+}
+
+function stopLiveSession(ws: WebSocket, sessionId: string, reason: LiveStopReasonType): void {
+  const session = liveSessions.get(sessionId);
+  if (!session) return;
+
+  if (session.pending.has(ws) && reason === "unavailable") {
+    // One dashboard lacks the stream; the view is only unavailable once all of them do
+    session.pending.delete(ws);
+    if (session.pending.size === 0 && !session.peer) {
+      endLiveSession(sessionId, "unavailable", ws);
+    }
+    return;
+  }
+
+  if (ws === session.viewer || ws === session.peer || session.pending.has(ws)) {
+    endLiveSession(sessionId, "ended", ws);
+  }
+}
+
+// End or shrink every live session a closed connection took part in
+function leaveLiveSessions(ws: WebSocket): void {
+  liveSessions.forEach((session, sessionId) => {
+    if (ws === session.viewer || ws === session.peer) {
+      endLiveSession(sessionId, "disconnected", ws);
+    } else if (session.pending.delete(ws) && session.pending.size === 0 && !session.peer) {
+      endLiveSession(sessionId, "unavailable", ws);
+    }
+  });
+}
+
+async function handleMessage(ws: WebSocket, connection: Connection, raw: string): Promise<void> {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return sendError(ws, "invalid_message", "Message is not valid JSON");
+  }
+
+  const id = typeof (message as { id?: unknown })?.id === "string" ? (message as { id: string }).id : undefined;
+  if ((message as { v?: unknown })?.v !== REALTIME_PROTOCOL_VERSION) {
+    return sendError(ws, "unsupported_version", `Protocol version ${REALTIME_PROTOCOL_VERSION} is required`, id);
+  }
+
+  const parsed = realtimeClientMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return sendError(ws, "invalid_message", parsed.error.issues.map(issue => issue.message).join("; "), id);
+  }
+
+  const data = parsed.data;
+  switch (data.type) {
+    case "subscribe":
+    case "unsubscribe":
+      return handleSubscription(ws, connection, data);
+    case "live-start":
+      return startLiveSession(ws, connection, data.id, data.sessionId, data.employeeId, data.source);
+    case "live-signal":
+      return relayLiveSignal(ws, data);
+    case "live-stop":
+      return stopLiveSession(ws, data.sessionId, data.reason);
+  }
+}
+
+/**
+ * Serve the application WebSocket on /api/ws for logged-in users. The
+ * message protocol is documented in shared/realtime.ts.
+ */
+export function setupRealtime(httpServer: Server): void {
+  wss = new WebSocketServer({ noServer: true });
+  console.log(`WebSocket server initialized on path: ${WS_PATH}`);
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    // Other upgrades, like Vite's HMR socket, are answered by their own listeners
+    if (new URL(req.url ?? "", "http://localhost").pathname !== WS_PATH) return;
+
+    authenticateUpgrade(req)
+      .then(async (user) => {
+        if (!user) {
+          socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+          return;
+        }
+
+        const scope = await getTenantScope(user);
+        wss!.handleUpgrade(req, socket, head, (ws) => {
+          const connection: Connection = { user, scope, topics: new Set() };
+          connections.set(ws, connection);
+
+          ws.on("message", (raw) => {
+            handleMessage(ws, connection, raw.toString()).catch(error => {
+              console.error("WebSocket message error:", error);
+              sendError(ws, "internal_error", "Error handling message");
+            });
+          });
+
+          ws.on("close", () => {
+            connections.delete(ws);
+            leaveLiveSessions(ws);
+          });
+        });
+      })
+      .catch(error => {
+        console.error("Error authenticating WebSocket upgrade:", error);
+        socket.end("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n");
+      });
+  });
+}
+
+/**
+ * Push an event to every client following the employee it concerns, their
+ * team or their organization, as long as that employee is in the client's
+ * scope. Each client gets the event at most once.
+ */
+export function publish(event: RealtimeEvent): void {
+  if (!wss || connections.size === 0) return;
+
+  storage.getEmployee(event.data.employeeId)
+    .then(employee => {
+      if (!employee) return;
+
+      const topics: RealtimeTopic[] = [`employee:${employee.id}`, `organization:${employee.organizationId}`];
+      if (employee.teamId !== null) topics.push(`team:${employee.teamId}`);
+
+      connections.forEach((connection, ws) => {
+        if (HOST_ONLY_EVENTS.has(event.name) && connection.scope.employeeId !== undefined) return;
+        const topic = topics.find(candidate => connection.topics.has(candidate));
+        if (topic && isEmployeeInScope(employee, connection.scope)) {
+          send(ws, { v: REALTIME_PROTOCOL_VERSION, type: "event", topic, ...event });
+        }
+      });
+    })
+    .catch(error => console.error(`Error publishing ${event.name} event:`, error));
+}
@@ -0,0 +1,119 @@
+import type { Request, Response } from "express";
+import type { Recording } from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+
+// How many chunks are loaded from the blob store at a time while streaming
+const CHUNK_BATCH_SIZE = 8;
+
+/**
+ * Container formats recording chunks may be uploaded in. Anything else could
+ * be rendered by the browser as a page when played back.
+ */
+export const RECORDING_MIME_TYPES = ["video/webm", "video/mp4"];
+
+/**
+ * Inclusive byte range of a response body
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range: bytes=...` header against a body of `size` bytes.
+ * Only single ranges are supported; anything else is answered with the full
+ * body, which RFC 9110 allows.
+ * @returns The range, null to send the full body, or "unsatisfiable"
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | null | "unsatisfiable" {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, first, last] = match;
+  if (first === "" && last === "") return null;
+
+  let start: number;
+  let end: number;
+  if (first === "") {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(last));
+    end = size - 1;
+  } else {
+    start = parseInt(first);
+    end = last === "" ? size - 1 : Math.min(parseInt(last), size - 1);
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Send a recording's video by concatenating its chunks, honouring HTTP range
+ * requests so the browser's video element can seek. Recordings still in
+ * progress are served up to the last uploaded chunk.
+ */
+export async function streamRecording(req: Request, res: Response, recording: Recording): Promise<void> {
+  const chunks = await storage.getRecordingChunkSizes(recording.id);
+  const size = chunks.reduce((total, chunk) => total + chunk.sizeBytes, 0);
+
+  if (size === 0) {
+    res.status(404).json({ message: "Recording has no video yet" });
+    return;
+  }
+
+  const range = parseByteRange(req.headers.range, size);
+  if (range === "unsatisfiable") {
+    res.status(416).setHeader("Content-Range", `bytes */${size}`).end();
+    return;
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+
+  res.status(range ? 206 : 200);
+  // Recordings stored before uploads were checked may carry any type
+  const mimeType = recording.mimeType && RECORDING_MIME_TYPES.includes(recording.mimeType) ? recording.mimeType : "video/webm";
+  res.setHeader("Content-Type", mimeType);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Content-Length", end - start + 1);
+  res.setHeader("Cache-Control", "private, no-cache");
+  if (range) {
+    res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+  }
+
+  // Work out which chunks overlap the range and where each one starts
+  const needed: { sequence: number; offset: number }[] = [];
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset + chunk.sizeBytes > start && offset <= end) {
+      needed.push({ sequence: chunk.sequence, offset });
+    }
+    offset += chunk.sizeBytes;
+  }
+
+  for (let i = 0; i < needed.length; i += CHUNK_BATCH_SIZE) {
+    const batch = needed.slice(i, i + CHUNK_BATCH_SIZE);
+    const rows = await storage.getRecordingChunks(recording.id, batch.map(chunk => chunk.sequence));
+    const blobs = await Promise.all(rows.map(row => getBlobStore().get(row.blobKey)));
+
+    for (const { sequence, offset: chunkOffset } of batch) {
+      const index = rows.findIndex(candidate => candidate.sequence === sequence);
+      const data = blobs[index];
+      if (!data) {
+        // The body is already partly sent, so a missing segment can only abort the response
+        throw new Error(`Recording ${recording.id} is missing chunk ${sequence}`);
+      }
+
+      const from = Math.max(0, start - chunkOffset);
+      const to = Math.min(data.length, end - chunkOffset + 1);
+      if (!res.write(data.subarray(from, to))) {
+        await new Promise(resolve => res.once("drain", resolve));
+      }
+    }
+
+    if (res.destroyed) return;
+  }
+
+  res.end();
+}
@@ -1,31 +1,84 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type DateRange, type ScreenshotCursor, type TenantScope } from "./storage";
+import { buildTimeAccountingReport } from "./time-accounting";
+import { buildDashboardSummary } from "./dashboard";
+import { buildPayPeriodSummary, calculatePayroll, findPayPeriod, listPayPeriods, payrollSettingsFor } from "./payroll";
+import { payrollCsv, renderPayslip } from "./payroll-export";
+import { decodeFrame, getBehaviorClassifier, resetBehaviorClassifier, type Frame } from "./behavior-classifier";
+import { RECORDING_MIME_TYPES, streamRecording } from "./recordings";
+import { setupRealtime, publish } from "./realtime";
+import { recordHeartbeat, getPresence, startPresenceMonitor } from "./presence";
+import { evaluateAlertsFor, startAlertMonitor } from "./alerts";
+import { effectiveWorkSchedule, startAbsenceMonitor, withdrawAbsence } from "./absences";
+import { now } from "./clock";
+import { addCalendarDays, dateInTimeZone, zonedTime } from "./time-zone";
+import {
+  WebhookTargetError,
+  assertWebhookTarget,
+  deliverNotification,
+  generateWebhookSecret,
+  isNotificationChannelAvailable,
+  notificationSettingsOf,
+} from "./notifications";
+import { putBlob, sendBlob } from "./blob-store";
+import { createThumbnail } from "./thumbnails";
+import { setupAuth, requireAuth, requireRole, requireEmployeeAccess, scopeOf } from "./auth";
 import { 
   insertEmployeeSchema, 
-  insertBehaviorLogSchema,
-  insertScreenshotSchema,
-  insertWorkSubmissionSchema,
+  employeeKeySchema,
+  assignEmployeeTeamSchema,
+  insertTeamSchema,
+  uploadBehaviorLogSchema,
+  uploadBehaviorSamplesSchema,
+  uploadScreenshotSchema,
+  IDEMPOTENCY_KEY_HEADER,
+  idempotencyKeySchema,
+  MAX_CLOCK_SKEW_MS,
+  MAX_UPLOAD_AGE_MS,
+  uploadWorkSubmissionSchema,
+  createStatusDisputeSchema,
+  reviewStatusDisputeSchema,
+  DisputeStatus,
+  MAX_DISPUTE_AGE_MS,
+  payrollSettingsSchema,
+  createPayRateSchema,
+  lockPayPeriodSchema,
+  alertRuleSettingsSchema,
+  AlertStatus,
+  notificationPreferencesSchema,
+  NotificationChannel,
+  type NotificationInbox,
   BehaviorStatus,
+  endWorkSessionSchema,
+  analyzeBehaviorSchema,
+  heartbeatSchema,
+  monitoringPolicySettingsSchema,
+  organizationSettingsSchema,
+  workScheduleSettingsSchema,
+  absenceRangeSchema,
+  type AbsenceReport,
+  type BehaviorAnalysisResult,
+  requestRecordingSchema,
+  recordingConsentSchema,
+  completeRecordingSchema,
+  RecordingStatus,
+  type Screenshot,
+  type ScreenshotInfo,
+  type ScreenshotPage,
+  type WorkSubmission,
+  type WorkSubmissionInfo,
 } from "@shared/schema";
-import { spawn } from "child_process";
-import path from "path";
-import { WebSocketServer } from "ws";
+import { format } from "date-fns";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
-  // Use a specific path for our application WebSocket to avoid conflicts with Vite's HMR
-  const wss = new WebSocketServer({ 
-    server: httpServer,
-    path: '/api/ws' // Use a specific path to avoid conflict with Vite's WebSocket
-  });
-  
   // Add CORS headers to all responses
   app.use((req, res, next) => {
     res.header("Access-Control-Allow-Origin", "*");
     res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-    res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept");
+    res.header("Access-Control-Allow-Headers", `Origin, X-Requested-With, Content-Type, Accept, ${IDEMPOTENCY_KEY_HEADER}`);
     
     // Handle preflight requests
     if (req.method === "OPTIONS") {
@@ -33,56 +86,414 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     next();
   });
+
+  // Sessions, login/logout and the current-user endpoint
+  setupAuth(app);
   
-  // Log WebSocket setup
-  console.log("WebSocket server initialized on path: /api/ws");
-  
-  // WebSocket for real-time updates
-  wss.on("connection", (ws) => {
-    console.log("WebSocket client connected");
-    
-    ws.on("message", (message) => {
-      try {
-        // Echo back for now, in future can implement more complex behavior
-        ws.send(message.toString());
-      } catch (error) {
-        console.error("WebSocket message error:", error);
+  // Real-time updates for clients subscribed to an employee, team or organization
+  setupRealtime(httpServer);
+
+  // Time out employees whose dashboards stopped sending heartbeats
+  startPresenceMonitor();
+
+  // Raise and clear alerts whose conditions depend on time passing
+  startAlertMonitor();
+
+  // Record scheduled work days employees missed
+  startAbsenceMonitor();
+
+  // Optional ?teamId= filter used by the host dashboard's team selector
+  function parseTeamFilter(req: Request): number | undefined | null {
+    if (req.query.teamId === undefined || req.query.teamId === "") return undefined;
+    const teamId = parseInt(req.query.teamId as string);
+    return isNaN(teamId) ? null : teamId;
+  }
+
+  // Optional ?from=&to= ISO timestamps for history endpoints; null when malformed
+  function parseDateRange(req: Request): DateRange | null {
+    const range: DateRange = {};
+    for (const key of ["from", "to"] as const) {
+      const value = req.query[key];
+      if (value === undefined || value === "") continue;
+
+      const date = new Date(value as string);
+      if (isNaN(date.getTime())) return null;
+      range[key] = date;
+    }
+    return range;
+  }
+
+  // Optional Idempotency-Key header of uploads the client may retry; null when malformed
+  function parseIdempotencyKey(req: Request): string | undefined | null {
+    const header = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (header === undefined) return undefined;
+    const parsed = idempotencyKeySchema.safeParse(header);
+    return parsed.success ? parsed.data : null;
+  }
+
+  // Server time for an upload's optional capturedAt; null when the client
+  // clock is too far ahead or the upload too old to trust. Activity keeps its
+  // real timestamps, so this is the real clock, not DEV_CLOCK_OFFSET's.
+  function resolveCapturedAt(capturedAt: string | undefined): Date | null {
+    const serverTime = Date.now();
+    if (capturedAt === undefined) return new Date(serverTime);
+
+    const time = new Date(capturedAt).getTime();
+    if (time > serverTime + MAX_CLOCK_SKEW_MS || time < serverTime - MAX_UPLOAD_AGE_MS) return null;
+    // Tolerated skew must not put events in the future
+    return new Date(Math.min(time, serverTime));
+  }
+
+  const CAPTURED_AT_ERROR = "capturedAt is too far from server time";
+
+  const MAX_ABSENCE_RANGE_DAYS = 92;
+
+  const MAX_SAMPLE_RANGE_MS = 24 * 60 * 60 * 1000;
+
+  // API shapes for blob-backed rows: metadata and URLs instead of payloads
+  function toScreenshotInfo({ blobKey, thumbnailBlobKey, ...screenshot }: Screenshot): ScreenshotInfo {
+    const baseUrl = `/api/screenshots/${screenshot.employeeId}/${screenshot.id}`;
+    return { ...screenshot, imageUrl: `${baseUrl}/image`, thumbnailUrl: `${baseUrl}/thumbnail` };
+  }
+
+  // Screenshot page cursors are opaque to clients: base64url of "<timestamp ms>:<id>"
+  function encodeScreenshotCursor({ timestamp, id }: Screenshot): string {
+    return Buffer.from(`${timestamp.getTime()}:${id}`).toString("base64url");
+  }
+
+  function decodeScreenshotCursor(cursor: string): ScreenshotCursor | null {
+    const match = Buffer.from(cursor, "base64url").toString().match(/^(\d+):(\d+)$/);
+    if (!match) return null;
+    return { timestamp: new Date(parseInt(match[1])), id: parseInt(match[2]) };
+  }
+
+  function toWorkSubmissionInfo({ blobKey, ...submission }: WorkSubmission): WorkSubmissionInfo {
+    return { ...submission, fileUrl: `/api/work-submissions/${submission.employeeId}/${submission.id}/file` };
+  }
+
+  // Organization and team routes
+  app.get("/api/organizations/current", requireAuth, async (req: Request, res: Response) => {
+    const organization = await storage.getOrganization(scopeOf(req).organizationId);
+    if (!organization) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+    res.json(organization);
+  });
+
+  // The time zone applies to every team, so only admins change it
+  app.put("/api/organizations/current", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = organizationSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid organization settings", error: parsed.error });
+    }
+
+    try {
+      const organization = await storage.updateOrganizationSettings(scopeOf(req).organizationId, parsed.data);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
-    });
+      res.json(organization);
+    } catch (error) {
+      console.error("Error saving organization settings:", error);
+      res.status(500).json({ message: "Error saving organization settings" });
+    }
+  });
+
+  app.get("/api/teams", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teams = await storage.getTeams(scopeOf(req));
+    res.json(teams);
+  });
+
+  app.post("/api/teams", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = insertTeamSchema.omit({ organizationId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid team data", error: parsed.error });
+    }
+
+    try {
+      const team = await storage.createTeam({ ...parsed.data, organizationId: scopeOf(req).organizationId });
+      res.status(201).json(team);
+    } catch (error) {
+      res.status(409).json({ message: "A team with this name already exists", error });
+    }
+  });
+
+  app.post("/api/teams/:id/managers", requireRole("admin"), async (req: Request, res: Response) => {
+    const teamId = parseInt(req.params.id);
+    const userId = parseInt(req.body.userId);
+    if (isNaN(teamId) || isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid team or user ID" });
+    }
+
+    const scope = scopeOf(req);
+    const team = await storage.getTeam(teamId, scope);
+    const user = await storage.getUser(userId);
+    if (!team || !user || user.organizationId !== scope.organizationId) {
+      return res.status(404).json({ message: "Team or user not found" });
+    }
+    if (user.role !== "host") {
+      return res.status(400).json({ message: "Only host accounts can manage teams" });
+    }
+
+    await storage.addTeamManager(userId, teamId);
+    res.sendStatus(204);
+  });
+
+  // Monitoring policy routes. Employee dashboards load their effective policy
+  // when a work session starts, so edits apply from the next session on.
+  app.get("/api/monitoring-policies", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const policies = await storage.getMonitoringPolicies(scopeOf(req));
+    res.json(policies);
   });
 
-  // Broadcast to all connected clients
-  function broadcast(data: any) {
-    wss.clients.forEach(client => {
-      if (client.readyState === 1) { // OPEN
-        client.send(JSON.stringify(data));
+  app.get("/api/monitoring-policies/effective/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    try {
+      const employee = await storage.getEmployee(parseInt(req.params.employeeId));
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
       }
-    });
-  }
+
+      res.json(await storage.getEffectiveMonitoringPolicy(employee));
+    } catch (error) {
+      console.error("Error loading monitoring policy:", error);
+      res.status(500).json({ message: "Error loading monitoring policy" });
+    }
+  });
+
+  // The organization default applies to every team, so only admins change it
+  app.put("/api/monitoring-policies/organization", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = monitoringPolicySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid monitoring policy", error: parsed.error });
+    }
+
+    try {
+      const policy = await storage.saveMonitoringPolicy(scopeOf(req).organizationId, null, parsed.data);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error saving monitoring policy:", error);
+      res.status(500).json({ message: "Error saving monitoring policy" });
+    }
+  });
+
+  app.put("/api/monitoring-policies/teams/:teamId", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const parsed = monitoringPolicySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid monitoring policy", error: parsed.error });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      if (!(await storage.getTeam(teamId, scope))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const policy = await storage.saveMonitoringPolicy(scope.organizationId, teamId, parsed.data);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error saving monitoring policy:", error);
+      res.status(500).json({ message: "Error saving monitoring policy" });
+    }
+  });
+
+  // Back to the organization default
+  app.delete("/api/monitoring-policies/teams/:teamId", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      if (!(await storage.getTeam(teamId, scope))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      await storage.deleteMonitoringPolicy(scope.organizationId, teamId);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting monitoring policy:", error);
+      res.status(500).json({ message: "Error deleting monitoring policy" });
+    }
+  });
+
+  // Work schedule routes. Schedules say when employees are expected at work;
+  // the absence monitor applies changes from its next sweep on.
+  app.get("/api/work-schedules", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const schedules = await storage.getWorkSchedules(scopeOf(req));
+    res.json(schedules);
+  });
+
+  app.get("/api/work-schedules/effective/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    try {
+      const employee = await storage.getEmployee(parseInt(req.params.employeeId));
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const schedules = await storage.getWorkSchedules({ organizationId: employee.organizationId, teamIds: null });
+      res.json(effectiveWorkSchedule(employee, schedules));
+    } catch (error) {
+      console.error("Error loading work schedule:", error);
+      res.status(500).json({ message: "Error loading work schedule" });
+    }
+  });
+
+  app.put("/api/work-schedules/organization", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = workScheduleSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid work schedule", error: parsed.error });
+    }
+
+    try {
+      const schedule = await storage.saveWorkSchedule(scopeOf(req).organizationId, { teamId: null, employeeId: null }, parsed.data);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error saving work schedule:", error);
+      res.status(500).json({ message: "Error saving work schedule" });
+    }
+  });
+
+  app.put("/api/work-schedules/teams/:teamId", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const parsed = workScheduleSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid work schedule", error: parsed.error });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      if (!(await storage.getTeam(teamId, scope))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const schedule = await storage.saveWorkSchedule(scope.organizationId, { teamId, employeeId: null }, parsed.data);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error saving work schedule:", error);
+      res.status(500).json({ message: "Error saving work schedule" });
+    }
+  });
+
+  // Back to the organization default
+  app.delete("/api/work-schedules/teams/:teamId", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseInt(req.params.teamId);
+    if (isNaN(teamId)) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      if (!(await storage.getTeam(teamId, scope))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      await storage.deleteWorkSchedule(scope.organizationId, { teamId, employeeId: null });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting work schedule:", error);
+      res.status(500).json({ message: "Error deleting work schedule" });
+    }
+  });
+
+  // For employees who don't keep their team's hours, e.g. part-timers
+  app.put("/api/work-schedules/employees/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const parsed = workScheduleSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid work schedule", error: parsed.error });
+    }
+
+    try {
+      const employeeId = parseInt(req.params.employeeId);
+      const schedule = await storage.saveWorkSchedule(scopeOf(req).organizationId, { teamId: null, employeeId }, parsed.data);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error saving work schedule:", error);
+      res.status(500).json({ message: "Error saving work schedule" });
+    }
+  });
+
+  // Back to the team's schedule
+  app.delete("/api/work-schedules/employees/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    try {
+      const employeeId = parseInt(req.params.employeeId);
+      await storage.deleteWorkSchedule(scopeOf(req).organizationId, { teamId: null, employeeId });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting work schedule:", error);
+      res.status(500).json({ message: "Error deleting work schedule" });
+    }
+  });
 
   // Employee routes
-  app.post("/api/employees", async (req: Request, res: Response) => {
+  app.post("/api/employees", requireRole("host", "admin"), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertEmployeeSchema.parse(req.body);
-      const employee = await storage.createEmployee(validatedData);
+      const scope = scopeOf(req);
+      const validatedData = insertEmployeeSchema.omit({ organizationId: true }).parse(req.body);
+      const employeeKey = employeeKeySchema.parse(validatedData.employeeKey);
+
+      // Hosts may only add employees to teams they manage
+      if (scope.teamIds !== null && !(validatedData.teamId && scope.teamIds.includes(validatedData.teamId))) {
+        return res.status(403).json({ message: "You can only add employees to teams you manage" });
+      }
+
+      if (await storage.getEmployeeByKey(scope.organizationId, employeeKey)) {
+        return res.status(409).json({ message: "An employee with this key already exists" });
+      }
+
+      const employee = await storage.createEmployee({
+        ...validatedData,
+        employeeKey,
+        organizationId: scope.organizationId,
+      });
       res.status(201).json(employee);
     } catch (error) {
       res.status(400).json({ message: "Invalid employee data", error });
     }
   });
 
-  app.get("/api/employees", async (_req: Request, res: Response) => {
-    const employees = await storage.getAllEmployees();
+  app.get("/api/employees/by-key/:employeeKey", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const parsed = employeeKeySchema.safeParse(req.params.employeeKey);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid employee key" });
+    }
+
+    const scope = scopeOf(req);
+    const match = await storage.getEmployeeByKey(scope.organizationId, parsed.data);
+    const employee = match && await storage.getEmployeeInScope(match.id, scope);
+    if (!employee) {
+      return res.status(404).json({ message: "Employee not found" });
+    }
+
+    res.json(employee);
+  });
+
+  app.get("/api/employees", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    if (teamId === null) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const employees = await storage.getAllEmployees(scopeOf(req), teamId);
     res.json(employees);
   });
 
-  app.get("/api/employees/:id", async (req: Request, res: Response) => {
+  app.get("/api/employees/:id", requireEmployeeAccess("params", "id"), async (req: Request, res: Response) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid employee ID" });
     }
     
-    const employee = await storage.getEmployee(id);
+    const employee = await storage.getEmployeeInScope(id, scopeOf(req));
     if (!employee) {
       return res.status(404).json({ message: "Employee not found" });
     }
@@ -90,156 +501,1336 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(employee);
   });
 
+  app.put("/api/employees/:id/team", requireRole("host", "admin"), requireEmployeeAccess("params", "id"), async (req: Request, res: Response) => {
+    const parsed = assignEmployeeTeamSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid team assignment", error: parsed.error });
+    }
+
+    const scope = scopeOf(req);
+    const { teamId } = parsed.data;
+    if (teamId === null ? scope.teamIds !== null : !(await storage.getTeam(teamId, scope))) {
+      return res.status(403).json({ message: "You can only assign employees to teams you manage" });
+    }
+
+    const employee = await storage.setEmployeeTeam(parseInt(req.params.id), teamId);
+    res.json(employee);
+  });
+
   // Behavior log routes
-  app.post("/api/behavior-logs", async (req: Request, res: Response) => {
+  // Uploads may be replays from the dashboard's offline outbox: they carry the
+  // capture time, and a repeated Idempotency-Key returns the stored row with 200
+  app.post("/api/behavior-logs", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    // Validate status is one of the allowed values
+    if (!BehaviorStatus.safeParse(req.body.status).success) {
+      return res.status(400).json({ 
+        message: "Invalid status. Must be one of: working, idle, sleeping, moving, inactive" 
+      });
+    }
+
+    const parsed = uploadBehaviorLogSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid behavior log data", error: parsed.error });
+    }
+
+    const idempotencyKey = parseIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ message: "Invalid idempotency key" });
+    }
+
+    const { capturedAt: capturedAtInput, ...log } = parsed.data;
+    const capturedAt = resolveCapturedAt(capturedAtInput);
+    if (!capturedAt) {
+      return res.status(400).json({ message: CAPTURED_AT_ERROR });
+    }
+
     try {
-      // Validate status is one of the allowed values
-      if (!BehaviorStatus.safeParse(req.body.status).success) {
-        return res.status(400).json({ 
-          message: "Invalid status. Must be one of: working, idle, sleeping, moving, inactive" 
+      const { row, created } = await storage.ingestBehaviorLog(log, { capturedAt, idempotencyKey });
+
+      if (created) {
+        publish({
+          name: "behavior-update",
+          data: row
         });
+        evaluateAlertsFor(row.employeeId)
+          .catch(error => console.error("Error evaluating alert rules:", error));
+        if (row.status !== "inactive") {
+          withdrawAbsence(row.employeeId, new Date(row.timestamp))
+            .catch(error => console.error("Error withdrawing absence:", error));
+        }
       }
 
-      const validatedData = insertBehaviorLogSchema.parse(req.body);
-      const log = await storage.createBehaviorLog(validatedData);
-
-      // Broadcast the new behavior log to all connected clients
-      broadcast({
-        type: "behavior-update",
-        data: log
-      });
-
-      res.status(201).json(log);
+      res.status(created ? 201 : 200).json(row);
     } catch (error) {
-      res.status(400).json({ message: "Invalid behavior log data", error });
+      console.error("Error storing behavior log:", error);
+      res.status(500).json({ message: "Error storing behavior log" });
     }
   });
 
-  app.get("/api/behavior-logs/:employeeId", async (req: Request, res: Response) => {
+  app.get("/api/behavior-logs/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
     const employeeId = parseInt(req.params.employeeId);
     if (isNaN(employeeId)) {
       return res.status(400).json({ message: "Invalid employee ID" });
     }
     
-    const logs = await storage.getBehaviorLogsByEmployeeId(employeeId);
+    const logs = await storage.getBehaviorLogsByEmployeeId(employeeId, scopeOf(req));
     res.json(logs);
   });
 
-  app.get("/api/behavior-logs", async (_req: Request, res: Response) => {
-    const latestLogs = await storage.getLatestBehaviorLogs();
+  app.get("/api/behavior-logs", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    if (teamId === null) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const latestLogs = await storage.getLatestBehaviorLogs(scopeOf(req), teamId);
     res.json(latestLogs);
   });
 
-  // Screenshot routes
-  app.post("/api/screenshots", async (req: Request, res: Response) => {
-    try {
-      const validatedData = insertScreenshotSchema.parse(req.body);
-      const screenshot = await storage.createScreenshot(validatedData);
-
-      // Broadcast the new screenshot to all connected clients
-      broadcast({
-        type: "screenshot-update",
-        data: {
-          employeeId: screenshot.employeeId,
-          id: screenshot.id,
-          timestamp: screenshot.timestamp
-        }
-      });
+  // Behavior sample routes
+  // Raw per-frame detections, uploaded in batches; behavior-logs keeps only the filtered transitions
+  app.post("/api/behavior-samples", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = uploadBehaviorSamplesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid behavior samples", error: parsed.error });
+    }
+
+    const idempotencyKey = parseIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ message: "Invalid idempotency key" });
+    }
 
-      res.status(201).json({
-        id: screenshot.id,
-        employeeId: screenshot.employeeId,
-        timestamp: screenshot.timestamp
+    const { employeeId, samples } = parsed.data;
+    const rows = [];
+    for (let index = 0; index < samples.length; index++) {
+      const { capturedAt: capturedAtInput, ...sample } = samples[index];
+      const capturedAt = resolveCapturedAt(capturedAtInput);
+      if (!capturedAt) {
+        return res.status(400).json({ message: CAPTURED_AT_ERROR });
+      }
+      // A retried upload resends the same batch under the same key, so the key
+      // and position identify a sample; capturedAt may be clamped and repeat
+      rows.push({
+        ...sample,
+        employeeId,
+        capturedAt,
+        batchKey: idempotencyKey ?? null,
+        batchIndex: idempotencyKey ? index : null,
       });
+    }
+
+    try {
+      const stored = await storage.addBehaviorSamples(rows);
+      // Samples already stored by an earlier upload of the batch are not counted
+      res.status(201).json({ received: rows.length, stored });
     } catch (error) {
-      res.status(400).json({ message: "Invalid screenshot data", error });
+      console.error("Error storing behavior samples:", error);
+      res.status(500).json({ message: "Error storing behavior samples" });
     }
   });
 
-  app.get("/api/screenshots/:employeeId", async (req: Request, res: Response) => {
+  app.get("/api/behavior-samples/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
     const employeeId = parseInt(req.params.employeeId);
     if (isNaN(employeeId)) {
       return res.status(400).json({ message: "Invalid employee ID" });
     }
-    
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-    const screenshots = await storage.getScreenshotsByEmployeeId(employeeId, limit);
-    
-    res.json(screenshots);
+
+    const range = parseDateRange(req);
+    if (!range) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+
+    // Dashboards sample every few seconds, so raw samples are read a day at a time
+    const window = accountingWindow(range, await organizationTimeZone(scopeOf(req)));
+    if (window.to.getTime() - window.from.getTime() > MAX_SAMPLE_RANGE_MS) {
+      return res.status(400).json({ message: "Date range for behavior samples can be at most one day" });
+    }
+
+    const samples = await storage.getBehaviorSamplesInRange(employeeId, scopeOf(req), window);
+    res.json(samples);
   });
 
-  app.get("/api/screenshots/:employeeId/latest", async (req: Request, res: Response) => {
-    const employeeId = parseInt(req.params.employeeId);
-    if (isNaN(employeeId)) {
-      return res.status(400).json({ message: "Invalid employee ID" });
+  // Presence routes
+  app.post("/api/presence/heartbeat", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = heartbeatSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid heartbeat", error: parsed.error });
     }
-    
-    const screenshot = await storage.getLatestScreenshot(employeeId);
-    if (!screenshot) {
-      return res.status(404).json({ message: "No screenshots found for this employee" });
+
+    const capturedAt = resolveCapturedAt(parsed.data.capturedAt);
+    if (!capturedAt) {
+      return res.status(400).json({ message: CAPTURED_AT_ERROR });
+    }
+
+    try {
+      const presence = await recordHeartbeat(parsed.data.employeeId, parsed.data.status, capturedAt);
+      res.json(presence);
+    } catch (error) {
+      console.error("Error recording heartbeat:", error);
+      res.status(500).json({ message: "Error recording heartbeat" });
     }
-    
-    res.json(screenshot);
   });
 
-  // Work submission routes
-  app.post("/api/work-submissions", async (req: Request, res: Response) => {
-    try {
-      const validatedData = insertWorkSubmissionSchema.parse(req.body);
-      const submission = await storage.createWorkSubmission(validatedData);
-
-      // Broadcast the new work submission to all connected clients
-      broadcast({
-        type: "work-submission",
-        data: {
-          id: submission.id,
-          employeeId: submission.employeeId,
-          fileName: submission.fileName,
-          description: submission.description,
-          fileSize: submission.fileSize,
-          timestamp: submission.timestamp
-        }
-      });
+  app.get("/api/presence", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    if (teamId === null) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    const employees = await storage.getAllEmployees(scopeOf(req), teamId);
+    res.json(getPresence(employees.map(employee => employee.id)));
+  });
+
+  // Work session routes
+  app.post("/api/work-sessions", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    try {
+      const session = await storage.openWorkSession({ employeeId: parseInt(req.body.employeeId) });
 
-      res.status(201).json({
-        id: submission.id,
-        employeeId: submission.employeeId,
-        fileName: submission.fileName,
-        description: submission.description,
-        fileSize: submission.fileSize,
-        timestamp: submission.timestamp
+      publish({
+        name: "work-session",
+        data: session
       });
+      withdrawAbsence(session.employeeId, new Date(session.startedAt))
+        .catch(error => console.error("Error withdrawing absence:", error));
+
+      res.status(201).json(session);
     } catch (error) {
-      res.status(400).json({ message: "Invalid work submission data", error });
+      console.error("Error opening work session:", error);
+      res.status(500).json({ message: "Error opening work session" });
+    }
+  });
+
+  // Also the target of the tab-closed beacon, so it must accept a bare JSON body
+  app.post("/api/work-sessions/:id/end", requireAuth, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid work session ID" });
+    }
+
+    const parsed = endWorkSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid end reason", error: parsed.error });
+    }
+
+    const existing = await storage.getWorkSession(id, scopeOf(req));
+    if (!existing) {
+      return res.status(404).json({ message: "Work session not found" });
+    }
+    if (existing.endedAt) {
+      // Already closed (e.g. stop button followed by the unload beacon)
+      return res.json(existing);
     }
+
+    const session = await storage.closeWorkSession(id, parsed.data.reason) ?? existing;
+    resetBehaviorClassifier(session.employeeId);
+
+    publish({
+      name: "work-session",
+      data: session
+    });
+
+    res.json(session);
   });
 
-  app.get("/api/work-submissions/:employeeId", async (req: Request, res: Response) => {
+  app.get("/api/work-sessions/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
     const employeeId = parseInt(req.params.employeeId);
-    if (isNaN(employeeId)) {
-      return res.status(400).json({ message: "Invalid employee ID" });
+    const range = parseDateRange(req);
+    if (!range) {
+      return res.status(400).json({ message: "Invalid date range" });
     }
-    
-    const submissions = await storage.getWorkSubmissionsByEmployeeId(employeeId);
-    res.json(submissions);
+
+    const sessions = await storage.getWorkSessionsByEmployeeId(employeeId, scopeOf(req), range);
+    res.json(sessions);
   });
 
-  // Behavior analysis route - execute Python script
-  app.post("/api/analyze-behavior", async (req: Request, res: Response) => {
-    try {
-      const { imageData, employeeId } = req.body;
-      
-      if (!imageData || !employeeId) {
-        return res.status(400).json({ message: "Missing image data or employee ID" });
-      }
+  // Time accounting routes
+  // Window for accounting endpoints; defaults to today so far in the organization's time zone
+  function accountingWindow(range: DateRange, timeZone: string): Required<DateRange> {
+    const at = now();
+    return {
+      from: range.from ?? zonedTime(dateInTimeZone(at, timeZone), timeZone),
+      to: range.to && range.to < at ? range.to : at,
+    };
+  }
+
+  async function organizationTimeZone(scope: TenantScope): Promise<string> {
+    const organization = await storage.getOrganization(scope.organizationId);
+    return organization?.timeZone ?? "UTC";
+  }
+
+  async function timeAccountingFor(employeeId: number, scope: TenantScope, window: Required<DateRange>, timeZone: string) {
+    const [logs, sessions, disputes] = await Promise.all([
+      storage.getBehaviorLogsInRange(employeeId, scope, window),
+      storage.getWorkSessionsByEmployeeId(employeeId, scope, window),
+      storage.getApprovedStatusDisputes(employeeId, scope, window),
+    ]);
+    return buildTimeAccountingReport(employeeId, logs, sessions, disputes, window.from, window.to, timeZone);
+  }
+
+  app.get("/api/time-accounting/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const range = parseDateRange(req);
+    if (!range) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+
+    const scope = scopeOf(req);
+    const timeZone = await organizationTimeZone(scope);
+    const report = await timeAccountingFor(parseInt(req.params.employeeId), scope, accountingWindow(range, timeZone), timeZone);
+    res.json(report);
+  });
+
+  // Reports for every employee visible to the host, keyed by employee ID
+  app.get("/api/time-accounting", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const range = parseDateRange(req);
+    const teamId = parseTeamFilter(req);
+    if (!range || teamId === null) {
+      return res.status(400).json({ message: "Invalid date range or team ID" });
+    }
+
+    const scope = scopeOf(req);
+    const timeZone = await organizationTimeZone(scope);
+    const window = accountingWindow(range, timeZone);
+    const employees = await storage.getAllEmployees(scope, teamId);
+
+    const reports = await Promise.all(employees.map(employee => timeAccountingFor(employee.id, scope, window, timeZone)));
+    res.json(Object.fromEntries(reports.map(report => [report.employeeId, report])));
+  });
+
+  // Status dispute routes
+  // Employees dispute the status recorded for a time range; hosts approve or
+  // reject. Approved disputes correct time accounting, the logs stay as recorded.
+  app.post("/api/status-disputes", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = createStatusDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid dispute", error: parsed.error });
+    }
+
+    const { employeeId, claimedStatus, reason } = parsed.data;
+    const startsAt = new Date(parsed.data.startsAt);
+    const endsAt = new Date(parsed.data.endsAt);
+    if (endsAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return res.status(400).json({ message: "The range can't end in the future" });
+    }
+    if (startsAt.getTime() < Date.now() - MAX_DISPUTE_AGE_MS) {
+      return res.status(400).json({ message: "Disputes can only cover the last 30 days" });
+    }
+
+    try {
+      if (await storage.hasOverlappingStatusDispute(employeeId, startsAt, endsAt)) {
+        return res.status(409).json({ message: "Part of this range is already disputed" });
+      }
+
+      const dispute = await storage.createStatusDispute({ employeeId, startsAt, endsAt, claimedStatus, reason });
+
+      publish({
+        name: "status-dispute",
+        data: dispute
+      });
+
+      res.status(201).json(dispute);
+    } catch (error) {
+      console.error("Error creating status dispute:", error);
+      res.status(500).json({ message: "Error creating status dispute" });
+    }
+  });
+
+  // Disputes of every employee visible to the host, newest first
+  app.get("/api/status-disputes", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    const status = req.query.status === undefined ? undefined : DisputeStatus.safeParse(req.query.status);
+    if (teamId === null || (status && !status.success)) {
+      return res.status(400).json({ message: "Invalid team ID or dispute status" });
+    }
+
+    const disputes = await storage.getStatusDisputes(scopeOf(req), { teamId, status: status?.data });
+    res.json(disputes);
+  });
+
+  app.get("/api/status-disputes/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const status = req.query.status === undefined ? undefined : DisputeStatus.safeParse(req.query.status);
+    if (status && !status.success) {
+      return res.status(400).json({ message: "Invalid dispute status" });
+    }
+
+    const disputes = await storage.getStatusDisputes(scopeOf(req), { employeeId, status: status?.data });
+    res.json(disputes);
+  });
+
+  app.post("/api/status-disputes/:id/review", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid dispute ID" });
+    }
+
+    const parsed = reviewStatusDisputeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid review", error: parsed.error });
+    }
+
+    const scope = scopeOf(req);
+    const existing = await storage.getStatusDispute(id, scope);
+    if (!existing) {
+      return res.status(404).json({ message: "Dispute not found" });
+    }
+
+    // Paid time stays as it was paid; the period has to be unlocked first
+    if (parsed.data.decision === "approved"
+      && await storage.hasLockedPayPeriod(scope.organizationId, existing.startsAt, existing.endsAt)) {
+      return res.status(409).json({ message: "The disputed time is in a locked pay period" });
+    }
+
+    const dispute = await storage.reviewStatusDispute(id, parsed.data.decision, req.user!.id, parsed.data.note);
+    if (!dispute) {
+      return res.status(409).json({ message: "Dispute was already reviewed" });
+    }
+
+    publish({
+      name: "status-dispute",
+      data: dispute
+    });
+
+    res.json(dispute);
+  });
+
+  // Payroll routes
+  // Open pay periods are recalculated from the logs on every read. Locking a
+  // period freezes the earnings of everyone in the organization.
+  app.get("/api/payroll/settings", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    res.json(await payrollSettingsFor(scopeOf(req).organizationId));
+  });
+
+  // Pay periods apply to the whole organization, so only admins change them
+  app.put("/api/payroll/settings", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = payrollSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid payroll settings", error: parsed.error });
+    }
+
+    try {
+      const settings = await storage.savePayrollSettings(scopeOf(req).organizationId, parsed.data);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error saving payroll settings:", error);
+      res.status(500).json({ message: "Error saving payroll settings" });
+    }
+  });
+
+  app.get("/api/payroll/rates/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const rates = await storage.getPayRates(scopeOf(req), parseInt(req.params.employeeId));
+    res.json(rates);
+  });
+
+  app.post("/api/payroll/rates", requireRole("host", "admin"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = createPayRateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid pay rate", error: parsed.error });
+    }
+
+    try {
+      const timeZone = await organizationTimeZone(scopeOf(req));
+      const rate = await storage.savePayRate({
+        ...parsed.data,
+        // Midnight in the organization's time zone, like the pay period boundaries
+        effectiveFrom: zonedTime(parsed.data.effectiveFrom, timeZone),
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(rate);
+    } catch (error) {
+      console.error("Error saving pay rate:", error);
+      res.status(500).json({ message: "Error saving pay rate" });
+    }
+  });
+
+  app.get("/api/payroll/periods", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const periods = await listPayPeriods(scopeOf(req).organizationId);
+    res.json(periods);
+  });
+
+  // Optional ?startsAt= picking a pay period, the current one when missing; null when malformed
+  function parsePeriodStart(req: Request): Date | undefined | null {
+    if (req.query.startsAt === undefined || req.query.startsAt === "") return undefined;
+    const startsAt = new Date(req.query.startsAt as string);
+    return isNaN(startsAt.getTime()) ? null : startsAt;
+  }
+
+  // One period's earnings
+  app.get("/api/payroll/periods/summary", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    const startsAt = parsePeriodStart(req);
+    const employeeId = req.query.employeeId ? parseInt(req.query.employeeId as string) : undefined;
+    if (teamId === null || startsAt === null || (employeeId !== undefined && isNaN(employeeId))) {
+      return res.status(400).json({ message: "Invalid period start, team ID or employee ID" });
+    }
+
+    try {
+      const summary = await buildPayPeriodSummary(scopeOf(req), startsAt, { teamId, employeeId });
+      if (!summary) {
+        return res.status(404).json({ message: "Pay period not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building payroll summary:", error);
+      res.status(500).json({ message: "Error building payroll summary" });
+    }
+  });
+
+  // The period's payroll for accounting software; columns are documented in the readme
+  app.get("/api/payroll/periods/csv", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    const startsAt = parsePeriodStart(req);
+    if (teamId === null || startsAt === null) {
+      return res.status(400).json({ message: "Invalid period start or team ID" });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      const [summary, employees] = await Promise.all([
+        buildPayPeriodSummary(scope, startsAt, { teamId }),
+        storage.getAllEmployees(scope, teamId),
+      ]);
+      if (!summary) {
+        return res.status(404).json({ message: "Pay period not found" });
+      }
+
+      const csv = payrollCsv(summary, new Map(employees.map(employee => [employee.id, employee])));
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="payroll-${format(new Date(summary.startsAt), "yyyy-MM-dd")}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting payroll:", error);
+      res.status(500).json({ message: "Error exporting payroll" });
+    }
+  });
+
+  app.get("/api/payroll/payslips/:employeeId", requireRole("host", "admin"), requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const startsAt = parsePeriodStart(req);
+    if (startsAt === null) {
+      return res.status(400).json({ message: "Invalid period start" });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      const [summary, employee, organization] = await Promise.all([
+        buildPayPeriodSummary(scope, startsAt, { employeeId }),
+        storage.getEmployeeInScope(employeeId, scope),
+        storage.getOrganization(scope.organizationId),
+      ]);
+      const line = summary?.lines[0];
+      if (!summary || !line || !employee || !organization) {
+        return res.status(404).json({ message: "Payslip not found" });
+      }
+
+      const pdf = renderPayslip({ organization, employee, period: summary, line, generatedAt: new Date() });
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="payslip-${employeeId}-${format(new Date(summary.startsAt), "yyyy-MM-dd")}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating payslip:", error);
+      res.status(500).json({ message: "Error generating payslip" });
+    }
+  });
+
+  // Locking freezes the whole organization's payroll, so it's up to admins like unlocking
+  app.post("/api/payroll/periods/lock", requireRole("admin"), async (req: Request, res: Response) => {
+    const parsed = lockPayPeriodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid pay period", error: parsed.error });
+    }
+
+    try {
+      const { organizationId } = scopeOf(req);
+      const info = await findPayPeriod(organizationId, new Date(parsed.data.startsAt));
+      if (!info) {
+        return res.status(404).json({ message: "Pay period not found" });
+      }
+      if (info.id !== null) {
+        return res.status(409).json({ message: "Pay period is already locked" });
+      }
+
+      const period = { start: new Date(info.startsAt), end: new Date(info.endsAt) };
+      if (period.end > now()) {
+        return res.status(409).json({ message: "Pay period hasn't ended yet" });
+      }
+
+      const settings = await payrollSettingsFor(organizationId);
+      const lines = await calculatePayroll({ organizationId, teamIds: null }, period, settings.frequency);
+      const locked = await storage.lockPayPeriod({
+        organizationId,
+        startsAt: period.start,
+        endsAt: period.end,
+        currency: settings.currency,
+        lockedBy: req.user!.id,
+      }, lines);
+      if (!locked) {
+        return res.status(409).json({ message: "Pay period is already locked" });
+      }
+
+      res.status(201).json(await buildPayPeriodSummary(scopeOf(req), locked.startsAt));
+    } catch (error) {
+      console.error("Error locking pay period:", error);
+      res.status(500).json({ message: "Error locking pay period" });
+    }
+  });
+
+  // Unlocking drops the frozen earnings; the period is recalculated from the logs again
+  app.delete("/api/payroll/periods/:id/lock", requireRole("admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid pay period ID" });
+    }
+
+    try {
+      if (!(await storage.unlockPayPeriod(id, scopeOf(req).organizationId))) {
+        return res.status(404).json({ message: "Pay period not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error unlocking pay period:", error);
+      res.status(500).json({ message: "Error unlocking pay period" });
+    }
+  });
+
+  // Alert routes
+  // Hosts define rules for their teams, admins also for the whole organization.
+  // The alert engine raises alerts when employees meet a rule and resolves
+  // them once the condition clears, unless a host resolved them first.
+  app.get("/api/alert-rules", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const rules = await storage.getAlertRules(scopeOf(req));
+    res.json(rules);
+  });
+
+  // Null when the caller may manage rules of the team (null: the whole
+  // organization), else the status and message to reject the request with
+  async function alertRuleTeamError(req: Request, teamId: number | null): Promise<[number, string] | null> {
+    if (teamId === null) {
+      return req.user!.role === "admin" ? null : [403, "Only admins manage organization-wide rules"];
+    }
+    return (await storage.getTeam(teamId, scopeOf(req))) ? null : [404, "Team not found"];
+  }
+
+  app.post("/api/alert-rules", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const parsed = alertRuleSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid alert rule", error: parsed.error });
+    }
+
+    try {
+      const teamError = await alertRuleTeamError(req, parsed.data.teamId);
+      if (teamError) {
+        return res.status(teamError[0]).json({ message: teamError[1] });
+      }
+
+      const rule = await storage.createAlertRule({
+        ...parsed.data,
+        organizationId: scopeOf(req).organizationId,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating alert rule:", error);
+      res.status(500).json({ message: "Error creating alert rule" });
+    }
+  });
+
+  app.put("/api/alert-rules/:id", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid alert rule ID" });
+    }
+
+    const parsed = alertRuleSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid alert rule", error: parsed.error });
+    }
+
+    try {
+      const existing = await storage.getAlertRule(id, scopeOf(req));
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      const teamError = await alertRuleTeamError(req, existing.teamId)
+        ?? await alertRuleTeamError(req, parsed.data.teamId);
+      if (teamError) {
+        return res.status(teamError[0]).json({ message: teamError[1] });
+      }
+
+      const rule = await storage.updateAlertRule(id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      // A disabled rule is no longer checked, so its alerts would never clear
+      if (!rule.enabled) {
+        const resolved = await storage.resolveAlertsOfRule(rule.id);
+        resolved.forEach(alert => publish({ name: "alert", data: alert }));
+      }
+
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating alert rule:", error);
+      res.status(500).json({ message: "Error updating alert rule" });
+    }
+  });
+
+  // Deletes the rule's alerts with it; disable the rule to keep them
+  app.delete("/api/alert-rules/:id", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid alert rule ID" });
+    }
+
+    try {
+      const existing = await storage.getAlertRule(id, scopeOf(req));
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      const teamError = await alertRuleTeamError(req, existing.teamId);
+      if (teamError) {
+        return res.status(teamError[0]).json({ message: teamError[1] });
+      }
+
+      await storage.deleteAlertRule(id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ message: "Error deleting alert rule" });
+    }
+  });
+
+  // Alerts of every employee visible to the host, newest first
+  app.get("/api/alerts", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    const status = req.query.status === undefined ? undefined : AlertStatus.safeParse(req.query.status);
+    if (teamId === null || (status && !status.success)) {
+      return res.status(400).json({ message: "Invalid team ID or alert status" });
+    }
+
+    const alerts = await storage.getAlerts(scopeOf(req), { teamId, status: status?.data });
+    res.json(alerts);
+  });
+
+  app.post("/api/alerts/:id/acknowledge", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid alert ID" });
+    }
+
+    if (!(await storage.getAlert(id, scopeOf(req)))) {
+      return res.status(404).json({ message: "Alert not found" });
+    }
+
+    const alert = await storage.acknowledgeAlert(id, req.user!.id);
+    if (!alert) {
+      return res.status(409).json({ message: "Alert was already acknowledged or resolved" });
+    }
+
+    publish({
+      name: "alert",
+      data: alert
+    });
+
+    res.json(alert);
+  });
+
+  app.post("/api/alerts/:id/resolve", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid alert ID" });
+    }
+
+    if (!(await storage.getAlert(id, scopeOf(req)))) {
+      return res.status(404).json({ message: "Alert not found" });
+    }
+
+    const alert = await storage.resolveAlert(id, req.user!.id);
+    if (!alert) {
+      return res.status(409).json({ message: "Alert was already resolved" });
+    }
+
+    publish({
+      name: "alert",
+      data: alert
+    });
+
+    res.json(alert);
+  });
+
+  // Absence routes
+  // Absences of employees visible to the host between ?from= and ?to= calendar
+  // days (yyyy-MM-dd, both included, today when left out)
+  app.get("/api/absences", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    const employeeId = req.query.employeeId === undefined ? undefined : parseInt(req.query.employeeId as string);
+    const range = absenceRangeSchema.safeParse(req.query);
+    if (teamId === null || (employeeId !== undefined && isNaN(employeeId)) || !range.success) {
+      return res.status(400).json({ message: "Invalid team ID, employee ID or date range" });
+    }
+
+    try {
+      const scope = scopeOf(req);
+      const organization = await storage.getOrganization(scope.organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const today = dateInTimeZone(now(), organization.timeZone);
+      const to = range.data.to ?? today;
+      const from = range.data.from ?? to;
+      if (from > to || addCalendarDays(from, MAX_ABSENCE_RANGE_DAYS) < to) {
+        return res.status(400).json({ message: `Date range must run forward and span at most ${MAX_ABSENCE_RANGE_DAYS} days` });
+      }
+
+      const report: AbsenceReport = {
+        timeZone: organization.timeZone,
+        today,
+        absences: await storage.getAbsences(scope, { from, to, teamId, employeeId }),
+      };
+      res.json(report);
+    } catch (error) {
+      console.error("Error loading absences:", error);
+      res.status(500).json({ message: "Error loading absences" });
+    }
+  });
+
+  // Notification routes
+  // Every host and admin has their own in-app notifications and preferences
+  app.get("/api/notifications", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const [items, unreadCount] = await Promise.all([
+      storage.getNotifications(req.user!.id, 50),
+      storage.countUnreadNotifications(req.user!.id),
+    ]);
+    const inbox: NotificationInbox = { items, unreadCount };
+    res.json(inbox);
+  });
+
+  app.post("/api/notifications/:id/read", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid notification ID" });
+    }
+
+    const notification = await storage.markNotificationRead(id, req.user!.id);
+    if (!notification) {
+      return res.status(404).json({ message: "Unread notification not found" });
+    }
+    res.json(notification);
+  });
+
+  app.post("/api/notifications/read-all", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const updated = await storage.markAllNotificationsRead(req.user!.id);
+    res.json({ updated });
+  });
+
+  app.get("/api/notification-preferences", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const preferences = await storage.getNotificationPreferences(req.user!.id);
+    res.json(notificationSettingsOf(preferences));
+  });
+
+  app.put("/api/notification-preferences", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid notification preferences", error: parsed.error });
+    }
+
+    try {
+      if (parsed.data.webhookUrl) {
+        await assertWebhookTarget(parsed.data.webhookUrl);
+      }
+      const preferences = await storage.saveNotificationPreferences(req.user!.id, parsed.data, generateWebhookSecret());
+      res.json(notificationSettingsOf(preferences));
+    } catch (error) {
+      if (error instanceof WebhookTargetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ message: "Error saving notification preferences" });
+    }
+  });
+
+  // Receivers that stored the old secret reject requests signed with the new one
+  app.post("/api/notification-preferences/webhook-secret", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const preferences = await storage.setWebhookSecret(req.user!.id, generateWebhookSecret());
+    if (!preferences) {
+      return res.status(404).json({ message: "Save your notification preferences first" });
+    }
+    res.json(notificationSettingsOf(preferences));
+  });
+
+  // Send a test notification on one channel, ignoring quiet hours
+  app.post("/api/notification-preferences/test", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const parsed = NotificationChannel.safeParse(req.body?.channel);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid notification channel", error: parsed.error });
+    }
+
+    const channel = parsed.data;
+    if (!isNotificationChannelAvailable(channel)) {
+      return res.status(409).json({ message: `The ${channel} channel isn't configured on this server` });
+    }
+
+    const user = await storage.getUser(req.user!.id);
+    const preferences = await storage.getNotificationPreferences(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if ((channel === "email" && !preferences?.email) || (channel === "webhook" && !preferences?.webhookUrl)) {
+      return res.status(409).json({ message: `Save your ${channel === "email" ? "email address" : "webhook URL"} first` });
+    }
+
+    const failed = await deliverNotification({ user, preferences }, {
+      type: "status_duration",
+      severity: "info",
+      title: "Test notification",
+      body: "Notifications reach you on this channel.",
+      employeeId: null,
+    }, [channel]);
+    if (failed.length > 0) {
+      return res.status(502).json({ message: `The ${channel} notification could not be delivered` });
+    }
+    res.sendStatus(204);
+  });
+
+  // Dashboard routes
+  app.get("/api/dashboard/summary", requireRole("host", "admin"), async (req: Request, res: Response) => {
+    const teamId = parseTeamFilter(req);
+    if (teamId === null) {
+      return res.status(400).json({ message: "Invalid team ID" });
+    }
+
+    try {
+      const summary = await buildDashboardSummary(scopeOf(req), teamId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building dashboard summary:", error);
+      res.status(500).json({ message: "Error building dashboard summary" });
+    }
+  });
+
+  // Screenshot routes
+  app.post("/api/screenshots", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = uploadScreenshotSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid screenshot data", error: parsed.error });
+    }
+
+    const idempotencyKey = parseIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ message: "Invalid idempotency key" });
+    }
+
+    const capturedAt = resolveCapturedAt(parsed.data.capturedAt);
+    if (!capturedAt) {
+      return res.status(400).json({ message: CAPTURED_AT_ERROR });
+    }
+
+    try {
+      const { employeeId, imageData } = parsed.data;
+
+      // Skip storing the image again for a retried upload
+      const existing = idempotencyKey && await storage.getScreenshotByIdempotencyKey(employeeId, idempotencyKey);
+      if (existing) {
+        return res.status(200).json(toScreenshotInfo(existing));
+      }
+
+      const image = Buffer.from(imageData, "base64");
+      const blob = await putBlob(image, "image/jpeg");
+      const thumbnail = createThumbnail(image);
+      const { row: screenshot, created } = await storage.ingestScreenshot({
+        employeeId,
+        ...blob,
+        // Undecodable images are kept as-is and served full size in place of a thumbnail
+        thumbnailBlobKey: thumbnail ? (await putBlob(thumbnail, "image/jpeg")).blobKey : null,
+      }, { capturedAt, idempotencyKey });
+
+      if (created) {
+        publish({
+          name: "screenshot-update",
+          data: toScreenshotInfo(screenshot)
+        });
+      }
+
+      res.status(created ? 201 : 200).json(toScreenshotInfo(screenshot));
+    } catch (error) {
+      console.error("Error storing screenshot:", error);
+      res.status(500).json({ message: "Error storing screenshot" });
+    }
+  });
+
+  app.get("/api/screenshots/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    if (isNaN(employeeId)) {
+      return res.status(400).json({ message: "Invalid employee ID" });
+    }
+    
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ message: "limit must be between 1 and 100" });
+    }
+
+    const range = parseDateRange(req);
+    if (!range) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+
+    let after: ScreenshotCursor | undefined;
+    if (req.query.cursor) {
+      after = decodeScreenshotCursor(req.query.cursor as string) ?? undefined;
+      if (!after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+    }
+
+    // One extra row tells whether another page follows
+    const screenshots = await storage.getScreenshotsByEmployeeId(employeeId, scopeOf(req), {
+      limit: limit + 1,
+      after,
+      range,
+    });
+    const items = screenshots.slice(0, limit);
+
+    const page: ScreenshotPage = {
+      items: items.map(toScreenshotInfo),
+      nextCursor: screenshots.length > limit ? encodeScreenshotCursor(items[items.length - 1]) : null,
+    };
+    res.json(page);
+  });
+
+  app.get("/api/screenshots/:employeeId/latest", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    if (isNaN(employeeId)) {
+      return res.status(400).json({ message: "Invalid employee ID" });
+    }
+    
+    const screenshot = await storage.getLatestScreenshot(employeeId, scopeOf(req));
+    if (!screenshot) {
+      return res.status(404).json({ message: "No screenshots found for this employee" });
+    }
+    
+    res.json(toScreenshotInfo(screenshot));
+  });
+
+  app.get("/api/screenshots/:employeeId/:id/image", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid screenshot ID" });
+    }
+
+    const screenshot = await storage.getScreenshot(id, scopeOf(req));
+    if (!screenshot || screenshot.employeeId !== employeeId) {
+      return res.status(404).json({ message: "Screenshot not found" });
+    }
+
+    try {
+      await sendBlob(req, res, screenshot);
+    } catch (error) {
+      console.error("Error reading screenshot:", error);
+      res.status(500).json({ message: "Error reading screenshot" });
+    }
+  });
+
+  app.get("/api/screenshots/:employeeId/:id/thumbnail", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid screenshot ID" });
+    }
+
+    const screenshot = await storage.getScreenshot(id, scopeOf(req));
+    if (!screenshot || screenshot.employeeId !== employeeId) {
+      return res.status(404).json({ message: "Screenshot not found" });
+    }
+
+    try {
+      // Screenshots from before thumbnails existed fall back to the full image
+      await sendBlob(req, res, {
+        blobKey: screenshot.thumbnailBlobKey ?? screenshot.blobKey,
+        mimeType: screenshot.mimeType,
+      });
+    } catch (error) {
+      console.error("Error reading screenshot thumbnail:", error);
+      res.status(500).json({ message: "Error reading screenshot" });
+    }
+  });
+
+  // Work submission routes
+  // Like telemetry uploads, submissions take a capture time and an Idempotency-Key
+  app.post("/api/work-submissions", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = uploadWorkSubmissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid work submission data", error: parsed.error });
+    }
+
+    const idempotencyKey = parseIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ message: "Invalid idempotency key" });
+    }
+
+    const capturedAt = resolveCapturedAt(parsed.data.capturedAt);
+    if (!capturedAt) {
+      return res.status(400).json({ message: CAPTURED_AT_ERROR });
+    }
+
+    try {
+      const { employeeId, description, fileName, fileData, mimeType } = parsed.data;
+
+      // Skip storing the file again for a retried submission
+      const existing = idempotencyKey && await storage.getWorkSubmissionByIdempotencyKey(employeeId, idempotencyKey);
+      if (existing) {
+        return res.status(200).json(toWorkSubmissionInfo(existing));
+      }
+
+      const blob = await putBlob(Buffer.from(fileData, "base64"), mimeType || "application/octet-stream");
+      const { row: submission, created } = await storage.ingestWorkSubmission({
+        employeeId,
+        description,
+        fileName,
+        fileSize: blob.sizeBytes,
+        blobKey: blob.blobKey,
+        mimeType: blob.mimeType,
+        sha256: blob.sha256,
+      }, { capturedAt, idempotencyKey });
+
+      if (created) {
+        publish({
+          name: "work-submission",
+          data: toWorkSubmissionInfo(submission)
+        });
+      }
+
+      res.status(created ? 201 : 200).json(toWorkSubmissionInfo(submission));
+    } catch (error) {
+      console.error("Error storing work submission:", error);
+      res.status(500).json({ message: "Error storing work submission" });
+    }
+  });
+
+  app.get("/api/work-submissions/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    if (isNaN(employeeId)) {
+      return res.status(400).json({ message: "Invalid employee ID" });
+    }
+    
+    const submissions = await storage.getWorkSubmissionsByEmployeeId(employeeId, scopeOf(req));
+    res.json(submissions.map(toWorkSubmissionInfo));
+  });
+
+  app.get("/api/work-submissions/:employeeId/:id/file", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid work submission ID" });
+    }
+
+    const submission = await storage.getWorkSubmission(id, scopeOf(req));
+    if (!submission || submission.employeeId !== employeeId) {
+      return res.status(404).json({ message: "Work submission not found" });
+    }
+
+    try {
+      await sendBlob(req, res, submission, submission.fileName);
+    } catch (error) {
+      console.error("Error reading work submission:", error);
+      res.status(500).json({ message: "Error reading work submission" });
+    }
+  });
+
+  // Screen recording routes. Hosts request a recording, the employee's
+  // browser asks for consent and then uploads MediaRecorder segments.
+  app.post("/api/recordings", requireRole("host", "admin"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = requestRecordingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid recording request", error: parsed.error });
+    }
+
+    try {
+      const recording = await storage.createRecording({
+        employeeId: parsed.data.employeeId,
+        requestedBy: req.user!.id,
+        requestedDuration: parsed.data.durationSeconds,
+      });
+
+      publish({
+        name: "recording",
+        data: recording
+      });
+
+      res.status(201).json(recording);
+    } catch (error) {
+      console.error("Error requesting recording:", error);
+      res.status(500).json({ message: "Error requesting recording" });
+    }
+  });
+
+  app.get("/api/recordings/:employeeId", requireEmployeeAccess("params"), async (req: Request, res: Response) => {
+    const employeeId = parseInt(req.params.employeeId);
+    const status = req.query.status === undefined ? undefined : RecordingStatus.safeParse(req.query.status);
+    if (status && !status.success) {
+      return res.status(400).json({ message: "Invalid recording status" });
+    }
+
+    const recordings = await storage.getRecordingsByEmployeeId(employeeId, scopeOf(req), status?.data);
+    res.json(recordings);
+  });
+
+  app.post("/api/recordings/:id/consent", requireRole("employee"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid recording ID" });
+    }
+
+    const parsed = recordingConsentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid consent answer", error: parsed.error });
+    }
+
+    const existing = await storage.getRecording(id, scopeOf(req));
+    if (!existing) {
+      return res.status(404).json({ message: "Recording not found" });
+    }
+
+    const recording = await storage.respondToRecording(id, parsed.data.accepted);
+    if (!recording) {
+      return res.status(409).json({ message: "Recording request was already answered" });
+    }
+
+    publish({
+      name: "recording",
+      data: recording
+    });
+
+    res.json(recording);
+  });
+
+  // Segments arrive as raw video bodies rather than base64 JSON
+  app.put(
+    "/api/recordings/:id/chunks/:sequence",
+    requireRole("employee"),
+    express.raw({ type: () => true, limit: "16mb" }),
+    async (req: Request, res: Response) => {
+      const id = parseInt(req.params.id);
+      const sequence = parseInt(req.params.sequence);
+      if (isNaN(id) || isNaN(sequence) || sequence < 0) {
+        return res.status(400).json({ message: "Invalid recording ID or chunk sequence" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Missing chunk data" });
+      }
+      const mimeType = req.headers["content-type"]?.split(";")[0].trim().toLowerCase() || "video/webm";
+      if (!RECORDING_MIME_TYPES.includes(mimeType)) {
+        return res.status(415).json({ message: `Recording chunks must be one of ${RECORDING_MIME_TYPES.join(", ")}` });
+      }
+
+      const existing = await storage.getRecording(id, scopeOf(req));
+      if (!existing) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+
+      try {
+        const blob = await putBlob(req.body, mimeType);
+        const recording = await storage.addRecordingChunk(id, sequence, blob);
+        if (!recording) {
+          return res.status(409).json({ message: "Recording is not in progress" });
+        }
+
+        // The first segment is what makes a recording playable for hosts
+        if (sequence === 0) {
+          publish({
+            name: "recording",
+            data: recording
+          });
+        }
+
+        res.json({ id: recording.id, sizeBytes: recording.sizeBytes });
+      } catch (error) {
+        console.error("Error storing recording chunk:", error);
+        res.status(500).json({ message: "Error storing recording chunk" });
+      }
+    },
+  );
+
+  app.post("/api/recordings/:id/complete", requireRole("employee"), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid recording ID" });
+    }
+
+    const parsed = completeRecordingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid recording duration", error: parsed.error });
+    }
+
+    const existing = await storage.getRecording(id, scopeOf(req));
+    if (!existing) {
+      return res.status(404).json({ message: "Recording not found" });
+    }
+    if (existing.status === "completed") {
+      return res.json(existing);
+    }
+
+    const recording = await storage.completeRecording(id, parsed.data.durationSeconds);
+    if (!recording) {
+      return res.status(409).json({ message: "Recording is not in progress" });
+    }
+
+    publish({
+      name: "recording",
+      data: recording
+    });
+
+    res.json(recording);
+  });
+
+  app.get("/api/recordings/:id/stream", requireAuth, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid recording ID" });
+    }
+
+    const recording = await storage.getRecording(id, scopeOf(req));
+    if (!recording) {
+      return res.status(404).json({ message: "Recording not found" });
+    }
+
+    try {
+      await streamRecording(req, res, recording);
+    } catch (error) {
+      console.error("Error streaming recording:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Error streaming recording" });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+
+  // Classify a webcam frame on the server when the client's own models are unsure
+  app.post("/api/analyze-behavior", requireRole("employee"), requireEmployeeAccess("body"), async (req: Request, res: Response) => {
+    const parsed = analyzeBehaviorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Missing image data or employee ID", error: parsed.error });
+    }
+
+    let frame: Frame;
+    try {
+      frame = decodeFrame(parsed.data.imageData);
+    } catch (error) {
+      return res.status(400).json({ message: "Image data is not a valid JPEG" });
+    }
+
+    try {
+      const classifier = getBehaviorClassifier();
+      const classification = await classifier.classify(frame, {
+        employeeId: parsed.data.employeeId,
+        capturedAt: new Date(),
+      });
 
-      // Use simulated behavior detection instead of Python for Replit compatibility
-      // In a real implementation, this would call the Python script
-      const behaviors = ["working", "idle", "sleeping", "moving"];
-      const randomIndex = Math.floor(Math.random() * behaviors.length);
-      const detectedBehavior = behaviors[randomIndex];
-      
-      res.json({ status: detectedBehavior });
+      const result: BehaviorAnalysisResult = { ...classification, classifier: classifier.name };
+      res.json(result);
     } catch (error) {
       console.error("Error analyzing behavior:", error);
       res.status(500).json({ message: "Error analyzing behavior" });
@@ -0,0 +1,257 @@
+// Just enough SMTP to hand a plain-text message to a mail server: implicit
+// TLS or STARTTLS, AUTH PLAIN, one recipient per message. Works against
+// local stand-ins like MailHog or smtp4dev as well as real relays.
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+
+const TIMEOUT_MS = 30 * 1000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS when offered
+  secure: boolean;
+  startTls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+/**
+ * Header value, encoded as RFC 2047 UTF-8 base64 when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, "utf8").toString("base64")}?=`;
+}
+
+// Addresses go into commands and headers, so line breaks and brackets are refused
+function assertAddress(address: string): void {
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new SmtpError(`Invalid email address "${address}"`);
+  }
+}
+
+/**
+ * The message as sent after DATA. The body is base64, so no line can start
+ * with a dot or run past the line length limit.
+ */
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, line => `${line}\r\n`);
+  const domain = from.split("@")[1];
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * One conversation with a mail server. Replies are read line by line and
+ * handed out in order.
+ */
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((line: string | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError("SMTP server timed out")));
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+        this.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+    });
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new SmtpError("SMTP connection closed")));
+  }
+
+  private push(line: string): void {
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(line);
+    } else {
+      this.lines.push(line);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const reject = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    const line = this.lines.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = value => value instanceof Error ? reject(value) : resolve(value);
+    });
+  }
+
+  // Multi-line replies continue with "250-" and end with "250 "
+  async read(expected: number[]): Promise<Reply> {
+    const lines: string[] = [];
+    let line: string;
+    do {
+      line = await this.nextLine();
+      lines.push(line.slice(4));
+    } while (line[3] === "-");
+
+    const code = parseInt(line.slice(0, 3));
+    if (!expected.includes(code)) {
+      throw new SmtpError(`SMTP server answered ${line}`, code);
+    }
+    return { code, lines };
+  }
+
+  async command(command: string, expected: number[]): Promise<Reply> {
+    this.socket.write(`${command}\r\n`);
+    return this.read(expected);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  // Continue the conversation over TLS after STARTTLS
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+    this.socket.setTimeout(0);
+
+    const secure = tls.connect({ socket: this.socket, servername });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError("SMTP server timed out")));
+  });
+}
+
+/**
+ * Deliver one message through the configured mail server
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  assertAddress(config.from);
+  assertAddress(message.to);
+
+  const session = new SmtpSession(await connect(config));
+  const ehlo = `EHLO ${hostname() || "localhost"}`;
+
+  try {
+    await session.read([220]);
+    let capabilities = (await session.command(ehlo, [250])).lines;
+
+    if (!config.secure && config.startTls && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(config.host);
+      capabilities = (await session.command(ehlo, [250])).lines;
+    }
+
+    if (config.username) {
+      if (!capabilities.some(line => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+        throw new SmtpError("SMTP server doesn't offer AUTH PLAIN");
+      }
+      const credentials = Buffer.from(`\0${config.username}\0${config.password ?? ""}`, "utf8").toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await session.command("DATA", [354]);
+    session.write(formatMessage(config.from, message));
+    await session.command(".", [250]);
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
+
+/**
+ * Mail server settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_STARTTLS,
+ * SMTP_USER, SMTP_PASSWORD and SMTP_FROM; null when SMTP_HOST isn't set
+ */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const from = process.env.SMTP_FROM;
+  if (!from) {
+    throw new Error("SMTP_FROM must be set when SMTP_HOST is");
+  }
+
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : secure ? 465 : 587,
+    secure,
+    startTls: process.env.SMTP_STARTTLS !== "false",
+    username: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  };
+}
@@ -1,42 +1,395 @@
 import { 
+  organizations, type Organization, type InsertOrganization, type OrganizationSettings,
+  teams, type Team, type InsertTeam, teamManagers,
+  users, type User, type InsertUser,
   employees, type Employee, type InsertEmployee,
   behaviorLogs, type BehaviorLog, type InsertBehaviorLog, 
+  behaviorSamples, type BehaviorSample, type InsertBehaviorSample,
+  workSessions, type WorkSession, type InsertWorkSession, type WorkSessionEndReasonType,
   screenshots, type Screenshot, type InsertScreenshot,
-  workSubmissions, type WorkSubmission, type InsertWorkSubmission
+  workSubmissions, type WorkSubmission, type InsertWorkSubmission,
+  recordings, recordingChunks, type Recording, type InsertRecording, type RecordingChunk, type RecordingStatusType,
+  statusDisputes, type StatusDispute, type InsertStatusDispute, type DisputeStatusType,
+  payRates, type PayRate, type InsertPayRate,
+  payrollSettings, type PayrollSettings, type PayrollSettingsInput,
+  payPeriods, payrollLines, type PayPeriod, type InsertPayrollLine, type PayrollLineSummary,
+  alertRules, alerts, type AlertRule, type InsertAlertRule, type AlertRuleSettings,
+  type Alert, type InsertAlert, type AlertSummary, type AlertStatusType,
+  notificationPreferences, notifications, type NotificationPreferences, type NotificationPreferencesInput,
+  type Notification, type InsertNotification,
+  monitoringPolicies, type MonitoringPolicy, type MonitoringPolicySettings, type EffectiveMonitoringPolicy,
+  type ScreenshotModeType, DEFAULT_MONITORING_POLICY,
+  workSchedules, absences, type WorkSchedule, type WorkScheduleSettings,
+  type Absence, type InsertAbsence, type AbsenceSummary
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import type { StoredBlob } from "./blob-store";
+import { eq, desc, and, or, gte, lte, gt, lt, isNull, inArray, sql, type SQL } from "drizzle-orm";
+
+/**
+ * The slice of tenant data a caller may see. Every read that returns
+ * employee data is filtered through one of these.
+ */
+export interface TenantScope {
+  organizationId: number;
+  // Teams the caller can see; null means every team in the organization
+  teamIds: number[] | null;
+  // Set for employee callers, who only ever see themselves
+  employeeId?: number;
+}
+
+// WHERE clause selecting the employees visible in a scope, optionally narrowed to one team
+function employeeScopeCondition(scope: TenantScope, teamId?: number): SQL {
+  const conditions: SQL[] = [eq(employees.organizationId, scope.organizationId)];
+
+  if (scope.teamIds !== null) {
+    conditions.push(scope.teamIds.length > 0 ? inArray(employees.teamId, scope.teamIds) : sql`false`);
+  }
+  if (scope.employeeId !== undefined) {
+    conditions.push(eq(employees.id, scope.employeeId));
+  }
+  if (teamId !== undefined) {
+    conditions.push(eq(employees.teamId, teamId));
+  }
+
+  return and(...conditions)!;
+}
+
+// Alert rules visible in a scope: organization-wide ones and those of teams in scope
+function alertRuleTeamCondition(scope: TenantScope): SQL | undefined {
+  if (scope.teamIds === null) return undefined;
+  return or(isNull(alertRules.teamId), scope.teamIds.length > 0 ? inArray(alertRules.teamId, scope.teamIds) : sql`false`);
+}
+
+// Subquery of employee IDs visible in a scope, for filtering per-employee tables
+function scopedEmployeeIds(scope: TenantScope) {
+  return db.select({ id: employees.id }).from(employees).where(employeeScopeCondition(scope));
+}
+
+// A new employee's name and the key their account signs in with
+export interface EmployeeIdentity {
+  name: string;
+  employeeKey: string;
+}
+
+// Inclusive time window for history queries; either end may be open
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Position of the last screenshot on a page; the next page starts just after it
+export interface ScreenshotCursor {
+  timestamp: Date;
+  id: number;
+}
+
+export interface ScreenshotPageOptions {
+  limit: number;
+  after?: ScreenshotCursor;
+  range?: DateRange;
+}
+
+// How an upload from an employee's dashboard is stored
+export interface IngestOptions {
+  // When the client captured it; the insert time if missing
+  capturedAt?: Date;
+  // Uploads repeating an earlier key get the earlier row back instead of a new one
+  idempotencyKey?: string;
+}
+
+export interface IngestResult<T> {
+  row: T;
+  // False when the upload repeated an earlier idempotency key
+  created: boolean;
+}
+
+export interface StatusDisputeFilter {
+  employeeId?: number;
+  teamId?: number;
+  status?: DisputeStatusType;
+}
+
+export interface AlertFilter {
+  employeeId?: number;
+  teamId?: number;
+  status?: AlertStatusType;
+}
+
+// Calendar days (yyyy-MM-dd) in the organization's time zone, both ends included
+export interface AbsenceFilter {
+  from: string;
+  to: string;
+  employeeId?: number;
+  teamId?: number;
+}
+
+// What a work schedule row applies to; neither set is the organization default
+export interface WorkScheduleTarget {
+  teamId: number | null;
+  employeeId: number | null;
+}
+
+// A period being locked, with the earnings to freeze
+export interface LockPayPeriod {
+  organizationId: number;
+  startsAt: Date;
+  endsAt: Date;
+  currency: string;
+  lockedBy: number;
+}
 
 export interface IStorage {
+  // Organization and team methods
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizations(): Promise<Organization[]>;
+  getOrganizationBySlug(slug: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganizationSettings(id: number, settings: OrganizationSettings): Promise<Organization | undefined>;
+  getTeams(scope: TenantScope): Promise<Team[]>;
+  getTeam(id: number, scope: TenantScope): Promise<Team | undefined>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  addTeamManager(userId: number, teamId: number): Promise<void>;
+  getManagedTeamIds(userId: number): Promise<number[]>;
+
+  // User methods
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  hasUserWithRole(role: string): Promise<boolean>;
+
   // Employee methods
   getEmployee(id: number): Promise<Employee | undefined>;
-  getAllEmployees(): Promise<Employee[]>;
+  getEmployeeInScope(id: number, scope: TenantScope): Promise<Employee | undefined>;
+  getAllEmployees(scope: TenantScope, teamId?: number): Promise<Employee[]>;
+  getEmployeeByKey(organizationId: number, employeeKey: string): Promise<Employee | undefined>;
   createEmployee(employee: InsertEmployee): Promise<Employee>;
+  findOrCreateEmployee(organizationId: number, identity: EmployeeIdentity): Promise<{ employee: Employee; created: boolean }>;
+  setEmployeeTeam(employeeId: number, teamId: number | null): Promise<Employee | undefined>;
 
   // Behavior log methods
-  createBehaviorLog(log: InsertBehaviorLog): Promise<BehaviorLog>;
-  getBehaviorLogsByEmployeeId(employeeId: number): Promise<BehaviorLog[]>;
-  getLatestBehaviorLogs(): Promise<Record<number, BehaviorLog>>;
+  createBehaviorLog(log: InsertBehaviorLog, timestamp?: Date): Promise<BehaviorLog>;
+  ingestBehaviorLog(log: InsertBehaviorLog, options: IngestOptions): Promise<IngestResult<BehaviorLog>>;
+  getBehaviorLogByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<BehaviorLog | undefined>;
+  getBehaviorLogsByEmployeeId(employeeId: number, scope: TenantScope): Promise<BehaviorLog[]>;
+  getBehaviorLogsInRange(employeeId: number, scope: TenantScope, range: Required<DateRange>): Promise<BehaviorLog[]>;
+  getLatestBehaviorLogs(scope: TenantScope, teamId?: number): Promise<Record<number, BehaviorLog>>;
+  getLatestBehaviorLog(employeeId: number): Promise<BehaviorLog | undefined>;
+  getEmployeeIdsWithActiveStatus(): Promise<number[]>;
+  getActiveDates(employeeId: number, range: Required<DateRange>, timeZone: string): Promise<string[]>;
+
+  // Behavior sample methods
+  addBehaviorSamples(samples: InsertBehaviorSample[]): Promise<number>;
+  getBehaviorSamplesInRange(employeeId: number, scope: TenantScope, range: Required<DateRange>): Promise<BehaviorSample[]>;
+
+  // Work session methods
+  openWorkSession(session: InsertWorkSession): Promise<WorkSession>;
+  closeWorkSession(id: number, reason: WorkSessionEndReasonType, endedAt?: Date): Promise<WorkSession | undefined>;
+  getWorkSession(id: number, scope: TenantScope): Promise<WorkSession | undefined>;
+  getOpenWorkSession(employeeId: number): Promise<WorkSession | undefined>;
+  getLatestWorkSession(employeeId: number): Promise<WorkSession | undefined>;
+  getWorkSessionsByEmployeeId(employeeId: number, scope: TenantScope, range?: DateRange): Promise<WorkSession[]>;
 
   // Screenshot methods
-  createScreenshot(screenshot: InsertScreenshot): Promise<Screenshot>;
-  getScreenshotsByEmployeeId(employeeId: number, limit?: number): Promise<Screenshot[]>;
-  getLatestScreenshot(employeeId: number): Promise<Screenshot | undefined>;
+  ingestScreenshot(screenshot: InsertScreenshot, options: IngestOptions): Promise<IngestResult<Screenshot>>;
+  getScreenshotByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<Screenshot | undefined>;
+  getScreenshot(id: number, scope: TenantScope): Promise<Screenshot | undefined>;
+  getScreenshotsByEmployeeId(employeeId: number, scope: TenantScope, options: ScreenshotPageOptions): Promise<Screenshot[]>;
+  getLatestScreenshot(employeeId: number, scope: TenantScope): Promise<Screenshot | undefined>;
 
   // Work submission methods
-  createWorkSubmission(submission: InsertWorkSubmission): Promise<WorkSubmission>;
-  getWorkSubmissionsByEmployeeId(employeeId: number): Promise<WorkSubmission[]>;
+  ingestWorkSubmission(submission: InsertWorkSubmission, options: IngestOptions): Promise<IngestResult<WorkSubmission>>;
+  getWorkSubmissionByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<WorkSubmission | undefined>;
+  getWorkSubmission(id: number, scope: TenantScope): Promise<WorkSubmission | undefined>;
+  getWorkSubmissionsByEmployeeId(employeeId: number, scope: TenantScope): Promise<WorkSubmission[]>;
+  countWorkSubmissions(scope: TenantScope, range: Required<DateRange>, teamId?: number): Promise<number>;
+
+  // Recording methods
+  createRecording(recording: InsertRecording): Promise<Recording>;
+  getRecording(id: number, scope: TenantScope): Promise<Recording | undefined>;
+  getRecordingsByEmployeeId(employeeId: number, scope: TenantScope, status?: RecordingStatusType): Promise<Recording[]>;
+  respondToRecording(id: number, accepted: boolean): Promise<Recording | undefined>;
+  addRecordingChunk(recordingId: number, sequence: number, blob: StoredBlob): Promise<Recording | undefined>;
+  completeRecording(id: number, duration: number): Promise<Recording | undefined>;
+  getRecordingChunkSizes(recordingId: number): Promise<Pick<RecordingChunk, "sequence" | "sizeBytes">[]>;
+  getRecordingChunks(recordingId: number, sequences: number[]): Promise<RecordingChunk[]>;
+
+  // Status dispute methods
+  createStatusDispute(dispute: InsertStatusDispute): Promise<StatusDispute>;
+  getStatusDispute(id: number, scope: TenantScope): Promise<StatusDispute | undefined>;
+  getStatusDisputes(scope: TenantScope, filter: StatusDisputeFilter): Promise<StatusDispute[]>;
+  getApprovedStatusDisputes(employeeId: number, scope: TenantScope, range: Required<DateRange>): Promise<StatusDispute[]>;
+  hasOverlappingStatusDispute(employeeId: number, startsAt: Date, endsAt: Date): Promise<boolean>;
+  reviewStatusDispute(id: number, status: DisputeStatusType, reviewedBy: number, reviewNote?: string): Promise<StatusDispute | undefined>;
+
+  // Payroll methods
+  getPayRates(scope: TenantScope, employeeId?: number): Promise<PayRate[]>;
+  savePayRate(rate: InsertPayRate): Promise<PayRate>;
+  getPayrollSettings(organizationId: number): Promise<PayrollSettings | undefined>;
+  savePayrollSettings(organizationId: number, settings: PayrollSettingsInput): Promise<PayrollSettings>;
+  getPayPeriods(organizationId: number): Promise<PayPeriod[]>;
+  getPayPeriodByStart(organizationId: number, startsAt: Date): Promise<PayPeriod | undefined>;
+  lockPayPeriod(period: LockPayPeriod, lines: InsertPayrollLine[]): Promise<PayPeriod | undefined>;
+  unlockPayPeriod(id: number, organizationId: number): Promise<boolean>;
+  getPayrollLines(payPeriodId: number, scope: TenantScope, teamId?: number): Promise<PayrollLineSummary[]>;
+  hasLockedPayPeriod(organizationId: number, startsAt: Date, endsAt: Date): Promise<boolean>;
+
+  // Alerting methods
+  getAlertRules(scope: TenantScope): Promise<AlertRule[]>;
+  getAlertRule(id: number, scope: TenantScope): Promise<AlertRule | undefined>;
+  getEnabledAlertRules(organizationId?: number): Promise<AlertRule[]>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: number, settings: AlertRuleSettings): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: number): Promise<boolean>;
+  createAlert(alert: InsertAlert): Promise<Alert | undefined>;
+  getUnresolvedAlerts(employeeId: number): Promise<Alert[]>;
+  getAlert(id: number, scope: TenantScope): Promise<Alert | undefined>;
+  getAlerts(scope: TenantScope, filter: AlertFilter): Promise<AlertSummary[]>;
+  acknowledgeAlert(id: number, acknowledgedBy: number): Promise<Alert | undefined>;
+  resolveAlert(id: number, resolvedBy: number | null): Promise<Alert | undefined>;
+  resolveAlertsOfRule(ruleId: number): Promise<Alert[]>;
+
+  // Notification methods
+  getNotificationRecipients(organizationId: number, teamId: number | null): Promise<User[]>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(userId: number, preferences: NotificationPreferencesInput, webhookSecret: string): Promise<NotificationPreferences>;
+  setWebhookSecret(userId: number, webhookSecret: string): Promise<NotificationPreferences | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+
+  // Monitoring policy methods
+  getMonitoringPolicies(scope: TenantScope): Promise<MonitoringPolicy[]>;
+  getEffectiveMonitoringPolicy(employee: Employee): Promise<EffectiveMonitoringPolicy>;
+  saveMonitoringPolicy(organizationId: number, teamId: number | null, settings: MonitoringPolicySettings): Promise<MonitoringPolicy>;
+  deleteMonitoringPolicy(organizationId: number, teamId: number | null): Promise<boolean>;
+
+  // Work schedule and absence methods
+  getWorkSchedules(scope: TenantScope): Promise<WorkSchedule[]>;
+  saveWorkSchedule(organizationId: number, target: WorkScheduleTarget, settings: WorkScheduleSettings): Promise<WorkSchedule>;
+  deleteWorkSchedule(organizationId: number, target: WorkScheduleTarget): Promise<boolean>;
+  getAbsencesOfEmployee(employeeId: number, from: string, to: string): Promise<Absence[]>;
+  createAbsence(absence: InsertAbsence): Promise<Absence | undefined>;
+  deleteAbsence(employeeId: number, date: string): Promise<Absence | undefined>;
+  getAbsences(scope: TenantScope, filter: AbsenceFilter): Promise<AbsenceSummary[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Organization and team methods
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizations(): Promise<Organization[]> {
+    return await db.select().from(organizations);
+  }
+
+  async getOrganizationBySlug(slug: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.slug, slug));
+    return organization;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await db.insert(organizations).values(insertOrganization).returning();
+    return organization;
+  }
+
+  async updateOrganizationSettings(id: number, settings: OrganizationSettings): Promise<Organization | undefined> {
+    const [organization] = await db
+      .update(organizations)
+      .set(settings)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async getTeams(scope: TenantScope): Promise<Team[]> {
+    const conditions: SQL[] = [eq(teams.organizationId, scope.organizationId)];
+    if (scope.teamIds !== null) {
+      conditions.push(scope.teamIds.length > 0 ? inArray(teams.id, scope.teamIds) : sql`false`);
+    }
+
+    return await db.select().from(teams).where(and(...conditions)).orderBy(teams.name);
+  }
+
+  async getTeam(id: number, scope: TenantScope): Promise<Team | undefined> {
+    const [team] = await db
+      .select()
+      .from(teams)
+      .where(and(eq(teams.id, id), eq(teams.organizationId, scope.organizationId)));
+
+    if (team && scope.teamIds !== null && !scope.teamIds.includes(team.id)) {
+      return undefined;
+    }
+    return team;
+  }
+
+  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+    const [team] = await db.insert(teams).values(insertTeam).returning();
+    return team;
+  }
+
+  async addTeamManager(userId: number, teamId: number): Promise<void> {
+    await db.insert(teamManagers).values({ userId, teamId }).onConflictDoNothing();
+  }
+
+  async getManagedTeamIds(userId: number): Promise<number[]> {
+    const rows = await db
+      .select({ teamId: teamManagers.teamId })
+      .from(teamManagers)
+      .where(eq(teamManagers.userId, userId));
+    return rows.map(row => row.teamId);
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async hasUserWithRole(role: string): Promise<boolean> {
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.role, role)).limit(1);
+    return !!user;
+  }
+
   // Employee methods
+  // Unscoped lookup, only for access checks that then compare the tenant
   async getEmployee(id: number): Promise<Employee | undefined> {
     const [employee] = await db.select().from(employees).where(eq(employees.id, id));
     return employee;
   }
 
-  async getAllEmployees(): Promise<Employee[]> {
-    return await db.select().from(employees);
+  async getEmployeeInScope(id: number, scope: TenantScope): Promise<Employee | undefined> {
+    const [employee] = await db
+      .select()
+      .from(employees)
+      .where(and(eq(employees.id, id), employeeScopeCondition(scope)));
+    return employee;
+  }
+
+  async getAllEmployees(scope: TenantScope, teamId?: number): Promise<Employee[]> {
+    return await db.select().from(employees).where(employeeScopeCondition(scope, teamId));
+  }
+
+  async getEmployeeByKey(organizationId: number, employeeKey: string): Promise<Employee | undefined> {
+    const [employee] = await db
+      .select()
+      .from(employees)
+      .where(and(eq(employees.organizationId, organizationId), eq(employees.employeeKey, employeeKey)));
+    return employee;
   }
 
   async createEmployee(insertEmployee: InsertEmployee): Promise<Employee> {
@@ -44,24 +397,116 @@ export class DatabaseStorage implements IStorage {
     return employee;
   }
 
+  async findOrCreateEmployee(
+    organizationId: number,
+    identity: EmployeeIdentity,
+  ): Promise<{ employee: Employee; created: boolean }> {
+    // Insert and ignore the unique-key conflict so two registrations racing
+    // for the same key still end up with a single row
+    const [inserted] = await db
+      .insert(employees)
+      .values({ ...identity, organizationId })
+      .onConflictDoNothing({ target: [employees.organizationId, employees.employeeKey] })
+      .returning();
+
+    if (inserted) {
+      return { employee: inserted, created: true };
+    }
+
+    const existing = await this.getEmployeeByKey(organizationId, identity.employeeKey);
+    if (!existing) {
+      throw new Error(`Employee with key ${identity.employeeKey} could not be loaded`);
+    }
+
+    return { employee: existing, created: false };
+  }
+
+  async setEmployeeTeam(employeeId: number, teamId: number | null): Promise<Employee | undefined> {
+    const [employee] = await db
+      .update(employees)
+      .set({ teamId })
+      .where(eq(employees.id, employeeId))
+      .returning();
+    return employee;
+  }
+
   // Behavior log methods
-  async createBehaviorLog(insertLog: InsertBehaviorLog): Promise<BehaviorLog> {
-    const [log] = await db.insert(behaviorLogs).values(insertLog).returning();
+  async createBehaviorLog(insertLog: InsertBehaviorLog, timestamp?: Date): Promise<BehaviorLog> {
+    const [log] = await db.insert(behaviorLogs).values({ ...insertLog, timestamp }).returning();
+    return log;
+  }
+
+  async ingestBehaviorLog(
+    insertLog: InsertBehaviorLog,
+    { capturedAt, idempotencyKey }: IngestOptions,
+  ): Promise<IngestResult<BehaviorLog>> {
+    // Ignore the unique-key conflict so concurrent retries still yield one row
+    const [log] = await db
+      .insert(behaviorLogs)
+      .values({ ...insertLog, timestamp: capturedAt, idempotencyKey })
+      .onConflictDoNothing({ target: [behaviorLogs.employeeId, behaviorLogs.idempotencyKey] })
+      .returning();
+    if (log) {
+      return { row: log, created: true };
+    }
+
+    const existing = await this.getBehaviorLogByIdempotencyKey(insertLog.employeeId, idempotencyKey!);
+    if (!existing) {
+      throw new Error(`Behavior log with idempotency key ${idempotencyKey} could not be loaded`);
+    }
+    return { row: existing, created: false };
+  }
+
+  async getBehaviorLogByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<BehaviorLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(behaviorLogs)
+      .where(and(eq(behaviorLogs.employeeId, employeeId), eq(behaviorLogs.idempotencyKey, idempotencyKey)));
     return log;
   }
 
-  async getBehaviorLogsByEmployeeId(employeeId: number): Promise<BehaviorLog[]> {
+  async getBehaviorLogsByEmployeeId(employeeId: number, scope: TenantScope): Promise<BehaviorLog[]> {
     return await db
       .select()
       .from(behaviorLogs)
-      .where(eq(behaviorLogs.employeeId, employeeId))
+      .where(and(
+        eq(behaviorLogs.employeeId, employeeId),
+        inArray(behaviorLogs.employeeId, scopedEmployeeIds(scope)),
+      ))
       .orderBy(desc(behaviorLogs.timestamp));
   }
 
-  async getLatestBehaviorLogs(): Promise<Record<number, BehaviorLog>> {
+  async getBehaviorLogsInRange(
+    employeeId: number,
+    scope: TenantScope,
+    range: Required<DateRange>,
+  ): Promise<BehaviorLog[]> {
+    const inScope = and(
+      eq(behaviorLogs.employeeId, employeeId),
+      inArray(behaviorLogs.employeeId, scopedEmployeeIds(scope)),
+    );
+
+    // The last transition before the window tells us the status at its start
+    const [previous] = await db
+      .select()
+      .from(behaviorLogs)
+      .where(and(inScope, lt(behaviorLogs.timestamp, range.from)))
+      .orderBy(desc(behaviorLogs.timestamp))
+      .limit(1);
+
+    const logs = await db
+      .select()
+      .from(behaviorLogs)
+      .where(and(inScope, gte(behaviorLogs.timestamp, range.from), lte(behaviorLogs.timestamp, range.to)))
+      .orderBy(behaviorLogs.timestamp);
+
+    return previous ? [previous, ...logs] : logs;
+  }
+
+  async getLatestBehaviorLogs(scope: TenantScope, teamId?: number): Promise<Record<number, BehaviorLog>> {
     // This is a more complex query that requires raw SQL or a subquery
-    // First, get all employees
-    const allEmployees = await this.getAllEmployees();
+    // First, get all employees visible in the scope
+    const allEmployees = await this.getAllEmployees(scope, teamId);
     
     // Create an empty result object
     const result: Record<number, BehaviorLog> = {};
@@ -83,26 +528,261 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Internal lookup for the presence registry; callers check access themselves
+  async getLatestBehaviorLog(employeeId: number): Promise<BehaviorLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(behaviorLogs)
+      .where(eq(behaviorLogs.employeeId, employeeId))
+      .orderBy(desc(behaviorLogs.timestamp))
+      .limit(1);
+    return log;
+  }
+
+  // Employees across all tenants whose latest status is anything but inactive
+  async getEmployeeIdsWithActiveStatus(): Promise<number[]> {
+    const latest = db
+      .selectDistinctOn([behaviorLogs.employeeId], { employeeId: behaviorLogs.employeeId, status: behaviorLogs.status })
+      .from(behaviorLogs)
+      .orderBy(behaviorLogs.employeeId, desc(behaviorLogs.timestamp))
+      .as("latest");
+
+    const rows = await db
+      .select({ employeeId: latest.employeeId })
+      .from(latest)
+      .where(sql`${latest.status} <> 'inactive'`);
+    return rows.map(row => row.employeeId);
+  }
+
+  // Calendar days in a time zone with any sign of the employee at work: a
+  // behavior log other than inactive (which the server writes itself when a
+  // dashboard goes quiet) or a started work session
+  async getActiveDates(employeeId: number, { from, to }: Required<DateRange>, timeZone: string): Promise<string[]> {
+    const localDate = (column: typeof behaviorLogs.timestamp | typeof workSessions.startedAt) =>
+      sql<string>`to_char((${column} at time zone 'UTC') at time zone ${timeZone}, 'YYYY-MM-DD')`;
+
+    const [logDays, sessionDays] = await Promise.all([
+      db
+        .selectDistinct({ date: localDate(behaviorLogs.timestamp) })
+        .from(behaviorLogs)
+        .where(and(
+          eq(behaviorLogs.employeeId, employeeId),
+          gte(behaviorLogs.timestamp, from),
+          lt(behaviorLogs.timestamp, to),
+          sql`${behaviorLogs.status} <> 'inactive'`,
+        )),
+      db
+        .selectDistinct({ date: localDate(workSessions.startedAt) })
+        .from(workSessions)
+        .where(and(
+          eq(workSessions.employeeId, employeeId),
+          gte(workSessions.startedAt, from),
+          lt(workSessions.startedAt, to),
+        )),
+    ]);
+
+    return Array.from(new Set([...logDays, ...sessionDays].map(row => row.date)));
+  }
+
+  // Behavior sample methods
+  async addBehaviorSamples(samples: InsertBehaviorSample[]): Promise<number> {
+    // One multi-row insert per batch; samples an earlier upload of the same batch stored are skipped
+    const inserted = await db
+      .insert(behaviorSamples)
+      .values(samples)
+      .onConflictDoNothing({ target: [behaviorSamples.employeeId, behaviorSamples.batchKey, behaviorSamples.batchIndex] })
+      .returning({ id: behaviorSamples.id });
+    return inserted.length;
+  }
+
+  async getBehaviorSamplesInRange(
+    employeeId: number,
+    scope: TenantScope,
+    range: Required<DateRange>,
+  ): Promise<BehaviorSample[]> {
+    return await db
+      .select()
+      .from(behaviorSamples)
+      .where(and(
+        eq(behaviorSamples.employeeId, employeeId),
+        inArray(behaviorSamples.employeeId, scopedEmployeeIds(scope)),
+        gte(behaviorSamples.capturedAt, range.from),
+        lte(behaviorSamples.capturedAt, range.to),
+      ))
+      .orderBy(behaviorSamples.capturedAt);
+  }
+
+  // Work session methods
+  async openWorkSession(insertSession: InsertWorkSession): Promise<WorkSession> {
+    // A still-open session means the previous tab died without telling us;
+    // close it at its last sign of life before opening the new one
+    const stale = await this.getOpenWorkSession(insertSession.employeeId);
+    if (stale) {
+      const [lastLog] = await db
+        .select({ timestamp: behaviorLogs.timestamp })
+        .from(behaviorLogs)
+        .where(and(
+          eq(behaviorLogs.employeeId, stale.employeeId),
+          gte(behaviorLogs.timestamp, stale.startedAt),
+        ))
+        .orderBy(desc(behaviorLogs.timestamp))
+        .limit(1);
+
+      await this.closeWorkSession(stale.id, "heartbeat_lost", lastLog?.timestamp ?? stale.startedAt);
+    }
+
+    const [session] = await db.insert(workSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async closeWorkSession(
+    id: number,
+    reason: WorkSessionEndReasonType,
+    endedAt: Date = new Date(),
+  ): Promise<WorkSession | undefined> {
+    // Only open sessions are closed, so a late tab-closed beacon can't
+    // overwrite the reason of a session that was already stopped
+    const [session] = await db
+      .update(workSessions)
+      .set({ endedAt, endReason: reason })
+      .where(and(eq(workSessions.id, id), isNull(workSessions.endedAt)))
+      .returning();
+    return session;
+  }
+
+  async getWorkSession(id: number, scope: TenantScope): Promise<WorkSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(workSessions)
+      .where(and(
+        eq(workSessions.id, id),
+        inArray(workSessions.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return session;
+  }
+
+  async getOpenWorkSession(employeeId: number): Promise<WorkSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(workSessions)
+      .where(and(eq(workSessions.employeeId, employeeId), isNull(workSessions.endedAt)))
+      .orderBy(desc(workSessions.startedAt))
+      .limit(1);
+    return session;
+  }
+
+  // Internal lookup for the alert engine; callers check access themselves
+  async getLatestWorkSession(employeeId: number): Promise<WorkSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(workSessions)
+      .where(eq(workSessions.employeeId, employeeId))
+      .orderBy(desc(workSessions.startedAt))
+      .limit(1);
+    return session;
+  }
+
+  async getWorkSessionsByEmployeeId(
+    employeeId: number,
+    scope: TenantScope,
+    range: DateRange = {},
+  ): Promise<WorkSession[]> {
+    const conditions: SQL[] = [
+      eq(workSessions.employeeId, employeeId),
+      inArray(workSessions.employeeId, scopedEmployeeIds(scope)),
+    ];
+    // Sessions overlapping the window: started before its end, still open or ended after its start
+    if (range.to) {
+      conditions.push(lte(workSessions.startedAt, range.to));
+    }
+    if (range.from) {
+      conditions.push(sql`(${isNull(workSessions.endedAt)} or ${gt(workSessions.endedAt, range.from)})`);
+    }
+
+    return await db
+      .select()
+      .from(workSessions)
+      .where(and(...conditions))
+      .orderBy(desc(workSessions.startedAt));
+  }
+
   // Screenshot methods
-  async createScreenshot(insertScreenshot: InsertScreenshot): Promise<Screenshot> {
-    const [screenshot] = await db.insert(screenshots).values(insertScreenshot).returning();
+  async ingestScreenshot(
+    insertScreenshot: InsertScreenshot,
+    { capturedAt, idempotencyKey }: IngestOptions,
+  ): Promise<IngestResult<Screenshot>> {
+    const [screenshot] = await db
+      .insert(screenshots)
+      .values({ ...insertScreenshot, timestamp: capturedAt, idempotencyKey })
+      .onConflictDoNothing({ target: [screenshots.employeeId, screenshots.idempotencyKey] })
+      .returning();
+    if (screenshot) {
+      return { row: screenshot, created: true };
+    }
+
+    const existing = await this.getScreenshotByIdempotencyKey(insertScreenshot.employeeId, idempotencyKey!);
+    if (!existing) {
+      throw new Error(`Screenshot with idempotency key ${idempotencyKey} could not be loaded`);
+    }
+    return { row: existing, created: false };
+  }
+
+  async getScreenshotByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<Screenshot | undefined> {
+    const [screenshot] = await db
+      .select()
+      .from(screenshots)
+      .where(and(eq(screenshots.employeeId, employeeId), eq(screenshots.idempotencyKey, idempotencyKey)));
     return screenshot;
   }
 
-  async getScreenshotsByEmployeeId(employeeId: number, limit = 10): Promise<Screenshot[]> {
+  async getScreenshot(id: number, scope: TenantScope): Promise<Screenshot | undefined> {
+    const [screenshot] = await db
+      .select()
+      .from(screenshots)
+      .where(and(
+        eq(screenshots.id, id),
+        inArray(screenshots.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return screenshot;
+  }
+
+  async getScreenshotsByEmployeeId(
+    employeeId: number,
+    scope: TenantScope,
+    { limit, after, range = {} }: ScreenshotPageOptions,
+  ): Promise<Screenshot[]> {
+    // Postgres keeps microseconds but cursors carry JS dates, so page on milliseconds
+    const timestampMs = sql`date_trunc('milliseconds', ${screenshots.timestamp})`;
+    const conditions: SQL[] = [
+      eq(screenshots.employeeId, employeeId),
+      inArray(screenshots.employeeId, scopedEmployeeIds(scope)),
+    ];
+    if (range.from) {
+      conditions.push(gte(screenshots.timestamp, range.from));
+    }
+    if (range.to) {
+      conditions.push(lte(screenshots.timestamp, range.to));
+    }
+    if (after) {
+      conditions.push(sql`(${timestampMs}, ${screenshots.id}) < (${after.timestamp}, ${after.id})`);
+    }
+
     return await db
       .select()
       .from(screenshots)
-      .where(eq(screenshots.employeeId, employeeId))
-      .orderBy(desc(screenshots.timestamp))
+      .where(and(...conditions))
+      .orderBy(desc(timestampMs), desc(screenshots.id))
       .limit(limit);
   }
 
-  async getLatestScreenshot(employeeId: number): Promise<Screenshot | undefined> {
+  async getLatestScreenshot(employeeId: number, scope: TenantScope): Promise<Screenshot | undefined> {
     const [screenshot] = await db
       .select()
       .from(screenshots)
-      .where(eq(screenshots.employeeId, employeeId))
+      .where(and(
+        eq(screenshots.employeeId, employeeId),
+        inArray(screenshots.employeeId, scopedEmployeeIds(scope)),
+      ))
       .orderBy(desc(screenshots.timestamp))
       .limit(1);
     
@@ -110,22 +790,750 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Work submission methods
-  async createWorkSubmission(insertSubmission: InsertWorkSubmission): Promise<WorkSubmission> {
+  async ingestWorkSubmission(
+    insertSubmission: InsertWorkSubmission,
+    { capturedAt, idempotencyKey }: IngestOptions,
+  ): Promise<IngestResult<WorkSubmission>> {
     const [submission] = await db
       .insert(workSubmissions)
-      .values(insertSubmission)
+      .values({ ...insertSubmission, timestamp: capturedAt, idempotencyKey })
+      .onConflictDoNothing({ target: [workSubmissions.employeeId, workSubmissions.idempotencyKey] })
       .returning();
-    
+    if (submission) {
+      return { row: submission, created: true };
+    }
+
+    const existing = await this.getWorkSubmissionByIdempotencyKey(insertSubmission.employeeId, idempotencyKey!);
+    if (!existing) {
+      throw new Error(`Work submission with idempotency key ${idempotencyKey} could not be loaded`);
+    }
+    return { row: existing, created: false };
+  }
+
+  async getWorkSubmissionByIdempotencyKey(employeeId: number, idempotencyKey: string): Promise<WorkSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(workSubmissions)
+      .where(and(eq(workSubmissions.employeeId, employeeId), eq(workSubmissions.idempotencyKey, idempotencyKey)));
     return submission;
   }
 
-  async getWorkSubmissionsByEmployeeId(employeeId: number): Promise<WorkSubmission[]> {
+  async getWorkSubmission(id: number, scope: TenantScope): Promise<WorkSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(workSubmissions)
+      .where(and(
+        eq(workSubmissions.id, id),
+        inArray(workSubmissions.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return submission;
+  }
+
+  async getWorkSubmissionsByEmployeeId(employeeId: number, scope: TenantScope): Promise<WorkSubmission[]> {
     return await db
       .select()
       .from(workSubmissions)
-      .where(eq(workSubmissions.employeeId, employeeId))
+      .where(and(
+        eq(workSubmissions.employeeId, employeeId),
+        inArray(workSubmissions.employeeId, scopedEmployeeIds(scope)),
+      ))
       .orderBy(desc(workSubmissions.timestamp));
   }
+
+  async countWorkSubmissions(scope: TenantScope, range: Required<DateRange>, teamId?: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(workSubmissions)
+      .where(and(
+        inArray(
+          workSubmissions.employeeId,
+          db.select({ id: employees.id }).from(employees).where(employeeScopeCondition(scope, teamId)),
+        ),
+        gte(workSubmissions.timestamp, range.from),
+        lt(workSubmissions.timestamp, range.to),
+      ));
+    return row?.count ?? 0;
+  }
+
+  // Recording methods
+  async createRecording(insertRecording: InsertRecording): Promise<Recording> {
+    const [recording] = await db.insert(recordings).values(insertRecording).returning();
+    return recording;
+  }
+
+  async getRecording(id: number, scope: TenantScope): Promise<Recording | undefined> {
+    const [recording] = await db
+      .select()
+      .from(recordings)
+      .where(and(
+        eq(recordings.id, id),
+        inArray(recordings.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return recording;
+  }
+
+  async getRecordingsByEmployeeId(
+    employeeId: number,
+    scope: TenantScope,
+    status?: RecordingStatusType,
+  ): Promise<Recording[]> {
+    const conditions: SQL[] = [
+      eq(recordings.employeeId, employeeId),
+      inArray(recordings.employeeId, scopedEmployeeIds(scope)),
+    ];
+    if (status) {
+      conditions.push(eq(recordings.status, status));
+    }
+
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(...conditions))
+      .orderBy(desc(recordings.timestamp))
+      .limit(20);
+  }
+
+  async respondToRecording(id: number, accepted: boolean): Promise<Recording | undefined> {
+    // Only pending requests can be answered, so a second click is a no-op
+    const [recording] = await db
+      .update(recordings)
+      .set(accepted
+        ? { status: "recording", startedAt: new Date() }
+        : { status: "declined", endedAt: new Date() })
+      .where(and(eq(recordings.id, id), eq(recordings.status, "requested")))
+      .returning();
+    return recording;
+  }
+
+  async addRecordingChunk(
+    recordingId: number,
+    sequence: number,
+    blob: StoredBlob,
+  ): Promise<Recording | undefined> {
+    return await db.transaction(async (tx) => {
+      // Chunks are only accepted while recording; the row lock keeps a
+      // concurrent complete from slipping in between
+      const [active] = await tx
+        .select({ id: recordings.id })
+        .from(recordings)
+        .where(and(eq(recordings.id, recordingId), eq(recordings.status, "recording")))
+        .for("update");
+      if (!active) return undefined;
+
+      // Retried uploads of the same segment are ignored instead of counted twice
+      const [chunk] = await tx
+        .insert(recordingChunks)
+        .values({ recordingId, sequence, blobKey: blob.blobKey, sizeBytes: blob.sizeBytes, sha256: blob.sha256 })
+        .onConflictDoNothing()
+        .returning({ sizeBytes: recordingChunks.sizeBytes });
+
+      const [recording] = await tx
+        .update(recordings)
+        .set({
+          sizeBytes: sql`${recordings.sizeBytes} + ${chunk?.sizeBytes ?? 0}`,
+          mimeType: sql`coalesce(${recordings.mimeType}, ${blob.mimeType})`,
+        })
+        .where(eq(recordings.id, recordingId))
+        .returning();
+      return recording;
+    });
+  }
+
+  async completeRecording(id: number, duration: number): Promise<Recording | undefined> {
+    const [recording] = await db
+      .update(recordings)
+      .set({ status: "completed", duration, endedAt: new Date() })
+      .where(and(eq(recordings.id, id), eq(recordings.status, "recording")))
+      .returning();
+    return recording;
+  }
+
+  async getRecordingChunkSizes(recordingId: number): Promise<Pick<RecordingChunk, "sequence" | "sizeBytes">[]> {
+    return await db
+      .select({ sequence: recordingChunks.sequence, sizeBytes: recordingChunks.sizeBytes })
+      .from(recordingChunks)
+      .where(eq(recordingChunks.recordingId, recordingId))
+      .orderBy(recordingChunks.sequence);
+  }
+
+  async getRecordingChunks(recordingId: number, sequences: number[]): Promise<RecordingChunk[]> {
+    if (sequences.length === 0) return [];
+
+    return await db
+      .select()
+      .from(recordingChunks)
+      .where(and(
+        eq(recordingChunks.recordingId, recordingId),
+        inArray(recordingChunks.sequence, sequences),
+      ))
+      .orderBy(recordingChunks.sequence);
+  }
+
+  // Status dispute methods
+  async createStatusDispute(insertDispute: InsertStatusDispute): Promise<StatusDispute> {
+    const [dispute] = await db.insert(statusDisputes).values(insertDispute).returning();
+    return dispute;
+  }
+
+  async getStatusDispute(id: number, scope: TenantScope): Promise<StatusDispute | undefined> {
+    const [dispute] = await db
+      .select()
+      .from(statusDisputes)
+      .where(and(
+        eq(statusDisputes.id, id),
+        inArray(statusDisputes.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return dispute;
+  }
+
+  async getStatusDisputes(scope: TenantScope, { employeeId, teamId, status }: StatusDisputeFilter): Promise<StatusDispute[]> {
+    const conditions: SQL[] = [
+      inArray(statusDisputes.employeeId, db.select({ id: employees.id }).from(employees).where(employeeScopeCondition(scope, teamId))),
+    ];
+    if (employeeId !== undefined) {
+      conditions.push(eq(statusDisputes.employeeId, employeeId));
+    }
+    if (status) {
+      conditions.push(eq(statusDisputes.status, status));
+    }
+
+    return await db
+      .select()
+      .from(statusDisputes)
+      .where(and(...conditions))
+      .orderBy(desc(statusDisputes.createdAt))
+      .limit(100);
+  }
+
+  async getApprovedStatusDisputes(
+    employeeId: number,
+    scope: TenantScope,
+    range: Required<DateRange>,
+  ): Promise<StatusDispute[]> {
+    return await db
+      .select()
+      .from(statusDisputes)
+      .where(and(
+        eq(statusDisputes.employeeId, employeeId),
+        inArray(statusDisputes.employeeId, scopedEmployeeIds(scope)),
+        eq(statusDisputes.status, "approved"),
+        lt(statusDisputes.startsAt, range.to),
+        gt(statusDisputes.endsAt, range.from),
+      ));
+  }
+
+  // Rejected disputes don't block a new one for the same range
+  async hasOverlappingStatusDispute(employeeId: number, startsAt: Date, endsAt: Date): Promise<boolean> {
+    const [overlapping] = await db
+      .select({ id: statusDisputes.id })
+      .from(statusDisputes)
+      .where(and(
+        eq(statusDisputes.employeeId, employeeId),
+        inArray(statusDisputes.status, ["pending", "approved"]),
+        lt(statusDisputes.startsAt, endsAt),
+        gt(statusDisputes.endsAt, startsAt),
+      ))
+      .limit(1);
+    return !!overlapping;
+  }
+
+  async reviewStatusDispute(
+    id: number,
+    status: DisputeStatusType,
+    reviewedBy: number,
+    reviewNote?: string,
+  ): Promise<StatusDispute | undefined> {
+    // Only pending disputes can be decided, so a second review is a no-op
+    const [dispute] = await db
+      .update(statusDisputes)
+      .set({ status, reviewedBy, reviewNote: reviewNote || null, reviewedAt: new Date() })
+      .where(and(eq(statusDisputes.id, id), eq(statusDisputes.status, "pending")))
+      .returning();
+    return dispute;
+  }
+
+  // Payroll methods
+  // Rate history of the employees in scope, oldest first per employee
+  async getPayRates(scope: TenantScope, employeeId?: number): Promise<PayRate[]> {
+    return await db
+      .select()
+      .from(payRates)
+      .where(and(
+        inArray(payRates.employeeId, scopedEmployeeIds(scope)),
+        employeeId === undefined ? undefined : eq(payRates.employeeId, employeeId),
+      ))
+      .orderBy(payRates.employeeId, payRates.effectiveFrom);
+  }
+
+  // A second rate from the same day replaces the first
+  async savePayRate(insertRate: InsertPayRate): Promise<PayRate> {
+    const { employeeId, effectiveFrom, ...values } = insertRate;
+    const [rate] = await db
+      .insert(payRates)
+      .values(insertRate)
+      .onConflictDoUpdate({
+        target: [payRates.employeeId, payRates.effectiveFrom],
+        set: { ...values, createdAt: new Date() },
+      })
+      .returning();
+    return rate;
+  }
+
+  async getPayrollSettings(organizationId: number): Promise<PayrollSettings | undefined> {
+    const [settings] = await db.select().from(payrollSettings).where(eq(payrollSettings.organizationId, organizationId));
+    return settings;
+  }
+
+  async savePayrollSettings(organizationId: number, settings: PayrollSettingsInput): Promise<PayrollSettings> {
+    const [saved] = await db
+      .insert(payrollSettings)
+      .values({ ...settings, organizationId })
+      .onConflictDoUpdate({
+        target: payrollSettings.organizationId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Locked periods, newest first
+  async getPayPeriods(organizationId: number): Promise<PayPeriod[]> {
+    return await db
+      .select()
+      .from(payPeriods)
+      .where(eq(payPeriods.organizationId, organizationId))
+      .orderBy(desc(payPeriods.startsAt));
+  }
+
+  async getPayPeriodByStart(organizationId: number, startsAt: Date): Promise<PayPeriod | undefined> {
+    const [period] = await db
+      .select()
+      .from(payPeriods)
+      .where(and(eq(payPeriods.organizationId, organizationId), eq(payPeriods.startsAt, startsAt)));
+    return period;
+  }
+
+  // Undefined when the period was already locked
+  async lockPayPeriod(lockPeriod: LockPayPeriod, lines: InsertPayrollLine[]): Promise<PayPeriod | undefined> {
+    return await db.transaction(async (tx) => {
+      const [period] = await tx
+        .insert(payPeriods)
+        .values(lockPeriod)
+        .onConflictDoNothing()
+        .returning();
+      if (!period) return undefined;
+
+      if (lines.length > 0) {
+        await tx.insert(payrollLines).values(lines.map(line => ({ ...line, payPeriodId: period.id })));
+      }
+      return period;
+    });
+  }
+
+  async unlockPayPeriod(id: number, organizationId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(payPeriods)
+      .where(and(eq(payPeriods.id, id), eq(payPeriods.organizationId, organizationId)))
+      .returning({ id: payPeriods.id });
+    return deleted.length > 0;
+  }
+
+  async getPayrollLines(payPeriodId: number, scope: TenantScope, teamId?: number): Promise<PayrollLineSummary[]> {
+    const rows = await db
+      .select({ line: payrollLines, employeeName: employees.name })
+      .from(payrollLines)
+      .innerJoin(employees, eq(payrollLines.employeeId, employees.id))
+      .where(and(eq(payrollLines.payPeriodId, payPeriodId), employeeScopeCondition(scope, teamId)))
+      .orderBy(employees.name);
+
+    return rows.map(({ line: { id, payPeriodId, ...line }, employeeName }) => ({ ...line, employeeName }));
+  }
+
+  async hasLockedPayPeriod(organizationId: number, startsAt: Date, endsAt: Date): Promise<boolean> {
+    const [locked] = await db
+      .select({ id: payPeriods.id })
+      .from(payPeriods)
+      .where(and(
+        eq(payPeriods.organizationId, organizationId),
+        lt(payPeriods.startsAt, endsAt),
+        gt(payPeriods.endsAt, startsAt),
+      ))
+      .limit(1);
+    return !!locked;
+  }
+
+  // Alerting methods
+  // Organization-wide rules plus the rules of teams in scope
+  async getAlertRules(scope: TenantScope): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.organizationId, scope.organizationId), alertRuleTeamCondition(scope)))
+      .orderBy(alertRules.createdAt);
+  }
+
+  async getAlertRule(id: number, scope: TenantScope): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.id, id),
+        eq(alertRules.organizationId, scope.organizationId),
+        alertRuleTeamCondition(scope),
+      ));
+    return rule;
+  }
+
+  // Internal lookup for the alert engine, across all tenants unless narrowed to one
+  async getEnabledAlertRules(organizationId?: number): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.enabled, true),
+        organizationId === undefined ? undefined : eq(alertRules.organizationId, organizationId),
+      ));
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await db.insert(alertRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: number, settings: AlertRuleSettings): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .update(alertRules)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(alertRules)
+      .where(eq(alertRules.id, id))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  // Undefined when the employee already has an unresolved alert for the rule
+  async createAlert(insertAlert: InsertAlert): Promise<Alert | undefined> {
+    const [alert] = await db
+      .insert(alerts)
+      .values(insertAlert)
+      .onConflictDoNothing()
+      .returning();
+    return alert;
+  }
+
+  // Internal lookup for the alert engine; callers check access themselves
+  async getUnresolvedAlerts(employeeId: number): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(and(eq(alerts.employeeId, employeeId), sql`${alerts.status} <> 'resolved'`));
+  }
+
+  async getAlert(id: number, scope: TenantScope): Promise<Alert | undefined> {
+    const [alert] = await db
+      .select()
+      .from(alerts)
+      .where(and(
+        eq(alerts.id, id),
+        inArray(alerts.employeeId, scopedEmployeeIds(scope)),
+      ));
+    return alert;
+  }
+
+  // Alerts of the employees in scope, newest first
+  async getAlerts(scope: TenantScope, { employeeId, teamId, status }: AlertFilter): Promise<AlertSummary[]> {
+    const conditions: SQL[] = [employeeScopeCondition(scope, teamId)];
+    if (employeeId !== undefined) {
+      conditions.push(eq(alerts.employeeId, employeeId));
+    }
+    if (status) {
+      conditions.push(eq(alerts.status, status));
+    }
+
+    const rows = await db
+      .select({ alert: alerts, employeeName: employees.name, ruleName: alertRules.name })
+      .from(alerts)
+      .innerJoin(employees, eq(alerts.employeeId, employees.id))
+      .innerJoin(alertRules, eq(alerts.ruleId, alertRules.id))
+      .where(and(...conditions))
+      .orderBy(desc(alerts.triggeredAt))
+      .limit(200);
+
+    return rows.map(({ alert, employeeName, ruleName }) => ({ ...alert, employeeName, ruleName }));
+  }
+
+  // Only open alerts can be acknowledged, so a second acknowledgement is a no-op
+  async acknowledgeAlert(id: number, acknowledgedBy: number): Promise<Alert | undefined> {
+    const [alert] = await db
+      .update(alerts)
+      .set({ status: "acknowledged", acknowledgedBy, acknowledgedAt: new Date() })
+      .where(and(eq(alerts.id, id), eq(alerts.status, "open")))
+      .returning();
+    return alert;
+  }
+
+  // resolvedBy is null when the condition cleared by itself
+  async resolveAlert(id: number, resolvedBy: number | null): Promise<Alert | undefined> {
+    const [alert] = await db
+      .update(alerts)
+      .set({ status: "resolved", resolvedBy, resolvedAt: new Date() })
+      .where(and(eq(alerts.id, id), sql`${alerts.status} <> 'resolved'`))
+      .returning();
+    return alert;
+  }
+
+  // A disabled rule's alerts can no longer clear by themselves
+  async resolveAlertsOfRule(ruleId: number): Promise<Alert[]> {
+    return await db
+      .update(alerts)
+      .set({ status: "resolved", resolvedAt: new Date() })
+      .where(and(eq(alerts.ruleId, ruleId), sql`${alerts.status} <> 'resolved'`))
+      .returning();
+  }
+
+  // Notification methods
+  // Admins of the organization, and the hosts managing the team if there is one
+  async getNotificationRecipients(organizationId: number, teamId: number | null): Promise<User[]> {
+    const managers = teamId === null
+      ? sql`false`
+      : inArray(users.id, db.select({ id: teamManagers.userId }).from(teamManagers).where(eq(teamManagers.teamId, teamId)));
+
+    return await db
+      .select()
+      .from(users)
+      .where(and(
+        eq(users.organizationId, organizationId),
+        or(eq(users.role, "admin"), and(eq(users.role, "host"), managers)),
+      ));
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  // The secret is only used when the row is first created
+  async saveNotificationPreferences(
+    userId: number,
+    input: NotificationPreferencesInput,
+    webhookSecret: string,
+  ): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ ...input, userId, webhookSecret })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...input, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  }
+
+  async setWebhookSecret(userId: number, webhookSecret: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .update(notificationPreferences)
+      .set({ webhookSecret, updatedAt: new Date() })
+      .where(eq(notificationPreferences.userId, userId))
+      .returning();
+    return preferences;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  // Newest first
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return count;
+  }
+
+  // Undefined when the notification isn't the user's or was already read
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Monitoring policy methods
+  // The organization default plus the policies of teams in scope
+  async getMonitoringPolicies(scope: TenantScope): Promise<MonitoringPolicy[]> {
+    const teamCondition = scope.teamIds === null
+      ? undefined
+      : or(isNull(monitoringPolicies.teamId), scope.teamIds.length > 0 ? inArray(monitoringPolicies.teamId, scope.teamIds) : sql`false`);
+
+    return await db
+      .select()
+      .from(monitoringPolicies)
+      .where(and(eq(monitoringPolicies.organizationId, scope.organizationId), teamCondition));
+  }
+
+  // The employee's team policy, else the organization default, else the built-in one
+  async getEffectiveMonitoringPolicy(employee: Employee): Promise<EffectiveMonitoringPolicy> {
+    const teamCondition = employee.teamId === null
+      ? isNull(monitoringPolicies.teamId)
+      : or(isNull(monitoringPolicies.teamId), eq(monitoringPolicies.teamId, employee.teamId));
+
+    const policies = await db
+      .select()
+      .from(monitoringPolicies)
+      .where(and(eq(monitoringPolicies.organizationId, employee.organizationId), teamCondition));
+
+    const policy = policies.find(candidate => candidate.teamId !== null) ?? policies[0];
+    if (!policy) {
+      return { ...DEFAULT_MONITORING_POLICY, source: "default" };
+    }
+
+    const { id, organizationId, teamId, updatedAt, ...settings } = policy;
+    return {
+      ...settings,
+      screenshotMode: settings.screenshotMode as ScreenshotModeType,
+      source: teamId === null ? "organization" : "team",
+    };
+  }
+
+  async saveMonitoringPolicy(
+    organizationId: number,
+    teamId: number | null,
+    settings: MonitoringPolicySettings,
+  ): Promise<MonitoringPolicy> {
+    const [policy] = await db
+      .insert(monitoringPolicies)
+      .values({ ...settings, organizationId, teamId })
+      .onConflictDoUpdate({
+        target: [monitoringPolicies.organizationId, monitoringPolicies.teamId],
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return policy;
+  }
+
+  async deleteMonitoringPolicy(organizationId: number, teamId: number | null): Promise<boolean> {
+    const deleted = await db
+      .delete(monitoringPolicies)
+      .where(and(
+        eq(monitoringPolicies.organizationId, organizationId),
+        teamId === null ? isNull(monitoringPolicies.teamId) : eq(monitoringPolicies.teamId, teamId),
+      ))
+      .returning({ id: monitoringPolicies.id });
+    return deleted.length > 0;
+  }
+
+  // Work schedule and absence methods
+  // The organization default plus the schedules of teams and employees in scope
+  async getWorkSchedules(scope: TenantScope): Promise<WorkSchedule[]> {
+    const visible = scope.teamIds === null
+      ? undefined
+      : or(
+          and(isNull(workSchedules.teamId), isNull(workSchedules.employeeId)),
+          scope.teamIds.length > 0 ? inArray(workSchedules.teamId, scope.teamIds) : sql`false`,
+          inArray(workSchedules.employeeId, scopedEmployeeIds(scope)),
+        );
+
+    return await db
+      .select()
+      .from(workSchedules)
+      .where(and(eq(workSchedules.organizationId, scope.organizationId), visible));
+  }
+
+  async saveWorkSchedule(
+    organizationId: number,
+    { teamId, employeeId }: WorkScheduleTarget,
+    settings: WorkScheduleSettings,
+  ): Promise<WorkSchedule> {
+    const [schedule] = await db
+      .insert(workSchedules)
+      .values({ ...settings, organizationId, teamId, employeeId })
+      .onConflictDoUpdate({
+        target: [workSchedules.organizationId, workSchedules.teamId, workSchedules.employeeId],
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return schedule;
+  }
+
+  async deleteWorkSchedule(organizationId: number, { teamId, employeeId }: WorkScheduleTarget): Promise<boolean> {
+    const deleted = await db
+      .delete(workSchedules)
+      .where(and(
+        eq(workSchedules.organizationId, organizationId),
+        teamId === null ? isNull(workSchedules.teamId) : eq(workSchedules.teamId, teamId),
+        employeeId === null ? isNull(workSchedules.employeeId) : eq(workSchedules.employeeId, employeeId),
+      ))
+      .returning({ id: workSchedules.id });
+    return deleted.length > 0;
+  }
+
+  async getAbsencesOfEmployee(employeeId: number, from: string, to: string): Promise<Absence[]> {
+    return await db
+      .select()
+      .from(absences)
+      .where(and(eq(absences.employeeId, employeeId), gte(absences.date, from), lte(absences.date, to)));
+  }
+
+  // Undefined when the day was already recorded, e.g. by a concurrent check
+  async createAbsence(insertAbsence: InsertAbsence): Promise<Absence | undefined> {
+    const [absence] = await db.insert(absences).values(insertAbsence).onConflictDoNothing().returning();
+    return absence;
+  }
+
+  async deleteAbsence(employeeId: number, date: string): Promise<Absence | undefined> {
+    const [absence] = await db
+      .delete(absences)
+      .where(and(eq(absences.employeeId, employeeId), eq(absences.date, date)))
+      .returning();
+    return absence;
+  }
+
+  async getAbsences(scope: TenantScope, { from, to, employeeId, teamId }: AbsenceFilter): Promise<AbsenceSummary[]> {
+    const conditions: SQL[] = [employeeScopeCondition(scope, teamId), gte(absences.date, from), lte(absences.date, to)];
+    if (employeeId !== undefined) {
+      conditions.push(eq(absences.employeeId, employeeId));
+    }
+
+    const rows = await db
+      .select({ absence: absences, employeeName: employees.name })
+      .from(absences)
+      .innerJoin(employees, eq(absences.employeeId, employees.id))
+      .where(and(...conditions))
+      .orderBy(desc(absences.date), employees.name);
+
+    return rows.map(({ absence, employeeName }) => ({ ...absence, employeeName }));
+  }
 }
 
 export const storage = new DatabaseStorage();
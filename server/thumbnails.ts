@@ -0,0 +1,97 @@
+import jpeg from "jpeg-js";
+
+// Wide enough for the modal's preview pane, small enough for a strip of dozens
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_QUALITY = 70;
+// Largest image decoded for a thumbnail: a 4K screen. Decoding is synchronous
+// and holds four bytes per pixel, so bigger uploads get no thumbnail.
+const MAX_SOURCE_PIXELS = 3840 * 2160;
+
+/**
+ * Width and height from a JPEG's frame header (SOF), read without decoding
+ * @returns The dimensions, or null if there is no frame header before the image data
+ */
+export function jpegDimensions(image: Buffer): { width: number; height: number } | null {
+  if (image.length < 4 || image[0] !== 0xff || image[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= image.length) {
+    if (image[offset] !== 0xff) return null;
+    const marker = image[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Markers without a length: TEM and the restart markers
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // The scan starts without a frame header having come first
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    const length = image.readUInt16BE(offset + 2);
+    // SOF0 to SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    const isFrameHeader = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrameHeader) {
+      if (offset + 9 > image.length) return null;
+      // Precision, then height, then width
+      const height = image.readUInt16BE(offset + 5);
+      const width = image.readUInt16BE(offset + 7);
+      return { width, height };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Scale a JPEG down to thumbnail width, averaging the source pixels that fall
+ * into each thumbnail pixel. Images already narrower than that are returned
+ * unchanged.
+ * @returns The thumbnail JPEG, or null if the image can't be decoded or is
+ * too large to decode on the request path
+ */
+export function createThumbnail(image: Buffer, width: number = THUMBNAIL_WIDTH): Buffer | null {
+  const dimensions = jpegDimensions(image);
+  if (!dimensions || dimensions.width * dimensions.height > MAX_SOURCE_PIXELS) return null;
+  if (dimensions.width <= width) return image;
+
+  let source;
+  try {
+    source = jpeg.decode(image, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_SOURCE_PIXELS / 1e6 });
+  } catch {
+    return null;
+  }
+
+  if (source.width <= width) return image;
+
+  const height = Math.max(1, Math.round((source.height * width) / source.width));
+  const sums = new Float64Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+
+  for (let y = 0; y < source.height; y++) {
+    const row = Math.min(height - 1, Math.floor((y * height) / source.height));
+    for (let x = 0; x < source.width; x++) {
+      const column = Math.min(width - 1, Math.floor((x * width) / source.width));
+      const cell = row * width + column;
+      const offset = (y * source.width + x) * 4;
+      sums[cell * 3] += source.data[offset];
+      sums[cell * 3 + 1] += source.data[offset + 1];
+      sums[cell * 3 + 2] += source.data[offset + 2];
+      counts[cell]++;
+    }
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let cell = 0; cell < counts.length; cell++) {
+    const count = counts[cell] || 1;
+    data[cell * 4] = Math.round(sums[cell * 3] / count);
+    data[cell * 4 + 1] = Math.round(sums[cell * 3 + 1] / count);
+    data[cell * 4 + 2] = Math.round(sums[cell * 3 + 2] / count);
+    data[cell * 4 + 3] = 255;
+  }
+
+  return jpeg.encode({ width, height, data }, THUMBNAIL_QUALITY).data;
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BehaviorLog, WorkSession } from "@shared/schema";
+import { buildStatusIntervals, sumIntervals, totalsByDay } from "./time-accounting";
+
+const START = Date.UTC(2026, 9, 19, 9);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function log(id: number, status: string, offsetMs: number): BehaviorLog {
+  return {
+    id,
+    employeeId: 1,
+    status,
+    confidence: null,
+    source: null,
+    signals: null,
+    timestamp: new Date(START + offsetMs),
+    idempotencyKey: null,
+  };
+}
+
+function session(id: number, startMs: number, endMs: number | null): WorkSession {
+  return {
+    id,
+    employeeId: 1,
+    startedAt: new Date(START + startMs),
+    endedAt: endMs === null ? null : new Date(START + endMs),
+    endReason: endMs === null ? null : "manual_stop",
+  };
+}
+
+describe("buildStatusIntervals", () => {
+  it("counts a log until the next one within its session", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", 0), log(2, "idle", 30 * MINUTE)],
+      [session(1, 0, HOUR)],
+      new Date(START + 2 * HOUR),
+    ));
+
+    assert.equal(totals.working, 30 * 60);
+    assert.equal(totals.idle, 30 * 60);
+  });
+
+  it("ends the last log of a session when the session ends", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", 0)],
+      [session(1, 0, HOUR)],
+      new Date(START + 5 * HOUR),
+    ));
+
+    assert.equal(totals.working, 60 * 60);
+  });
+
+  it("runs an open session's last log until now", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", 0)],
+      [session(1, 0, null)],
+      new Date(START + 2 * HOUR),
+    ));
+
+    assert.equal(totals.working, 2 * 60 * 60);
+  });
+
+  it("counts the first log of a session taken just before the session opened", () => {
+    // The dashboard's first status log is stamped on its clock before the
+    // server stamps the session start
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", -40)],
+      [session(1, 0, HOUR)],
+      new Date(START + 2 * HOUR),
+    ));
+
+    assert.equal(totals.working, 60 * 60);
+  });
+
+  it("ends a log at the end of its own session, not at the next session's first log", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", 0), log(2, "idle", 3 * HOUR)],
+      [session(1, 0, HOUR), session(2, 3 * HOUR, 4 * HOUR)],
+      new Date(START + 5 * HOUR),
+    ));
+
+    assert.equal(totals.working, 60 * 60);
+    assert.equal(totals.idle, 60 * 60);
+  });
+
+  it("caps a log outside any session at five minutes", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", 0), log(2, "idle", HOUR)],
+      [],
+      new Date(START + 2 * HOUR),
+    ));
+
+    assert.equal(totals.working, 5 * 60);
+    assert.equal(totals.idle, 5 * 60);
+  });
+
+  it("caps a log taken well before a session opened like one outside any session", () => {
+    const totals = sumIntervals(buildStatusIntervals(
+      [log(1, "working", -2 * MINUTE)],
+      [session(1, 0, HOUR)],
+      new Date(START + 2 * HOUR),
+    ));
+
+    assert.equal(totals.working, 5 * 60);
+  });
+});
+
+describe("totalsByDay", () => {
+  it("splits intervals at midnight in the organization's time zone", () => {
+    // 23:00 to 01:00 in New York (EDT, UTC-4), which is all one UTC day
+    const start = Date.UTC(2026, 9, 19, 3);
+    const intervals = [{ employeeId: 1, status: "working" as const, start: new Date(start), end: new Date(start + 2 * HOUR) }];
+
+    const days = totalsByDay(intervals, "America/New_York");
+
+    assert.deepEqual(days.map(day => [day.date, day.totals.working]), [
+      ["2026-10-18", 60 * 60],
+      ["2026-10-19", 60 * 60],
+    ]);
+    assert.deepEqual(totalsByDay(intervals, "UTC").map(day => [day.date, day.totals.working]), [
+      ["2026-10-19", 2 * 60 * 60],
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  BehaviorStatus,
+  type BehaviorLog,
+  type BehaviorStatusType,
+  type StatusDispute,
+  type WorkSession,
+  type StatusTotals,
+  type DailyStatusTotals,
+  type TimeAccountingReport,
+} from "@shared/schema";
+import { now } from "./clock";
+import { addCalendarDays, dateInTimeZone, zonedTime } from "./time-zone";
+
+// Logs outside any work session (e.g. written before sessions existed) have
+// no known end, so they are assumed to last at most this long
+const MAX_UNSESSIONED_INTERVAL_MS = 5 * 60 * 1000;
+// A log this shortly before a session starts still belongs to it. The first
+// log of a session is taken on the employee's clock while the session start
+// is taken on the server's, so it can come out slightly earlier.
+const SESSION_START_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * A span of time spent in one behavior status
+ */
+export interface StatusInterval {
+  employeeId: number;
+  status: BehaviorStatusType;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A time range whose recorded status was overridden by an approved dispute
+ */
+export interface StatusCorrection {
+  status: BehaviorStatusType;
+  start: Date;
+  end: Date;
+}
+
+export function emptyTotals(): StatusTotals {
+  return { working: 0, idle: 0, sleeping: 0, moving: 0, inactive: 0 };
+}
+
+function toStatus(status: string): BehaviorStatusType {
+  const parsed = BehaviorStatus.safeParse(status);
+  return parsed.success ? parsed.data : "inactive";
+}
+
+/**
+ * Convert one employee's behavior transition log into status intervals.
+ * Each log lasts until the next log, but never past the end of the work
+ * session it belongs to (the session end is the manual stop, tab close or
+ * heartbeat loss). Open sessions run until `at`. Logs from just before a
+ * session starts count as part of it.
+ * @param logs - Behavior logs of a single employee, in any order
+ * @param sessions - Work sessions of the same employee
+ * @param at - Cut-off for open sessions
+ */
+export function buildStatusIntervals(
+  logs: BehaviorLog[],
+  sessions: WorkSession[],
+  at: Date = now(),
+): StatusInterval[] {
+  const sorted = [...logs].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const intervals: StatusInterval[] = [];
+
+  sorted.forEach((log, index) => {
+    const start = new Date(log.timestamp);
+    const next = sorted[index + 1];
+
+    const session = sessions.find(s =>
+      new Date(s.startedAt) <= start && (!s.endedAt || new Date(s.endedAt) >= start)
+    ) ?? sessions.find(s => {
+      const startedAt = new Date(s.startedAt).getTime();
+      return startedAt > start.getTime() && startedAt - start.getTime() <= SESSION_START_TOLERANCE_MS;
+    });
+
+    const limit = session
+      ? (session.endedAt ? new Date(session.endedAt) : at)
+      : new Date(start.getTime() + MAX_UNSESSIONED_INTERVAL_MS);
+
+    let end = next ? new Date(next.timestamp) : limit;
+    if (end > limit) end = limit;
+    if (end > at) end = at;
+
+    if (end > start) {
+      intervals.push({ employeeId: log.employeeId, status: toStatus(log.status), start, end });
+    }
+  });
+
+  return intervals;
+}
+
+/**
+ * Corrections made by approved disputes, oldest review first so later
+ * decisions win where ranges overlap
+ */
+export function correctionsFrom(disputes: StatusDispute[]): StatusCorrection[] {
+  return disputes
+    .filter(dispute => dispute.status === "approved")
+    .sort((a, b) => new Date(a.reviewedAt ?? a.createdAt).getTime() - new Date(b.reviewedAt ?? b.createdAt).getTime())
+    .map(dispute => ({
+      status: toStatus(dispute.claimedStatus),
+      start: new Date(dispute.startsAt),
+      end: new Date(dispute.endsAt),
+    }));
+}
+
+/**
+ * Give the parts of intervals covered by a correction the corrected status.
+ * Corrections only relabel recorded time; they never add time outside the
+ * employee's intervals.
+ */
+export function applyCorrections(intervals: StatusInterval[], corrections: StatusCorrection[]): StatusInterval[] {
+  return corrections.reduce((current, correction) => current.flatMap(interval => {
+    if (interval.end <= correction.start || interval.start >= correction.end) return [interval];
+
+    const pieces: StatusInterval[] = [];
+    if (interval.start < correction.start) {
+      pieces.push({ ...interval, end: correction.start });
+    }
+    pieces.push({
+      ...interval,
+      status: correction.status,
+      start: interval.start > correction.start ? interval.start : correction.start,
+      end: interval.end < correction.end ? interval.end : correction.end,
+    });
+    if (interval.end > correction.end) {
+      pieces.push({ ...interval, start: correction.end });
+    }
+    return pieces;
+  }), intervals);
+}
+
+/**
+ * Seconds of intervals whose status a correction changed
+ */
+function correctedSeconds(intervals: StatusInterval[], corrections: StatusCorrection[]): number {
+  let seconds = 0;
+  corrections.forEach(correction => {
+    clipIntervals(intervals, correction.start, correction.end).forEach(interval => {
+      if (interval.status !== correction.status) {
+        seconds += (interval.end.getTime() - interval.start.getTime()) / 1000;
+      }
+    });
+  });
+  return Math.round(seconds);
+}
+
+/**
+ * Clip intervals to a time window, dropping those entirely outside it
+ */
+export function clipIntervals(intervals: StatusInterval[], from: Date, to: Date): StatusInterval[] {
+  return intervals
+    .map(interval => ({
+      ...interval,
+      start: interval.start < from ? from : interval.start,
+      end: interval.end > to ? to : interval.end,
+    }))
+    .filter(interval => interval.end > interval.start);
+}
+
+/**
+ * Sum interval durations per status, in seconds
+ */
+export function sumIntervals(intervals: StatusInterval[]): StatusTotals {
+  const totals = emptyTotals();
+  intervals.forEach(interval => {
+    totals[interval.status] += (interval.end.getTime() - interval.start.getTime()) / 1000;
+  });
+
+  (Object.keys(totals) as BehaviorStatusType[]).forEach(status => {
+    totals[status] = Math.round(totals[status]);
+  });
+  return totals;
+}
+
+/**
+ * Split intervals at midnight in a time zone and total them per day
+ * @param timeZone - The organization's time zone, which days are counted in
+ */
+export function totalsByDay(intervals: StatusInterval[], timeZone: string): DailyStatusTotals[] {
+  const days = new Map<string, StatusInterval[]>();
+
+  intervals.forEach(interval => {
+    let day = dateInTimeZone(interval.start, timeZone);
+    let dayStart = zonedTime(day, timeZone);
+    while (dayStart < interval.end) {
+      const nextDay = addCalendarDays(day, 1);
+      const dayEnd = zonedTime(nextDay, timeZone);
+      const [piece] = clipIntervals([interval], dayStart, dayEnd);
+      if (piece) {
+        days.set(day, [...(days.get(day) ?? []), piece]);
+      }
+      day = nextDay;
+      dayStart = dayEnd;
+    }
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayIntervals]) => {
+      const totals = sumIntervals(dayIntervals);
+      return { date, totals, trackedSeconds: trackedSeconds(totals) };
+    });
+}
+
+/**
+ * Total tracked time, excluding time marked inactive
+ */
+export function trackedSeconds(totals: StatusTotals): number {
+  return totals.working + totals.idle + totals.sleeping + totals.moving;
+}
+
+/**
+ * One employee's status intervals within a window, with approved disputes applied
+ */
+export function correctedIntervals(
+  logs: BehaviorLog[],
+  sessions: WorkSession[],
+  disputes: StatusDispute[],
+  from: Date,
+  to: Date,
+  at: Date = now(),
+): StatusInterval[] {
+  const recorded = clipIntervals(buildStatusIntervals(logs, sessions, at), from, to);
+  return applyCorrections(recorded, correctionsFrom(disputes));
+}
+
+/**
+ * Build the time accounting report for one employee over a window, with
+ * approved disputes applied
+ * @param timeZone - The organization's time zone, which days are counted in
+ */
+export function buildTimeAccountingReport(
+  employeeId: number,
+  logs: BehaviorLog[],
+  sessions: WorkSession[],
+  disputes: StatusDispute[],
+  from: Date,
+  to: Date,
+  timeZone: string,
+  at: Date = now(),
+): TimeAccountingReport {
+  const recorded = clipIntervals(buildStatusIntervals(logs, sessions, at), from, to);
+  const corrections = correctionsFrom(disputes);
+  const intervals = applyCorrections(recorded, corrections);
+  const totals = sumIntervals(intervals);
+
+  return {
+    employeeId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals,
+    trackedSeconds: trackedSeconds(totals),
+    correctedSeconds: correctedSeconds(recorded, corrections),
+    days: totalsByDay(intervals, timeZone),
+  };
+}
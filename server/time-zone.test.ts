@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calendarDaysBetween, dateInTimeZone, minutesInTimeZone, weekdayOf, zonedTime } from "./time-zone";
+
+describe("dateInTimeZone", () => {
+  it("gives the calendar day in the time zone, not in UTC", () => {
+    const at = new Date("2026-10-19T03:00:00Z");
+
+    assert.equal(dateInTimeZone(at, "UTC"), "2026-10-19");
+    assert.equal(dateInTimeZone(at, "America/New_York"), "2026-10-18");
+    assert.equal(dateInTimeZone(new Date("2026-10-18T16:00:00Z"), "Asia/Tokyo"), "2026-10-19");
+  });
+});
+
+describe("minutesInTimeZone", () => {
+  it("counts from local midnight", () => {
+    assert.equal(minutesInTimeZone(new Date("2026-10-19T03:30:00Z"), "America/New_York"), 23 * 60 + 30);
+    assert.equal(minutesInTimeZone(new Date("2026-10-19T03:30:00Z"), "Asia/Kolkata"), 9 * 60);
+  });
+});
+
+describe("zonedTime", () => {
+  it("finds midnight in the time zone", () => {
+    assert.equal(zonedTime("2026-10-19", "UTC").toISOString(), "2026-10-19T00:00:00.000Z");
+    assert.equal(zonedTime("2026-10-19", "America/New_York").toISOString(), "2026-10-19T04:00:00.000Z");
+    assert.equal(zonedTime("2026-12-01", "America/New_York").toISOString(), "2026-12-01T05:00:00.000Z");
+    assert.equal(zonedTime("2026-10-19", "Asia/Tokyo").toISOString(), "2026-10-18T15:00:00.000Z");
+  });
+
+  it("finds a wall-clock time on the day", () => {
+    assert.equal(zonedTime("2026-10-19", "Europe/Berlin", "09:00").toISOString(), "2026-10-19T07:00:00.000Z");
+    assert.equal(zonedTime("2026-10-26", "Europe/Berlin", "09:00").toISOString(), "2026-10-26T08:00:00.000Z");
+  });
+
+  it("uses the offset in force at the time, not at midnight, on a DST change", () => {
+    // New York moves from EST to EDT at 02:00 on 8 March 2026
+    assert.equal(zonedTime("2026-03-08", "America/New_York").toISOString(), "2026-03-08T05:00:00.000Z");
+    assert.equal(zonedTime("2026-03-08", "America/New_York", "09:00").toISOString(), "2026-03-08T13:00:00.000Z");
+  });
+
+  it("resolves a time skipped by DST to an hour earlier", () => {
+    assert.equal(zonedTime("2026-03-08", "America/New_York", "02:30").toISOString(), "2026-03-08T06:30:00.000Z");
+  });
+
+  it("round-trips with dateInTimeZone", () => {
+    for (const timeZone of ["UTC", "America/New_York", "Asia/Tokyo", "Pacific/Auckland"]) {
+      assert.equal(dateInTimeZone(zonedTime("2026-03-08", timeZone), timeZone), "2026-03-08");
+    }
+  });
+});
+
+describe("calendar days", () => {
+  it("counts whole days across a DST change", () => {
+    assert.equal(calendarDaysBetween("2026-03-07", "2026-03-09"), 2);
+    assert.equal(calendarDaysBetween("2026-03-09", "2026-03-07"), -2);
+  });
+
+  it("knows the day of the week", () => {
+    assert.equal(weekdayOf("2026-10-18"), 0);
+    assert.equal(weekdayOf("2026-10-19"), 1);
+  });
+});
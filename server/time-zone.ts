@@ -0,0 +1,91 @@
+// Calendar arithmetic in IANA time zones with Intl alone, since date-fns
+// only knows the server's own zone
+
+// Wall-clock fields of a moment in a time zone
+function partsIn(date: Date, timeZone: string): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parseInt(parts.find(candidate => candidate.type === type)?.value ?? "0");
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// How far a time zone is ahead of UTC at a moment, in milliseconds
+function offsetAt(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = partsIn(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Minutes since midnight of a moment in a time zone
+ */
+export function minutesInTimeZone(date: Date, timeZone: string): number {
+  const { hour, minute } = partsIn(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * The calendar day (yyyy-MM-dd) a moment falls on in a time zone
+ */
+export function dateInTimeZone(date: Date, timeZone: string): string {
+  const { year, month, day } = partsIn(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The moment a wall-clock time on a calendar day happens in a time zone.
+ * Times skipped by a DST change resolve to an hour earlier.
+ * @param day - yyyy-MM-dd
+ * @param time - HH:mm, midnight when left out
+ */
+export function zonedTime(day: string, timeZone: string, time = "00:00"): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+
+  // The offset at the guess can differ from the one at the answer across a DST change
+  const guess = wallClock - offsetAt(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetAt(new Date(guess), timeZone));
+}
+
+/**
+ * The calendar day a number of days after another
+ */
+export function addCalendarDays(day: string, days: number): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * How many days one calendar day is after another, negative if it's before
+ */
+export function calendarDaysBetween(from: string, to: string): number {
+  const utcMidnight = (day: string) => {
+    const [year, month, date] = day.split("-").map(Number);
+    return Date.UTC(year, month - 1, date);
+  };
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Day of the week of a calendar day, 0 (Sunday) to 6 (Saturday)
+ */
+export function weekdayOf(day: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+}
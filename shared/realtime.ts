@@ -0,0 +1,211 @@
+/**
+ * Message protocol of the /api/ws WebSocket.
+ *
+ * Connecting requires a logged-in session cookie; anonymous upgrades are
+ * refused with 401. Every message is a JSON object carrying the protocol
+ * version `v`. A client starts with no subscriptions and receives events only
+ * for the topics it subscribes to, and only about employees it may see over
+ * the REST API.
+ *
+ *   client -> server  subscribe, unsubscribe
+ *   server -> client  ack (per subscribe/unsubscribe id), error, event
+ *
+ * The socket also carries WebRTC signaling for live views. A host sends
+ * live-start naming an employee in their scope; the server forwards it to
+ * that employee's connected dashboards. A dashboard that is sharing the
+ * requested stream answers with an SDP offer, and from then on live-signal
+ * messages (offer, answer, ICE candidates) are relayed between the two
+ * peers. Either side ends the view with live-stop, which the server also
+ * sends when a peer disconnects.
+ *
+ *   host -> server      live-start, live-signal, live-stop
+ *   employee -> server  live-signal, live-stop
+ *   server -> both      live-start (to the employee), live-signal, live-stop
+ */
+import { z } from "zod";
+import type { Absence, Alert, BehaviorLog, EmployeePresence, Recording, ScreenshotInfo, StatusDispute, WorkSession, WorkSubmissionInfo } from "./schema";
+
+export const REALTIME_PROTOCOL_VERSION = 1;
+
+// What a real-time client can follow: one employee, one team or a whole organization
+export type RealtimeTopic = `employee:${number}` | `team:${number}` | `organization:${number}`;
+
+export const realtimeTopicSchema = z.custom<RealtimeTopic>(
+  (value) => typeof value === "string" && /^(employee|team|organization):[1-9]\d*$/.test(value),
+  { message: "Topic must be employee:<id>, team:<id> or organization:<id>" },
+);
+
+/**
+ * Split a topic into its kind and ID
+ */
+export function parseRealtimeTopic(topic: RealtimeTopic): { kind: "employee" | "team" | "organization"; id: number } {
+  const [kind, id] = topic.split(":");
+  return { kind: kind as "employee" | "team" | "organization", id: parseInt(id) };
+}
+
+const version = z.literal(REALTIME_PROTOCOL_VERSION);
+
+// Client messages; `id` is echoed back in the ack or error answering it
+export const subscribeMessageSchema = z.object({
+  v: version,
+  type: z.literal("subscribe"),
+  id: z.string().min(1).max(64),
+  topics: z.array(realtimeTopicSchema).min(1).max(50),
+});
+
+export const unsubscribeMessageSchema = subscribeMessageSchema.extend({
+  type: z.literal("unsubscribe"),
+});
+
+// Live views
+export const LiveViewSource = z.enum(["screen", "webcam"]);
+
+// Why a live view ended: one side stopped it, the employee isn't sharing
+// the requested stream, or a peer's connection dropped
+export const LiveStopReason = z.enum(["ended", "unavailable", "disconnected"]);
+
+const liveSessionId = z.string().uuid();
+
+export const liveSignalPayloadSchema = z.object({
+  description: z.object({
+    type: z.enum(["offer", "answer"]),
+    sdp: z.string().max(100000),
+  }).optional(),
+  candidate: z.object({
+    candidate: z.string().max(2000),
+    sdpMid: z.string().nullable().optional(),
+    sdpMLineIndex: z.number().int().nullable().optional(),
+    usernameFragment: z.string().nullable().optional(),
+  }).optional(),
+});
+
+// Sent by a host; `id` is echoed back in the ack or error answering it
+export const liveStartRequestSchema = z.object({
+  v: version,
+  type: z.literal("live-start"),
+  id: z.string().min(1).max(64),
+  sessionId: liveSessionId,
+  employeeId: z.number().int().positive(),
+  source: LiveViewSource,
+});
+
+export const liveSignalMessageSchema = liveSignalPayloadSchema.extend({
+  v: version,
+  type: z.literal("live-signal"),
+  sessionId: liveSessionId,
+});
+
+export const liveStopMessageSchema = z.object({
+  v: version,
+  type: z.literal("live-stop"),
+  sessionId: liveSessionId,
+  reason: LiveStopReason,
+});
+
+export const realtimeClientMessageSchema = z.discriminatedUnion("type", [
+  subscribeMessageSchema,
+  unsubscribeMessageSchema,
+  liveStartRequestSchema,
+  liveSignalMessageSchema,
+  liveStopMessageSchema,
+]);
+
+// Server messages
+export const ackMessageSchema = z.object({
+  v: version,
+  type: z.literal("ack"),
+  id: z.string(),
+  // Everything the connection is subscribed to after the request
+  topics: z.array(realtimeTopicSchema),
+});
+
+export const RealtimeErrorCode = z.enum([
+  "invalid_message",
+  "unsupported_version",
+  "forbidden",
+  "internal_error",
+]);
+
+export const errorMessageSchema = z.object({
+  v: version,
+  type: z.literal("error"),
+  // Missing when the failed message had no readable id
+  id: z.string().optional(),
+  code: RealtimeErrorCode,
+  message: z.string(),
+});
+
+// Every event goes to hosts and admins whose scope covers the employee, and
+// all but alerts and absences also to the employee's own dashboards
+export const RealtimeEventName = z.enum([
+  "behavior-update",
+  "work-session",
+  "screenshot-update",
+  "work-submission",
+  "recording",
+  "presence",
+  "status-dispute",
+  "alert",
+  "absence",
+]);
+
+export const eventMessageSchema = z.object({
+  v: version,
+  type: z.literal("event"),
+  // The subscribed topic the event was delivered for
+  topic: realtimeTopicSchema,
+  name: RealtimeEventName,
+  // The row the event is about, as returned by the REST API (presence: an EmployeePresence)
+  data: z.object({ employeeId: z.number() }).passthrough(),
+});
+
+// Forwarded to the watched employee's dashboards
+export const liveStartNoticeSchema = z.object({
+  v: version,
+  type: z.literal("live-start"),
+  sessionId: liveSessionId,
+  source: LiveViewSource,
+  // Username of the host watching
+  viewer: z.string(),
+});
+
+export const realtimeServerMessageSchema = z.discriminatedUnion("type", [
+  ackMessageSchema,
+  errorMessageSchema,
+  eventMessageSchema,
+  liveStartNoticeSchema,
+  liveSignalMessageSchema,
+  liveStopMessageSchema,
+]);
+
+// Event payloads by name; data always concerns the employee in `data.employeeId`
+export type RealtimeEvent =
+  | { name: "behavior-update"; data: BehaviorLog }
+  | { name: "work-session"; data: WorkSession }
+  | { name: "screenshot-update"; data: ScreenshotInfo }
+  | { name: "work-submission"; data: WorkSubmissionInfo }
+  | { name: "recording"; data: Recording }
+  | { name: "presence"; data: EmployeePresence }
+  | { name: "status-dispute"; data: StatusDispute }
+  | { name: "alert"; data: Alert }
+  // A recorded absence, or one withdrawn because it no longer holds
+  | { name: "absence"; data: Absence };
+
+export type RealtimeClientMessage = z.infer<typeof realtimeClientMessageSchema>;
+export type RealtimeAckMessage = z.infer<typeof ackMessageSchema>;
+export type RealtimeErrorMessage = z.infer<typeof errorMessageSchema>;
+export type RealtimeErrorCodeType = z.infer<typeof RealtimeErrorCode>;
+export type RealtimeEventMessage = Omit<z.infer<typeof eventMessageSchema>, "name" | "data"> & RealtimeEvent;
+export type LiveViewSourceType = z.infer<typeof LiveViewSource>;
+export type LiveStopReasonType = z.infer<typeof LiveStopReason>;
+export type LiveSignalPayload = z.infer<typeof liveSignalPayloadSchema>;
+export type LiveStartNotice = z.infer<typeof liveStartNoticeSchema>;
+export type LiveSignalMessage = z.infer<typeof liveSignalMessageSchema>;
+export type LiveStopMessage = z.infer<typeof liveStopMessageSchema>;
+export type RealtimeServerMessage =
+  | RealtimeAckMessage
+  | RealtimeErrorMessage
+  | RealtimeEventMessage
+  | LiveStartNotice
+  | LiveSignalMessage
+  | LiveStopMessage;
@@ -1,58 +1,445 @@
-import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, jsonb, timestamp, date, boolean, unique, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+
+// Organization (tenant) schema
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // Short code employees enter when registering
+  slug: text("slug").notNull().unique(),
+  // Calendar days, e.g. for absence detection, are counted in this zone
+  timeZone: text("time_zone").notNull().default("UTC"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Team schema
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("teams_organization_name_unique").on(table.organizationId, table.name),
+]);
 
 // Employee schema
 export const employees = pgTable("employees", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  // Unassigned employees are only visible to organization admins
+  teamId: integer("team_id").references(() => teams.id, { onDelete: 'set null' }),
   name: text("name").notNull(),
+  // Stable identity (email or employee code), normalized to lower case.
+  // Nullable only so rows created before keys existed can still be loaded.
+  employeeKey: text("employee_key"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("employees_organization_key_unique").on(table.organizationId, table.employeeKey),
+]);
+
+// User account schema (hosts, admins and employees all sign in through this table)
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().default("employee"),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  // Set for employee accounts; hosts and admins have no employee row
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Teams a host manages (admins implicitly manage every team in their organization)
+export const teamManagers = pgTable("team_managers", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.teamId] }),
+]);
+
 // Behavior log schema
 export const behaviorLogs = pgTable("behavior_logs", {
   id: serial("id").primaryKey(),
   employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
   status: text("status").notNull(),
+  // Evidence behind the status; null on rows the server writes itself (e.g. presence timeouts)
+  confidence: real("confidence"),
+  source: text("source"),
+  signals: jsonb("signals").$type<BehaviorSignals>(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Client-chosen key of the upload that created the row, so a retried upload isn't stored twice
+  idempotencyKey: text("idempotency_key"),
+}, (table) => [
+  unique("behavior_logs_employee_idempotency_key_unique").on(table.employeeId, table.idempotencyKey),
+]);
+
+// Raw per-frame detections behind the behavior log, kept to audit misclassifications.
+// behaviorLogs only holds the filtered status transitions.
+export const behaviorSamples = pgTable("behavior_samples", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  status: text("status").notNull(),
+  confidence: real("confidence").notNull(),
+  // Which classifier produced it: the dashboard's own models or /api/analyze-behavior
+  source: text("source").notNull(),
+  signals: jsonb("signals").$type<BehaviorSignals>(),
+  capturedAt: timestamp("captured_at").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  // Idempotency key of the upload the sample came in and its place in that
+  // batch; null for uploads sent without a key
+  batchKey: text("batch_key"),
+  batchIndex: integer("batch_index"),
+}, (table) => [
+  // Dedupes batches the dashboard uploads again. Not keyed on capturedAt:
+  // distinct samples can share one once the server clamps a fast clock.
+  unique("behavior_samples_employee_batch_unique").on(table.employeeId, table.batchKey, table.batchIndex),
+  index("behavior_samples_employee_captured_idx").on(table.employeeId, table.capturedAt),
+]);
+
+// Work session schema (one row per Start/Stop Project cycle)
+export const workSessions = pgTable("work_sessions", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  // Both null while the session is still open
+  endedAt: timestamp("ended_at"),
+  endReason: text("end_reason"),
 });
 
-// Screenshot schema
+// Screenshot schema. The image itself lives in the blob store under `blobKey`
 export const screenshots = pgTable("screenshots", {
   id: serial("id").primaryKey(),
   employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
-  imageData: text("image_data").notNull(),
+  blobKey: text("blob_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  sha256: text("sha256").notNull(),
+  // Downscaled JPEG made at upload; null for screenshots stored before thumbnails existed
+  thumbnailBlobKey: text("thumbnail_blob_key"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
-});
+  // See behaviorLogs.idempotencyKey
+  idempotencyKey: text("idempotency_key"),
+}, (table) => [
+  unique("screenshots_employee_idempotency_key_unique").on(table.employeeId, table.idempotencyKey),
+]);
 
-// Work submission schema
+// Work submission schema. The file itself lives in the blob store under `blobKey`
 export const workSubmissions = pgTable("work_submissions", {
   id: serial("id").primaryKey(),
   employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
   description: text("description").notNull(),
-  fileData: text("file_data").notNull(),
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
+  blobKey: text("blob_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sha256: text("sha256").notNull(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
-});
+  // See behaviorLogs.idempotencyKey
+  idempotencyKey: text("idempotency_key"),
+}, (table) => [
+  unique("work_submissions_employee_idempotency_key_unique").on(table.employeeId, table.idempotencyKey),
+]);
 
-// Screen recording schema
+// Screen recording schema. A host requests a recording, the employee accepts
+// or declines it, and the browser then uploads MediaRecorder segments as chunks
 export const recordings = pgTable("recordings", {
   id: serial("id").primaryKey(),
   employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
-  videoData: text("video_data").notNull(),
-  mimeType: text("mime_type").notNull(),
+  requestedBy: integer("requested_by").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default("requested"),
+  // Seconds the host asked for; `duration` is what was actually recorded
+  requestedDuration: integer("requested_duration").notNull(),
+  // Set from the first uploaded chunk
+  mimeType: text("mime_type"),
   duration: integer("duration"),
+  sizeBytes: integer("size_bytes").notNull().default(0),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
 });
 
+// Consecutive segments of a recording, stored in the blob store; concatenated
+// in sequence order they form one playable WebM stream
+export const recordingChunks = pgTable("recording_chunks", {
+  recordingId: integer("recording_id").notNull().references(() => recordings.id, { onDelete: 'cascade' }),
+  sequence: integer("sequence").notNull(),
+  blobKey: text("blob_key").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  sha256: text("sha256").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.recordingId, table.sequence] }),
+]);
+
+// How employee dashboards capture, per team. The row without a team is the
+// organization default for teams without their own policy and unassigned employees.
+export const monitoringPolicies = pgTable("monitoring_policies", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  teamId: integer("team_id").references(() => teams.id, { onDelete: 'cascade' }),
+  behaviorIntervalSeconds: integer("behavior_interval_seconds").notNull().default(5),
+  // fixed: every screenshotMinIntervalSeconds; random: between the min and max interval; off: none
+  screenshotMode: text("screenshot_mode").notNull().default("random"),
+  screenshotMinIntervalSeconds: integer("screenshot_min_interval_seconds").notNull().default(120),
+  screenshotMaxIntervalSeconds: integer("screenshot_max_interval_seconds").notNull().default(300),
+  // JPEG quality, 1-100
+  screenshotQuality: integer("screenshot_quality").notNull().default(70),
+  // Screenshots are scaled down to fit these bounds
+  screenshotMaxWidth: integer("screenshot_max_width").notNull().default(1920),
+  screenshotMaxHeight: integer("screenshot_max_height").notNull().default(1080),
+  screenshotBlur: boolean("screenshot_blur").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("monitoring_policies_organization_team_unique").on(table.organizationId, table.teamId).nullsNotDistinct(),
+]);
+
+// An employee's dispute of the status recorded for a time range. Approved
+// disputes override the status in time accounting; behavior logs are never changed.
+export const statusDisputes = pgTable("status_disputes", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  // What the employee says they were doing
+  claimedStatus: text("claimed_status").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Pay rate history. The rate in force at a moment is the one with the latest
+// effectiveFrom at or before it.
+export const payRates = pgTable("pay_rates", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  // hourly: amountCents per hour worked; salaried: amountCents per year
+  payType: text("pay_type").notNull().default("hourly"),
+  amountCents: integer("amount_cents").notNull(),
+  // Hourly time past this many hours in a week (Monday to Sunday) is paid at the multiplier
+  overtimeThresholdHours: real("overtime_threshold_hours").notNull().default(40),
+  overtimeMultiplier: real("overtime_multiplier").notNull().default(1.5),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("pay_rates_employee_effective_unique").on(table.employeeId, table.effectiveFrom),
+]);
+
+// How an organization's pay periods are laid out
+export const payrollSettings = pgTable("payroll_settings", {
+  organizationId: integer("organization_id").primaryKey().references(() => organizations.id, { onDelete: 'cascade' }),
+  frequency: text("frequency").notNull().default("biweekly"),
+  // First day of a weekly or biweekly period; the others follow on from it
+  anchorDate: date("anchor_date", { mode: "string" }).notNull(),
+  currency: text("currency").notNull().default("USD"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A locked pay period. Open periods aren't stored; they follow from the
+// payroll settings and are recalculated on every read.
+export const payPeriods = pgTable("pay_periods", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  currency: text("currency").notNull(),
+  lockedBy: integer("locked_by").references(() => users.id, { onDelete: 'set null' }),
+  lockedAt: timestamp("locked_at").notNull().defaultNow(),
+}, (table) => [
+  unique("pay_periods_organization_start_unique").on(table.organizationId, table.startsAt),
+]);
+
+// Earnings frozen when their pay period was locked, so later log edits and
+// approved disputes don't change what was paid
+export const payrollLines = pgTable("payroll_lines", {
+  id: serial("id").primaryKey(),
+  payPeriodId: integer("pay_period_id").notNull().references(() => payPeriods.id, { onDelete: 'cascade' }),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  // Pay type of the last rate in force during the period; null without any rate
+  payType: text("pay_type"),
+  regularSeconds: integer("regular_seconds").notNull(),
+  overtimeSeconds: integer("overtime_seconds").notNull(),
+  regularCents: integer("regular_cents").notNull(),
+  overtimeCents: integer("overtime_cents").notNull(),
+  salaryCents: integer("salary_cents").notNull(),
+  grossCents: integer("gross_cents").notNull(),
+}, (table) => [
+  unique("payroll_lines_period_employee_unique").on(table.payPeriodId, table.employeeId),
+]);
+
+// A condition hosts want to hear about, checked against every employee the
+// rule covers. Rules without a team apply to the whole organization.
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  teamId: integer("team_id").references(() => teams.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  // status_duration: in `status` for `minutes`; status_share: in `status` for over
+  // `percent` of the last `minutes`; heartbeat_lost: dashboard silent for `minutes`
+  kind: text("kind").notNull(),
+  // Null for heartbeat_lost
+  status: text("status"),
+  minutes: integer("minutes").notNull(),
+  // Only set for status_share
+  percent: integer("percent"),
+  severity: text("severity").notNull().default("warning"),
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// An alert raised when an employee met a rule's condition. It stays open or
+// acknowledged until a host resolves it or the condition clears, and an
+// employee has at most one unresolved alert per rule.
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: 'cascade' }),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  // Copied from the rule, so later rule edits don't change raised alerts
+  severity: text("severity").notNull(),
+  message: text("message").notNull(),
+  status: text("status").notNull().default("open"),
+  triggeredAt: timestamp("triggered_at").notNull().defaultNow(),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id, { onDelete: 'set null' }),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  // Null on a resolved alert when the condition cleared by itself
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  uniqueIndex("alerts_rule_employee_unresolved_unique")
+    .on(table.ruleId, table.employeeId)
+    .where(sql`${table.status} <> 'resolved'`),
+]);
+
+// How a host or admin wants to be notified. Without a row they only get
+// in-app notifications.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  email: text("email"),
+  webhookUrl: text("webhook_url"),
+  // Key of the HMAC signature on webhook requests
+  webhookSecret: text("webhook_secret").notNull(),
+  // Channels per notification type; types left out use DEFAULT_NOTIFICATION_CHANNELS
+  channels: jsonb("channels").$type<NotificationRouting>().notNull().default({}),
+  // "HH:mm" in timeZone; both null without quiet hours
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timeZone: text("time_zone").notNull().default("UTC"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// In-app notifications, one row per recipient
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(),
+  severity: text("severity").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'set null' }),
+  alertId: integer("alert_id").references(() => alerts.id, { onDelete: 'set null' }),
+  // Null while unread
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// When employees are expected to work. Like monitoring policies, the row
+// without team or employee is the organization default; team rows override it
+// and employee rows override their team's.
+export const workSchedules = pgTable("work_schedules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  teamId: integer("team_id").references(() => teams.id, { onDelete: 'cascade' }),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: 'cascade' }),
+  // Days of the week, 0 (Sunday) to 6 (Saturday)
+  workDays: jsonb("work_days").$type<number[]>().notNull().default([1, 2, 3, 4, 5]),
+  // "HH:mm" in the organization's time zone
+  startTime: text("start_time").notNull().default("09:00"),
+  endTime: text("end_time").notNull().default("17:00"),
+  // An employee counts as absent once this long past the start without any activity that day
+  graceMinutes: integer("grace_minutes").notNull().default(60),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("work_schedules_organization_team_employee_unique")
+    .on(table.organizationId, table.teamId, table.employeeId)
+    .nullsNotDistinct(),
+]);
+
+// A scheduled work day without any activity from the employee. Withdrawn when
+// activity for that day turns up later, e.g. from an offline dashboard's outbox.
+export const absences = pgTable("absences", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id, { onDelete: 'cascade' }),
+  // Calendar day in the organization's time zone
+  date: date("date", { mode: "string" }).notNull(),
+  expectedStart: timestamp("expected_start").notNull(),
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+}, (table) => [
+  unique("absences_employee_date_unique").on(table.employeeId, table.date),
+]);
+
 // Relations
-export const employeesRelations = relations(employees, ({ many }) => ({
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  teams: many(teams),
+  employees: many(employees),
+  users: many(users),
+  payPeriods: many(payPeriods),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [teams.organizationId],
+    references: [organizations.id],
+  }),
+  employees: many(employees),
+  managers: many(teamManagers),
+}));
+
+export const teamManagersRelations = relations(teamManagers, ({ one }) => ({
+  user: one(users, {
+    fields: [teamManagers.userId],
+    references: [users.id],
+  }),
+  team: one(teams, {
+    fields: [teamManagers.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const employeesRelations = relations(employees, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [employees.organizationId],
+    references: [organizations.id],
+  }),
+  team: one(teams, {
+    fields: [employees.teamId],
+    references: [teams.id],
+  }),
   behaviorLogs: many(behaviorLogs),
+  behaviorSamples: many(behaviorSamples),
+  workSessions: many(workSessions),
   screenshots: many(screenshots),
   workSubmissions: many(workSubmissions),
   recordings: many(recordings),
+  statusDisputes: many(statusDisputes),
+  payRates: many(payRates),
+}));
+
+export const usersRelations = relations(users, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [users.organizationId],
+    references: [organizations.id],
+  }),
+  managedTeams: many(teamManagers),
+  employee: one(employees, {
+    fields: [users.employeeId],
+    references: [employees.id],
+  }),
 }));
 
 export const behaviorLogsRelations = relations(behaviorLogs, ({ one }) => ({
@@ -62,6 +449,20 @@ export const behaviorLogsRelations = relations(behaviorLogs, ({ one }) => ({
   }),
 }));
 
+export const behaviorSamplesRelations = relations(behaviorSamples, ({ one }) => ({
+  employee: one(employees, {
+    fields: [behaviorSamples.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const workSessionsRelations = relations(workSessions, ({ one }) => ({
+  employee: one(employees, {
+    fields: [workSessions.employeeId],
+    references: [employees.id],
+  }),
+}));
+
 export const screenshotsRelations = relations(screenshots, ({ one }) => ({
   employee: one(employees, {
     fields: [screenshots.employeeId],
@@ -76,47 +477,811 @@ export const workSubmissionsRelations = relations(workSubmissions, ({ one }) =>
   }),
 }));
 
-export const recordingsRelations = relations(recordings, ({ one }) => ({
+export const recordingsRelations = relations(recordings, ({ one, many }) => ({
   employee: one(employees, {
     fields: [recordings.employeeId],
     references: [employees.id],
   }),
+  requester: one(users, {
+    fields: [recordings.requestedBy],
+    references: [users.id],
+  }),
+  chunks: many(recordingChunks),
+}));
+
+export const recordingChunksRelations = relations(recordingChunks, ({ one }) => ({
+  recording: one(recordings, {
+    fields: [recordingChunks.recordingId],
+    references: [recordings.id],
+  }),
+}));
+
+export const monitoringPoliciesRelations = relations(monitoringPolicies, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [monitoringPolicies.organizationId],
+    references: [organizations.id],
+  }),
+  team: one(teams, {
+    fields: [monitoringPolicies.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const workSchedulesRelations = relations(workSchedules, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [workSchedules.organizationId],
+    references: [organizations.id],
+  }),
+  team: one(teams, {
+    fields: [workSchedules.teamId],
+    references: [teams.id],
+  }),
+  employee: one(employees, {
+    fields: [workSchedules.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const absencesRelations = relations(absences, ({ one }) => ({
+  employee: one(employees, {
+    fields: [absences.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const statusDisputesRelations = relations(statusDisputes, ({ one }) => ({
+  employee: one(employees, {
+    fields: [statusDisputes.employeeId],
+    references: [employees.id],
+  }),
+  reviewer: one(users, {
+    fields: [statusDisputes.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const payRatesRelations = relations(payRates, ({ one }) => ({
+  employee: one(employees, {
+    fields: [payRates.employeeId],
+    references: [employees.id],
+  }),
+  creator: one(users, {
+    fields: [payRates.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const payrollSettingsRelations = relations(payrollSettings, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [payrollSettings.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const payPeriodsRelations = relations(payPeriods, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [payPeriods.organizationId],
+    references: [organizations.id],
+  }),
+  locker: one(users, {
+    fields: [payPeriods.lockedBy],
+    references: [users.id],
+  }),
+  lines: many(payrollLines),
+}));
+
+export const payrollLinesRelations = relations(payrollLines, ({ one }) => ({
+  payPeriod: one(payPeriods, {
+    fields: [payrollLines.payPeriodId],
+    references: [payPeriods.id],
+  }),
+  employee: one(employees, {
+    fields: [payrollLines.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const alertRulesRelations = relations(alertRules, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [alertRules.organizationId],
+    references: [organizations.id],
+  }),
+  team: one(teams, {
+    fields: [alertRules.teamId],
+    references: [teams.id],
+  }),
+  creator: one(users, {
+    fields: [alertRules.createdBy],
+    references: [users.id],
+  }),
+  alerts: many(alerts),
+}));
+
+export const alertsRelations = relations(alerts, ({ one }) => ({
+  rule: one(alertRules, {
+    fields: [alerts.ruleId],
+    references: [alertRules.id],
+  }),
+  employee: one(employees, {
+    fields: [alerts.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  employee: one(employees, {
+    fields: [notifications.employeeId],
+    references: [employees.id],
+  }),
+  alert: one(alerts, {
+    fields: [notifications.alertId],
+    references: [alerts.id],
+  }),
 }));
 
 // Zod insert schemas
-export const insertEmployeeSchema = createInsertSchema(employees).pick({ name: true });
-export const insertBehaviorLogSchema = createInsertSchema(behaviorLogs).pick({ employeeId: true, status: true });
-export const insertScreenshotSchema = createInsertSchema(screenshots).pick({ employeeId: true, imageData: true });
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  slug: (schema) => schema.trim().toLowerCase().regex(/^[a-z0-9-]{3,}$/, "Code may only contain letters, digits and dashes"),
+}).pick({ name: true, slug: true });
+export const insertTeamSchema = createInsertSchema(teams).pick({ organizationId: true, name: true });
+export const insertEmployeeSchema = createInsertSchema(employees).pick({
+  organizationId: true,
+  teamId: true,
+  name: true,
+  employeeKey: true,
+});
+
+// Employee key normalization for lookups by key
+export const employeeKeySchema = z
+  .string()
+  .trim()
+  .min(3, "Employee key must be at least 3 characters")
+  .transform(key => key.toLowerCase());
+
+export const assignEmployeeTeamSchema = z.object({
+  teamId: z.number().int().positive().nullable(),
+});
+// Which classifier produced a detection: the dashboard's own models or /api/analyze-behavior
+export const DetectionSource = z.enum(["local", "server"]);
+export type DetectionSourceType = z.infer<typeof DetectionSource>;
+
+// Measurements a classifier based a detection on. Values are in that
+// classifier's own units, so only compare them within one source.
+export const behaviorSignalsSchema = z.object({
+  facePresent: z.boolean().optional(),
+  // Gap between the eyelids (local) or contrast around the eyes (server); low means closed
+  eyeOpenness: z.number().min(0).optional(),
+  // Landmark travel (local) or frame-to-frame change (server)
+  movement: z.number().min(0).optional(),
+});
+export type BehaviorSignals = z.infer<typeof behaviorSignalsSchema>;
+
+export const insertBehaviorLogSchema = createInsertSchema(behaviorLogs).pick({ employeeId: true, status: true }).extend({
+  confidence: z.number().min(0).max(1).nullish(),
+  source: DetectionSource.nullish(),
+  signals: behaviorSignalsSchema.nullish(),
+});
+export const insertBehaviorSampleSchema = createInsertSchema(behaviorSamples).pick({
+  employeeId: true,
+  status: true,
+  confidence: true,
+  source: true,
+  capturedAt: true,
+  batchKey: true,
+  batchIndex: true,
+}).extend({
+  signals: behaviorSignalsSchema.nullish(),
+});
+export const insertWorkSessionSchema = createInsertSchema(workSessions).pick({ employeeId: true });
+export const insertScreenshotSchema = createInsertSchema(screenshots).pick({
+  employeeId: true,
+  blobKey: true,
+  mimeType: true,
+  sizeBytes: true,
+  sha256: true,
+  thumbnailBlobKey: true,
+});
 export const insertWorkSubmissionSchema = createInsertSchema(workSubmissions).pick({
   employeeId: true,
   description: true,
-  fileData: true,
   fileName: true,
   fileSize: true,
+  blobKey: true,
+  mimeType: true,
+  sha256: true,
+});
+
+// Upload payloads; the server moves the decoded bytes into the blob store
+// When an upload was captured on the client; defaults to the time it arrives.
+// The server rejects times outside the window below.
+const capturedAtSchema = z.string().datetime({ offset: true }).optional();
+
+export const uploadBehaviorLogSchema = insertBehaviorLogSchema.extend({
+  capturedAt: capturedAtSchema,
+});
+
+export const uploadScreenshotSchema = z.object({
+  employeeId: z.number().int().positive(),
+  imageData: z.string().min(1), // base64 JPEG, without the data URL prefix
+  capturedAt: capturedAtSchema,
+});
+
+// Sent with uploads that may be retried; a repeated key returns the stored row instead of a copy
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const idempotencyKeySchema = z.string().regex(/^[A-Za-z0-9_.:-]{8,128}$/, "Invalid idempotency key");
+
+// How far a client clock may run ahead of the server's, and how late an upload may arrive
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+export const MAX_UPLOAD_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const uploadWorkSubmissionSchema = z.object({
+  employeeId: z.number().int().positive(),
+  description: z.string().trim().min(1),
+  fileName: z.string().trim().min(1),
+  fileData: z.string().min(1), // base64, without the data URL prefix
+  mimeType: z.string().optional(),
+  capturedAt: capturedAtSchema,
 });
 export const insertRecordingSchema = createInsertSchema(recordings).pick({
   employeeId: true,
-  videoData: true,
-  mimeType: true,
-  duration: true,
+  requestedBy: true,
+  requestedDuration: true,
+});
+
+export const insertStatusDisputeSchema = createInsertSchema(statusDisputes).pick({
+  employeeId: true,
+  startsAt: true,
+  endsAt: true,
+  claimedStatus: true,
+  reason: true,
+});
+
+export const insertPayRateSchema = createInsertSchema(payRates).pick({
+  employeeId: true,
+  payType: true,
+  amountCents: true,
+  overtimeThresholdHours: true,
+  overtimeMultiplier: true,
+  effectiveFrom: true,
+  createdBy: true,
+});
+
+export const insertPayrollLineSchema = createInsertSchema(payrollLines).omit({ id: true, payPeriodId: true });
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules).pick({
+  organizationId: true,
+  teamId: true,
+  name: true,
+  kind: true,
+  status: true,
+  minutes: true,
+  percent: true,
+  severity: true,
+  enabled: true,
+  createdBy: true,
+});
+
+export const insertAlertSchema = createInsertSchema(alerts).pick({
+  ruleId: true,
+  employeeId: true,
+  severity: true,
+  message: true,
+});
+
+export const insertAbsenceSchema = createInsertSchema(absences).pick({
+  employeeId: true,
+  date: true,
+  expectedStart: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  type: true,
+  severity: true,
+  title: true,
+  body: true,
+  employeeId: true,
+  alertId: true,
+});
+
+// Longest recording a host may request, in seconds
+export const MAX_RECORDING_SECONDS = 300;
+
+export const requestRecordingSchema = z.object({
+  employeeId: z.number().int().positive(),
+  durationSeconds: z.number().int().min(10).max(MAX_RECORDING_SECONDS),
+});
+
+export const recordingConsentSchema = z.object({
+  accepted: z.boolean(),
+});
+
+export const completeRecordingSchema = z.object({
+  durationSeconds: z.number().int().min(0).max(MAX_RECORDING_SECONDS * 2),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  passwordHash: true,
+  role: true,
+  organizationId: true,
+  employeeId: true,
+});
+
+// Login and registration payloads (plain password, hashed on the server)
+export const loginSchema = z.object({
+  username: z.string().trim().min(3),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const registerEmployeeSchema = loginSchema.extend({
+  name: z.string().trim().min(3, "Name must be at least 3 characters"),
+  organizationCode: z.string().trim().min(3, "Please enter your organization code").transform(code => code.toLowerCase()),
+});
+
+// Creates an organization together with its first admin account
+export const registerOrganizationSchema = insertOrganizationSchema.extend({
+  adminUsername: loginSchema.shape.username,
+  adminPassword: loginSchema.shape.password,
 });
 
 // Type exports
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type RegisterOrganizationData = z.infer<typeof registerOrganizationSchema>;
+
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+
 export type Employee = typeof employees.$inferSelect;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
+export type LoginData = z.infer<typeof loginSchema>;
+export type RegisterEmployeeData = z.infer<typeof registerEmployeeSchema>;
+
 export type BehaviorLog = typeof behaviorLogs.$inferSelect;
 export type InsertBehaviorLog = z.infer<typeof insertBehaviorLogSchema>;
 
+export type WorkSession = typeof workSessions.$inferSelect;
+export type InsertWorkSession = z.infer<typeof insertWorkSessionSchema>;
+
 export type Screenshot = typeof screenshots.$inferSelect;
 export type InsertScreenshot = z.infer<typeof insertScreenshotSchema>;
+// API shape: metadata plus URLs, never the blob key or payload
+export type ScreenshotInfo = Omit<Screenshot, "blobKey" | "thumbnailBlobKey"> & { imageUrl: string; thumbnailUrl: string };
+
+// One page of an employee's screenshots, newest first
+export interface ScreenshotPage {
+  items: ScreenshotInfo[];
+  // Pass back as ?cursor= for the next (older) page; null on the last page
+  nextCursor: string | null;
+}
 
 export type WorkSubmission = typeof workSubmissions.$inferSelect;
 export type InsertWorkSubmission = z.infer<typeof insertWorkSubmissionSchema>;
+export type WorkSubmissionInfo = Omit<WorkSubmission, "blobKey"> & { fileUrl: string };
 
 export type Recording = typeof recordings.$inferSelect;
 export type InsertRecording = z.infer<typeof insertRecordingSchema>;
+export type RecordingChunk = typeof recordingChunks.$inferSelect;
+
+export type StatusDispute = typeof statusDisputes.$inferSelect;
+export type InsertStatusDispute = z.infer<typeof insertStatusDisputeSchema>;
+export type CreateStatusDispute = z.infer<typeof createStatusDisputeSchema>;
+
+export type PayRate = typeof payRates.$inferSelect;
+export type InsertPayRate = z.infer<typeof insertPayRateSchema>;
+export type PayrollSettings = typeof payrollSettings.$inferSelect;
+export type PayrollSettingsInput = z.infer<typeof payrollSettingsSchema>;
+export type PayPeriod = typeof payPeriods.$inferSelect;
+export type PayrollLine = typeof payrollLines.$inferSelect;
+export type InsertPayrollLine = z.infer<typeof insertPayrollLineSchema>;
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRuleSettings = z.infer<typeof alertRuleSettingsSchema>;
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type WorkSchedule = typeof workSchedules.$inferSelect;
+export type WorkScheduleSettings = z.infer<typeof workScheduleSettingsSchema>;
+export type Absence = typeof absences.$inferSelect;
+export type InsertAbsence = z.infer<typeof insertAbsenceSchema>;
+export type OrganizationSettings = z.infer<typeof organizationSettingsSchema>;
+
+// The schedule an employee is held to, and where it came from
+export interface EffectiveWorkSchedule extends WorkScheduleSettings {
+  source: "employee" | "team" | "organization" | "default";
+}
+
+export interface AbsenceSummary extends Absence {
+  employeeName: string;
+}
+
+// Absences in a range of days, with the organization's current day to place them
+export interface AbsenceReport {
+  timeZone: string;
+  // yyyy-MM-dd in timeZone
+  today: string;
+  absences: AbsenceSummary[];
+}
+
+export type MonitoringPolicy = typeof monitoringPolicies.$inferSelect;
+export type MonitoringPolicySettings = z.infer<typeof monitoringPolicySettingsSchema>;
+
+// The policy an employee's dashboard applies, and where it came from
+export interface EffectiveMonitoringPolicy extends MonitoringPolicySettings {
+  source: "team" | "organization" | "default";
+}
 
 // Status type validation
 export const BehaviorStatus = z.enum(["working", "idle", "sleeping", "moving", "inactive"]);
 export type BehaviorStatusType = z.infer<typeof BehaviorStatus>;
+
+// Time accounting responses (durations in seconds)
+export type StatusTotals = Record<BehaviorStatusType, number>;
+
+export interface DailyStatusTotals {
+  date: string; // yyyy-MM-dd
+  totals: StatusTotals;
+  trackedSeconds: number;
+}
+
+export interface TimeAccountingReport {
+  employeeId: number;
+  from: string;
+  to: string;
+  totals: StatusTotals;
+  // Everything except inactive time
+  trackedSeconds: number;
+  // Time whose recorded status approved disputes changed; totals include the corrections
+  correctedSeconds: number;
+  days: DailyStatusTotals[];
+}
+
+// Host dashboard summary, with deltas against the previous period
+export interface EmployeeDaySummary {
+  status: BehaviorStatusType;
+  trackedSecondsToday: number;
+  workingSecondsToday: number;
+  // Share of tracked time spent working or moving, 0-100
+  productivePercentage: number;
+}
+
+export interface DashboardSummary {
+  generatedAt: string;
+  totalEmployees: number;
+  newEmployeesToday: number;
+  activeEmployees: number;
+  activeDeltaSinceHourAgo: number;
+  avgWorkingSecondsToday: number;
+  avgWorkingDeltaSinceYesterday: number;
+  workSubmissionsToday: number;
+  workSubmissionsDeltaSinceYesterday: number;
+  employees: Record<number, EmployeeDaySummary>;
+}
+
+// Server-side webcam frame classification
+export const analyzeBehaviorSchema = z.object({
+  employeeId: z.number().int().positive(),
+  imageData: z.string().min(1), // base64 JPEG, without the data URL prefix
+});
+
+export interface BehaviorAnalysisResult {
+  status: BehaviorStatusType;
+  confidence: number; // 0-1
+  signals: BehaviorSignals;
+  reasons: string[];
+  classifier: string;
+}
+
+// Raw detections uploaded in batches by the employee dashboard
+export const MAX_BEHAVIOR_SAMPLE_BATCH = 500;
+
+export const behaviorSampleSchema = z.object({
+  status: BehaviorStatus,
+  confidence: z.number().min(0).max(1),
+  capturedAt: z.string().datetime({ offset: true }),
+  source: DetectionSource,
+  signals: behaviorSignalsSchema.optional(),
+});
+
+export const uploadBehaviorSamplesSchema = z.object({
+  employeeId: z.number().int().positive(),
+  samples: z.array(behaviorSampleSchema).min(1).max(MAX_BEHAVIOR_SAMPLE_BATCH),
+});
+
+export type BehaviorSample = typeof behaviorSamples.$inferSelect;
+export type InsertBehaviorSample = z.infer<typeof insertBehaviorSampleSchema>;
+export type BehaviorSampleInput = z.infer<typeof behaviorSampleSchema>;
+
+// Sent periodically by an open employee dashboard
+export const heartbeatSchema = z.object({
+  employeeId: z.number().int().positive(),
+  // Status the dashboard is showing, restored if the server had timed the employee out
+  status: BehaviorStatus,
+  // Set on heartbeats replayed from the offline outbox
+  capturedAt: capturedAtSchema,
+});
+
+// Whether an employee's dashboard is open, as seen by the server's heartbeat registry
+export interface EmployeePresence {
+  employeeId: number;
+  online: boolean;
+  // Last heartbeat since the server started, null if there was none
+  lastSeenAt: string | null;
+}
+
+// Why a work session ended
+export const WorkSessionEndReason = z.enum(["manual_stop", "tab_closed", "heartbeat_lost"]);
+export type WorkSessionEndReasonType = z.infer<typeof WorkSessionEndReason>;
+
+export const endWorkSessionSchema = z.object({
+  reason: WorkSessionEndReason,
+});
+
+// Recording lifecycle: requested -> declined, or requested -> recording -> completed
+export const RecordingStatus = z.enum(["requested", "declined", "recording", "completed"]);
+export type RecordingStatusType = z.infer<typeof RecordingStatus>;
+
+// Dispute lifecycle: pending -> approved or rejected
+export const DisputeStatus = z.enum(["pending", "approved", "rejected"]);
+export type DisputeStatusType = z.infer<typeof DisputeStatus>;
+
+// Longest time range one dispute may cover, and how far back it may start
+export const MAX_DISPUTE_RANGE_MS = 12 * 60 * 60 * 1000;
+export const MAX_DISPUTE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const createStatusDisputeSchema = z.object({
+  employeeId: z.number().int().positive(),
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt: z.string().datetime({ offset: true }),
+  claimedStatus: BehaviorStatus,
+  reason: z.string().trim().min(1, "Please explain what was wrong").max(1000),
+}).refine(
+  dispute => new Date(dispute.startsAt) < new Date(dispute.endsAt),
+  { message: "The range must end after it starts", path: ["endsAt"] },
+).refine(
+  dispute => new Date(dispute.endsAt).getTime() - new Date(dispute.startsAt).getTime() <= MAX_DISPUTE_RANGE_MS,
+  { message: "A dispute can cover at most 12 hours", path: ["endsAt"] },
+);
+
+export const reviewStatusDisputeSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Payroll
+export const PayType = z.enum(["hourly", "salaried"]);
+export type PayTypeType = z.infer<typeof PayType>;
+
+// weekly and biweekly periods run on from the anchor date; semimonthly ones
+// are the 1st-15th and the 16th to month end; monthly ones are calendar months
+export const PayFrequency = z.enum(["weekly", "biweekly", "semimonthly", "monthly"]);
+export type PayFrequencyType = z.infer<typeof PayFrequency>;
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date");
+
+export const payrollSettingsSchema = z.object({
+  frequency: PayFrequency,
+  anchorDate: calendarDateSchema,
+  currency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code"),
+});
+
+// Applied until an admin saves the organization's settings; 2024-01-01 was a Monday
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettingsInput = {
+  frequency: "biweekly",
+  anchorDate: "2024-01-01",
+  currency: "USD",
+};
+
+export const createPayRateSchema = z.object({
+  employeeId: z.number().int().positive(),
+  payType: PayType,
+  amountCents: z.number().int().min(0).max(100_000_000),
+  overtimeThresholdHours: z.number().min(0).max(168).default(40),
+  overtimeMultiplier: z.number().min(1).max(5).default(1.5),
+  // Starts at midnight, server time
+  effectiveFrom: calendarDateSchema,
+});
+
+export const lockPayPeriodSchema = z.object({
+  startsAt: z.string().datetime({ offset: true }),
+});
+
+// A pay period as listed on the payroll screen
+export interface PayPeriodInfo {
+  startsAt: string;
+  endsAt: string;
+  // Set once the period is locked
+  id: number | null;
+  lockedAt: string | null;
+}
+
+// One employee's earnings in a pay period, in cents of the period's currency
+export interface PayrollLineSummary extends Omit<PayrollLine, "id" | "payPeriodId"> {
+  employeeName: string;
+}
+
+export interface PayPeriodSummary extends PayPeriodInfo {
+  currency: string;
+  lines: PayrollLineSummary[];
+  totalCents: number;
+}
+
+// Alerting
+export const AlertRuleKind = z.enum(["status_duration", "status_share", "heartbeat_lost"]);
+export type AlertRuleKindType = z.infer<typeof AlertRuleKind>;
+
+export const AlertSeverity = z.enum(["info", "warning", "critical"]);
+export type AlertSeverityType = z.infer<typeof AlertSeverity>;
+
+// Alert lifecycle: open -> acknowledged -> resolved, or straight to resolved
+export const AlertStatus = z.enum(["open", "acknowledged", "resolved"]);
+export type AlertStatusType = z.infer<typeof AlertStatus>;
+
+// A rule as edited on the alerts page; a null team means the whole organization
+export const alertRuleSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Name the rule").max(100),
+  teamId: z.number().int().positive().nullable(),
+  kind: AlertRuleKind,
+  status: BehaviorStatus.nullable(),
+  minutes: z.number().int().min(1).max(24 * 60),
+  percent: z.number().int().min(1).max(99).nullable(),
+  severity: AlertSeverity,
+  enabled: z.boolean(),
+}).refine(rule => rule.kind === "heartbeat_lost" || rule.status !== null, {
+  message: "Pick the status to watch",
+  path: ["status"],
+}).refine(rule => rule.kind !== "status_share" || rule.percent !== null, {
+  message: "Set the share of the window",
+  path: ["percent"],
+});
+
+// An alert as listed in the inbox
+export interface AlertSummary extends Alert {
+  employeeName: string;
+  ruleName: string;
+}
+
+// Notifications
+export const NotificationChannel = z.enum(["in_app", "email", "webhook"]);
+export type NotificationChannelType = z.infer<typeof NotificationChannel>;
+
+// What a notification is about; alerts notify by the kind of their rule
+export const NotificationType = z.enum(["status_duration", "status_share", "heartbeat_lost", "absence"]);
+export type NotificationTypeType = z.infer<typeof NotificationType>;
+
+export type NotificationRouting = Partial<Record<NotificationTypeType, NotificationChannelType[]>>;
+
+// Channels of notification types a host hasn't configured
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannelType[] = ["in_app"];
+
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a HH:mm time");
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const notificationPreferencesSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").max(254).nullable(),
+  webhookUrl: z.string().trim().url("Enter a valid URL").max(2000)
+    .refine(url => /^https?:\/\//.test(url), "Webhooks must use http or https")
+    .nullable(),
+  channels: z.record(NotificationType, z.array(NotificationChannel).max(3)),
+  quietHoursStart: clockTimeSchema.nullable(),
+  quietHoursEnd: clockTimeSchema.nullable(),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+}).refine(preferences => (preferences.quietHoursStart === null) === (preferences.quietHoursEnd === null), {
+  message: "Set both ends of the quiet hours, or neither",
+  path: ["quietHoursEnd"],
+});
+
+// Applied until a host saves their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferencesInput = {
+  email: null,
+  webhookUrl: null,
+  channels: {},
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timeZone: "UTC",
+};
+
+// A host's preferences as shown to them, with the key to check webhook signatures
+export interface NotificationSettings extends NotificationPreferencesInput {
+  webhookSecret: string | null;
+}
+
+// A host's latest in-app notifications
+export interface NotificationInbox {
+  items: Notification[];
+  unreadCount: number;
+}
+
+export const organizationSettingsSchema = z.object({
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+});
+
+export const workScheduleSettingsSchema = z.object({
+  workDays: z.array(z.number().int().min(0).max(6)).max(7)
+    .refine(days => new Set(days).size === days.length, "Each day may only appear once"),
+  startTime: clockTimeSchema,
+  endTime: clockTimeSchema,
+  graceMinutes: z.number().int().min(0).max(720),
+}).refine(schedule => schedule.startTime < schedule.endTime, {
+  // Shifts past midnight would span two calendar days
+  message: "The work day must end after it starts",
+  path: ["endTime"],
+});
+
+// ?from=&to= of the absence list; both ends included
+export const absenceRangeSchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+});
+
+// Applied where no schedule covers an employee; matches the column defaults
+export const DEFAULT_WORK_SCHEDULE: WorkScheduleSettings = {
+  workDays: [1, 2, 3, 4, 5],
+  startTime: "09:00",
+  endTime: "17:00",
+  graceMinutes: 60,
+};
+
+// Capture settings of a monitoring policy, as edited on the settings page
+export const ScreenshotMode = z.enum(["fixed", "random", "off"]);
+export type ScreenshotModeType = z.infer<typeof ScreenshotMode>;
+
+export const monitoringPolicySettingsSchema = z.object({
+  behaviorIntervalSeconds: z.number().int().min(1).max(600),
+  screenshotMode: ScreenshotMode,
+  screenshotMinIntervalSeconds: z.number().int().min(10).max(86400),
+  screenshotMaxIntervalSeconds: z.number().int().min(10).max(86400),
+  screenshotQuality: z.number().int().min(10).max(100),
+  screenshotMaxWidth: z.number().int().min(320).max(7680),
+  screenshotMaxHeight: z.number().int().min(240).max(4320),
+  screenshotBlur: z.boolean(),
+}).refine(policy => policy.screenshotMinIntervalSeconds <= policy.screenshotMaxIntervalSeconds, {
+  message: "Minimum screenshot interval must not exceed the maximum",
+  path: ["screenshotMaxIntervalSeconds"],
+});
+
+// Applied where neither the team nor the organization has a policy; matches the column defaults
+export const DEFAULT_MONITORING_POLICY: MonitoringPolicySettings = {
+  behaviorIntervalSeconds: 5,
+  screenshotMode: "random",
+  screenshotMinIntervalSeconds: 120,
+  screenshotMaxIntervalSeconds: 300,
+  screenshotQuality: 70,
+  screenshotMaxWidth: 1920,
+  screenshotMaxHeight: 1080,
+  screenshotBlur: false,
+};
+
+// Account roles
+export const UserRole = z.enum(["host", "admin", "employee"]);
+export type UserRoleType = z.infer<typeof UserRole>;